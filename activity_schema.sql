@@ -0,0 +1,121 @@
+-- Task Activity Setup
+-- Append-only history of task changes, per task and per household.
+-- Run after fairness_schema.sql and tags_schema.sql.
+
+-- 1. History entries. There's no foreign key to tasks so the history outlives deleted tasks.
+CREATE TABLE IF NOT EXISTS task_activity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  task_id uuid NOT NULL,
+  task_title text NOT NULL,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  action text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone DEFAULT NOW(),
+  CONSTRAINT chk_task_activity_action CHECK (action IN (
+    'created', 'edited', 'assigned', 'submitted', 'approved', 'rejected', 'completed', 'reopened', 'deleted'
+  ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_activity_task ON task_activity(task_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_activity_household ON task_activity(household_id, created_at DESC);
+
+-- 2. Write the history from the tasks table itself, whoever made the change.
+-- Runs as definer because nobody can insert into task_activity directly.
+CREATE OR REPLACE FUNCTION log_task_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := COALESCE(auth.uid(), CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.updated_by END);
+  edited text[] := '{}';
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO task_activity (household_id, task_id, task_title, actor_id, action, details)
+    VALUES (NEW.household_id, NEW.id, NEW.title, actor, 'created', jsonb_build_object('assignee', NEW.assignee));
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Nothing to record when the whole household is being deleted
+    IF NOT EXISTS (SELECT 1 FROM households WHERE id = OLD.household_id) THEN
+      RETURN NULL;
+    END IF;
+    INSERT INTO task_activity (household_id, task_id, task_title, actor_id, action)
+    VALUES (OLD.household_id, OLD.id, OLD.title, actor, 'deleted');
+    RETURN NULL;
+  END IF;
+
+  IF NEW.state IS DISTINCT FROM OLD.state THEN
+    INSERT INTO task_activity (household_id, task_id, task_title, actor_id, action, details)
+    VALUES (
+      NEW.household_id, NEW.id, NEW.title, actor,
+      CASE
+        WHEN NEW.state = 'pending_review' THEN 'submitted'
+        WHEN OLD.state = 'pending_review' AND NEW.state = 'completed' THEN 'approved'
+        WHEN OLD.state = 'pending_review' THEN 'rejected'
+        WHEN NEW.state = 'completed' THEN 'completed'
+        ELSE 'reopened'
+      END,
+      CASE
+        WHEN OLD.state = 'pending_review' AND NEW.state = 'open'
+        THEN jsonb_build_object('reason', NEW.review_reason)
+        ELSE '{}'::jsonb
+      END
+    );
+  END IF;
+
+  IF NEW.assignee IS DISTINCT FROM OLD.assignee THEN
+    INSERT INTO task_activity (household_id, task_id, task_title, actor_id, action, details)
+    VALUES (NEW.household_id, NEW.id, NEW.title, actor, 'assigned', jsonb_build_object('assignee', NEW.assignee));
+  END IF;
+
+  -- Counters, attribution and review bookkeeping are left out; they change as a side effect
+  IF NEW.household_id IS DISTINCT FROM OLD.household_id THEN edited := edited || 'household_id'; END IF;
+  IF NEW.title IS DISTINCT FROM OLD.title THEN edited := edited || 'title'; END IF;
+  IF NEW.details IS DISTINCT FROM OLD.details THEN edited := edited || 'details'; END IF;
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN edited := edited || 'due_date'; END IF;
+  IF NEW.due_all_day IS DISTINCT FROM OLD.due_all_day THEN edited := edited || 'due_all_day'; END IF;
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN edited := edited || 'priority'; END IF;
+  IF NEW.points IS DISTINCT FROM OLD.points THEN edited := edited || 'points'; END IF;
+  IF NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule THEN edited := edited || 'recurrence_rule'; END IF;
+  IF NEW.rotation IS DISTINCT FROM OLD.rotation THEN edited := edited || 'rotation'; END IF;
+  IF NEW.requires_proof IS DISTINCT FROM OLD.requires_proof THEN edited := edited || 'requires_proof'; END IF;
+  IF NEW.requires_review IS DISTINCT FROM OLD.requires_review THEN edited := edited || 'requires_review'; END IF;
+  IF NEW.tag_ids IS DISTINCT FROM OLD.tag_ids THEN edited := edited || 'tag_ids'; END IF;
+
+  IF array_length(edited, 1) > 0 THEN
+    INSERT INTO task_activity (household_id, task_id, task_title, actor_id, action, details)
+    VALUES (NEW.household_id, NEW.id, NEW.title, actor, 'edited', jsonb_build_object('fields', to_jsonb(edited)));
+    -- The household a task moved out of keeps a record of it leaving
+    IF NEW.household_id IS DISTINCT FROM OLD.household_id THEN
+      INSERT INTO task_activity (household_id, task_id, task_title, actor_id, action, details)
+      VALUES (OLD.household_id, NEW.id, NEW.title, actor, 'edited', jsonb_build_object('fields', to_jsonb(edited)));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_task_activity ON tasks;
+CREATE TRIGGER log_task_activity
+  AFTER INSERT OR UPDATE OR DELETE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION log_task_activity();
+
+-- 3. Members read their households' history. There are no insert, update or delete policies,
+-- so the log can't be changed from the app.
+ALTER TABLE task_activity ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view task activity" ON task_activity;
+CREATE POLICY "Members can view task activity"
+  ON task_activity FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
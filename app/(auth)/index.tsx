@@ -1,3 +1,4 @@
+import { getRepository } from '@/lib/data';
 import { supabase } from '@/lib/supabaseClient';
 import { useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
@@ -65,34 +66,30 @@ export default function AuthScreen() {
       if (isSigningUp) {
         // Create user profile in users table
         if (data.user) {
-          await supabase
-            .from('users')
-            .insert({
+          try {
+            await getRepository().users.create({
               id: data.user.id,
               email: data.user.email || '',
               name: data.user.email?.split('@')[0] || 'User',
               phone: phone.trim(),
             });
+          } catch (profileError) {
+            console.error('Error creating user profile:', profileError);
+          }
         }
         Alert.alert('Sign up successful!', 'You can now log in.');
         setIsSigningUp(false); // stay on login screen
       } else {
         // Ensure user exists in users table
         if (data.user) {
-          const { data: existingUser } = await supabase
-            .from('users')
-            .select('id')
-            .eq('id', data.user.id)
-            .single();
-
-          if (!existingUser) {
-            await supabase
-              .from('users')
-              .insert({
-                id: data.user.id,
-                email: data.user.email || '',
-                name: data.user.user_metadata?.full_name || data.user.email?.split('@')[0] || 'User',
-              });
+          try {
+            await getRepository().users.ensure({
+              id: data.user.id,
+              email: data.user.email || '',
+              name: data.user.user_metadata?.full_name || data.user.email?.split('@')[0] || 'User',
+            });
+          } catch (profileError) {
+            console.error('Error ensuring user profile:', profileError);
           }
         }
         Alert.alert('Logged in!');
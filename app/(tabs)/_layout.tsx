@@ -1,11 +1,14 @@
 import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useColorScheme } from 'react-native';
+import { useTaskNotifications } from '@/hooks/useTaskNotifications';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
 
+  useTaskNotifications();
+
   return (
     <Tabs
       screenOptions={{
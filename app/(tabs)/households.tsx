@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabaseClient';
+import { errorMessage, getRepository, HouseholdSummary } from '@/lib/data';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useEffect, useState, useCallback } from 'react';
 import { 
@@ -19,19 +20,14 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
-interface HouseholdWithStats {
-  id: string;
-  name: string;
-  member_count: number;
-  task_count: number;
-}
-
 export default function HouseholdsScreen() {
   const router = useRouter();
-  const [households, setHouseholds] = useState<HouseholdWithStats[]>([]);
+  const [households, setHouseholds] = useState<HouseholdSummary[]>([]);
   const [newHouseholdName, setNewHouseholdName] = useState('');
   const [newHouseholdDescription, setNewHouseholdDescription] = useState('');
   const [userId, setUserId] = useState<string | null>(null);
+  const [userEmail, setUserEmail] = useState<string | null>(null);
+  const [pendingInvitationCount, setPendingInvitationCount] = useState(0);
   const [refreshing, setRefreshing] = useState(false);
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
@@ -50,6 +46,7 @@ export default function HouseholdsScreen() {
       }
 
       setUserId(session.user.id);
+      setUserEmail(session.user.email?.toLowerCase() || null);
     };
 
     getSession();
@@ -61,72 +58,21 @@ export default function HouseholdsScreen() {
 
     const fetchHouseholds = async () => {
       console.log('Fetching households for user:', userId);
-      
-      const { data, error } = await supabase
-        .from('household_members')
-        .select('household_id')
-        .eq('user_id', userId);
 
-      console.log('Fetch household memberships result:', { data, error });
+      fetchPendingInvitationCount();
 
-      if (error) {
-        console.error('Error fetching household memberships:', error);
-        Alert.alert('Error fetching households', error.message);
-        return;
-      }
-
-      if (!data || data.length === 0) {
-        setHouseholds([]);
-        return;
-      }
+      try {
+        const householdsWithStats = await getRepository().households.listForUser(userId);
 
-      // Get household details
-      const householdIds = data.map(item => item.household_id);
-      const { data: householdsData, error: householdsError } = await supabase
-        .from('households')
-        .select('id, name')
-        .in('id', householdIds);
+        // Log household names for debugging
+        const householdNames = householdsWithStats.map(h => h.name);
+        console.log(`📋 User ${userId} matches with ${householdsWithStats.length} households:`, householdNames);
 
-      if (householdsError) {
-        console.error('Error fetching households:', householdsError);
-        Alert.alert('Error fetching households', householdsError.message);
-        return;
+        setHouseholds(householdsWithStats);
+      } catch (error) {
+        console.error('Error fetching households:', error);
+        Alert.alert('Error fetching households', errorMessage(error));
       }
-
-      // Get detailed stats for each household
-      const householdsWithStats = await Promise.all(
-        (householdsData || []).map(async (household) => {
-          const householdId = household.id;
-          
-          // Get member count
-          const { count: memberCount } = await supabase
-            .from('household_members')
-            .select('*', { count: 'exact', head: true })
-            .eq('household_id', householdId)
-            .eq('is_active', true);
-
-          // Get task count
-          const { count: taskCount } = await supabase
-            .from('tasks')
-            .select('*', { count: 'exact', head: true })
-            .eq('household_id', householdId);
-
-          return {
-            id: householdId,
-            name: household.name ?? 'Unnamed',
-            member_count: memberCount || 0,
-            task_count: taskCount || 0,
-          };
-        })
-      );
-
-      console.log('Formatted households with stats:', householdsWithStats);
-      
-      // Log household names for debugging
-      const householdNames = householdsWithStats.map(h => h.name);
-      console.log(`📋 User ${userId} matches with ${householdsWithStats.length} households:`, householdNames);
-      
-      setHouseholds(householdsWithStats);
     };
 
     fetchHouseholds();
@@ -141,7 +87,18 @@ export default function HouseholdsScreen() {
 
     // Cleanup interval on unmount
     return () => clearInterval(pollInterval);
-  }, [userId]);
+  }, [userId, userEmail]);
+
+  // Count invitations waiting in the signed-in user's inbox
+  const fetchPendingInvitationCount = async () => {
+    if (!userEmail) return;
+
+    try {
+      setPendingInvitationCount(await getRepository().invitations.countPendingForEmail(userEmail));
+    } catch (error) {
+      console.error('Error fetching pending invitations:', error);
+    }
+  };
 
   // Refresh data when screen comes into focus
   useFocusEffect(
@@ -156,42 +113,10 @@ export default function HouseholdsScreen() {
     setRefreshing(true);
     if (userId) {
       // Re-fetch households with updated stats
-      const { data, error } = await supabase
-        .from('household_members')
-        .select(`
-          household_id, 
-          households(
-            id,
-            name
-          )
-        `)
-        .eq('user_id', userId);
-
-      if (!error && data) {
-        const householdsWithStats = await Promise.all(
-          data.map(async (item) => {
-            const householdId = item.household_id;
-            
-            const { count: memberCount } = await supabase
-              .from('household_members')
-              .select('*', { count: 'exact', head: true })
-              .eq('household_id', householdId)
-              .eq('is_active', true);
-
-            const { count: taskCount } = await supabase
-              .from('tasks')
-              .select('*', { count: 'exact', head: true })
-              .eq('household_id', householdId);
-
-            return {
-              id: householdId,
-              name: (item.households as any)?.name ?? 'Unnamed',
-              member_count: memberCount || 0,
-              task_count: taskCount || 0,
-            };
-          })
-        );
-        setHouseholds(householdsWithStats);
+      try {
+        setHouseholds(await getRepository().households.listForUser(userId));
+      } catch (error) {
+        console.error('Error refreshing households:', error);
       }
     }
     setRefreshing(false);
@@ -218,94 +143,52 @@ export default function HouseholdsScreen() {
     console.log('Creating household:', { name: newHouseholdName, userId: currentUserId, userIdType: typeof currentUserId });
 
     try {
+      const repository = getRepository();
+
       // First, ensure the user exists in the users table
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('id, name')
-        .eq('id', currentUserId)
-        .single();
-
-      console.log('User lookup result:', { userData, userError });
-
-      if (userError && userError.code === 'PGRST116') {
-        // User doesn't exist, create them
-        console.log('User not found, creating user...');
-        const { data: session } = await supabase.auth.getSession();
-        console.log('Session data:', session);
-        
-        if (session.session?.user) {
-          const { data: newUser, error: createUserError } = await supabase
-            .from('users')
-            .insert({
-              id: currentUserId,
-              email: session.session?.user.email || '',
-              name: session.session?.user.user_metadata?.full_name || session.session?.user.email?.split('@')[0] || 'User',
-            })
-            .select()
-            .single();
-
-          console.log('User creation result:', { newUser, createUserError });
-
-          if (createUserError) {
-            console.error('User creation error:', createUserError);
-            Alert.alert('Error', 'Failed to create user profile: ' + createUserError.message);
-            return;
-          }
-        } else {
-          console.error('No session found');
-          Alert.alert('Error', 'No active session found');
-          return;
-        }
-      } else if (userError) {
-        console.error('User lookup error:', userError);
-        Alert.alert('Error', 'Failed to verify user: ' + userError.message);
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        console.error('No session found');
+        Alert.alert('Error', 'No active session found');
         return;
       }
 
-      const { data, error } = await supabase
-        .from('households')
-        .insert({ 
-          name: newHouseholdName, 
-          description: newHouseholdDescription.trim() || null,
-          created_by: currentUserId 
-        })
-        .select()
-        .single();
-
-      console.log('Household creation result:', { data, error });
-
-      if (error) {
-        console.error('Household creation error:', error);
-        Alert.alert('Error creating household', error.message);
+      let userData;
+      try {
+        userData = await repository.users.ensure({
+          id: currentUserId,
+          email: session.user.email || '',
+          name: session.user.user_metadata?.full_name || session.user.email?.split('@')[0] || 'User',
+        });
+      } catch (userError) {
+        console.error('User profile error:', userError);
+        Alert.alert('Error', 'Failed to verify user: ' + errorMessage(userError));
         return;
       }
 
-      if (!data) {
-        Alert.alert('Error', 'No data returned from household creation');
-        return;
-    }
+      const data = await repository.households.create({
+        name: newHouseholdName,
+        description: newHouseholdDescription.trim() || null,
+        created_by: currentUserId
+      });
 
-    console.log('Adding user to household_members:', { 
+      console.log('Adding user to household_members:', { 
         household_id: data.id, 
         user_id: currentUserId, 
-        name: userData?.name || 'User' 
+        name: userData.name || 'User' 
       });
 
-      // Add current user to household_members
-      const { data: memberData, error: memberError } = await supabase
-        .from('household_members')
-        .insert({ 
-          household_id: data.id, 
+      // Add current user to household_members as the household admin
+      try {
+        await repository.members.add({
+          household_id: data.id,
           user_id: currentUserId,
-          name: userData?.name || 'User'
-        })
-        .select();
-
-      console.log('Member creation result:', { memberData, memberError });
-
-      if (memberError) {
+          name: userData.name || 'User',
+          role: 'admin'
+        });
+      } catch (memberError) {
         console.error('Member creation error:', memberError);
-        Alert.alert('Error joining household', memberError?.message || 'Unknown error');
+        Alert.alert('Error joining household', errorMessage(memberError));
         return;
       }
 
@@ -317,13 +200,14 @@ export default function HouseholdsScreen() {
       setHouseholds((prev) => [...prev, { 
         id: data.id, 
         name: data.name,
+        created_by: data.created_by,
         member_count: 1, // The creator is automatically added as a member
         task_count: 0    // New household starts with no tasks
       }]);
       Alert.alert('Success', 'Household created successfully!');
     } catch (err) {
-      console.error('Unexpected error:', err);
-      Alert.alert('Error', 'An unexpected error occurred');
+      console.error('Household creation error:', err);
+      Alert.alert('Error creating household', errorMessage(err));
     }
   };
 
@@ -337,6 +221,26 @@ export default function HouseholdsScreen() {
         <Text style={[styles.headerSubtitle, isDark && styles.headerSubtitleDark]}>Manage your shared living spaces</Text>
       </View>
 
+      {/* Invitations Banner */}
+      <TouchableOpacity
+        style={[styles.invitationsBanner, isDark && styles.invitationsBannerDark]}
+        onPress={() => router.push('/invitations')}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="mail" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+        <Text style={[styles.invitationsBannerText, isDark && styles.invitationsBannerTextDark]}>
+          {pendingInvitationCount > 0
+            ? `You have ${pendingInvitationCount} pending invitation${pendingInvitationCount === 1 ? '' : 's'}`
+            : 'Invitations'}
+        </Text>
+        {pendingInvitationCount > 0 && (
+          <View style={styles.invitationsBadge}>
+            <Text style={styles.invitationsBadgeText}>{pendingInvitationCount}</Text>
+          </View>
+        )}
+        <Ionicons name="chevron-forward" size={16} color={isDark ? "#8E8E93" : "#C7C7CC"} />
+      </TouchableOpacity>
+
       {/* Households List */}
       <View style={styles.listContainer}>
         <FlatList
@@ -475,6 +379,46 @@ const styles = StyleSheet.create({
   headerSubtitleDark: {
     color: '#8E8E93',
   },
+  invitationsBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginTop: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+  },
+  invitationsBannerDark: {
+    backgroundColor: '#1C1C1E',
+    borderColor: '#38383A',
+  },
+  invitationsBannerText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  invitationsBannerTextDark: {
+    color: '#FFFFFF',
+  },
+  invitationsBadge: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 10,
+    minWidth: 20,
+    height: 20,
+    paddingHorizontal: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  invitationsBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '700',
+  },
   listContainer: {
     flex: 1,
     paddingHorizontal: 16,
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabaseClient';
+import { getRepository, getSyncController, NotificationPreferences, UserProfile } from '@/lib/data';
 import { useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { 
@@ -17,15 +18,14 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-
-interface UserProfile {
-  id: string;
-  email: string;
-  name: string | null;
-  avatar_url: string | null;
-  phone: string | null;
-  created_at: string;
-}
+import NotificationSettings from '@/components/NotificationSettings';
+import {
+  cancelTaskNotifications,
+  loadNotificationPreferences,
+  requestNotificationPermission,
+  scheduleTaskNotifications
+} from '@/lib/notifications';
+import { clearMemberDirectory } from '@/lib/memberDirectory';
 
 export default function ProfileScreen() {
   const router = useRouter();
@@ -38,65 +38,37 @@ export default function ProfileScreen() {
   const [editName, setEditName] = useState('');
   const [editPhone, setEditPhone] = useState('');
   const [uploading, setUploading] = useState(false);
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences | null>(null);
 
   // Get current user profile
   useEffect(() => {
     const getCurrentUser = async () => {
       const { data: { session } } = await supabase.auth.getSession();
       if (session) {
-        // Get user profile from users table
-        const { data: profileData, error } = await supabase
-          .from('users')
-          .select('*')
-          .eq('id', session.user.id)
-          .single();
+        const fallbackProfile: UserProfile = {
+          id: session.user.id,
+          email: session.user.email || '',
+          name: session.user.user_metadata?.full_name || null,
+          avatar_url: session.user.user_metadata?.avatar_url || null,
+          phone: null,
+          created_at: new Date().toISOString(),
+        };
 
-        if (error) {
-          console.error('Error fetching profile:', error);
-          // Create profile if it doesn't exist
-          const { data: newProfile, error: createError } = await supabase
-            .from('users')
-            .insert({
-              id: session.user.id,
-              email: session.user.email,
-              name: session.user.user_metadata?.full_name || null,
-              avatar_url: session.user.user_metadata?.avatar_url || null,
-              phone: null,
-            })
-            .select()
-            .single();
+        // Get user profile from users table, creating it if it doesn't exist
+        try {
+          const profileData = await getRepository().users.ensure(fallbackProfile);
+          setProfile(profileData);
+          setEditName(profileData.name || '');
+        } catch (error) {
+          console.error('Error loading profile:', error);
+          setProfile(fallbackProfile);
+        }
 
-          if (createError) {
-            console.error('Error creating profile:', createError);
-            setProfile({
-              id: session.user.id,
-              email: session.user.email || '',
-              name: session.user.user_metadata?.full_name || null,
-              avatar_url: session.user.user_metadata?.avatar_url || null,
-              phone: null,
-              created_at: new Date().toISOString(),
-            });
-          } else {
-            setProfile({
-              id: newProfile.id,
-              email: newProfile.email,
-              full_name: newProfile.name,
-              avatar_url: newProfile.avatar_url,
-              phone: newProfile.phone,
-              created_at: newProfile.created_at,
-            });
-          }
-        } else {
-          setProfile({
-            id: profileData.id,
-            email: profileData.email,
-            full_name: profileData.name,
-            avatar_url: profileData.avatar_url,
-            phone: profileData.phone,
-            created_at: profileData.created_at,
-          });
+        try {
+          setNotificationPreferences(await loadNotificationPreferences(session.user.id));
+        } catch (error) {
+          console.error('Error loading notification settings:', error);
         }
-        setEditName(profileData?.name || '');
       }
       setLoading(false);
     };
@@ -127,37 +99,11 @@ export default function ProfileScreen() {
 
     setUploading(true);
     try {
-      const response = await fetch(uri);
-      const blob = await response.blob();
-      
-      const fileExt = uri.split('.').pop()?.toLowerCase() || 'jpg';
-      const fileName = `${profile.id}.${fileExt}`;
-      const filePath = `avatars/${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('avatars')
-        .upload(filePath, blob, {
-          upsert: true,
-        });
-
-      if (uploadError) {
-        throw uploadError;
-      }
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('avatars')
-        .getPublicUrl(filePath);
-
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({ avatar_url: publicUrl })
-        .eq('id', profile.id);
-
-      if (updateError) {
-        throw updateError;
-      }
+      const publicUrl = await getRepository().users.uploadAvatar(profile.id, uri);
 
       setProfile(prev => prev ? { ...prev, avatar_url: publicUrl } : null);
+      // Task cards show the new photo next time they load members
+      clearMemberDirectory();
       Alert.alert('Success', 'Profile picture updated!');
     } catch (error) {
       console.error('Error uploading image:', error);
@@ -171,14 +117,7 @@ export default function ProfileScreen() {
     if (!profile) return;
 
     try {
-      const { error } = await supabase
-        .from('users')
-        .update({ name: editName })
-        .eq('id', profile.id);
-
-      if (error) {
-        throw error;
-      }
+      await getRepository().users.update(profile.id, { name: editName });
 
       setProfile(prev => prev ? { ...prev, name: editName } : null);
       setEditing(false);
@@ -189,6 +128,25 @@ export default function ProfileScreen() {
     }
   };
 
+  const updateNotificationPreferences = async (next: NotificationPreferences) => {
+    const previous = notificationPreferences;
+    setNotificationPreferences(next);
+
+    const wantsNotifications = next.reminders_enabled || next.assignment_alerts || next.digest_enabled;
+    if (wantsNotifications && !(await requestNotificationPermission())) {
+      Alert.alert('Notifications are off', 'Allow notifications for this app in your device settings to receive reminders.');
+    }
+
+    try {
+      await getRepository().notificationPreferences.save(next);
+      await scheduleTaskNotifications(next.user_id);
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      setNotificationPreferences(previous);
+      Alert.alert('Error', 'Failed to save notification settings');
+    }
+  };
+
   const handleLogout = async () => {
     Alert.alert(
       'Logout',
@@ -203,6 +161,10 @@ export default function ProfileScreen() {
             if (error) {
               Alert.alert('Error', 'Failed to logout');
             } else {
+              // Don't leave this user's cached tasks or reminders on the device
+              await getSyncController()?.reset();
+              await cancelTaskNotifications();
+              clearMemberDirectory();
               router.replace('/auth');
             }
           }
@@ -344,6 +306,24 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Notifications */}
+        {notificationPreferences && (
+          <View style={[styles.section, isDark && styles.sectionDark]}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="notifications" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+              <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+                Notifications
+              </Text>
+            </View>
+
+            <NotificationSettings
+              preferences={notificationPreferences}
+              onChange={updateNotificationPreferences}
+              isDark={isDark}
+            />
+          </View>
+        )}
+
         {/* Actions */}
         <View style={[styles.section, isDark && styles.sectionDark]}>
           <View style={styles.sectionHeader}>
@@ -1,6 +1,22 @@
 import { supabase } from '@/lib/supabaseClient';
-import { useRouter } from 'expo-router';
-import { useEffect, useState } from 'react';
+import {
+  BillInstanceWithHousehold,
+  errorMessage,
+  getRepository,
+  getSearchTerms,
+  HouseholdChange,
+  HouseholdSummary,
+  isUniqueViolation,
+  matchesTaskQuery,
+  SavedTaskView,
+  Task,
+  TaskFilter,
+  TaskQuery,
+  TaskSort,
+  TaskWithHousehold
+} from '@/lib/data';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { 
   Alert, 
   FlatList, 
@@ -17,49 +33,94 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import TaskComponent from '@/components/TaskComponent';
+import BillShareComponent from '@/components/BillShareComponent';
+import TaskCalendar from '@/components/TaskCalendar';
+import TaskFilterModal from '@/components/TaskFilterModal';
+import LiveUpdateBanner from '@/components/LiveUpdateBanner';
+import SyncStatusBanner from '@/components/SyncStatusBanner';
+import { useHouseholdRealtime } from '@/hooks/useHouseholdRealtime';
+import { useMemberDirectory } from '@/hooks/useMemberDirectory';
+import { useSeriesStarts } from '@/hooks/useSeriesStarts';
+import { useTaskTags } from '@/hooks/useTaskTags';
+import { applyChange } from '@/lib/realtime';
+import { compareByDueDate } from '@/lib/dueDates';
+import { generateDueBillsForMember } from '@/lib/billActions';
+import { hasUnpaidShare } from '@/lib/bills';
+import { getDisplayName } from '@/lib/memberDirectory';
+import { can } from '@/lib/permissions';
+import { findTags } from '@/lib/tags';
+import { scheduleTaskNotifications } from '@/lib/notifications';
+import {
+  countFilterFields,
+  filterBills,
+  getFilterHouseholds,
+  getPresetViews,
+  isSameFilter,
+  TaskView,
+  toTaskQuery
+} from '@/lib/taskFilters';
 
-interface Task {
-  id: string;
-  household_id: string;
-  title: string;
-  details: string;
-  status: boolean;
-  assignee: string | null;
-  created_by: string;
-  created_at: string;
-  updated_at: string;
-  due_date: string | null;
-  priority: 'low' | 'medium' | 'high';
-  household_name: string;
-}
+type ViewMode = 'list' | 'calendar';
 
-interface FilterOption {
-  id: string;
-  label: string;
-  value: string;
-}
+// Unpaid bill shares are listed alongside chores
+type ListItem =
+  | { kind: 'task'; id: string; task: TaskWithHousehold }
+  | { kind: 'bill'; id: string; bill: BillInstanceWithHousehold };
+
+// Tasks loaded at a time; more load as the list scrolls
+const PAGE_SIZE = 30;
+
+// Searching waits for a pause in typing
+const SEARCH_DELAY_MS = 300;
+
+// Bills are due on a day, like all-day chores
+const getSortFields = (item: ListItem) => item.kind === 'task'
+  ? item.task
+  : { due_date: item.bill.due_date, due_all_day: true, created_at: item.bill.created_at };
+
+// The chip row: built-in views, the user's saved views, then bills on their own
+type ViewChip =
+  | { kind: 'view'; view: TaskView; saved?: SavedTaskView }
+  | { kind: 'bills' };
 
 export default function MyTasksScreen() {
   const router = useRouter();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
+  const [tasks, setTasks] = useState<TaskWithHousehold[]>([]);
+  const [householdIds, setHouseholdIds] = useState<string[]>([]);
+  const [households, setHouseholds] = useState<HouseholdSummary[]>([]);
+  const [bills, setBills] = useState<BillInstanceWithHousehold[]>([]);
+  const [filteredItems, setFilteredItems] = useState<ListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedFilter, setSelectedFilter] = useState('all');
-  const [assignedTasksCount, setAssignedTasksCount] = useState(0);
-
-  const filterOptions: FilterOption[] = [
-    { id: 'all', label: 'All Tasks', value: 'all' },
-    { id: 'my-created', label: 'Created by Me', value: 'my-created' },
-    { id: 'assigned-to-me', label: 'Assigned to Me', value: 'assigned-to-me' },
-    { id: 'pending', label: 'Pending', value: 'pending' },
-    { id: 'completed', label: 'Completed', value: 'completed' },
-    { id: 'high-priority', label: 'High Priority', value: 'high-priority' },
+  const [search, setSearch] = useState('');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [filter, setFilter] = useState<TaskFilter>({});
+  const [billsOnly, setBillsOnly] = useState(false);
+  const [savedViews, setSavedViews] = useState<SavedTaskView[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [sortBy, setSortBy] = useState<TaskSort>('due-date');
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [assignedTasks, setAssignedTasks] = useState<Task[]>([]);
+  const { members: directoryMembers, getMember } = useMemberDirectory(householdIds);
+  const tags = useTaskTags(householdIds);
+  // Only needed to project recurring tasks on the calendar
+  const seriesStarts = useSeriesStarts(viewMode === 'calendar' ? tasks : []);
+  // Filters change faster than tasks load, so only the latest request is shown
+  const latestRequest = useRef(0);
+
+  // Open tasks assigned to the user, counted for the banner whatever the filter
+  const assignedQuery: TaskQuery = { assignees: [userId], states: ['open'] };
+
+  const viewChips: ViewChip[] = [
+    ...(userId ? getPresetViews(userId) : []).map(view => ({ kind: 'view' as const, view })),
+    ...savedViews.map(saved => ({ kind: 'view' as const, view: saved, saved })),
+    { kind: 'bills' },
   ];
 
   // Get current user
@@ -73,81 +134,63 @@ export default function MyTasksScreen() {
     getCurrentUser();
   }, []);
 
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchQuery.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // The filter and search as the store runs them. Searching also finds tasks by the names of
+  // the people they're assigned to or created by, and by the names of their tags.
+  const getTaskQuery = (): TaskQuery => {
+    if (!search) return toTaskQuery(filter);
+    const lowerSearch = search.toLowerCase();
+    const searchMembers = directoryMembers
+      .filter(member => getDisplayName(member).toLowerCase().includes(lowerSearch))
+      .map(member => member.user_id);
+    const searchTags = tags
+      .filter(tag => tag.name.toLowerCase().includes(lowerSearch))
+      .map(tag => tag.id);
+    return { ...toTaskQuery(filter), search, searchMembers: [...new Set(searchMembers)], searchTags };
+  };
+
   // Fetch tasks
   const fetchTasks = async () => {
     if (!userId) return;
+    const request = ++latestRequest.current;
+    // The cursor belongs to the list being replaced
+    setNextCursor(null);
 
     try {
       // Get all households the user is a member of
-      const { data: householdMemberships } = await supabase
-        .from('household_members')
-        .select('household_id')
-        .eq('user_id', userId)
-        .eq('is_active', true);
-
-      if (!householdMemberships) return;
-
-      const householdIds = householdMemberships.map(m => m.household_id);
-
-      // Fetch all tasks from user's households
-      const { data: tasksData, error } = await supabase
-        .from('tasks')
-        .select(`
-          id,
-          household_id,
-          title,
-          details,
-          status,
-          assignee,
-          created_by,
-          created_at,
-          updated_at,
-          due_date,
-          priority
-        `)
-        .in('household_id', householdIds)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching tasks:', error);
-        Alert.alert('Error', 'Failed to load tasks');
-        return;
-      }
-
-      // Get household names if we have tasks
-      let householdsData: any[] = [];
-      if (tasksData && tasksData.length > 0) {
-        const uniqueHouseholdIds = [...new Set(tasksData.map(task => task.household_id))];
-        const { data: households } = await supabase
-          .from('households')
-          .select('id, name')
-          .in('id', uniqueHouseholdIds);
-        householdsData = households || [];
-      }
+      const repository = getRepository();
+      const memberHouseholdIds = await repository.members.listHouseholdIds(userId);
+      // The store does the filtering and searching, so only matching tasks are loaded
+      const filterHouseholdIds = getFilterHouseholds(filter, memberHouseholdIds);
+      const query = getTaskQuery();
+      const firstPage = viewMode === 'calendar'
+        // The calendar needs every dated task, including series that started before the weeks shown
+        ? {
+          tasks: await repository.tasks.listForHouseholds(filterHouseholdIds, { ...query, hasDueDate: query.hasDueDate ?? true }),
+          nextCursor: null,
+        }
+        : await repository.tasks.listPage(filterHouseholdIds, query, { sort: sortBy, limit: PAGE_SIZE });
+      const openAssigned = await repository.tasks.listForHouseholds(memberHouseholdIds, assignedQuery);
+      const householdBills = await repository.bills.listUnsettledForHouseholds(memberHouseholdIds);
+      if (request !== latestRequest.current) return;
 
-      const transformedTasks = tasksData?.map(task => ({
-        ...task,
-        household_name: householdsData.find(h => h.id === task.household_id)?.name || 'Unknown Household',
-        created_by: task.created_by || '',
-        updated_at: task.updated_at || task.created_at,
-        due_date: task.due_date || null,
-        priority: task.priority || 'medium'
-      })) || [];
-
-      setTasks(transformedTasks);
-      setFilteredTasks(transformedTasks);
-      
-      // Count tasks assigned to current user
-      const assignedCount = transformedTasks.filter(task => 
-        task.assignee === userId && !task.status
-      ).length;
-      setAssignedTasksCount(assignedCount);
+      setHouseholdIds(memberHouseholdIds);
+      setTasks(firstPage.tasks);
+      setNextCursor(firstPage.nextCursor);
+      setAssignedTasks(openAssigned);
+      setBills(householdBills.filter(bill => hasUnpaidShare(bill, userId)));
     } catch (error) {
-      console.error('Unexpected error:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
+      console.error('Error fetching tasks:', error);
+      Alert.alert('Error', 'Failed to load tasks');
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (request === latestRequest.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
@@ -155,89 +198,292 @@ export default function MyTasksScreen() {
     if (userId) {
       fetchTasks();
     }
+  }, [userId, filter, search, sortBy, viewMode]);
+
+  // Bills coming due are created by whichever manager opens the app first, not on every list load
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId) return;
+      const generateBills = async () => {
+        try {
+          const repository = getRepository();
+          const memberHouseholdIds = await repository.members.listHouseholdIds(userId);
+          if (await generateDueBillsForMember(userId, memberHouseholdIds) === 0) return;
+          const householdBills = await repository.bills.listUnsettledForHouseholds(memberHouseholdIds);
+          setBills(householdBills.filter(bill => hasUnpaidShare(bill, userId)));
+        } catch (error) {
+          console.error('Error generating bills:', error);
+        }
+      };
+      generateBills();
+    }, [userId])
+  );
+
+  const loadMore = async () => {
+    if (!userId || !nextCursor || loadingMore) return;
+    const request = latestRequest.current;
+
+    setLoadingMore(true);
+    try {
+      const page = await getRepository().tasks.listPage(
+        getFilterHouseholds(filter, householdIds),
+        getTaskQuery(),
+        { sort: sortBy, cursor: nextCursor, limit: PAGE_SIZE }
+      );
+      if (request !== latestRequest.current) return;
+
+      // Tasks that arrived live may already be listed
+      setTasks(prev => [...prev, ...page.tasks.filter(task => !prev.some(existing => existing.id === task.id))]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more tasks:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Names of the households to filter by, loaded again when the user joins or leaves one
+  const householdsKey = householdIds.join(',');
+
+  useEffect(() => {
+    if (!userId) return;
+    const fetchHouseholds = async () => {
+      try {
+        setHouseholds(await getRepository().households.listForUser(userId));
+      } catch (error) {
+        console.error('Error fetching households:', error);
+      }
+    };
+    fetchHouseholds();
+  }, [userId, householdsKey]);
+
+  // Views the user has saved, on this device or another
+  useEffect(() => {
+    if (!userId) return;
+    const fetchSavedViews = async () => {
+      try {
+        setSavedViews(await getRepository().savedViews.listForUser(userId));
+      } catch (error) {
+        console.error('Error fetching saved views:', error);
+      }
+    };
+    fetchSavedViews();
   }, [userId]);
 
-  // Filter and search tasks
+  // Merge the loaded tasks with bills to pay
   useEffect(() => {
-    let filtered = [...tasks];
-
-    // Apply search filter
-    if (searchQuery.trim()) {
-      filtered = filtered.filter(task =>
-        task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        task.details.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        task.household_name.toLowerCase().includes(searchQuery.toLowerCase())
+    // Tasks come back already filtered and searched; bills are few enough to do here
+    let filteredBills = userId ? filterBills(bills, filter, userId) : [];
+    if (search) {
+      filteredBills = filteredBills.filter(bill =>
+        bill.name.toLowerCase().includes(search.toLowerCase()) ||
+        bill.household_name.toLowerCase().includes(search.toLowerCase())
       );
     }
 
-    // Apply category filter
-    switch (selectedFilter) {
-      case 'my-created':
-        filtered = filtered.filter(task => task.created_by === userId);
-        break;
-      case 'assigned-to-me':
-        filtered = filtered.filter(task => task.assignee === userId);
-        break;
-      case 'pending':
-        filtered = filtered.filter(task => !task.status);
-        break;
-      case 'completed':
-        filtered = filtered.filter(task => task.status);
-        break;
-      case 'high-priority':
-        filtered = filtered.filter(task => task.priority === 'high');
-        break;
-      default:
-        // 'all' - no additional filtering
-        break;
-    }
+    const compareItems = (a: ListItem, b: ListItem) => sortBy === 'due-date'
+      ? compareByDueDate(getSortFields(a), getSortFields(b))
+      : getSortFields(b).created_at.localeCompare(getSortFields(a).created_at);
 
-    setFilteredTasks(filtered);
-  }, [tasks, searchQuery, selectedFilter, userId]);
+    const taskItems: ListItem[] = billsOnly ? [] : tasks.map(task => ({ kind: 'task' as const, id: task.id, task }));
+    // While more tasks remain to load, bills that sort after the last loaded task wait for their place
+    const lastTask = nextCursor && taskItems.length > 0 ? taskItems[taskItems.length - 1] : null;
+    const items: ListItem[] = [
+      ...taskItems,
+      ...filteredBills
+        .map(bill => ({ kind: 'bill' as const, id: bill.id, bill }))
+        .filter(item => !lastTask || compareItems(item, lastTask) <= 0),
+    ];
+    items.sort(compareItems);
+
+    setFilteredItems(items);
+  }, [tasks, bills, search, filter, billsOnly, sortBy, userId, nextCursor]);
 
   const onRefresh = () => {
     setRefreshing(true);
     fetchTasks();
   };
 
-  const renderTask = ({ item }: { item: Task }) => (
+  // Apply task changes from other members as they happen
+  const handleRealtimeChange = async (change: HouseholdChange) => {
+    if (change.table === 'household_members') {
+      // Joining or leaving a household changes which tasks are visible
+      if ((change.record?.user_id ?? change.old?.user_id) === userId) fetchTasks();
+      return;
+    }
+    if (change.table !== 'tasks') return;
+
+    const record = change.record;
+    setAssignedTasks(prev => applyChange<Task>(prev, change, task => task.id, task => matchesTaskQuery(task, assignedQuery)));
+    if (!record) {
+      setTasks(prev => applyChange<TaskWithHousehold>(prev, { ...change, record: null }, task => task.id));
+      return;
+    }
+
+    // Realtime rows don't include the household name
+    let householdName = tasks.find(task => task.household_id === record.household_id)?.household_name;
+    if (!householdName) {
+      try {
+        householdName = (await getRepository().households.get(record.household_id))?.name;
+      } catch (error) {
+        console.error('Error loading household:', error);
+      }
+    }
+    const taskWithHousehold = { ...record, household_name: householdName || 'Unknown Household' };
+    // Tasks that stop matching the filter leave the list, and ones that start matching join it
+    const query = getTaskQuery();
+    const inFilter = (task: Task) =>
+      getFilterHouseholds(filter, [task.household_id]).length > 0 && matchesTaskQuery(task, query);
+    setTasks(prev => applyChange<TaskWithHousehold>(
+      prev,
+      { ...change, record: taskWithHousehold },
+      task => task.id,
+      inFilter
+    ));
+  };
+
+  const { notice, dismissNotice } = useHouseholdRealtime(householdIds, userId, handleRealtimeChange);
+
+  const markBillPaid = async (bill: BillInstanceWithHousehold) => {
+    if (!userId) return;
+    try {
+      await getRepository().bills.setSharePaid(bill.id, userId, true);
+      setBills(prev => prev.filter(existing => existing.id !== bill.id));
+      scheduleTaskNotifications(userId).catch(error => {
+        console.error('Error scheduling notifications:', error);
+      });
+    } catch (error) {
+      console.error('Error updating bill:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  // Dragging a task on the calendar edits it, so only tasks the user may edit can be moved
+  const canEditTask = (task: Task) => can(
+    directoryMembers.find(member =>
+      member.household_id === task.household_id && member.user_id === userId && member.is_active) || null,
+    'edit_tasks',
+    households.find(household => household.id === task.household_id) || null
+  );
+
+  const rescheduleTask = async (task: Task, dueDate: string) => {
+    if (!canEditTask(task)) return;
+    try {
+      const updated = await getRepository().tasks.update(task.id, { due_date: dueDate });
+      setTasks(prev => prev.map(existing => existing.id === updated.id ? { ...existing, ...updated } : existing));
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const highlightTerms = getSearchTerms(search);
+
+  const renderItem = ({ item }: { item: ListItem }) => (
     <View style={styles.taskWrapper}>
-      <TaskComponent 
-        task={item} 
-        onPress={() => router.push(`/tasks/${item.id}`)}
-        isDark={isDark}
-      />
+      {item.kind === 'task' ? (
+        <TaskComponent 
+          task={item.task} 
+          onPress={() => router.push(`/tasks/${item.task.id}`)}
+          assignee={getMember(item.task.assignee, item.task.household_id)}
+          creator={getMember(item.task.created_by, item.task.household_id)}
+          tags={findTags(tags, item.task.tag_ids)}
+          highlightTerms={highlightTerms}
+          isDark={isDark}
+        />
+      ) : (
+        <BillShareComponent
+          instance={item.bill}
+          userId={userId || ''}
+          onPress={() => router.push(`/bills/${item.bill.household_id}`)}
+          onMarkPaid={() => markBillPaid(item.bill)}
+          isDark={isDark}
+        />
+      )}
       <View style={[styles.householdBadge, isDark && styles.householdBadgeDark]}>
         <Ionicons name="home" size={12} color={isDark ? "#5AC8FA" : "#4A90E2"} />
         <Text style={[styles.householdBadgeText, isDark && styles.householdBadgeTextDark]}>
-          {item.household_name}
+          {item.kind === 'task' ? item.task.household_name : item.bill.household_name}
         </Text>
       </View>
     </View>
   );
 
-  const renderFilterButton = (filter: FilterOption) => (
-    <TouchableOpacity
-      key={filter.id}
-      style={[
-        styles.filterButton,
-        selectedFilter === filter.value && styles.filterButtonActive,
-        isDark && styles.filterButtonDark,
-        selectedFilter === filter.value && isDark && styles.filterButtonActiveDark
-      ]}
-      onPress={() => setSelectedFilter(filter.value)}
-      activeOpacity={0.7}
-    >
-      <Text style={[
-        styles.filterButtonText,
-        selectedFilter === filter.value && styles.filterButtonTextActive,
-        isDark && styles.filterButtonTextDark,
-        selectedFilter === filter.value && isDark && styles.filterButtonTextActiveDark
-      ]}>
-        {filter.label}
-      </Text>
-    </TouchableOpacity>
-  );
+  const selectView = (view: TaskView) => {
+    setBillsOnly(false);
+    setFilter(view.filter);
+  };
+
+  const saveView = async (name: string) => {
+    if (!userId) return;
+    try {
+      const saved = await getRepository().savedViews.create({ user_id: userId, name, filter });
+      setSavedViews(prev => [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      Alert.alert('View Saved', `"${name}" is now in your views`);
+    } catch (error) {
+      console.error('Error saving view:', error);
+      Alert.alert('Error', isUniqueViolation(error) ? `You already have a view named "${name}"` : errorMessage(error));
+    }
+  };
+
+  const updateView = async (view: SavedTaskView) => {
+    try {
+      const updated = await getRepository().savedViews.update(view.id, { filter });
+      setSavedViews(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+    } catch (error) {
+      console.error('Error updating view:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const deleteView = async (view: SavedTaskView) => {
+    try {
+      await getRepository().savedViews.remove(view.id);
+      setSavedViews(prev => prev.filter(existing => existing.id !== view.id));
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const manageView = (view: SavedTaskView) => {
+    Alert.alert(view.name, 'What would you like to do with this view?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Update with Current Filters', onPress: () => updateView(view) },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteView(view) },
+    ]);
+  };
+
+  const renderFilterButton = (chip: ViewChip) => {
+    const isActive = chip.kind === 'bills' ? billsOnly : !billsOnly && isSameFilter(chip.view.filter, filter);
+    const saved = chip.kind === 'view' ? chip.saved : undefined;
+    return (
+      <TouchableOpacity
+        style={[
+          styles.filterButton,
+          isActive && styles.filterButtonActive,
+          isDark && styles.filterButtonDark,
+          isActive && isDark && styles.filterButtonActiveDark
+        ]}
+        onPress={() => chip.kind === 'bills' ? setBillsOnly(!billsOnly) : selectView(chip.view)}
+        onLongPress={saved ? () => manageView(saved) : undefined}
+        activeOpacity={0.7}
+      >
+        {saved && (
+          <Ionicons name="bookmark" size={12} color={isActive || isDark ? "white" : "#4A90E2"} />
+        )}
+        <Text style={[
+          styles.filterButtonText,
+          isActive && styles.filterButtonTextActive,
+          isDark && styles.filterButtonTextDark,
+          isActive && isDark && styles.filterButtonTextActiveDark
+        ]}>
+          {chip.kind === 'bills' ? 'Bills' : chip.view.name}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
 
   if (loading) {
     return (
@@ -271,18 +517,53 @@ export default function MyTasksScreen() {
             <Ionicons name="close-circle" size={20} color={isDark ? "#8E8E93" : "#8E8E93"} />
           </TouchableOpacity>
         )}
+        <TouchableOpacity
+          style={styles.sortButton}
+          onPress={() => setSortBy(sortBy === 'due-date' ? 'newest' : 'due-date')}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="swap-vertical" size={18} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          <Text style={[styles.sortButtonText, isDark && styles.sortButtonTextDark]}>
+            {sortBy === 'due-date' ? 'Due date' : 'Newest'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.sortButton}
+          onPress={() => setShowFilters(true)}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="options" size={18} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          {countFilterFields(filter) > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{countFilterFields(filter)}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.sortButton}
+          onPress={() => setViewMode(viewMode === 'list' ? 'calendar' : 'list')}
+          activeOpacity={0.7}
+        >
+          <Ionicons name={viewMode === 'list' ? "calendar" : "list"} size={18} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+        </TouchableOpacity>
       </View>
 
+      <SyncStatusBanner isDark={isDark} />
+      <LiveUpdateBanner message={notice} onDismiss={dismissNotice} isDark={isDark} />
+
       {/* Notification Banner */}
-      {assignedTasksCount > 0 && (
+      {assignedTasks.length > 0 && (
         <View style={[styles.notificationBanner, isDark && styles.notificationBannerDark]}>
           <Ionicons name="notifications" size={20} color="#FF9500" />
           <Text style={[styles.notificationText, isDark && styles.notificationTextDark]}>
-            You have {assignedTasksCount} task{assignedTasksCount === 1 ? '' : 's'} assigned to you
+            You have {assignedTasks.length} task{assignedTasks.length === 1 ? '' : 's'} assigned to you
           </Text>
           <TouchableOpacity
             style={styles.notificationButton}
-            onPress={() => setSelectedFilter('assigned-to-me')}
+            onPress={() => {
+              setBillsOnly(false);
+              setFilter({ assignees: [userId], states: ['open'] });
+            }}
             activeOpacity={0.7}
           >
             <Text style={styles.notificationButtonText}>View</Text>
@@ -293,46 +574,81 @@ export default function MyTasksScreen() {
       {/* Filter Buttons */}
       <View style={styles.filtersContainer}>
         <FlatList
-          data={filterOptions}
+          data={viewChips}
           renderItem={({ item }) => renderFilterButton(item)}
-          keyExtractor={(item) => item.id}
+          keyExtractor={(item) => item.kind === 'bills' ? 'bills' : item.saved ? `saved-${item.view.id}` : item.view.id}
           horizontal
           showsHorizontalScrollIndicator={false}
           contentContainerStyle={styles.filtersContent}
         />
       </View>
 
+      {userId && (
+        <TaskFilterModal
+          visible={showFilters}
+          filter={filter}
+          households={households}
+          members={directoryMembers}
+          tags={tags}
+          userId={userId}
+          onChange={next => {
+            setBillsOnly(false);
+            setFilter(next);
+          }}
+          onSave={saveView}
+          onClose={() => setShowFilters(false)}
+          isDark={isDark}
+        />
+      )}
+
       {/* Tasks List */}
-      <View style={styles.tasksContainer}>
-        <FlatList
-          data={filteredTasks}
-          keyExtractor={(item) => item.id}
-          renderItem={renderTask}
-          showsVerticalScrollIndicator={false}
-          contentContainerStyle={styles.tasksContent}
-          refreshControl={
-            <RefreshControl
-              refreshing={refreshing}
-              onRefresh={onRefresh}
-              tintColor={isDark ? "#5AC8FA" : "#4A90E2"}
-            />
-          }
-          ListEmptyComponent={
-            <View style={styles.emptyState}>
-              <Ionicons name="checkmark-circle-outline" size={64} color={isDark ? "#48484A" : "#C7C7CC"} />
-              <Text style={[styles.emptyTitle, isDark && styles.emptyTitleDark]}>
-                {searchQuery ? 'No tasks found' : 'No tasks yet'}
-              </Text>
-              <Text style={[styles.emptySubtitle, isDark && styles.emptySubtitleDark]}>
-                {searchQuery 
-                  ? 'Try adjusting your search or filters'
-                  : 'Tasks from your households will appear here'
-                }
-              </Text>
-            </View>
-          }
+      {viewMode === 'calendar' ? (
+        <TaskCalendar
+          tasks={filteredItems.flatMap(item => item.kind === 'task' ? [item.task] : [])}
+          onPressTask={task => router.push(`/tasks/${task.id}`)}
+          onReschedule={rescheduleTask}
+          canReschedule={canEditTask}
+          seriesStarts={seriesStarts}
+          members={directoryMembers}
+          isDark={isDark}
         />
-      </View>
+      ) : (
+        <View style={styles.tasksContainer}>
+          <FlatList
+            data={filteredItems}
+            keyExtractor={(item) => `${item.kind}-${item.id}`}
+            renderItem={renderItem}
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={styles.tasksContent}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={loadingMore ? (
+              <ActivityIndicator style={styles.loadingMore} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            ) : null}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+                tintColor={isDark ? "#5AC8FA" : "#4A90E2"}
+              />
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Ionicons name="checkmark-circle-outline" size={64} color={isDark ? "#48484A" : "#C7C7CC"} />
+                <Text style={[styles.emptyTitle, isDark && styles.emptyTitleDark]}>
+                  {search || countFilterFields(filter) > 0 ? 'No tasks found' : 'No tasks yet'}
+                </Text>
+                <Text style={[styles.emptySubtitle, isDark && styles.emptySubtitleDark]}>
+                  {search || countFilterFields(filter) > 0
+                    ? 'Try adjusting your search or filters'
+                    : 'Tasks from your households will appear here'
+                  }
+                </Text>
+              </View>
+            }
+          />
+        </View>
+      )}
     </SafeAreaView>
   );
 }
@@ -389,6 +705,20 @@ const styles = StyleSheet.create({
   searchInputDark: {
     color: '#FFFFFF',
   },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 12,
+  },
+  sortButtonText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4A90E2',
+  },
+  sortButtonTextDark: {
+    color: '#5AC8FA',
+  },
   filtersContainer: {
     marginBottom: 8,
   },
@@ -396,7 +726,24 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     gap: 8,
   },
+  filterBadge: {
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    backgroundColor: '#FF9500',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: 'white',
+  },
   filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
     backgroundColor: '#F2F2F7',
     borderRadius: 20,
     paddingHorizontal: 16,
@@ -433,6 +780,9 @@ const styles = StyleSheet.create({
   tasksContent: {
     paddingBottom: 20,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
   taskWrapper: {
     marginBottom: 12,
   },
@@ -37,6 +37,11 @@ export default function RootLayout() {
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="households/[id]" options={{ headerShown: false }} />
       <Stack.Screen name="tasks/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="shopping/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="expenses/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="bills/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="calendar/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="invitations/index" options={{ headerShown: false }} />
     </Stack>
   );
 }
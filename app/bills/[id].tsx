@@ -0,0 +1,1155 @@
+import { supabase } from '@/lib/supabaseClient';
+import {
+  Bill,
+  BillInstance,
+  errorMessage,
+  getRepository,
+  Household,
+  Member
+} from '@/lib/data';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertButton,
+  FlatList,
+  Text,
+  TextInput,
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  useColorScheme,
+  RefreshControl,
+  Modal,
+  ScrollView
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import SyncStatusBanner from '@/components/SyncStatusBanner';
+import DueDatePicker from '@/components/DueDatePicker';
+import { can } from '@/lib/permissions';
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney } from '@/lib/balances';
+import {
+  BILL_REPEAT_OPTIONS,
+  formatShareAmount,
+  getPaidCount,
+  getShareDueState,
+  hasUnpaidShare
+} from '@/lib/bills';
+import { generateDueBills, resumeBill, setBillAmount } from '@/lib/billActions';
+import { formatDueDate, getDueStateColor, getDueStateLabel, startOfDay } from '@/lib/dueDates';
+import { scheduleTaskNotifications } from '@/lib/notifications';
+import {
+  describeRecurrenceRule,
+  parseRecurrenceRule,
+  pinMonthDay,
+  RecurrencePreset,
+  ruleForPreset
+} from '@/lib/recurrence';
+
+const parseAmount = (text: string) => parseFloat(text.replace(',', '.'));
+
+export default function BillsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [instances, setInstances] = useState<BillInstance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Bill form
+  const [showBillModal, setShowBillModal] = useState(false);
+  const [name, setName] = useState('');
+  const [variableAmount, setVariableAmount] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [repeatPreset, setRepeatPreset] = useState<RecurrencePreset>('monthly');
+  const [customRule, setCustomRule] = useState('');
+  const [firstDueDate, setFirstDueDate] = useState<Date | null>(null);
+  const [participantIds, setParticipantIds] = useState<string[]>([]);
+
+  // Amount of a variable bill, once it arrives
+  const [amountInstance, setAmountInstance] = useState<BillInstance | null>(null);
+  const [instanceAmount, setInstanceAmount] = useState('');
+
+  // Get current user
+  useEffect(() => {
+    const getCurrentUser = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session) {
+        setUserId(session.user.id);
+      }
+    };
+    getCurrentUser();
+  }, []);
+
+  const fetchBills = async () => {
+    if (!id || !userId) return;
+
+    const repository = getRepository();
+    try {
+      // Viewers can't create instances, but can still see the ones others generated
+      try {
+        await generateDueBills(id);
+      } catch (error) {
+        console.error('Error generating bills:', error);
+      }
+
+      const [householdData, membersData, billsData, instancesData] = await Promise.all([
+        repository.households.get(id),
+        repository.members.listActive(id),
+        repository.bills.listForHousehold(id),
+        repository.bills.listInstances(id),
+      ]);
+      setHousehold(householdData);
+      setMembers(membersData);
+      setBills(billsData);
+      setInstances(instancesData);
+    } catch (error) {
+      console.error('Error fetching bills:', error);
+      Alert.alert('Error', 'Failed to load bills');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (id && userId) {
+      fetchBills();
+    }
+  }, [id, userId]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchBills();
+  };
+
+  const currentMember = members.find(member => member.user_id === userId) || null;
+  const canManage = can(currentMember, 'manage_bills', household);
+
+  const getMemberName = (memberId: string) => {
+    if (memberId === userId) return 'You';
+    const member = members.find(m => m.user_id === memberId);
+    return member ? member.name || member.email : 'A former member';
+  };
+
+  const replaceInstance = (updated: BillInstance) => {
+    setInstances(prev => prev.map(instance => instance.id === updated.id ? updated : instance));
+  };
+
+  // Reminders for a share that's been paid shouldn't fire
+  const rescheduleReminders = () => {
+    if (!userId) return;
+    scheduleTaskNotifications(userId).catch(error => {
+      console.error('Error scheduling notifications:', error);
+    });
+  };
+
+  const toggleMyShare = async (instance: BillInstance) => {
+    if (!userId) return;
+    try {
+      replaceInstance(await getRepository().bills.setSharePaid(instance.id, userId, hasUnpaidShare(instance, userId)));
+      rescheduleReminders();
+    } catch (error) {
+      console.error('Error updating bill:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const openBillModal = () => {
+    setName('');
+    setVariableAmount(false);
+    setAmount('');
+    setCurrency(DEFAULT_CURRENCY);
+    setRepeatPreset('monthly');
+    setCustomRule('');
+    setFirstDueDate(null);
+    setParticipantIds(members.map(member => member.user_id));
+    setShowBillModal(true);
+  };
+
+  const toggleParticipant = (memberId: string) => {
+    setParticipantIds(prev => prev.includes(memberId)
+      ? prev.filter(existing => existing !== memberId)
+      : [...prev, memberId]
+    );
+  };
+
+  const canSaveBill = !!name.trim()
+    && !!firstDueDate
+    && participantIds.length > 0
+    && (variableAmount || parseAmount(amount) > 0)
+    && !saving;
+
+  const saveBill = async () => {
+    if (!id || !userId || !firstDueDate || !canSaveBill) return;
+
+    const recurrenceRule = repeatPreset === 'custom'
+      ? pinMonthDay(customRule.trim().toUpperCase(), firstDueDate)
+      : ruleForPreset(repeatPreset, firstDueDate);
+    if (recurrenceRule && !parseRecurrenceRule(recurrenceRule)) {
+      Alert.alert('Invalid repeat rule', 'Use a rule like FREQ=MONTHLY;BYMONTHDAY=1');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await getRepository().bills.create({
+        household_id: id,
+        name: name.trim(),
+        amount: variableAmount ? null : Math.round(parseAmount(amount) * 100) / 100,
+        currency,
+        recurrence_rule: recurrenceRule || null,
+        next_due_date: startOfDay(firstDueDate).toISOString(),
+        participants: participantIds,
+        created_by: userId,
+      });
+      setShowBillModal(false);
+      // A bill due soon gets its first instance straight away
+      await fetchBills();
+      rescheduleReminders();
+    } catch (error) {
+      console.error('Error adding bill:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const manageBill = (bill: Bill) => {
+    if (!canManage) return;
+
+    const buttons: AlertButton[] = [{ text: 'Cancel', style: 'cancel' }];
+    if (bill.is_active) {
+      buttons.push({
+        text: 'Stop Repeating',
+        onPress: async () => {
+          try {
+            const updated = await getRepository().bills.update(bill.id, { is_active: false });
+            setBills(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+          } catch (error) {
+            console.error('Error updating bill:', error);
+            Alert.alert('Error', errorMessage(error));
+          }
+        }
+      });
+    } else if (bill.recurrence_rule) {
+      buttons.push({
+        text: 'Resume',
+        onPress: async () => {
+          try {
+            await resumeBill(bill);
+            await fetchBills();
+          } catch (error) {
+            console.error('Error resuming bill:', error);
+            Alert.alert('Error', errorMessage(error));
+          }
+        }
+      });
+    }
+    buttons.push({
+      text: 'Delete',
+      style: 'destructive',
+      onPress: () => {
+        Alert.alert('Delete Bill', `Delete "${bill.name}" and everything recorded against it?`, [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await getRepository().bills.remove(bill.id);
+                setBills(prev => prev.filter(existing => existing.id !== bill.id));
+                setInstances(prev => prev.filter(instance => instance.bill_id !== bill.id));
+                rescheduleReminders();
+              } catch (error) {
+                console.error('Error deleting bill:', error);
+                Alert.alert('Error', errorMessage(error));
+              }
+            }
+          }
+        ]);
+      }
+    });
+    Alert.alert(bill.name, 'Bills already due stay on the list.', buttons);
+  };
+
+  const openAmountModal = (instance: BillInstance) => {
+    setAmountInstance(instance);
+    setInstanceAmount(instance.amount !== null ? instance.amount.toFixed(2) : '');
+  };
+
+  const saveInstanceAmount = async () => {
+    if (!amountInstance || !(parseAmount(instanceAmount) > 0)) return;
+
+    setSaving(true);
+    try {
+      replaceInstance(await setBillAmount(amountInstance, Math.round(parseAmount(instanceAmount) * 100) / 100));
+      setAmountInstance(null);
+      rescheduleReminders();
+    } catch (error) {
+      console.error('Error updating bill:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderChips = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.chip, isDark && styles.chipDark, selected === option.value && styles.chipSelected]}
+          onPress={() => onSelect(option.value)}
+          activeOpacity={0.7}
+        >
+          <Text style={[
+            styles.chipText,
+            isDark && styles.chipTextDark,
+            selected === option.value && styles.chipTextSelected
+          ]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderInstance = ({ item }: { item: BillInstance }) => {
+    const dueState = userId ? getShareDueState(item, userId) : 'none';
+    const dueLabel = getDueStateLabel(dueState);
+    const paidCount = getPaidCount(item);
+
+    return (
+      <View style={[styles.instance, isDark && styles.instanceDark]}>
+        <View style={styles.instanceHeader}>
+          <View style={styles.instanceInfo}>
+            <Text style={[styles.instanceTitle, isDark && styles.instanceTitleDark]} numberOfLines={1}>
+              {item.name}
+            </Text>
+            <Text style={[styles.instanceMeta, dueLabel && { color: getDueStateColor(dueState, isDark) }]}>
+              {dueLabel ? `${dueLabel} • ` : ''}{formatDueDate(item.due_date, true)} • {paidCount} of {item.shares.length} paid
+            </Text>
+          </View>
+          {item.amount !== null ? (
+            <TouchableOpacity
+              onPress={() => openAmountModal(item)}
+              disabled={!canManage || item.settled}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.instanceAmount, isDark && styles.instanceAmountDark]}>
+                {formatMoney(item.amount, item.currency)}
+              </Text>
+            </TouchableOpacity>
+          ) : canManage ? (
+            <TouchableOpacity style={styles.amountButton} onPress={() => openAmountModal(item)} activeOpacity={0.7}>
+              <Text style={styles.amountButtonText}>Enter amount</Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.instanceMeta}>Amount to come</Text>
+          )}
+        </View>
+
+        {item.shares.map(share => {
+          const paid = share.paid_at !== null;
+          const isMine = share.user_id === userId;
+          return (
+            <View key={share.user_id} style={styles.shareRow}>
+              <Ionicons
+                name={paid ? "checkmark-circle" : "ellipse-outline"}
+                size={20}
+                color={paid ? "#34C759" : isDark ? "#8E8E93" : "#C7C7CC"}
+              />
+              <Text style={[styles.shareName, isDark && styles.shareNameDark]} numberOfLines={1}>
+                {getMemberName(share.user_id)}
+              </Text>
+              <Text style={styles.shareAmount}>{formatShareAmount(share, item.currency)}</Text>
+              {isMine && (
+                <TouchableOpacity
+                  style={[styles.payButton, paid && styles.payButtonDone]}
+                  onPress={() => toggleMyShare(item)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.payButtonText, paid && styles.payButtonTextDone]}>
+                    {paid ? 'Paid' : 'Mark paid'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          <Text style={styles.loadingText}>Loading bills...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!household) {
+    return (
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle" size={64} color={isDark ? "#FF453A" : "#FF3B30"} />
+          <Text style={[styles.errorTitle, isDark && styles.errorTitleDark]}>
+            Household not found
+          </Text>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const billsSection = (
+    <View>
+      <View style={[styles.section, isDark && styles.sectionDark]}>
+        <View style={styles.sectionHeader}>
+          <Ionicons name="repeat" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+            Recurring Bills
+          </Text>
+        </View>
+        {bills.length === 0 ? (
+          <Text style={styles.sectionEmpty}>
+            {canManage ? 'Add rent, internet or utilities to split them every month' : 'No bills set up yet'}
+          </Text>
+        ) : (
+          bills.map(bill => (
+            <TouchableOpacity
+              key={bill.id}
+              style={styles.billRow}
+              onLongPress={() => manageBill(bill)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.billInfo}>
+                <Text style={[styles.billName, isDark && styles.billNameDark]} numberOfLines={1}>
+                  {bill.name}
+                </Text>
+                <Text style={styles.billMeta} numberOfLines={1}>
+                  {describeRecurrenceRule(bill.recurrence_rule) || 'Once'} •{' '}
+                  {bill.is_active ? `Next ${formatDueDate(bill.next_due_date, true)}` : 'Stopped'}
+                </Text>
+              </View>
+              <Text style={[styles.billAmount, isDark && styles.billAmountDark]}>
+                {bill.amount !== null ? formatMoney(bill.amount, bill.currency) : 'Varies'}
+              </Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+
+      <Text style={[styles.listTitle, isDark && styles.listTitleDark]}>Due</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+      <StatusBar barStyle={isDark ? "light-content" : "dark-content"} backgroundColor={isDark ? "#1C1C1E" : "#f8f9fa"} />
+
+      {/* Header */}
+      <View style={[styles.header, isDark && styles.headerDark]}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={[styles.headerTitle, isDark && styles.headerTitleDark]}>
+            Bills
+          </Text>
+          <Text style={styles.headerSubtitle}>
+            {household.name} • {bills.length} bills
+          </Text>
+        </View>
+        {canManage && (
+          <TouchableOpacity style={styles.headerButton} onPress={openBillModal}>
+            <Ionicons name="add-circle" size={28} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <SyncStatusBanner isDark={isDark} />
+
+      <FlatList
+        data={instances}
+        keyExtractor={item => item.id}
+        renderItem={renderInstance}
+        ListHeaderComponent={billsSection}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={isDark ? "#5AC8FA" : "#4A90E2"}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyList}>
+            <Ionicons name="document-text-outline" size={64} color={isDark ? "#48484A" : "#C7C7CC"} />
+            <Text style={[styles.emptyListTitle, isDark && styles.emptyListTitleDark]}>
+              Nothing due yet
+            </Text>
+            <Text style={styles.emptyListSubtitle}>
+              Bills show up here a week before they are due
+            </Text>
+          </View>
+        }
+      />
+
+      {/* Add Bill Modal */}
+      <Modal
+        visible={showBillModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowBillModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, isDark && styles.modalContentDark]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>
+                Add Bill
+              </Text>
+              <TouchableOpacity onPress={() => setShowBillModal(false)} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              <TextInput
+                placeholder="Rent, internet, electricity..."
+                placeholderTextColor="#8E8E93"
+                value={name}
+                onChangeText={setName}
+                style={[styles.input, isDark && styles.inputDark]}
+              />
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>Amount</Text>
+              {renderChips(
+                [{ value: 'fixed', label: 'Same every time' }, { value: 'variable', label: 'Varies' }],
+                variableAmount ? 'variable' : 'fixed',
+                value => setVariableAmount(value === 'variable')
+              )}
+              {variableAmount ? (
+                <Text style={styles.modalHint}>
+                  Enter the amount each time the bill arrives.
+                </Text>
+              ) : (
+                <TextInput
+                  placeholder="Amount"
+                  placeholderTextColor="#8E8E93"
+                  value={amount}
+                  onChangeText={setAmount}
+                  keyboardType="decimal-pad"
+                  style={[styles.input, styles.inputSpacing, isDark && styles.inputDark]}
+                />
+              )}
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>Currency</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+                {CURRENCIES.map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, isDark && styles.chipDark, currency === option && styles.chipSelected]}
+                    onPress={() => setCurrency(option)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[
+                      styles.chipText,
+                      isDark && styles.chipTextDark,
+                      currency === option && styles.chipTextSelected
+                    ]}>
+                      {option}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>First due</Text>
+              <DueDatePicker
+                value={firstDueDate}
+                allDay={true}
+                onChange={value => setFirstDueDate(value)}
+                isDark={isDark}
+                dateOnly
+              />
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>Repeat</Text>
+              {renderChips(BILL_REPEAT_OPTIONS, repeatPreset, setRepeatPreset)}
+              {repeatPreset === 'custom' && (
+                <TextInput
+                  placeholder="FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=15"
+                  placeholderTextColor="#8E8E93"
+                  value={customRule}
+                  onChangeText={setCustomRule}
+                  autoCapitalize="characters"
+                  style={[styles.input, styles.inputSpacing, isDark && styles.inputDark]}
+                />
+              )}
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>Split equally between</Text>
+              {members.map(member => {
+                const included = participantIds.includes(member.user_id);
+                return (
+                  <TouchableOpacity
+                    key={member.user_id}
+                    style={styles.participantRow}
+                    onPress={() => toggleParticipant(member.user_id)}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name={included ? "checkbox" : "square-outline"}
+                      size={22}
+                      color={included ? isDark ? "#5AC8FA" : "#4A90E2" : isDark ? "#8E8E93" : "#C7C7CC"}
+                    />
+                    <Text style={[styles.participantName, isDark && styles.participantNameDark]} numberOfLines={1}>
+                      {getMemberName(member.user_id)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton, isDark && styles.cancelButtonDark]}
+                onPress={() => setShowBillModal(false)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton, !canSaveBill && styles.saveButtonDisabled]}
+                onPress={saveBill}
+                disabled={!canSaveBill}
+                activeOpacity={0.7}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Bill Amount Modal */}
+      <Modal
+        visible={!!amountInstance}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setAmountInstance(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, isDark && styles.modalContentDark]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>
+                {amountInstance?.name}
+              </Text>
+              <TouchableOpacity onPress={() => setAmountInstance(null)} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+              </TouchableOpacity>
+            </View>
+
+            <TextInput
+              placeholder="What did it come to?"
+              placeholderTextColor="#8E8E93"
+              value={instanceAmount}
+              onChangeText={setInstanceAmount}
+              keyboardType="decimal-pad"
+              style={[styles.input, isDark && styles.inputDark]}
+              autoFocus
+            />
+            <Text style={styles.modalHint}>
+              Split equally between {amountInstance?.shares.length} people.
+            </Text>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton, isDark && styles.cancelButtonDark]}
+                onPress={() => setAmountInstance(null)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.modalButton,
+                  styles.saveButton,
+                  !(parseAmount(instanceAmount) > 0) && styles.saveButtonDisabled
+                ]}
+                onPress={saveInstanceAmount}
+                disabled={!(parseAmount(instanceAmount) > 0) || saving}
+                activeOpacity={0.7}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  containerDark: {
+    backgroundColor: '#000000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  errorTitleDark: {
+    color: '#FFFFFF',
+  },
+  backButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#4A90E2',
+    borderRadius: 12,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerDark: {
+    backgroundColor: '#1C1C1E',
+    borderBottomColor: '#38383A',
+  },
+  headerButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  headerContent: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  headerTitleDark: {
+    color: '#FFFFFF',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  listContent: {
+    paddingBottom: 24,
+  },
+  section: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginVertical: 8,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionDark: {
+    backgroundColor: '#1C1C1E',
+    shadowOpacity: 0.3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginLeft: 8,
+    flex: 1,
+  },
+  sectionTitleDark: {
+    color: '#FFFFFF',
+  },
+  sectionEmpty: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  billRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  billInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  billName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  billNameDark: {
+    color: '#FFFFFF',
+  },
+  billMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  billAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  billAmountDark: {
+    color: '#FFFFFF',
+  },
+  listTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    color: '#8E8E93',
+    marginHorizontal: 20,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  listTitleDark: {
+    color: '#8E8E93',
+  },
+  instance: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderRadius: 12,
+    padding: 14,
+  },
+  instanceDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  instanceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  instanceInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  instanceTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  instanceTitleDark: {
+    color: '#FFFFFF',
+  },
+  instanceMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  instanceAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  instanceAmountDark: {
+    color: '#FFFFFF',
+  },
+  amountButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#4A90E2',
+  },
+  amountButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4A90E2',
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 4,
+  },
+  shareName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  shareNameDark: {
+    color: '#FFFFFF',
+  },
+  shareAmount: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  payButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#4A90E2',
+  },
+  payButtonDone: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: '#34C759',
+  },
+  payButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  payButtonTextDone: {
+    color: '#34C759',
+  },
+  emptyList: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 20,
+  },
+  emptyListTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyListTitleDark: {
+    color: '#FFFFFF',
+  },
+  emptyListSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#F2F2F7',
+  },
+  chipDark: {
+    borderColor: '#38383A',
+    backgroundColor: '#2C2C2E',
+  },
+  chipSelected: {
+    backgroundColor: '#4A90E2',
+    borderColor: '#4A90E2',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#1C1C1E',
+  },
+  chipTextDark: {
+    color: '#FFFFFF',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '85%',
+  },
+  modalContentDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  modalTitleDark: {
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flexGrow: 0,
+  },
+  modalHint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  inputDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#38383A',
+    color: '#FFFFFF',
+  },
+  inputSpacing: {
+    marginTop: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  fieldLabelDark: {
+    color: '#FFFFFF',
+  },
+  participantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  participantName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  participantNameDark: {
+    color: '#FFFFFF',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#38383A',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  cancelButtonTextDark: {
+    color: '#FFFFFF',
+  },
+  saveButton: {
+    backgroundColor: '#4A90E2',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,247 @@
+import { supabase } from '@/lib/supabaseClient';
+import { errorMessage, getRepository, Household, HouseholdChange, Member, Task } from '@/lib/data';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Text,
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  useColorScheme
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import TaskCalendar from '@/components/TaskCalendar';
+import LiveUpdateBanner from '@/components/LiveUpdateBanner';
+import SyncStatusBanner from '@/components/SyncStatusBanner';
+import { useHouseholdRealtime } from '@/hooks/useHouseholdRealtime';
+import { useSeriesStarts } from '@/hooks/useSeriesStarts';
+import { applyChange, inHousehold } from '@/lib/realtime';
+import { can } from '@/lib/permissions';
+
+export default function HouseholdCalendarScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+
+  // Get current user
+  useEffect(() => {
+    const getCurrentUser = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session) {
+        setUserId(session.user.id);
+      }
+    };
+    getCurrentUser();
+  }, []);
+
+  const fetchCalendar = async () => {
+    if (!id || !userId) return;
+
+    const repository = getRepository();
+    try {
+      const [householdData, membersData, tasksData] = await Promise.all([
+        repository.households.get(id),
+        repository.members.listActive(id),
+        repository.tasks.listForHousehold(id),
+      ]);
+      setHousehold(householdData);
+      setMembers(membersData);
+      setTasks(tasksData);
+    } catch (error) {
+      console.error('Error fetching calendar:', error);
+      Alert.alert('Error', 'Failed to load calendar');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (id && userId) {
+      fetchCalendar();
+    }
+  }, [id, userId]);
+
+  // Tasks others add, finish or move show up straight away
+  const handleRealtimeChange = (change: HouseholdChange) => {
+    if (change.table === 'tasks') {
+      setTasks(prev => applyChange(prev, change, task => task.id, inHousehold(id)));
+    }
+  };
+
+  const { notice, dismissNotice } = useHouseholdRealtime(id ? [id] : [], userId, handleRealtimeChange);
+  const seriesStarts = useSeriesStarts(tasks);
+
+  const currentMember = members.find(member => member.user_id === userId) || null;
+  const canReschedule = can(currentMember, 'edit_tasks', household);
+
+  const rescheduleTask = async (task: Task, dueDate: string) => {
+    // Show the move straight away and put it back if saving fails
+    setTasks(prev => prev.map(existing => existing.id === task.id ? { ...existing, due_date: dueDate } : existing));
+    try {
+      const updated = await getRepository().tasks.update(task.id, { due_date: dueDate });
+      setTasks(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      setTasks(prev => prev.map(existing => existing.id === task.id ? task : existing));
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          <Text style={styles.loadingText}>Loading calendar...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!household) {
+    return (
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle" size={64} color={isDark ? "#FF453A" : "#FF3B30"} />
+          <Text style={[styles.errorTitle, isDark && styles.errorTitleDark]}>
+            Household not found
+          </Text>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+      <StatusBar barStyle={isDark ? "light-content" : "dark-content"} backgroundColor={isDark ? "#1C1C1E" : "#f8f9fa"} />
+
+      {/* Header */}
+      <View style={[styles.header, isDark && styles.headerDark]}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={[styles.headerTitle, isDark && styles.headerTitleDark]}>
+            Calendar
+          </Text>
+          <Text style={styles.headerSubtitle}>
+            {household.name}
+          </Text>
+        </View>
+      </View>
+
+      <SyncStatusBanner isDark={isDark} />
+      <LiveUpdateBanner message={notice} onDismiss={dismissNotice} isDark={isDark} />
+
+      <TaskCalendar
+        tasks={tasks}
+        seriesStarts={seriesStarts}
+        members={members}
+        onPressTask={task => router.push(`/tasks/${task.id}`)}
+        onReschedule={canReschedule ? rescheduleTask : undefined}
+        isDark={isDark}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  containerDark: {
+    backgroundColor: '#000000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  errorTitleDark: {
+    color: '#FFFFFF',
+  },
+  backButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#4A90E2',
+    borderRadius: 12,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerDark: {
+    backgroundColor: '#1C1C1E',
+    borderBottomColor: '#38383A',
+  },
+  headerButton: {
+    padding: 4,
+  },
+  headerContent: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  headerTitleDark: {
+    color: '#FFFFFF',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+});
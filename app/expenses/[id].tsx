@@ -0,0 +1,1219 @@
+import { supabase } from '@/lib/supabaseClient';
+import {
+  errorMessage,
+  Expense,
+  ExpensePayment,
+  getRepository,
+  Household,
+  Member,
+  SplitMode
+} from '@/lib/data';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Text,
+  TextInput,
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  useColorScheme,
+  RefreshControl,
+  Modal,
+  ScrollView
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import SyncStatusBanner from '@/components/SyncStatusBanner';
+import { can } from '@/lib/permissions';
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  SPLIT_MODES,
+  Transfer,
+  formatMoney,
+  getBalances,
+  getCurrencies,
+  settleUp,
+  splitExpense
+} from '@/lib/balances';
+
+type HistoryEntry =
+  | { kind: 'expense'; id: string; created_at: string; expense: Expense }
+  | { kind: 'payment'; id: string; created_at: string; payment: ExpensePayment };
+
+const parseAmount = (text: string) => parseFloat(text.replace(',', '.'));
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export default function ExpensesScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [payments, setPayments] = useState<ExpensePayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Expense form
+  const [showExpenseModal, setShowExpenseModal] = useState(false);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [paidBy, setPaidBy] = useState<string | null>(null);
+  const [splitMode, setSplitMode] = useState<SplitMode>('equal');
+  const [participantIds, setParticipantIds] = useState<string[]>([]);
+  const [splitValues, setSplitValues] = useState<Record<string, string>>({});
+
+  // Payment form
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [paymentFrom, setPaymentFrom] = useState<string | null>(null);
+  const [paymentTo, setPaymentTo] = useState<string | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentCurrency, setPaymentCurrency] = useState(DEFAULT_CURRENCY);
+  const [paymentNote, setPaymentNote] = useState('');
+
+  // Get current user
+  useEffect(() => {
+    const getCurrentUser = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session) {
+        setUserId(session.user.id);
+      }
+    };
+    getCurrentUser();
+  }, []);
+
+  const fetchExpenses = async () => {
+    if (!id || !userId) return;
+
+    const repository = getRepository();
+    try {
+      const [householdData, membersData, expensesData, paymentsData] = await Promise.all([
+        repository.households.get(id),
+        repository.members.listActive(id),
+        repository.expenses.listForHousehold(id),
+        repository.payments.listForHousehold(id),
+      ]);
+      setHousehold(householdData);
+      setMembers(membersData);
+      setExpenses(expensesData);
+      setPayments(paymentsData);
+    } catch (error) {
+      console.error('Error fetching expenses:', error);
+      Alert.alert('Error', 'Failed to load expenses');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (id && userId) {
+      fetchExpenses();
+    }
+  }, [id, userId]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchExpenses();
+  };
+
+  const currentMember = members.find(member => member.user_id === userId) || null;
+  const canRecord = can(currentMember, 'record_expenses', household);
+  const canManage = can(currentMember, 'manage_expenses', household);
+
+  const currencies = getCurrencies(expenses, payments);
+  const balanceCurrency = selectedCurrency && currencies.includes(selectedCurrency)
+    ? selectedCurrency
+    : currencies[0] || DEFAULT_CURRENCY;
+  const balances = getBalances(expenses, payments, balanceCurrency);
+  const transfers = settleUp(balances);
+  // Former members who still owe or are owed money stay on the balance sheet
+  const balanceIds = [
+    ...members.map(member => member.user_id),
+    ...Object.keys(balances).filter(memberId => !members.some(member => member.user_id === memberId)),
+  ];
+
+  const history: HistoryEntry[] = [
+    ...expenses.map(expense => ({ kind: 'expense' as const, id: expense.id, created_at: expense.created_at, expense })),
+    ...payments.map(payment => ({ kind: 'payment' as const, id: payment.id, created_at: payment.created_at, payment })),
+  ].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const getMemberName = (memberId: string | null) => {
+    if (!memberId) return 'Someone';
+    if (memberId === userId) return 'You';
+    const member = members.find(m => m.user_id === memberId);
+    return member ? member.name || member.email : 'A former member';
+  };
+
+  const openExpenseModal = () => {
+    setDescription('');
+    setAmount('');
+    setCurrency(balanceCurrency);
+    setPaidBy(userId);
+    setSplitMode('equal');
+    setParticipantIds(members.map(member => member.user_id));
+    setSplitValues({});
+    setShowExpenseModal(true);
+  };
+
+  const toggleParticipant = (memberId: string) => {
+    setParticipantIds(prev => prev.includes(memberId)
+      ? prev.filter(existing => existing !== memberId)
+      : [...prev, memberId]
+    );
+  };
+
+  // Worked out as the form changes, so mistakes show before saving
+  let splitPreview: ReturnType<typeof splitExpense> = [];
+  let splitError: string | null = null;
+  if (amount.trim()) {
+    try {
+      splitPreview = splitExpense(
+        parseAmount(amount),
+        splitMode,
+        participantIds.map(memberId => ({
+          userId: memberId,
+          value: splitMode === 'shares'
+            ? parseAmount(splitValues[memberId] || '1')
+            : parseAmount(splitValues[memberId] || '0'),
+        }))
+      );
+    } catch (error) {
+      splitError = errorMessage(error);
+    }
+  }
+  const canSaveExpense = !!description.trim() && !!paidBy && splitPreview.length > 0 && !splitError && !saving;
+
+  const saveExpense = async () => {
+    if (!id || !userId || !paidBy || !canSaveExpense) return;
+
+    setSaving(true);
+    try {
+      const created = await getRepository().expenses.create({
+        household_id: id,
+        description: description.trim(),
+        amount: parseAmount(amount),
+        currency,
+        paid_by: paidBy,
+        split_mode: splitMode,
+        splits: splitPreview,
+        created_by: userId,
+      });
+      setExpenses(prev => [created, ...prev]);
+      setSelectedCurrency(created.currency);
+      setShowExpenseModal(false);
+    } catch (error) {
+      console.error('Error recording expense:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openPaymentModal = (transfer?: Transfer) => {
+    setPaymentFrom(transfer ? transfer.from : userId);
+    setPaymentTo(transfer ? transfer.to : null);
+    setPaymentAmount(transfer ? transfer.amount.toFixed(2) : '');
+    setPaymentCurrency(balanceCurrency);
+    setPaymentNote('');
+    setShowPaymentModal(true);
+  };
+
+  const canSavePayment = !!paymentFrom
+    && !!paymentTo
+    && paymentFrom !== paymentTo
+    && (paymentFrom === userId || paymentTo === userId)
+    && parseAmount(paymentAmount) > 0
+    && !saving;
+
+  const savePayment = async () => {
+    if (!id || !userId || !paymentFrom || !paymentTo || !canSavePayment) return;
+
+    setSaving(true);
+    try {
+      const created = await getRepository().payments.create({
+        household_id: id,
+        from_user: paymentFrom,
+        to_user: paymentTo,
+        amount: Math.round(parseAmount(paymentAmount) * 100) / 100,
+        currency: paymentCurrency,
+        note: paymentNote.trim() || null,
+        created_by: userId,
+      });
+      setPayments(prev => [created, ...prev]);
+      setSelectedCurrency(created.currency);
+      setShowPaymentModal(false);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteEntry = (entry: HistoryEntry) => {
+    const createdBy = entry.kind === 'expense' ? entry.expense.created_by : entry.payment.created_by;
+    if (createdBy !== userId && !canManage) return;
+
+    Alert.alert(
+      entry.kind === 'expense' ? 'Delete Expense' : 'Delete Payment',
+      'Balances will be worked out again without it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              if (entry.kind === 'expense') {
+                await getRepository().expenses.remove(entry.id);
+                setExpenses(prev => prev.filter(expense => expense.id !== entry.id));
+              } else {
+                await getRepository().payments.remove(entry.id);
+                setPayments(prev => prev.filter(payment => payment.id !== entry.id));
+              }
+            } catch (error) {
+              console.error('Error deleting entry:', error);
+              Alert.alert('Error', errorMessage(error));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const describeSplit = (expense: Expense) => {
+    const people = `${expense.splits.length} ${expense.splits.length === 1 ? 'person' : 'people'}`;
+    switch (expense.split_mode) {
+      case 'equal': return `split equally between ${people}`;
+      case 'shares': return `split by shares between ${people}`;
+      case 'exact': return `split exactly between ${people}`;
+    }
+  };
+
+  const renderMemberChips = (selected: string | null, onSelect: (memberId: string) => void) => (
+    <View style={styles.chips}>
+      {members.map(member => (
+        <TouchableOpacity
+          key={member.user_id}
+          style={[styles.chip, isDark && styles.chipDark, selected === member.user_id && styles.chipSelected]}
+          onPress={() => onSelect(member.user_id)}
+          activeOpacity={0.7}
+        >
+          <Text style={[
+            styles.chipText,
+            isDark && styles.chipTextDark,
+            selected === member.user_id && styles.chipTextSelected
+          ]}>
+            {getMemberName(member.user_id)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderCurrencyChips = (selected: string, onSelect: (value: string) => void) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+      {CURRENCIES.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, isDark && styles.chipDark, selected === option && styles.chipSelected]}
+          onPress={() => onSelect(option)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.chipText, isDark && styles.chipTextDark, selected === option && styles.chipTextSelected]}>
+            {option}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const renderEntry = ({ item }: { item: HistoryEntry }) => {
+    if (item.kind === 'payment') {
+      const { payment } = item;
+      return (
+        <TouchableOpacity
+          style={[styles.entry, isDark && styles.entryDark]}
+          onLongPress={() => deleteEntry(item)}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="swap-horizontal" size={22} color="#34C759" />
+          <View style={styles.entryInfo}>
+            <Text style={[styles.entryTitle, isDark && styles.entryTitleDark]}>
+              {getMemberName(payment.from_user)} paid {getMemberName(payment.to_user)}
+            </Text>
+            <Text style={styles.entryMeta}>
+              {formatDate(payment.created_at)}{payment.note ? ` • ${payment.note}` : ''}
+            </Text>
+          </View>
+          <Text style={[styles.entryAmount, isDark && styles.entryAmountDark]}>
+            {formatMoney(payment.amount, payment.currency)}
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+
+    const { expense } = item;
+    const myShare = expense.splits.find(split => split.user_id === userId)?.amount || 0;
+    const myNet = (expense.paid_by === userId ? expense.amount : 0) - myShare;
+    return (
+      <TouchableOpacity
+        style={[styles.entry, isDark && styles.entryDark]}
+        onLongPress={() => deleteEntry(item)}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="receipt" size={22} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+        <View style={styles.entryInfo}>
+          <Text style={[styles.entryTitle, isDark && styles.entryTitleDark]} numberOfLines={1}>
+            {expense.description}
+          </Text>
+          <Text style={styles.entryMeta}>
+            {formatDate(expense.created_at)} • {getMemberName(expense.paid_by)} paid, {describeSplit(expense)}
+          </Text>
+          {myNet !== 0 && (
+            <Text style={[styles.entryShare, myNet > 0 ? styles.owedText : styles.owesText]}>
+              {myNet > 0
+                ? `You lent ${formatMoney(myNet, expense.currency)}`
+                : `You owe ${formatMoney(-myNet, expense.currency)}`}
+            </Text>
+          )}
+        </View>
+        <Text style={[styles.entryAmount, isDark && styles.entryAmountDark]}>
+          {formatMoney(expense.amount, expense.currency)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          <Text style={styles.loadingText}>Loading expenses...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!household) {
+    return (
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle" size={64} color={isDark ? "#FF453A" : "#FF3B30"} />
+          <Text style={[styles.errorTitle, isDark && styles.errorTitleDark]}>
+            Household not found
+          </Text>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const balancesSection = (
+    <View>
+      {currencies.length > 1 && (
+        <View style={[styles.chips, styles.currencyTabs]}>
+          {currencies.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, isDark && styles.chipDark, balanceCurrency === option && styles.chipSelected]}
+              onPress={() => setSelectedCurrency(option)}
+              activeOpacity={0.7}
+            >
+              <Text style={[
+                styles.chipText,
+                isDark && styles.chipTextDark,
+                balanceCurrency === option && styles.chipTextSelected
+              ]}>
+                {option}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={[styles.section, isDark && styles.sectionDark]}>
+        <View style={styles.sectionHeader}>
+          <Ionicons name="wallet" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+            Balances
+          </Text>
+        </View>
+        {balanceIds.map(memberId => {
+          const balance = balances[memberId] || 0;
+          return (
+            <View key={memberId} style={styles.balanceRow}>
+              <Text style={[styles.balanceName, isDark && styles.balanceNameDark]} numberOfLines={1}>
+                {getMemberName(memberId)}
+              </Text>
+              <Text style={[
+                styles.balanceAmount,
+                balance > 0 && styles.owedText,
+                balance < 0 && styles.owesText
+              ]}>
+                {balance === 0
+                  ? 'Settled up'
+                  : balance > 0
+                    ? `is owed ${formatMoney(balance, balanceCurrency)}`
+                    : `owes ${formatMoney(-balance, balanceCurrency)}`}
+              </Text>
+            </View>
+          );
+        })}
+
+        {transfers.length > 0 && (
+          <View style={[styles.settleUp, isDark && styles.settleUpDark]}>
+            <Text style={[styles.settleUpTitle, isDark && styles.settleUpTitleDark]}>
+              To settle up
+            </Text>
+            {transfers.map(transfer => {
+              const involvesMe = transfer.from === userId || transfer.to === userId;
+              return (
+                <View key={`${transfer.from}-${transfer.to}`} style={styles.transferRow}>
+                  <Text style={[styles.transferText, isDark && styles.transferTextDark]}>
+                    {getMemberName(transfer.from)} → {getMemberName(transfer.to)}:{' '}
+                    {formatMoney(transfer.amount, balanceCurrency)}
+                  </Text>
+                  {canRecord && involvesMe && (
+                    <TouchableOpacity
+                      style={styles.transferButton}
+                      onPress={() => openPaymentModal(transfer)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={styles.transferButtonText}>Record</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </View>
+
+      <Text style={[styles.historyTitle, isDark && styles.historyTitleDark]}>History</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+      <StatusBar barStyle={isDark ? "light-content" : "dark-content"} backgroundColor={isDark ? "#1C1C1E" : "#f8f9fa"} />
+
+      {/* Header */}
+      <View style={[styles.header, isDark && styles.headerDark]}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={[styles.headerTitle, isDark && styles.headerTitleDark]}>
+            Expenses
+          </Text>
+          <Text style={styles.headerSubtitle}>
+            {household.name} • {expenses.length} expenses
+          </Text>
+        </View>
+        {canRecord && (
+          <>
+            <TouchableOpacity style={styles.headerButton} onPress={() => openPaymentModal()}>
+              <Ionicons name="swap-horizontal" size={24} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.headerButton} onPress={openExpenseModal}>
+              <Ionicons name="add-circle" size={28} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      <SyncStatusBanner isDark={isDark} />
+
+      <FlatList
+        data={history}
+        keyExtractor={item => `${item.kind}-${item.id}`}
+        renderItem={renderEntry}
+        ListHeaderComponent={balancesSection}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={isDark ? "#5AC8FA" : "#4A90E2"}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyList}>
+            <Ionicons name="receipt-outline" size={64} color={isDark ? "#48484A" : "#C7C7CC"} />
+            <Text style={[styles.emptyListTitle, isDark && styles.emptyListTitleDark]}>
+              No expenses yet
+            </Text>
+            <Text style={styles.emptyListSubtitle}>
+              Record rent, bills and groceries to see who owes whom
+            </Text>
+          </View>
+        }
+      />
+
+      {/* Add Expense Modal */}
+      <Modal
+        visible={showExpenseModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowExpenseModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, isDark && styles.modalContentDark]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>
+                Add Expense
+              </Text>
+              <TouchableOpacity onPress={() => setShowExpenseModal(false)} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              <TextInput
+                placeholder="What was it for?"
+                placeholderTextColor="#8E8E93"
+                value={description}
+                onChangeText={setDescription}
+                style={[styles.input, isDark && styles.inputDark]}
+              />
+              <TextInput
+                placeholder="Amount"
+                placeholderTextColor="#8E8E93"
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+                style={[styles.input, styles.inputSpacing, isDark && styles.inputDark]}
+              />
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>Currency</Text>
+              {renderCurrencyChips(currency, setCurrency)}
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>Paid by</Text>
+              {renderMemberChips(paidBy, setPaidBy)}
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>Split</Text>
+              <View style={styles.chips}>
+                {SPLIT_MODES.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.chip, isDark && styles.chipDark, splitMode === option.value && styles.chipSelected]}
+                    onPress={() => setSplitMode(option.value)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[
+                      styles.chipText,
+                      isDark && styles.chipTextDark,
+                      splitMode === option.value && styles.chipTextSelected
+                    ]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {members.map(member => {
+                const included = participantIds.includes(member.user_id);
+                const preview = splitPreview.find(split => split.user_id === member.user_id);
+                return (
+                  <View key={member.user_id} style={styles.participantRow}>
+                    <TouchableOpacity
+                      style={styles.participantToggle}
+                      onPress={() => toggleParticipant(member.user_id)}
+                      activeOpacity={0.7}
+                    >
+                      <Ionicons
+                        name={included ? "checkbox" : "square-outline"}
+                        size={22}
+                        color={included ? isDark ? "#5AC8FA" : "#4A90E2" : isDark ? "#8E8E93" : "#C7C7CC"}
+                      />
+                      <Text style={[styles.participantName, isDark && styles.participantNameDark]} numberOfLines={1}>
+                        {getMemberName(member.user_id)}
+                      </Text>
+                    </TouchableOpacity>
+                    {included && splitMode !== 'equal' && (
+                      <TextInput
+                        placeholder={splitMode === 'shares' ? '1' : '0.00'}
+                        placeholderTextColor="#8E8E93"
+                        value={splitValues[member.user_id] || ''}
+                        onChangeText={text => setSplitValues(prev => ({ ...prev, [member.user_id]: text }))}
+                        keyboardType="decimal-pad"
+                        style={[styles.input, styles.splitInput, isDark && styles.inputDark]}
+                      />
+                    )}
+                    {preview && splitMode !== 'exact' && (
+                      <Text style={styles.participantAmount}>{formatMoney(preview.amount, currency)}</Text>
+                    )}
+                  </View>
+                );
+              })}
+              {splitError && <Text style={styles.splitError}>{splitError}</Text>}
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton, isDark && styles.cancelButtonDark]}
+                onPress={() => setShowExpenseModal(false)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton, !canSaveExpense && styles.saveButtonDisabled]}
+                onPress={saveExpense}
+                disabled={!canSaveExpense}
+                activeOpacity={0.7}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Record Payment Modal */}
+      <Modal
+        visible={showPaymentModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowPaymentModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, isDark && styles.modalContentDark]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>
+                Record Payment
+              </Text>
+              <TouchableOpacity onPress={() => setShowPaymentModal(false)} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>From</Text>
+              {renderMemberChips(paymentFrom, setPaymentFrom)}
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>To</Text>
+              {renderMemberChips(paymentTo, setPaymentTo)}
+
+              <TextInput
+                placeholder="Amount"
+                placeholderTextColor="#8E8E93"
+                value={paymentAmount}
+                onChangeText={setPaymentAmount}
+                keyboardType="decimal-pad"
+                style={[styles.input, styles.inputSpacing, isDark && styles.inputDark]}
+              />
+
+              <Text style={[styles.fieldLabel, isDark && styles.fieldLabelDark]}>Currency</Text>
+              {renderCurrencyChips(paymentCurrency, setPaymentCurrency)}
+
+              <TextInput
+                placeholder="Note (optional)"
+                placeholderTextColor="#8E8E93"
+                value={paymentNote}
+                onChangeText={setPaymentNote}
+                style={[styles.input, styles.inputSpacing, isDark && styles.inputDark]}
+              />
+              <Text style={styles.modalHint}>
+                You can record payments you made or received.
+              </Text>
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton, isDark && styles.cancelButtonDark]}
+                onPress={() => setShowPaymentModal(false)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton, !canSavePayment && styles.saveButtonDisabled]}
+                onPress={savePayment}
+                disabled={!canSavePayment}
+                activeOpacity={0.7}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Record</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  containerDark: {
+    backgroundColor: '#000000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  errorTitleDark: {
+    color: '#FFFFFF',
+  },
+  backButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#4A90E2',
+    borderRadius: 12,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerDark: {
+    backgroundColor: '#1C1C1E',
+    borderBottomColor: '#38383A',
+  },
+  headerButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  headerContent: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  headerTitleDark: {
+    color: '#FFFFFF',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  listContent: {
+    paddingBottom: 24,
+  },
+  currencyTabs: {
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  section: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginVertical: 8,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionDark: {
+    backgroundColor: '#1C1C1E',
+    shadowOpacity: 0.3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginLeft: 8,
+    flex: 1,
+  },
+  sectionTitleDark: {
+    color: '#FFFFFF',
+  },
+  balanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  balanceName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  balanceNameDark: {
+    color: '#FFFFFF',
+  },
+  balanceAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  owedText: {
+    color: '#34C759',
+  },
+  owesText: {
+    color: '#FF3B30',
+  },
+  settleUp: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  settleUpDark: {
+    borderTopColor: '#38383A',
+  },
+  settleUpTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  settleUpTitleDark: {
+    color: '#FFFFFF',
+  },
+  transferRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  transferText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  transferTextDark: {
+    color: '#FFFFFF',
+  },
+  transferButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#4A90E2',
+  },
+  transferButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  historyTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    color: '#8E8E93',
+    marginHorizontal: 20,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  historyTitleDark: {
+    color: '#8E8E93',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderRadius: 12,
+    padding: 14,
+  },
+  entryDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  entryTitleDark: {
+    color: '#FFFFFF',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  entryShare: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  entryAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  entryAmountDark: {
+    color: '#FFFFFF',
+  },
+  emptyList: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 20,
+  },
+  emptyListTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyListTitleDark: {
+    color: '#FFFFFF',
+  },
+  emptyListSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#F2F2F7',
+  },
+  chipDark: {
+    borderColor: '#38383A',
+    backgroundColor: '#2C2C2E',
+  },
+  chipSelected: {
+    backgroundColor: '#4A90E2',
+    borderColor: '#4A90E2',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#1C1C1E',
+  },
+  chipTextDark: {
+    color: '#FFFFFF',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '85%',
+  },
+  modalContentDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  modalTitleDark: {
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flexGrow: 0,
+  },
+  modalHint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  inputDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#38383A',
+    color: '#FFFFFF',
+  },
+  inputSpacing: {
+    marginTop: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  fieldLabelDark: {
+    color: '#FFFFFF',
+  },
+  participantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  participantToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  participantName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  participantNameDark: {
+    color: '#FFFFFF',
+  },
+  participantAmount: {
+    fontSize: 14,
+    color: '#8E8E93',
+    minWidth: 64,
+    textAlign: 'right',
+  },
+  splitInput: {
+    width: 80,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    textAlign: 'right',
+  },
+  splitError: {
+    fontSize: 13,
+    color: '#FF3B30',
+    marginTop: 8,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#38383A',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  cancelButtonTextDark: {
+    color: '#FFFFFF',
+  },
+  saveButton: {
+    backgroundColor: '#4A90E2',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
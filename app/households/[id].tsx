@@ -1,4 +1,16 @@
 import { supabase } from '@/lib/supabaseClient';
+import {
+  errorMessage,
+  getRepository,
+  Household,
+  HouseholdChange,
+  HouseholdUpdate,
+  Invitation,
+  Member,
+  MemberRole,
+  Task,
+  TaskActivity
+} from '@/lib/data';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { 
@@ -14,42 +26,37 @@ import {
   ActivityIndicator,
   useColorScheme,
   RefreshControl,
-  Modal
+  Modal,
+  ScrollView,
+  Switch
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import TaskComponent from '@/components/TaskComponent';
+import LiveUpdateBanner from '@/components/LiveUpdateBanner';
+import SyncStatusBanner from '@/components/SyncStatusBanner';
+import DueDatePicker from '@/components/DueDatePicker';
+import MemberManagementModal from '@/components/MemberManagementModal';
+import TagManagerModal from '@/components/TagManagerModal';
+import TagPicker from '@/components/TagPicker';
+import FairnessDashboard from '@/components/FairnessDashboard';
+import ActivityTimeline from '@/components/ActivityTimeline';
+import { useHouseholdRealtime } from '@/hooks/useHouseholdRealtime';
+import { useMemberDirectory } from '@/hooks/useMemberDirectory';
+import { useTaskTags } from '@/hooks/useTaskTags';
+import { applyChange, inHousehold } from '@/lib/realtime';
+import { can } from '@/lib/permissions';
+import { DEFAULT_POINTS, EFFORT_POINTS } from '@/lib/fairness';
+import { suggestAssignee } from '@/lib/autoAssign';
+import { findTags } from '@/lib/tags';
+import {
+  RecurrencePreset,
+  getNextAssignee,
+  parseRecurrenceRule,
+  ruleForPreset
+} from '@/lib/recurrence';
 
-interface Household {
-  id: string;
-  name: string;
-  description: string | null;
-  created_by: string;
-  created_at: string;
-  updated_at: string;
-}
-
-interface Member {
-  user_id: string;
-  email: string;
-  name: string | null;
-  role: 'admin' | 'member' | 'viewer';
-  joined_at: string;
-  is_active: boolean;
-}
-
-interface Task {
-  id: string;
-  household_id: string;
-  title: string;
-  details: string;
-  status: boolean;
-  assignee: string | null;
-  created_by: string;
-  created_at: string;
-  updated_at: string;
-  due_date: string | null;
-  priority: 'low' | 'medium' | 'high';
-}
+// Entries shown in the household activity feed
+const ACTIVITY_FEED_LIMIT = 20;
 
 export default function HouseholdDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -59,18 +66,34 @@ export default function HouseholdDetailScreen() {
   
   const [household, setHousehold] = useState<Household | null>(null);
   const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskDetails, setNewTaskDetails] = useState('');
   const [selectedAssignee, setSelectedAssignee] = useState<string | null>(null);
+  const [autoAssign, setAutoAssign] = useState(false);
+  const [repeatPreset, setRepeatPreset] = useState<RecurrencePreset>('none');
+  const [customRule, setCustomRule] = useState('');
+  const [rotation, setRotation] = useState<string[]>([]);
+  const [dueDate, setDueDate] = useState<Date | null>(null);
+  const [dueAllDay, setDueAllDay] = useState(true);
+  const [requiresProof, setRequiresProof] = useState(false);
+  const [requiresReview, setRequiresReview] = useState(false);
+  const [points, setPoints] = useState(DEFAULT_POINTS);
+  const [newTaskTags, setNewTaskTags] = useState<string[]>([]);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [showFairness, setShowFairness] = useState(false);
+  const [showActivity, setShowActivity] = useState(false);
+  const [activity, setActivity] = useState<TaskActivity[]>([]);
   const [userId, setUserId] = useState<string | null>(null);
   const [showInviteModal, setShowInviteModal] = useState(false);
   const [inviteEmail, setInviteEmail] = useState('');
   const [memberName, setMemberName] = useState('');
-  const [memberRole, setMemberRole] = useState<'admin' | 'member' | 'viewer'>('member');
+  const [memberRole, setMemberRole] = useState<MemberRole>('member');
   const [inviting, setInviting] = useState(false);
+  const [managedMember, setManagedMember] = useState<Member | null>(null);
 
   // Get current user
   useEffect(() => {
@@ -87,96 +110,41 @@ export default function HouseholdDetailScreen() {
   const fetchHouseholdData = async () => {
     if (!id || !userId) return;
 
+    const repository = getRepository();
     try {
-      // Fetch household details
-      const { data: householdData, error: householdError } = await supabase
-        .from('households')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (householdError) {
-        console.error('Error fetching household:', householdError);
-        Alert.alert('Error', 'Failed to load household details');
-        return;
-      }
-
+      const householdData = await repository.households.get(id);
       setHousehold(householdData);
+      if (!householdData) return;
 
-      // Fetch members
-      const { data: membersData, error: membersError } = await supabase
-        .from('household_members')
-        .select('user_id, name, role, joined_at, is_active')
-        .eq('household_id', id)
-        .eq('is_active', true);
+      const [membersResult, invitationsResult, tasksResult] = await Promise.allSettled([
+        repository.members.listActive(id),
+        repository.invitations.listForHousehold(id),
+        repository.tasks.listForHousehold(id),
+      ]);
 
-      if (membersError) {
-        console.error('Error fetching members:', membersError);
-        setMembers([]);
-      } else if (membersData && membersData.length > 0) {
-        // Get user details for all members
-        const userIds = membersData.map(member => member.user_id);
-        const { data: usersData, error: usersError } = await supabase
-          .from('users')
-          .select('id, email, avatar_url, phone')
-          .in('id', userIds);
-
-        if (usersError) {
-          console.error('Error fetching user details:', usersError);
-        }
-
-        const transformedMembers = membersData.map(member => {
-          const user = usersData?.find(u => u.id === member.user_id);
-          return {
-            user_id: member.user_id,
-            email: user?.email || 'Unknown',
-            name: member.name || user?.email || 'Unknown',
-            role: member.role as 'admin' | 'member' | 'viewer',
-            joined_at: member.joined_at,
-            is_active: member.is_active,
-          };
-        });
-        setMembers(transformedMembers);
+      if (membersResult.status === 'fulfilled') {
+        setMembers(membersResult.value);
       } else {
+        console.error('Error fetching members:', membersResult.reason);
         setMembers([]);
       }
 
-      // Fetch tasks
-      const { data: tasksData, error: tasksError } = await supabase
-        .from('tasks')
-        .select(`
-          id,
-          household_id,
-          title,
-          details,
-          status,
-          assignee,
-          created_by,
-          created_at,
-          updated_at,
-          due_date,
-          priority
-        `)
-        .eq('household_id', id)
-        .order('created_at', { ascending: false });
+      if (invitationsResult.status === 'fulfilled') {
+        setInvitations(invitationsResult.value);
+      } else {
+        console.error('Error fetching invitations:', invitationsResult.reason);
+        setInvitations([]);
+      }
 
-      if (tasksError) {
-        console.error('Error fetching tasks:', tasksError);
+      if (tasksResult.status === 'fulfilled') {
+        setTasks(tasksResult.value);
       } else {
-        // Transform tasks to include default values for new columns
-        const transformedTasks = tasksData?.map(task => ({
-          ...task,
-          created_by: task.created_by || '',
-          updated_at: task.updated_at || task.created_at,
-          due_date: task.due_date || null,
-          priority: task.priority || 'medium'
-        })) || [];
-        setTasks(transformedTasks);
+        console.error('Error fetching tasks:', tasksResult.reason);
       }
 
     } catch (error) {
-      console.error('Unexpected error:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
+      console.error('Error fetching household:', error);
+      Alert.alert('Error', 'Failed to load household details');
     } finally {
       setLoading(false);
       setRefreshing(false);
@@ -194,219 +162,254 @@ export default function HouseholdDetailScreen() {
     fetchHouseholdData();
   };
 
-  const inviteMember = async () => {
-    if (!inviteEmail.trim()) {
-      Alert.alert('Error', 'Please enter an email address');
-      return;
+  // Keep the lists in sync with changes made by other members
+  const handleRealtimeChange = async (change: HouseholdChange) => {
+    switch (change.table) {
+      case 'tasks':
+        setTasks(prev => applyChange(prev, change, task => task.id, inHousehold(id)));
+        break;
+      case 'household_invitations':
+        setInvitations(prev => applyChange(prev, change, invite => invite.id));
+        break;
+      case 'household_members': {
+        // Member rows arrive without the user's email and avatar, so load the joined member
+        const memberId = change.record?.user_id ?? change.old?.user_id;
+        if (!id || !memberId) return;
+        if (memberId === userId && change.record && !change.record.is_active) {
+          Alert.alert('Removed from household', 'You are no longer a member of this household');
+          router.back();
+          return;
+        }
+        try {
+          const member = change.record?.is_active
+            ? await getRepository().members.findActive(id, memberId)
+            : null;
+          setMembers(prev => applyChange(
+            prev,
+            { type: member ? 'UPDATE' : 'DELETE', record: member, old: { user_id: memberId } },
+            item => item.user_id
+          ));
+        } catch (error) {
+          console.error('Error loading member:', error);
+        }
+        break;
+      }
     }
+  };
 
-    if (!memberName.trim()) {
-      Alert.alert('Error', 'Please enter a member name');
-      return;
-    }
+  const { notice, dismissNotice } = useHouseholdRealtime(id ? [id] : [], userId, handleRealtimeChange);
 
-    if (!userId || !id) {
-      Alert.alert('Error', 'Missing required information');
-      return;
-    }
+  // The feed is only loaded while it's open, and re-read as the tasks change
+  useEffect(() => {
+    if (!id || !showActivity) return;
 
-    setInviting(true);
+    const fetchActivity = async () => {
+      try {
+        setActivity(await getRepository().activity.listForHousehold(id, ACTIVITY_FEED_LIMIT));
+      } catch (error) {
+        console.error('Error fetching household activity:', error);
+      }
+    };
+    fetchActivity();
+  }, [id, showActivity, tasks]);
 
+  const currentMember = members.find(member => member.user_id === userId) || null;
+  // Also knows members who have left, for their old tasks
+  const directory = useMemberDirectory(id ? [id] : []);
+  const householdTags = useTaskTags(id ? [id] : []);
+  const canInvite = can(currentMember, 'invite_members', household);
+  const canCreateTasks = can(currentMember, 'create_tasks', household);
+  const canEditHousehold = can(currentMember, 'edit_household', household);
+  const canManageTags = can(currentMember, 'manage_tags', household);
+  // Shown under the assignee chips so the creator knows who auto-assign will pick and why
+  const assignmentSuggestion = autoAssign ? suggestAssignee(tasks, members) : null;
+
+  const updateSettings = async (changes: HouseholdUpdate) => {
+    if (!household || !canEditHousehold) return;
+
+    const previous = household;
+    setHousehold({ ...household, ...changes });
     try {
-      // Find the user by email in the users table
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('id, name')
-        .eq('email', inviteEmail.trim())
-        .single();
+      setHousehold(await getRepository().households.update(household.id, changes));
+    } catch (error) {
+      console.error('Error updating household settings:', error);
+      Alert.alert('Error', errorMessage(error));
+      setHousehold(previous);
+    }
+  };
 
-      if (userError || !userData) {
-        Alert.alert('Error', 'User with this email not found. They need to create an account first.');
-        setInviting(false);
-        return;
-      }
+  const toggleRotationMember = (memberId: string) => {
+    setRotation(prev =>
+      prev.includes(memberId) ? prev.filter(id => id !== memberId) : [...prev, memberId]
+    );
+  };
 
-      // Check if user already exists in household_members
-      const { data: existingMember } = await supabase
-        .from('household_members')
-        .select('user_id')
-        .eq('household_id', id)
-        .eq('user_id', userData.id)
-        .single();
+  const resetTaskForm = () => {
+    setNewTaskTitle('');
+    setNewTaskDetails('');
+    setSelectedAssignee(null);
+    setAutoAssign(false);
+    setRepeatPreset('none');
+    setCustomRule('');
+    setRotation([]);
+    setDueDate(null);
+    setDueAllDay(true);
+    setRequiresProof(false);
+    setRequiresReview(false);
+    setPoints(DEFAULT_POINTS);
+    setNewTaskTags([]);
+  };
 
-      if (existingMember) {
-        Alert.alert('Error', 'User is already a member of this household');
-        setInviting(false);
-        return;
-      }
+  const createTask = async () => {
+    if (!newTaskTitle.trim() || !id || !userId || !canCreateTasks) return;
 
-      // Add user directly to household_members
-      const { error: memberError } = await supabase
-        .from('household_members')
-        .insert({
-          user_id: userData.id,
-          household_id: id,
-          name: memberName.trim(),
-          role: memberRole,
-          is_active: true
-        });
+    // Recurring tasks are anchored on their due date, or today when none was picked
+    const startDate = dueDate ? new Date(dueDate) : new Date();
+    if (!dueDate) startDate.setHours(0, 0, 0, 0);
 
-      if (memberError) {
-        console.error('Error adding member:', memberError);
-        Alert.alert('Error', 'Failed to add member to household');
-        setInviting(false);
-        return;
-      }
+    const recurrenceRule = repeatPreset === 'custom'
+      ? customRule.trim().toUpperCase()
+      : ruleForPreset(repeatPreset, startDate);
 
-      Alert.alert('Success', `${memberName} has been added to the household!`);
-      setInviteEmail('');
-      setMemberName('');
-      setMemberRole('member');
-      setShowInviteModal(false);
-      
-      // Refresh household data to show new member
-      fetchHouseholdData();
-    } catch (err) {
-      console.error('Unexpected error:', err);
-      Alert.alert('Error', 'An unexpected error occurred');
-    } finally {
-      setInviting(false);
+    if (recurrenceRule && !parseRecurrenceRule(recurrenceRule)) {
+      Alert.alert('Invalid repeat rule', 'Use a rule like FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+      return;
     }
-  };
 
-  const createTask = async () => {
-    if (!newTaskTitle.trim() || !id || !userId) return;
+    const taskRotation = recurrenceRule ? rotation : [];
+    const suggestion = autoAssign ? suggestAssignee(tasks, members) : null;
+    // Start the rotation at the chosen assignee, or with the first member in the rotation
+    const assignee = (autoAssign ? suggestion?.userId : selectedAssignee)
+      ?? (taskRotation.length > 0 ? getNextAssignee(taskRotation, null) : null);
 
     try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .insert({
-          title: newTaskTitle,
-          details: newTaskDetails,
-          household_id: id,
-          status: false,
-          assignee: selectedAssignee,
-          created_by: userId,
-          priority: 'medium'
-        })
-        .select()
-        .single();
+      const repository = getRepository();
+      let createdTask = await repository.tasks.create({
+        title: newTaskTitle,
+        details: newTaskDetails,
+        household_id: id,
+        assignee,
+        created_by: userId,
+        priority: 'medium',
+        tag_ids: newTaskTags,
+        points,
+        due_date: dueDate || recurrenceRule ? startDate.toISOString() : null,
+        due_all_day: dueDate ? dueAllDay : true,
+        recurrence_rule: recurrenceRule,
+        rotation: taskRotation,
+        requires_proof: requiresProof,
+        requires_review: requiresReview
+      });
 
-      if (error) {
-        console.error('Error creating task:', error);
-        Alert.alert('Error', 'Failed to create task');
-        return;
+      // The first occurrence starts its own series
+      if (recurrenceRule) {
+        try {
+          createdTask = await repository.tasks.update(createdTask.id, { series_id: createdTask.id });
+        } catch (seriesError) {
+          console.error('Error starting task series:', seriesError);
+        }
       }
 
-      setNewTaskTitle('');
-      setNewTaskDetails('');
-      setSelectedAssignee(null);
-      setTasks(prev => [data, ...prev]);
+      const taskTitle = newTaskTitle;
+      resetTaskForm();
+      setTasks(prev => applyChange(prev, { type: 'INSERT', record: createdTask, old: null }, task => task.id));
       
       // Show notification if task was assigned to someone
-      if (selectedAssignee) {
-        const assigneeMember = members.find(m => m.user_id === selectedAssignee);
+      if (assignee) {
+        const assigneeMember = members.find(m => m.user_id === assignee);
         const assigneeName = assigneeMember?.name || assigneeMember?.email || 'Unknown';
         Alert.alert(
           'Task Created & Assigned!', 
-          `Task "${newTaskTitle}" has been assigned to ${assigneeName}. They will be notified.`,
+          `Task "${taskTitle}" has been assigned to ${assigneeName}. They will be notified.`
+            + (suggestion?.userId === assignee ? `\n\n${suggestion.reason}.` : ''),
           [{ text: 'OK', style: 'default' }]
         );
       } else {
         Alert.alert('Success', 'Task created successfully!');
       }
     } catch (error) {
-      console.error('Unexpected error:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
+      console.error('Error creating task:', error);
+      Alert.alert('Error', 'Failed to create task');
     }
   };
 
   const inviteMember = async () => {
+    if (!canInvite) {
+      Alert.alert('Not allowed', 'Only household admins can invite members');
+      return;
+    }
+
     if (!inviteEmail.trim()) {
       Alert.alert('Error', 'Please enter an email address');
       return;
     }
 
+    if (!memberName.trim()) {
+      Alert.alert('Error', 'Please enter a member name');
+      return;
+    }
+
     if (!userId || !id) {
       Alert.alert('Error', 'Unable to send invitation');
       return;
     }
 
+    const email = inviteEmail.trim().toLowerCase();
+
     setInviting(true);
     try {
-      // First, find the user by email
-      const { data: userData } = await supabase
-        .from('users')
-        .select('id')
-        .eq('email', inviteEmail.trim())
-        .single();
-
-      if (!userData) {
-        Alert.alert('Error', 'User with this email not found');
-        setInviting(false);
-        return;
-      }
-
-      // Check if user already exists in household
-      const { data: existingMember } = await supabase
-        .from('household_members')
-        .select('id')
-        .eq('household_id', id)
-        .eq('user_id', userData.id)
-        .single();
+      const repository = getRepository();
 
-      if (existingMember) {
+      // If the invitee already has an account, make sure they aren't a member yet
+      const existingUser = await repository.users.findByEmail(email);
+      if (existingUser && await repository.members.findActive(id, existingUser.id)) {
         Alert.alert('Error', 'This user is already a member of this household');
-        setInviting(false);
         return;
       }
 
       // Check if invitation already exists
-      const { data: existingInvite } = await supabase
-        .from('household_invitations')
-        .select('id')
-        .eq('household_id', id)
-        .eq('invitee_email', inviteEmail.trim())
-        .eq('status', 'pending')
-        .single();
-
-      if (existingInvite) {
+      if (await repository.invitations.findPending(id, email)) {
         Alert.alert('Error', 'An invitation has already been sent to this email');
-        setInviting(false);
         return;
       }
 
-      // Create invitation
-      const { error } = await supabase
-        .from('household_invitations')
-        .insert({
-          household_id: id,
-          inviter_id: userId,
-          invitee_email: inviteEmail.trim(),
-          status: 'pending'
-        });
+      const invitation = await repository.invitations.create({
+        household_id: id,
+        inviter_id: userId,
+        invitee_email: email,
+        member_name: memberName.trim(),
+        role: memberRole
+      });
 
-      if (error) {
-        console.error('Invitation error:', error);
-        Alert.alert('Error sending invitation', error.message);
-        return;
-      }
-
-      Alert.alert('Success', 'Invitation sent successfully!');
+      setInvitations(prev => applyChange(prev, { type: 'INSERT', record: invitation, old: null }, invite => invite.id));
+      Alert.alert('Success', `Invitation sent to ${memberName.trim()}! They can accept it from their invitations inbox.`);
       setInviteEmail('');
+      setMemberName('');
+      setMemberRole('member');
       setShowInviteModal(false);
     } catch (err) {
-      console.error('Unexpected error:', err);
-      Alert.alert('Error', 'An unexpected error occurred');
+      console.error('Invitation error:', err);
+      Alert.alert('Error sending invitation', errorMessage(err));
     } finally {
       setInviting(false);
     }
   };
 
+  const getInvitationStatusColor = (status: Invitation['status']) => {
+    switch (status) {
+      case 'accepted': return '#34C759';
+      case 'declined': return isDark ? '#FF453A' : '#FF3B30';
+      default: return '#FF9500';
+    }
+  };
+
   const renderTask = ({ item }: { item: Task }) => (
     <TaskComponent 
       task={item} 
       onPress={() => router.push(`/tasks/${item.id}`)}
+      assignee={directory.getMember(item.assignee, item.household_id)}
+      creator={directory.getMember(item.created_by, item.household_id)}
+      tags={findTags(householdTags, item.tag_ids)}
       isDark={isDark}
     />
   );
@@ -463,8 +466,48 @@ export default function HouseholdDetailScreen() {
             {members.length} members • {tasks.length} tasks
           </Text>
         </View>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={[styles.headerAction, isDark && styles.headerActionDark]}
+            onPress={() => router.push(`/calendar/${household.id}`)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="calendar" size={22} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.headerAction, isDark && styles.headerActionDark]}
+            onPress={() => router.push(`/shopping/${household.id}`)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="cart" size={22} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.headerAction, isDark && styles.headerActionDark]}
+            onPress={() => router.push(`/expenses/${household.id}`)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="wallet" size={22} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.headerAction, isDark && styles.headerActionDark]}
+            onPress={() => router.push(`/bills/${household.id}`)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="document-text" size={22} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.headerAction, isDark && styles.headerActionDark]}
+            onPress={() => setShowTagManager(true)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="pricetags" size={22} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          </TouchableOpacity>
+        </View>
       </View>
 
+      <SyncStatusBanner isDark={isDark} />
+      <LiveUpdateBanner message={notice} onDismiss={dismissNotice} isDark={isDark} />
+
       {/* Members Section */}
       <View style={[styles.section, isDark && styles.sectionDark]}>
         <View style={styles.sectionHeader}>
@@ -474,20 +517,27 @@ export default function HouseholdDetailScreen() {
               Members ({members.length})
             </Text>
           </View>
-          <TouchableOpacity
-            style={[styles.inviteButton, isDark && styles.inviteButtonDark]}
-            onPress={() => setShowInviteModal(true)}
-            activeOpacity={0.7}
-          >
-            <Ionicons name="person-add" size={16} color={isDark ? "#5AC8FA" : "#4A90E2"} />
-            <Text style={[styles.inviteButtonText, isDark && styles.inviteButtonTextDark]}>
-              Invite
-            </Text>
-          </TouchableOpacity>
+          {canInvite && (
+            <TouchableOpacity
+              style={[styles.inviteButton, isDark && styles.inviteButtonDark]}
+              onPress={() => setShowInviteModal(true)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="person-add" size={16} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+              <Text style={[styles.inviteButtonText, isDark && styles.inviteButtonTextDark]}>
+                Invite
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
         <View style={styles.membersList}>
           {members.map((member, index) => (
-            <View key={member.user_id} style={[styles.memberItem, isDark && styles.memberItemDark]}>
+            <TouchableOpacity
+              key={member.user_id}
+              style={[styles.memberItem, isDark && styles.memberItemDark]}
+              onPress={() => setManagedMember(member)}
+              activeOpacity={0.7}
+            >
               <View style={[styles.memberAvatar, isDark && styles.memberAvatarDark]}>
                 <Text style={[styles.memberInitial, isDark && styles.memberInitialDark]}>
                   {(member.name || member.email).charAt(0).toUpperCase()}
@@ -499,7 +549,8 @@ export default function HouseholdDetailScreen() {
                 </Text>
                 <View style={styles.memberMeta}>
                   <Text style={[styles.memberRole, isDark && styles.memberRoleDark]}>
-                    {member.role}
+                    {household.created_by === member.user_id ? 'owner' : member.role}
+                    {member.is_available ? '' : ' • away'}
                   </Text>
                   {member.name && (
                     <Text style={[styles.memberEmail, isDark && styles.memberEmailDark]}>
@@ -508,94 +559,387 @@ export default function HouseholdDetailScreen() {
                   )}
                 </View>
               </View>
-            </View>
+              <Ionicons name="chevron-forward" size={16} color={isDark ? "#48484A" : "#C7C7CC"} />
+            </TouchableOpacity>
           ))}
         </View>
+        {invitations.length > 0 && (
+          <View style={styles.invitationsList}>
+            <Text style={[styles.invitationsTitle, isDark && styles.invitationsTitleDark]}>
+              Invitations
+            </Text>
+            {invitations.map((invitation) => (
+              <View key={invitation.id} style={styles.invitationItem}>
+                <View style={styles.memberInfo}>
+                  <Text style={[styles.invitationName, isDark && styles.invitationNameDark]} numberOfLines={1}>
+                    {invitation.member_name || invitation.invitee_email}
+                  </Text>
+                  <Text style={[styles.memberEmail, isDark && styles.memberEmailDark]} numberOfLines={1}>
+                    {invitation.invitee_email} • {invitation.role}
+                  </Text>
+                </View>
+                <View style={[styles.invitationStatus, { backgroundColor: getInvitationStatusColor(invitation.status) }]}>
+                  <Text style={styles.invitationStatusText}>{invitation.status}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+        {canEditHousehold && (
+          <View style={styles.settingRow}>
+            <Text style={[styles.settingLabel, isDark && styles.settingLabelDark]}>
+              Complete tasks when their checklist is done
+            </Text>
+            <Switch
+              value={household.auto_complete_tasks}
+              onValueChange={value => updateSettings({ auto_complete_tasks: value })}
+              trackColor={{ true: isDark ? "#5AC8FA" : "#4A90E2", false: isDark ? "#38383A" : "#E5E5EA" }}
+            />
+          </View>
+        )}
+        {canEditHousehold && (
+          <View style={styles.settingRow}>
+            <Text style={[styles.settingLabel, isDark && styles.settingLabelDark]}>
+              Require approval before tasks count as done
+            </Text>
+            <Switch
+              value={household.require_task_review}
+              onValueChange={value => updateSettings({ require_task_review: value })}
+              trackColor={{ true: isDark ? "#5AC8FA" : "#4A90E2", false: isDark ? "#38383A" : "#E5E5EA" }}
+            />
+          </View>
+        )}
       </View>
 
-      {/* Create Task Section */}
+      {/* Fairness Section */}
       <View style={[styles.section, isDark && styles.sectionDark]}>
-        <View style={styles.sectionHeader}>
-          <Ionicons name="add-circle" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
-          <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Create New Task
-          </Text>
-        </View>
-        
-        <View style={styles.createTaskForm}>
-          <TextInput
-            placeholder="Task title"
-            placeholderTextColor={isDark ? "#8E8E93" : "#8E8E93"}
-            value={newTaskTitle}
-            onChangeText={setNewTaskTitle}
-            style={[styles.taskInput, isDark && styles.taskInputDark]}
-          />
-          <TextInput
-            placeholder="Details (optional)"
-            placeholderTextColor={isDark ? "#8E8E93" : "#8E8E93"}
-            value={newTaskDetails}
-            onChangeText={setNewTaskDetails}
-            style={[styles.taskInput, isDark && styles.taskInputDark]}
-            multiline
-            numberOfLines={2}
-          />
-          
-          {/* Assignee Selection */}
-          <View style={styles.assigneeSection}>
-            <Text style={[styles.assigneeLabel, isDark && styles.assigneeLabelDark]}>
-              Assign to:
+        <TouchableOpacity
+          style={[styles.sectionHeader, !showFairness && styles.sectionHeaderCollapsed]}
+          onPress={() => setShowFairness(!showFairness)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.sectionTitleContainer}>
+            <Ionicons name="scale" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+              Fairness
             </Text>
-            <View style={styles.assigneeOptions}>
-              <TouchableOpacity
-                style={[
-                  styles.assigneeOption,
-                  selectedAssignee === null && styles.assigneeOptionSelected,
-                  isDark && styles.assigneeOptionDark
-                ]}
-                onPress={() => setSelectedAssignee(null)}
-              >
-                <Text style={[
-                  styles.assigneeOptionText,
-                  selectedAssignee === null && styles.assigneeOptionTextSelected,
-                  isDark && styles.assigneeOptionTextDark
-                ]}>
-                  Unassigned
+          </View>
+          <Ionicons name={showFairness ? "chevron-up" : "chevron-down"} size={20} color={isDark ? "#8E8E93" : "#C7C7CC"} />
+        </TouchableOpacity>
+        {showFairness && (
+          <FairnessDashboard tasks={tasks} members={members} isDark={isDark} />
+        )}
+      </View>
+
+      {/* Activity Section */}
+      <View style={[styles.section, isDark && styles.sectionDark]}>
+        <TouchableOpacity
+          style={[styles.sectionHeader, !showActivity && styles.sectionHeaderCollapsed]}
+          onPress={() => setShowActivity(!showActivity)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.sectionTitleContainer}>
+            <Ionicons name="pulse" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+              Activity
+            </Text>
+          </View>
+          <Ionicons name={showActivity ? "chevron-up" : "chevron-down"} size={20} color={isDark ? "#8E8E93" : "#C7C7CC"} />
+        </TouchableOpacity>
+        {showActivity && (
+          <ScrollView style={styles.activityFeed} nestedScrollEnabled>
+            <ActivityTimeline
+              activities={activity}
+              members={directory.members}
+              currentUserId={userId}
+              showTaskTitle
+              onPressTask={taskId => router.push(`/tasks/${taskId}`)}
+              isDark={isDark}
+            />
+          </ScrollView>
+        )}
+      </View>
+
+      {/* Create Task Section */}
+      {canCreateTasks && (
+        <View style={[styles.section, isDark && styles.sectionDark]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="add-circle" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+              Create New Task
+            </Text>
+          </View>
+        
+          <View style={styles.createTaskForm}>
+            <TextInput
+              placeholder="Task title"
+              placeholderTextColor={isDark ? "#8E8E93" : "#8E8E93"}
+              value={newTaskTitle}
+              onChangeText={setNewTaskTitle}
+              style={[styles.taskInput, isDark && styles.taskInputDark]}
+            />
+            <TextInput
+              placeholder="Details (optional)"
+              placeholderTextColor={isDark ? "#8E8E93" : "#8E8E93"}
+              value={newTaskDetails}
+              onChangeText={setNewTaskDetails}
+              style={[styles.taskInput, isDark && styles.taskInputDark]}
+              multiline
+              numberOfLines={2}
+            />
+
+            {/* Tag Selection */}
+            {(householdTags.length > 0 || canManageTags) && (
+              <View style={styles.assigneeSection}>
+                <Text style={[styles.assigneeLabel, isDark && styles.assigneeLabelDark]}>
+                  Tags:
                 </Text>
-              </TouchableOpacity>
-              
-              {members.map((member) => (
+                <TagPicker
+                  tags={householdTags}
+                  selectedIds={newTaskTags}
+                  onChange={setNewTaskTags}
+                  isDark={isDark}
+                />
+                {canManageTags && (
+                  <TouchableOpacity onPress={() => setShowTagManager(true)} activeOpacity={0.7}>
+                    <Text style={[styles.manageTagsText, isDark && styles.manageTagsTextDark]}>
+                      Manage tags
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
+            {/* Due Date Selection */}
+            <View style={styles.assigneeSection}>
+              <Text style={[styles.assigneeLabel, isDark && styles.assigneeLabelDark]}>
+                Due:
+              </Text>
+              <DueDatePicker
+                value={dueDate}
+                allDay={dueAllDay}
+                onChange={(value, allDay) => {
+                  setDueDate(value);
+                  setDueAllDay(allDay);
+                }}
+                isDark={isDark}
+              />
+            </View>
+
+            <View style={styles.settingRow}>
+              <Text style={[styles.settingLabel, isDark && styles.settingLabelDark]}>
+                Require a photo to complete
+              </Text>
+              <Switch
+                value={requiresProof}
+                onValueChange={setRequiresProof}
+                trackColor={{ true: isDark ? "#5AC8FA" : "#4A90E2", false: isDark ? "#38383A" : "#E5E5EA" }}
+              />
+            </View>
+
+            {/* Every task already needs approval when the household asks for it */}
+            {!household.require_task_review && (
+              <View style={styles.settingRow}>
+                <Text style={[styles.settingLabel, isDark && styles.settingLabelDark]}>
+                  Require approval to complete
+                </Text>
+                <Switch
+                  value={requiresReview}
+                  onValueChange={setRequiresReview}
+                  trackColor={{ true: isDark ? "#5AC8FA" : "#4A90E2", false: isDark ? "#38383A" : "#E5E5EA" }}
+                />
+              </View>
+            )}
+          
+            {/* Assignee Selection */}
+            <View style={styles.assigneeSection}>
+              <Text style={[styles.assigneeLabel, isDark && styles.assigneeLabelDark]}>
+                Assign to:
+              </Text>
+              <View style={styles.assigneeOptions}>
+                <TouchableOpacity
+                  style={[
+                    styles.assigneeOption,
+                    autoAssign && styles.assigneeOptionSelected,
+                    isDark && styles.assigneeOptionDark
+                  ]}
+                  onPress={() => {
+                    setAutoAssign(true);
+                    setSelectedAssignee(null);
+                  }}
+                >
+                  <Text style={[
+                    styles.assigneeOptionText,
+                    autoAssign && styles.assigneeOptionTextSelected,
+                    isDark && styles.assigneeOptionTextDark
+                  ]}>
+                    Auto
+                  </Text>
+                </TouchableOpacity>
+
                 <TouchableOpacity
-                  key={member.user_id}
                   style={[
                     styles.assigneeOption,
-                    selectedAssignee === member.user_id && styles.assigneeOptionSelected,
+                    !autoAssign && selectedAssignee === null && styles.assigneeOptionSelected,
                     isDark && styles.assigneeOptionDark
                   ]}
-                  onPress={() => setSelectedAssignee(member.user_id)}
+                  onPress={() => {
+                    setAutoAssign(false);
+                    setSelectedAssignee(null);
+                  }}
                 >
                   <Text style={[
                     styles.assigneeOptionText,
-                    selectedAssignee === member.user_id && styles.assigneeOptionTextSelected,
+                    !autoAssign && selectedAssignee === null && styles.assigneeOptionTextSelected,
                     isDark && styles.assigneeOptionTextDark
                   ]}>
-                    {member.name || member.email}
+                    Unassigned
                   </Text>
                 </TouchableOpacity>
-              ))}
+              
+                {members.map((member) => (
+                  <TouchableOpacity
+                    key={member.user_id}
+                    style={[
+                      styles.assigneeOption,
+                      selectedAssignee === member.user_id && styles.assigneeOptionSelected,
+                      isDark && styles.assigneeOptionDark
+                    ]}
+                    onPress={() => {
+                      setAutoAssign(false);
+                      setSelectedAssignee(member.user_id);
+                    }}
+                  >
+                    <Text style={[
+                      styles.assigneeOptionText,
+                      selectedAssignee === member.user_id && styles.assigneeOptionTextSelected,
+                      isDark && styles.assigneeOptionTextDark
+                    ]}>
+                      {member.name || member.email}{member.is_available ? '' : ' (away)'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {autoAssign && (
+                <Text style={styles.assignmentReason}>
+                  <Ionicons name="sparkles" size={12} color="#8E8E93" />{' '}
+                  {assignmentSuggestion ? assignmentSuggestion.reason : 'Everyone is away, so the task will be unassigned'}
+                </Text>
+              )}
             </View>
-          </View>
+
+            {/* Effort Selection */}
+            <View style={styles.assigneeSection}>
+              <Text style={[styles.assigneeLabel, isDark && styles.assigneeLabelDark]}>
+                Effort (points):
+              </Text>
+              <View style={styles.assigneeOptions}>
+                {EFFORT_POINTS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[
+                      styles.assigneeOption,
+                      points === option && styles.assigneeOptionSelected,
+                      isDark && styles.assigneeOptionDark
+                    ]}
+                    onPress={() => setPoints(option)}
+                  >
+                    <Text style={[
+                      styles.assigneeOptionText,
+                      points === option && styles.assigneeOptionTextSelected,
+                      isDark && styles.assigneeOptionTextDark
+                    ]}>
+                      {option}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {/* Repeat Selection */}
+            <View style={styles.assigneeSection}>
+              <Text style={[styles.assigneeLabel, isDark && styles.assigneeLabelDark]}>
+                Repeat:
+              </Text>
+              <View style={styles.assigneeOptions}>
+                {(['none', 'daily', 'weekly', 'monthly', 'custom'] as const).map((preset) => (
+                  <TouchableOpacity
+                    key={preset}
+                    style={[
+                      styles.assigneeOption,
+                      repeatPreset === preset && styles.assigneeOptionSelected,
+                      isDark && styles.assigneeOptionDark
+                    ]}
+                    onPress={() => setRepeatPreset(preset)}
+                  >
+                    <Text style={[
+                      styles.assigneeOptionText,
+                      repeatPreset === preset && styles.assigneeOptionTextSelected,
+                      isDark && styles.assigneeOptionTextDark
+                    ]}>
+                      {preset === 'none' ? 'Never' : preset.charAt(0).toUpperCase() + preset.slice(1)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {repeatPreset === 'custom' && (
+                <TextInput
+                  placeholder="e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                  placeholderTextColor={isDark ? "#8E8E93" : "#8E8E93"}
+                  value={customRule}
+                  onChangeText={setCustomRule}
+                  style={[styles.taskInput, isDark && styles.taskInputDark, styles.ruleInput]}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+              )}
+            </View>
+
+            {/* Rotation Selection */}
+            {repeatPreset !== 'none' && members.length > 0 && (
+              <View style={styles.assigneeSection}>
+                <Text style={[styles.assigneeLabel, isDark && styles.assigneeLabelDark]}>
+                  Rotate between (tap in order):
+                </Text>
+                <View style={styles.assigneeOptions}>
+                  {members.map((member) => {
+                    const position = rotation.indexOf(member.user_id);
+                    return (
+                      <TouchableOpacity
+                        key={member.user_id}
+                        style={[
+                          styles.assigneeOption,
+                          position >= 0 && styles.assigneeOptionSelected,
+                          isDark && styles.assigneeOptionDark
+                        ]}
+                        onPress={() => toggleRotationMember(member.user_id)}
+                      >
+                        <Text style={[
+                          styles.assigneeOptionText,
+                          position >= 0 && styles.assigneeOptionTextSelected,
+                          isDark && styles.assigneeOptionTextDark
+                        ]}>
+                          {position >= 0 ? `${position + 1}. ` : ''}{member.name || member.email}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
           
-          <TouchableOpacity 
-            style={[styles.createTaskButton, !newTaskTitle.trim() && styles.createTaskButtonDisabled]}
-            onPress={createTask}
-            disabled={!newTaskTitle.trim()}
-            activeOpacity={0.8}
-          >
-            <Ionicons name="add" size={20} color="white" />
-            <Text style={styles.createTaskButtonText}>Create Task</Text>
-          </TouchableOpacity>
+            <TouchableOpacity 
+              style={[styles.createTaskButton, !newTaskTitle.trim() && styles.createTaskButtonDisabled]}
+              onPress={createTask}
+              disabled={!newTaskTitle.trim()}
+              activeOpacity={0.8}
+            >
+              <Ionicons name="add" size={20} color="white" />
+              <Text style={styles.createTaskButtonText}>Create Task</Text>
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
+      )}
 
       {/* Tasks Section */}
       <View style={[styles.section, isDark && styles.sectionDark, { flex: 1 }]}>
@@ -632,6 +976,31 @@ export default function HouseholdDetailScreen() {
         />
       </View>
 
+      {userId && (
+        <TagManagerModal
+          visible={showTagManager}
+          householdId={household.id}
+          tags={householdTags}
+          userId={userId}
+          canManage={canManageTags}
+          onClose={() => setShowTagManager(false)}
+          isDark={isDark}
+        />
+      )}
+
+      {userId && (
+        <MemberManagementModal
+          member={managedMember}
+          household={household}
+          members={members}
+          tasks={tasks}
+          currentUserId={userId}
+          onClose={() => setManagedMember(null)}
+          onChanged={left => left ? router.back() : fetchHouseholdData()}
+          isDark={isDark}
+        />
+      )}
+
       {/* Invitation Modal */}
       <Modal
         visible={showInviteModal}
@@ -654,7 +1023,7 @@ export default function HouseholdDetailScreen() {
             </View>
             
             <Text style={[styles.modalDescription, isDark && styles.modalDescriptionDark]}>
-              Add a new member to this household by entering their details.
+              Invite someone to this household. They can accept from their invitations inbox once signed in with this email.
             </Text>
             
             <TextInput
@@ -728,7 +1097,7 @@ export default function HouseholdDetailScreen() {
                 {inviting ? (
                   <ActivityIndicator color="white" size="small" />
                 ) : (
-                  <Text style={styles.sendButtonText}>Add Member</Text>
+                  <Text style={styles.sendButtonText}>Send Invite</Text>
                 )}
               </TouchableOpacity>
             </View>
@@ -821,6 +1190,18 @@ const styles = StyleSheet.create({
   headerSubtitleDark: {
     color: '#8E8E93',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  headerAction: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: '#F2F2F7',
+  },
+  headerActionDark: {
+    backgroundColor: '#2C2C2E',
+  },
   section: {
     backgroundColor: 'white',
     marginHorizontal: 16,
@@ -846,6 +1227,26 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 16,
   },
+  sectionHeaderCollapsed: {
+    marginBottom: 0,
+  },
+  activityFeed: {
+    maxHeight: 240,
+  },
+  manageTagsText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4A90E2',
+    marginTop: 8,
+  },
+  manageTagsTextDark: {
+    color: '#5AC8FA',
+  },
+  assignmentReason: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -927,6 +1328,42 @@ const styles = StyleSheet.create({
   memberEmailDark: {
     color: '#8E8E93',
   },
+  invitationsList: {
+    marginTop: 12,
+    gap: 8,
+  },
+  invitationsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  invitationsTitleDark: {
+    color: '#8E8E93',
+  },
+  invitationItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  invitationName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  invitationNameDark: {
+    color: '#FFFFFF',
+  },
+  invitationStatus: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  invitationStatusText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
   createTaskForm: {
     gap: 12,
   },
@@ -1036,9 +1473,26 @@ const styles = StyleSheet.create({
   assigneeOptionTextDark: {
     color: '#FFFFFF',
   },
+  ruleInput: {
+    marginTop: 8,
+  },
   assigneeOptionTextSelected: {
     color: '#FFFFFF',
   },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
+  settingLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  settingLabelDark: {
+    color: '#FFFFFF',
+  },
   sectionTitleContainer: {
     flexDirection: 'row',
     alignItems: 'center',
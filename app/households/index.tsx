@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabaseClient';
+import { errorMessage, getRepository, HouseholdSummary } from '@/lib/data';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useEffect, useState, useCallback } from 'react';
 import { 
@@ -19,16 +20,9 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
-interface HouseholdWithStats {
-  id: string;
-  name: string;
-  member_count: number;
-  task_count: number;
-}
-
 export default function HouseholdsScreen() {
   const router = useRouter();
-  const [households, setHouseholds] = useState<HouseholdWithStats[]>([]);
+  const [households, setHouseholds] = useState<HouseholdSummary[]>([]);
   const [newHouseholdName, setNewHouseholdName] = useState('');
   const [userId, setUserId] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
@@ -60,56 +54,15 @@ export default function HouseholdsScreen() {
 
     const fetchHouseholds = async () => {
       console.log('Fetching households for user:', userId);
-      
-      const { data, error } = await supabase
-        .from('household_members')
-        .select(`
-          household_id, 
-          households(
-            id,
-            name
-          )
-        `)
-        .eq('user_id', userId);
 
-      console.log('Fetch households result:', { data, error });
-      console.log('First item structure:', data?.[0]);
-
-      if (error) {
+      try {
+        const householdsWithStats = await getRepository().households.listForUser(userId);
+        console.log('Formatted households with stats:', householdsWithStats);
+        setHouseholds(householdsWithStats);
+      } catch (error) {
         console.error('Error fetching households:', error);
-        Alert.alert('Error fetching households', error.message);
-        return;
+        Alert.alert('Error fetching households', errorMessage(error));
       }
-
-      // Get detailed stats for each household
-      const householdsWithStats = await Promise.all(
-        (data || []).map(async (item) => {
-          const householdId = item.household_id;
-          
-          // Get member count
-          const { count: memberCount } = await supabase
-            .from('household_members')
-            .select('*', { count: 'exact', head: true })
-            .eq('household_id', householdId)
-            .eq('is_active', true);
-
-          // Get task count
-          const { count: taskCount } = await supabase
-            .from('tasks')
-            .select('*', { count: 'exact', head: true })
-            .eq('household_id', householdId);
-
-          return {
-            id: householdId,
-            name: (item.households as any)?.name ?? 'Unnamed',
-            member_count: memberCount || 0,
-            task_count: taskCount || 0,
-          };
-        })
-      );
-
-      console.log('Formatted households with stats:', householdsWithStats);
-      setHouseholds(householdsWithStats);
     };
 
     fetchHouseholds();
@@ -128,42 +81,10 @@ export default function HouseholdsScreen() {
     setRefreshing(true);
     if (userId) {
       // Re-fetch households with updated stats
-      const { data, error } = await supabase
-        .from('household_members')
-        .select(`
-          household_id, 
-          households(
-            id,
-            name
-          )
-        `)
-        .eq('user_id', userId);
-
-      if (!error && data) {
-        const householdsWithStats = await Promise.all(
-          data.map(async (item) => {
-            const householdId = item.household_id;
-            
-            const { count: memberCount } = await supabase
-              .from('household_members')
-              .select('*', { count: 'exact', head: true })
-              .eq('household_id', householdId)
-              .eq('is_active', true);
-
-            const { count: taskCount } = await supabase
-              .from('tasks')
-              .select('*', { count: 'exact', head: true })
-              .eq('household_id', householdId);
-
-            return {
-              id: householdId,
-              name: (item.households as any)?.name ?? 'Unnamed',
-              member_count: memberCount || 0,
-              task_count: taskCount || 0,
-            };
-          })
-        );
-        setHouseholds(householdsWithStats);
+      try {
+        setHouseholds(await getRepository().households.listForUser(userId));
+      } catch (error) {
+        console.error('Error refreshing households:', error);
       }
     }
     setRefreshing(false);
@@ -183,35 +104,21 @@ export default function HouseholdsScreen() {
     console.log('Creating household:', { name: newHouseholdName, userId });
 
     try {
-      const { data, error } = await supabase
-        .from('households')
-        .insert({ name: newHouseholdName, created_by: userId })
-        .select()
-        .single();
-
-      console.log('Household creation result:', { data, error });
-
-      if (error) {
-        console.error('Household creation error:', error);
-        Alert.alert('Error creating household', error.message);
-        return;
-      }
-
-      if (!data) {
-        Alert.alert('Error', 'No data returned from household creation');
-        return;
-      }
+      const repository = getRepository();
+      const data = await repository.households.create({
+        name: newHouseholdName,
+        description: null,
+        created_by: userId
+      });
 
       console.log('Adding user to household_members:', { household_id: data.id, user_id: userId });
 
       // Add current user to household_members
-      const { error: memberError } = await supabase
-        .from('household_members')
-        .insert({ household_id: data.id, user_id: userId });
-
-      if (memberError) {
+      try {
+        await repository.members.add({ household_id: data.id, user_id: userId, name: null, role: 'admin' });
+      } catch (memberError) {
         console.error('Member creation error:', memberError);
-        Alert.alert('Error joining household', memberError.message);
+        Alert.alert('Error joining household', errorMessage(memberError));
         return;
       }
 
@@ -222,13 +129,14 @@ export default function HouseholdsScreen() {
       setHouseholds((prev) => [...prev, { 
         id: data.id, 
         name: data.name,
+        created_by: data.created_by,
         member_count: 1, // The creator is automatically added as a member
         task_count: 0    // New household starts with no tasks
       }]);
       Alert.alert('Success', 'Household created successfully!');
     } catch (err) {
-      console.error('Unexpected error:', err);
-      Alert.alert('Error', 'An unexpected error occurred');
+      console.error('Household creation error:', err);
+      Alert.alert('Error creating household', errorMessage(err));
     }
   };
 
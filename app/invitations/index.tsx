@@ -0,0 +1,444 @@
+import { supabase } from '@/lib/supabaseClient';
+import { errorMessage, getRepository, PendingInvitation } from '@/lib/data';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Text,
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  useColorScheme,
+  RefreshControl
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface SessionUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+export default function InvitationsScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const [sessionUser, setSessionUser] = useState<SessionUser | null>(null);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  // Get current user
+  useEffect(() => {
+    const getCurrentUser = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session?.user.email) {
+        setSessionUser({
+          id: session.user.id,
+          email: session.user.email.toLowerCase(),
+          name: session.user.user_metadata?.full_name || null,
+        });
+      } else {
+        setLoading(false);
+      }
+    };
+    getCurrentUser();
+  }, []);
+
+  // Fetch pending invitations addressed to the signed-in user's email
+  const fetchInvitations = async () => {
+    if (!sessionUser) return;
+
+    try {
+      setInvitations(await getRepository().invitations.listPendingForEmail(sessionUser.email));
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      Alert.alert('Error', 'Failed to load invitations');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (sessionUser) {
+      fetchInvitations();
+    }
+  }, [sessionUser]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchInvitations();
+  };
+
+  const acceptInvitation = async (invitation: PendingInvitation) => {
+    if (!sessionUser) return;
+
+    setRespondingId(invitation.id);
+    try {
+      const repository = getRepository();
+
+      // Make sure the user has a profile row before joining
+      try {
+        await repository.users.ensure({
+          id: sessionUser.id,
+          email: sessionUser.email,
+          name: sessionUser.name || sessionUser.email.split('@')[0],
+        });
+      } catch (userError) {
+        console.error('User profile error:', userError);
+        Alert.alert('Error', 'Failed to verify user: ' + errorMessage(userError));
+        return;
+      }
+
+      // Joining and resolving the invitation happen together, so a failure leaves neither done
+      try {
+        await repository.invitations.accept(invitation.id, sessionUser.id);
+      } catch (memberError) {
+        console.error('Error joining household:', memberError);
+        Alert.alert('Error joining household', errorMessage(memberError));
+        return;
+      }
+
+      setInvitations(prev => prev.filter(invite => invite.id !== invitation.id));
+      Alert.alert(
+        'Welcome!',
+        `You joined ${invitation.household_name}.`,
+        [
+          { text: 'Later', style: 'cancel' },
+          { text: 'Open Household', onPress: () => router.replace(`/households/${invitation.household_id}`) }
+        ]
+      );
+    } catch (error) {
+      console.error('Unexpected error:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const declineInvitation = (invitation: PendingInvitation) => {
+    Alert.alert(
+      'Decline Invitation',
+      `Decline the invitation to join ${invitation.household_name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Decline',
+          style: 'destructive',
+          onPress: async () => {
+            setRespondingId(invitation.id);
+            try {
+              await getRepository().invitations.respond(invitation.id, 'declined');
+              setInvitations(prev => prev.filter(invite => invite.id !== invitation.id));
+            } catch (error) {
+              console.error('Error declining invitation:', error);
+              Alert.alert('Error', 'Failed to decline invitation');
+            } finally {
+              setRespondingId(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const renderInvitation = ({ item }: { item: PendingInvitation }) => {
+    const responding = respondingId === item.id;
+    return (
+      <View style={[styles.invitationCard, isDark && styles.invitationCardDark]}>
+        <View style={styles.invitationHeader}>
+          <View style={[styles.householdIcon, isDark && styles.householdIconDark]}>
+            <Ionicons name="home" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          </View>
+          <View style={styles.invitationInfo}>
+            <Text style={[styles.householdName, isDark && styles.householdNameDark]}>
+              {item.household_name}
+            </Text>
+            <Text style={[styles.invitationMeta, isDark && styles.invitationMetaDark]}>
+              Invited by {item.inviter_name} • {formatDate(item.created_at)}
+            </Text>
+            <Text style={[styles.invitationMeta, isDark && styles.invitationMetaDark]}>
+              Joining as {item.role}{item.member_name ? ` "${item.member_name}"` : ''}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.invitationActions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.declineButton, isDark && styles.declineButtonDark]}
+            onPress={() => declineInvitation(item)}
+            disabled={responding}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.declineButtonText, isDark && styles.declineButtonTextDark]}>Decline</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.acceptButton]}
+            onPress={() => acceptInvitation(item)}
+            disabled={responding}
+            activeOpacity={0.8}
+          >
+            {responding ? (
+              <ActivityIndicator color="white" size="small" />
+            ) : (
+              <Text style={styles.acceptButtonText}>Accept</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          <Text style={[styles.loadingText, isDark && styles.loadingTextDark]}>
+            Loading invitations...
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+      <StatusBar barStyle={isDark ? "light-content" : "dark-content"} backgroundColor={isDark ? "#1C1C1E" : "#f8f9fa"} />
+
+      {/* Header */}
+      <View style={[styles.header, isDark && styles.headerDark]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={[styles.headerTitle, isDark && styles.headerTitleDark]}>
+            Invitations
+          </Text>
+          <Text style={[styles.headerSubtitle, isDark && styles.headerSubtitleDark]}>
+            {invitations.length} pending
+          </Text>
+        </View>
+      </View>
+
+      <FlatList
+        data={invitations}
+        keyExtractor={(item) => item.id}
+        renderItem={renderInvitation}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={isDark ? "#5AC8FA" : "#4A90E2"}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="mail-open-outline" size={64} color={isDark ? "#48484A" : "#C7C7CC"} />
+            <Text style={[styles.emptyTitle, isDark && styles.emptyTitleDark]}>
+              No pending invitations
+            </Text>
+            <Text style={[styles.emptySubtitle, isDark && styles.emptySubtitleDark]}>
+              Invitations sent to {sessionUser?.email || 'your email'} will appear here
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  containerDark: {
+    backgroundColor: '#000000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  loadingTextDark: {
+    color: '#8E8E93',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerDark: {
+    backgroundColor: '#1C1C1E',
+    borderBottomColor: '#38383A',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerContent: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 2,
+  },
+  headerTitleDark: {
+    color: '#FFFFFF',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  headerSubtitleDark: {
+    color: '#8E8E93',
+  },
+  listContent: {
+    padding: 16,
+  },
+  invitationCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  invitationCardDark: {
+    backgroundColor: '#1C1C1E',
+    shadowOpacity: 0.3,
+  },
+  invitationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  householdIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#F0F7FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  householdIconDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  invitationInfo: {
+    flex: 1,
+  },
+  householdName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  householdNameDark: {
+    color: '#FFFFFF',
+  },
+  invitationMeta: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  invitationMetaDark: {
+    color: '#8E8E93',
+  },
+  invitationActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  acceptButton: {
+    backgroundColor: '#4A90E2',
+  },
+  acceptButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  declineButton: {
+    backgroundColor: '#F2F2F7',
+  },
+  declineButtonDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  declineButtonText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  declineButtonTextDark: {
+    color: '#FF453A',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyTitleDark: {
+    color: '#FFFFFF',
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#8E8E93',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  emptySubtitleDark: {
+    color: '#8E8E93',
+  },
+});
@@ -0,0 +1,1055 @@
+import { supabase } from '@/lib/supabaseClient';
+import {
+  errorMessage,
+  getRepository,
+  Household,
+  HouseholdChange,
+  Member,
+  ShoppingCategory,
+  ShoppingItem
+} from '@/lib/data';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  SectionList,
+  Text,
+  TextInput,
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  useColorScheme,
+  RefreshControl,
+  Modal,
+  ScrollView
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import LiveUpdateBanner from '@/components/LiveUpdateBanner';
+import SyncStatusBanner from '@/components/SyncStatusBanner';
+import { useHouseholdRealtime } from '@/hooks/useHouseholdRealtime';
+import { applyChange } from '@/lib/realtime';
+import { can } from '@/lib/permissions';
+import {
+  DEFAULT_SHOPPING_CATEGORY,
+  SHOPPING_CATEGORIES,
+  getCategoryIcon,
+  getCategoryLabel,
+  getUnrecordedPurchases,
+  groupByCategory
+} from '@/lib/shopping';
+import { recordShoppingExpense } from '@/lib/shoppingActions';
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney } from '@/lib/balances';
+
+interface ShoppingSection {
+  key: string;
+  title: string;
+  icon: ReturnType<typeof getCategoryIcon> | 'checkmark-done';
+  data: ShoppingItem[];
+}
+
+export default function ShoppingListScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [items, setItems] = useState<ShoppingItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [newItemName, setNewItemName] = useState('');
+  const [newItemQuantity, setNewItemQuantity] = useState('');
+  const [newItemCategory, setNewItemCategory] = useState<ShoppingCategory>(DEFAULT_SHOPPING_CATEGORY);
+  const [adding, setAdding] = useState(false);
+  const [showExpenseModal, setShowExpenseModal] = useState(false);
+  const [expenseItemIds, setExpenseItemIds] = useState<string[]>([]);
+  const [expenseAmount, setExpenseAmount] = useState('');
+  const [expenseCurrency, setExpenseCurrency] = useState(DEFAULT_CURRENCY);
+  const [recording, setRecording] = useState(false);
+
+  // Get current user
+  useEffect(() => {
+    const getCurrentUser = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session) {
+        setUserId(session.user.id);
+      }
+    };
+    getCurrentUser();
+  }, []);
+
+  const fetchShoppingList = async () => {
+    if (!id || !userId) return;
+
+    const repository = getRepository();
+    try {
+      const [householdData, membersData, itemsData] = await Promise.all([
+        repository.households.get(id),
+        repository.members.listActive(id),
+        repository.shopping.listForHousehold(id),
+      ]);
+      setHousehold(householdData);
+      setMembers(membersData);
+      setItems(itemsData);
+    } catch (error) {
+      console.error('Error fetching shopping list:', error);
+      Alert.alert('Error', 'Failed to load the shopping list');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (id && userId) {
+      fetchShoppingList();
+    }
+  }, [id, userId]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchShoppingList();
+  };
+
+  // Pick up items other members add, claim and tick off while the list is open
+  const handleRealtimeChange = (change: HouseholdChange) => {
+    if (change.table === 'shopping_items') {
+      setItems(prev => applyChange(prev, change, item => item.id));
+    }
+  };
+
+  const { notice, dismissNotice } = useHouseholdRealtime(id ? [id] : [], userId, handleRealtimeChange);
+
+  const currentMember = members.find(member => member.user_id === userId) || null;
+  const canEdit = can(currentMember, 'edit_shopping_list', household);
+  const canRecordExpenses = can(currentMember, 'record_expenses', household);
+  const unrecorded = userId ? getUnrecordedPurchases(items, userId) : [];
+  const toBuyCount = items.filter(item => !item.purchased).length;
+
+  const getMemberName = (memberId: string | null) => {
+    if (!memberId) return 'Someone';
+    if (memberId === userId) return 'You';
+    const member = members.find(m => m.user_id === memberId);
+    return member ? member.name || member.email : 'A former member';
+  };
+
+  const replaceItem = (updated: ShoppingItem) => {
+    setItems(prev => prev.map(item => item.id === updated.id ? updated : item));
+  };
+
+  const addItem = async () => {
+    if (!id || !userId || !newItemName.trim()) return;
+
+    setAdding(true);
+    try {
+      const created = await getRepository().shopping.create({
+        household_id: id,
+        name: newItemName.trim(),
+        quantity: newItemQuantity.trim() || null,
+        category: newItemCategory,
+        added_by: userId,
+      });
+      setItems(prev => prev.some(item => item.id === created.id) ? prev : [...prev, created]);
+      setNewItemName('');
+      setNewItemQuantity('');
+    } catch (error) {
+      console.error('Error adding shopping item:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const toggleClaim = async (item: ShoppingItem) => {
+    if (!userId) return;
+    if (item.claimed_by && item.claimed_by !== userId) {
+      Alert.alert('Already claimed', `${getMemberName(item.claimed_by)} is already buying this`);
+      return;
+    }
+
+    try {
+      replaceItem(await getRepository().shopping.update(item.id, {
+        claimed_by: item.claimed_by === userId ? null : userId,
+      }));
+    } catch (error) {
+      console.error('Error claiming shopping item:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const togglePurchased = async (item: ShoppingItem) => {
+    if (!userId) return;
+    if (item.expense_id) {
+      Alert.alert('Already paid for', 'This item is part of a recorded expense');
+      return;
+    }
+
+    try {
+      replaceItem(await getRepository().shopping.update(item.id, item.purchased
+        ? { purchased: false, purchased_by: null, purchased_at: null }
+        : { purchased: true, purchased_by: userId, purchased_at: new Date().toISOString() }
+      ));
+    } catch (error) {
+      console.error('Error updating shopping item:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const removeItem = (item: ShoppingItem) => {
+    Alert.alert(
+      'Remove Item',
+      `Remove "${item.name}" from the list?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await getRepository().shopping.remove(item.id);
+              setItems(prev => prev.filter(existing => existing.id !== item.id));
+            } catch (error) {
+              console.error('Error removing shopping item:', error);
+              Alert.alert('Error', errorMessage(error));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const clearPurchased = () => {
+    if (!id) return;
+    Alert.alert(
+      'Clear Bought Items',
+      'Remove everything that has been bought from the list? Recorded expenses are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await getRepository().shopping.clearPurchased(id);
+              setItems(prev => prev.filter(item => !item.purchased));
+            } catch (error) {
+              console.error('Error clearing shopping list:', error);
+              Alert.alert('Error', errorMessage(error));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const openExpenseModal = () => {
+    setExpenseItemIds(unrecorded.map(item => item.id));
+    setExpenseAmount('');
+    setShowExpenseModal(true);
+  };
+
+  const toggleExpenseItem = (itemId: string) => {
+    setExpenseItemIds(prev => prev.includes(itemId)
+      ? prev.filter(existing => existing !== itemId)
+      : [...prev, itemId]
+    );
+  };
+
+  const parsedAmount = parseFloat(expenseAmount.replace(',', '.'));
+  const canSubmitExpense = expenseItemIds.length > 0 && parsedAmount > 0 && !recording;
+
+  const recordExpense = async () => {
+    if (!userId || !canSubmitExpense) return;
+
+    setRecording(true);
+    try {
+      const selected = unrecorded.filter(item => expenseItemIds.includes(item.id));
+      const expense = await recordShoppingExpense(
+        selected,
+        parsedAmount,
+        expenseCurrency,
+        members.map(member => member.user_id),
+        userId
+      );
+      setItems(prev => prev.map(item => expenseItemIds.includes(item.id) ? { ...item, expense_id: expense.id } : item));
+      setShowExpenseModal(false);
+      Alert.alert('Expense recorded', `${expense.description} (${formatMoney(expense.amount, expense.currency)})`);
+    } catch (error) {
+      console.error('Error recording shopping expense:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const byCreated = (a: ShoppingItem, b: ShoppingItem) => a.created_at.localeCompare(b.created_at);
+  const purchased = items
+    .filter(item => item.purchased)
+    .sort((a, b) => (b.purchased_at || '').localeCompare(a.purchased_at || ''));
+  const sections: ShoppingSection[] = [
+    ...groupByCategory([...items].sort(byCreated)).map((group): ShoppingSection => ({
+      key: group.category,
+      title: getCategoryLabel(group.category),
+      icon: getCategoryIcon(group.category),
+      data: group.items,
+    })),
+    ...(purchased.length > 0
+      ? [{ key: 'purchased', title: 'Bought', icon: 'checkmark-done' as const, data: purchased }]
+      : []),
+  ];
+
+  const getItemMeta = (item: ShoppingItem) => {
+    if (item.purchased) {
+      const bought = `Bought by ${getMemberName(item.purchased_by)}`;
+      return item.expense_id ? `${bought} • on an expense` : bought;
+    }
+    if (item.claimed_by) {
+      return item.claimed_by === userId ? 'You are buying this' : `${getMemberName(item.claimed_by)} is buying this`;
+    }
+    return `Added by ${getMemberName(item.added_by)}`;
+  };
+
+  const renderItem = ({ item }: { item: ShoppingItem }) => {
+    const claimedByMe = item.claimed_by === userId;
+    return (
+      <TouchableOpacity
+        style={[styles.itemRow, isDark && styles.itemRowDark]}
+        onLongPress={() => canEdit && removeItem(item)}
+        activeOpacity={0.7}
+      >
+        <TouchableOpacity
+          onPress={() => togglePurchased(item)}
+          disabled={!canEdit}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons
+            name={item.purchased ? "checkmark-circle" : "ellipse-outline"}
+            size={24}
+            color={item.purchased ? "#34C759" : isDark ? "#8E8E93" : "#C7C7CC"}
+          />
+        </TouchableOpacity>
+        <View style={styles.itemInfo}>
+          <Text
+            style={[styles.itemName, isDark && styles.itemNameDark, item.purchased && styles.itemNamePurchased]}
+            numberOfLines={1}
+          >
+            {item.name}
+            {item.quantity ? <Text style={styles.itemQuantity}>{`  ×${item.quantity}`}</Text> : null}
+          </Text>
+          <Text style={[styles.itemMeta, claimedByMe && !item.purchased && styles.itemMetaClaimed]}>
+            {getItemMeta(item)}
+          </Text>
+        </View>
+        {canEdit && !item.purchased && (
+          <TouchableOpacity
+            style={[
+              styles.claimButton,
+              isDark && styles.claimButtonDark,
+              claimedByMe && styles.claimButtonActive
+            ]}
+            onPress={() => toggleClaim(item)}
+            disabled={!!item.claimed_by && !claimedByMe}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.claimButtonText, claimedByMe && styles.claimButtonTextActive]}>
+              {claimedByMe ? 'Unclaim' : item.claimed_by ? 'Claimed' : 'I will buy'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          <Text style={[styles.loadingText, isDark && styles.loadingTextDark]}>
+            Loading shopping list...
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!household) {
+    return (
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle" size={64} color={isDark ? "#FF453A" : "#FF3B30"} />
+          <Text style={[styles.errorTitle, isDark && styles.errorTitleDark]}>
+            Household not found
+          </Text>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+      <StatusBar barStyle={isDark ? "light-content" : "dark-content"} backgroundColor={isDark ? "#1C1C1E" : "#f8f9fa"} />
+
+      {/* Header */}
+      <View style={[styles.header, isDark && styles.headerDark]}>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={[styles.headerTitle, isDark && styles.headerTitleDark]}>
+            Shopping List
+          </Text>
+          <Text style={[styles.headerSubtitle, isDark && styles.headerSubtitleDark]}>
+            {household.name} • {toBuyCount} to buy
+          </Text>
+        </View>
+      </View>
+
+      <SyncStatusBanner isDark={isDark} />
+      <LiveUpdateBanner message={notice} onDismiss={dismissNotice} isDark={isDark} />
+
+      {/* Add Item Section */}
+      {canEdit && (
+        <View style={[styles.section, isDark && styles.sectionDark]}>
+          <View style={styles.addRow}>
+            <TextInput
+              placeholder="Add an item"
+              placeholderTextColor={isDark ? "#8E8E93" : "#8E8E93"}
+              value={newItemName}
+              onChangeText={setNewItemName}
+              onSubmitEditing={addItem}
+              returnKeyType="done"
+              style={[styles.input, styles.nameInput, isDark && styles.inputDark]}
+            />
+            <TextInput
+              placeholder="Qty"
+              placeholderTextColor={isDark ? "#8E8E93" : "#8E8E93"}
+              value={newItemQuantity}
+              onChangeText={setNewItemQuantity}
+              style={[styles.input, styles.quantityInput, isDark && styles.inputDark]}
+            />
+            <TouchableOpacity
+              style={[styles.addButton, (!newItemName.trim() || adding) && styles.addButtonDisabled]}
+              onPress={addItem}
+              disabled={!newItemName.trim() || adding}
+              activeOpacity={0.8}
+            >
+              <Ionicons name="add" size={24} color="white" />
+            </TouchableOpacity>
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.categoryOptions}>
+            {SHOPPING_CATEGORIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.categoryOption,
+                  isDark && styles.categoryOptionDark,
+                  newItemCategory === option.value && styles.categoryOptionSelected
+                ]}
+                onPress={() => setNewItemCategory(option.value)}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={getCategoryIcon(option.value)}
+                  size={14}
+                  color={newItemCategory === option.value ? "#FFFFFF" : isDark ? "#8E8E93" : "#8E8E93"}
+                />
+                <Text style={[
+                  styles.categoryOptionText,
+                  isDark && styles.categoryOptionTextDark,
+                  newItemCategory === option.value && styles.categoryOptionTextSelected
+                ]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      {canRecordExpenses && unrecorded.length > 0 && (
+        <TouchableOpacity
+          style={[styles.expenseBanner, isDark && styles.expenseBannerDark]}
+          onPress={openExpenseModal}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="receipt" size={18} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          <Text style={[styles.expenseBannerText, isDark && styles.expenseBannerTextDark]}>
+            You bought {unrecorded.length} {unrecorded.length === 1 ? 'item' : 'items'}. Record what you paid?
+          </Text>
+          <Ionicons name="chevron-forward" size={16} color={isDark ? "#48484A" : "#C7C7CC"} />
+        </TouchableOpacity>
+      )}
+
+      {/* List Section */}
+      <View style={[styles.section, isDark && styles.sectionDark, { flex: 1 }]}>
+        <SectionList
+          sections={sections}
+          keyExtractor={item => item.id}
+          renderItem={renderItem}
+          renderSectionHeader={({ section }) => (
+            <View style={[styles.categoryHeader, isDark && styles.categoryHeaderDark]}>
+              <Ionicons name={section.icon} size={16} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+              <Text style={[styles.categoryTitle, isDark && styles.categoryTitleDark]}>
+                {section.title} ({section.data.length})
+              </Text>
+              {section.key === 'purchased' && canEdit && (
+                <TouchableOpacity onPress={clearPurchased} activeOpacity={0.7}>
+                  <Text style={styles.clearText}>Clear</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+          stickySectionHeadersEnabled={false}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={isDark ? "#5AC8FA" : "#4A90E2"}
+            />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyList}>
+              <Ionicons name="cart-outline" size={64} color={isDark ? "#48484A" : "#C7C7CC"} />
+              <Text style={[styles.emptyListTitle, isDark && styles.emptyListTitleDark]}>
+                The list is empty
+              </Text>
+              <Text style={styles.emptyListSubtitle}>
+                Add what the household needs and claim what you will pick up
+              </Text>
+            </View>
+          }
+        />
+      </View>
+
+      {/* Record Expense Modal */}
+      <Modal
+        visible={showExpenseModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowExpenseModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, isDark && styles.modalContentDark]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, isDark && styles.modalTitleDark]}>
+                Record Expense
+              </Text>
+              <TouchableOpacity
+                onPress={() => setShowExpenseModal(false)}
+                style={styles.closeButton}
+              >
+                <Ionicons name="close" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalDescription}>
+              Choose the items this payment covered.
+            </Text>
+
+            <ScrollView style={styles.expenseItems}>
+              {unrecorded.map(item => {
+                const selected = expenseItemIds.includes(item.id);
+                return (
+                  <TouchableOpacity
+                    key={item.id}
+                    style={styles.expenseItem}
+                    onPress={() => toggleExpenseItem(item.id)}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name={selected ? "checkbox" : "square-outline"}
+                      size={22}
+                      color={selected ? isDark ? "#5AC8FA" : "#4A90E2" : isDark ? "#8E8E93" : "#C7C7CC"}
+                    />
+                    <Text style={[styles.expenseItemText, isDark && styles.expenseItemTextDark]} numberOfLines={1}>
+                      {item.name}{item.quantity ? ` ×${item.quantity}` : ''}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            <TextInput
+              placeholder="Amount paid"
+              placeholderTextColor={isDark ? "#8E8E93" : "#8E8E93"}
+              value={expenseAmount}
+              onChangeText={setExpenseAmount}
+              keyboardType="decimal-pad"
+              style={[styles.input, styles.amountInput, isDark && styles.inputDark]}
+            />
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.currencyOptions}>
+              {CURRENCIES.map(currency => (
+                <TouchableOpacity
+                  key={currency}
+                  style={[
+                    styles.categoryOption,
+                    isDark && styles.categoryOptionDark,
+                    expenseCurrency === currency && styles.categoryOptionSelected
+                  ]}
+                  onPress={() => setExpenseCurrency(currency)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[
+                    styles.categoryOptionText,
+                    isDark && styles.categoryOptionTextDark,
+                    expenseCurrency === currency && styles.categoryOptionTextSelected
+                  ]}>
+                    {currency}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <Text style={styles.modalDescription}>
+              Split equally between all {members.length} members. Other splits can be entered under Expenses.
+            </Text>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton, isDark && styles.cancelButtonDark]}
+                onPress={() => setShowExpenseModal(false)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton, !canSubmitExpense && styles.saveButtonDisabled]}
+                onPress={recordExpense}
+                disabled={!canSubmitExpense}
+                activeOpacity={0.7}
+              >
+                {recording ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Record</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  containerDark: {
+    backgroundColor: '#000000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  loadingTextDark: {
+    color: '#8E8E93',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  errorTitleDark: {
+    color: '#FFFFFF',
+  },
+  backButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#4A90E2',
+    borderRadius: 12,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerDark: {
+    backgroundColor: '#1C1C1E',
+    borderBottomColor: '#38383A',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerContent: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  headerTitleDark: {
+    color: '#FFFFFF',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  headerSubtitleDark: {
+    color: '#8E8E93',
+  },
+  section: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginVertical: 8,
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionDark: {
+    backgroundColor: '#1C1C1E',
+    shadowOpacity: 0.3,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  inputDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#38383A',
+    color: '#FFFFFF',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  quantityInput: {
+    width: 72,
+  },
+  amountInput: {
+    marginTop: 16,
+  },
+  currencyOptions: {
+    gap: 8,
+    paddingVertical: 12,
+  },
+  addButton: {
+    width: 46,
+    height: 46,
+    borderRadius: 12,
+    backgroundColor: '#4A90E2',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  categoryOptions: {
+    gap: 8,
+    paddingTop: 12,
+  },
+  categoryOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#F2F2F7',
+  },
+  categoryOptionDark: {
+    borderColor: '#38383A',
+    backgroundColor: '#2C2C2E',
+  },
+  categoryOptionSelected: {
+    backgroundColor: '#4A90E2',
+    borderColor: '#4A90E2',
+  },
+  categoryOptionText: {
+    fontSize: 13,
+    color: '#1C1C1E',
+  },
+  categoryOptionTextDark: {
+    color: '#FFFFFF',
+  },
+  categoryOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  expenseBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginVertical: 4,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#EAF2FC',
+  },
+  expenseBannerDark: {
+    backgroundColor: '#1C2A38',
+  },
+  expenseBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  expenseBannerTextDark: {
+    color: '#FFFFFF',
+  },
+  categoryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingTop: 12,
+    paddingBottom: 6,
+    backgroundColor: 'white',
+  },
+  categoryHeaderDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  categoryTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    color: '#8E8E93',
+  },
+  categoryTitleDark: {
+    color: '#8E8E93',
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  itemRowDark: {
+    borderBottomColor: '#38383A',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  itemNameDark: {
+    color: '#FFFFFF',
+  },
+  itemNamePurchased: {
+    color: '#8E8E93',
+    textDecorationLine: 'line-through',
+  },
+  itemQuantity: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  itemMetaClaimed: {
+    color: '#4A90E2',
+  },
+  claimButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#4A90E2',
+  },
+  claimButtonDark: {
+    borderColor: '#5AC8FA',
+  },
+  claimButtonActive: {
+    backgroundColor: '#4A90E2',
+    borderColor: '#4A90E2',
+  },
+  claimButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4A90E2',
+  },
+  claimButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  emptyList: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 20,
+  },
+  emptyListTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyListTitleDark: {
+    color: '#FFFFFF',
+  },
+  emptyListSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+  },
+  modalContentDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  modalTitleDark: {
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalDescription: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  expenseItems: {
+    maxHeight: 220,
+  },
+  expenseItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  expenseItemText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  expenseItemTextDark: {
+    color: '#FFFFFF',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#38383A',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  cancelButtonTextDark: {
+    color: '#FFFFFF',
+  },
+  saveButton: {
+    backgroundColor: '#4A90E2',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,4 +1,19 @@
 import { supabase } from '@/lib/supabaseClient';
+import {
+  ChecklistItem,
+  errorMessage,
+  getRepository,
+  Household,
+  HouseholdChange,
+  HouseholdSummary,
+  Member,
+  Task,
+  TaskActivity,
+  TaskAttachment,
+  TaskComment,
+  TaskPriority
+} from '@/lib/data';
+import { finishTaskWithPhotos, saveTaskEdits, setChecklistItemDone, transitionTask } from '@/lib/taskActions';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { 
@@ -12,28 +27,40 @@ import {
   StatusBar,
   ActivityIndicator,
   useColorScheme,
-  ScrollView
+  ScrollView,
+  Switch
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { describeRecurrenceRule } from '@/lib/recurrence';
+import SyncStatusBanner from '@/components/SyncStatusBanner';
+import DueDatePicker from '@/components/DueDatePicker';
+import TaskChecklist from '@/components/TaskChecklist';
+import CommentThread from '@/components/CommentThread';
+import AttachmentGallery from '@/components/AttachmentGallery';
+import ActivityTimeline from '@/components/ActivityTimeline';
+import MemberChip, { MemberAvatar } from '@/components/MemberChip';
+import TagChip from '@/components/TagChip';
+import TagPicker from '@/components/TagPicker';
+import * as ImagePicker from 'expo-image-picker';
+import { useHouseholdRealtime } from '@/hooks/useHouseholdRealtime';
+import { useMemberDirectory } from '@/hooks/useMemberDirectory';
+import { useTaskTags } from '@/hooks/useTaskTags';
+import { extractMentions } from '@/lib/mentions';
+import { applyChange } from '@/lib/realtime';
+import { formatDueDate, getDueState, getDueStateColor, getDueStateLabel } from '@/lib/dueDates';
+import { can } from '@/lib/permissions';
+import { findTags } from '@/lib/tags';
+import { DEFAULT_POINTS, EFFORT_POINTS } from '@/lib/fairness';
+import { canReview, getTaskStateColor, getTaskStateIcon, getTaskStateLabel, needsReview } from '@/lib/taskState';
 
-interface Task {
-  id: string;
-  household_id: string;
-  title: string;
-  details: string;
-  status: boolean;
-  assignee: string | null;
-  created_by: string;
-  created_at: string;
-  updated_at: string;
-  due_date: string | null;
-  priority: 'low' | 'medium' | 'high';
-}
+// Shown when a recurring task was completed offline: its checklist can't be copied without a connection
+const CHECKLIST_SKIPPED_MESSAGE = 'You are offline, so the next occurrence was scheduled without this checklist.';
 
-interface Household {
-  id: string;
-  name: string;
-}
+const PRIORITY_OPTIONS: { value: TaskPriority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+];
 
 export default function TaskDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -47,7 +74,27 @@ export default function TaskDetailScreen() {
   const [editing, setEditing] = useState(false);
   const [editTitle, setEditTitle] = useState('');
   const [editDetails, setEditDetails] = useState('');
+  const [editDueDate, setEditDueDate] = useState<Date | null>(null);
+  const [editDueAllDay, setEditDueAllDay] = useState(true);
+  const [editRequiresProof, setEditRequiresProof] = useState(false);
+  const [editRequiresReview, setEditRequiresReview] = useState(false);
+  const [editPoints, setEditPoints] = useState(DEFAULT_POINTS);
+  const [editPriority, setEditPriority] = useState<TaskPriority>('medium');
+  const [editAssignee, setEditAssignee] = useState<string | null>(null);
+  const [editHouseholdId, setEditHouseholdId] = useState('');
+  const [editTags, setEditTags] = useState<string[]>([]);
+  // The households the task can move to, and the members of the one picked
+  const [households, setHouseholds] = useState<HouseholdSummary[]>([]);
+  const [targetMembers, setTargetMembers] = useState<Member[]>([]);
   const [userId, setUserId] = useState<string | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [activity, setActivity] = useState<TaskActivity[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [rejecting, setRejecting] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
 
   // Get current user
   useEffect(() => {
@@ -65,39 +112,41 @@ export default function TaskDetailScreen() {
     if (!id) return;
 
     try {
-      // Fetch task details
-      const { data: taskData, error: taskError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (taskError) {
-        console.error('Error fetching task:', taskError);
-        Alert.alert('Error', 'Failed to load task details');
-        return;
-      }
+      const repository = getRepository();
+      const taskData = await repository.tasks.get(id);
+      if (!taskData) return;
 
       setTask(taskData);
-      setEditTitle(taskData.title);
-      setEditDetails(taskData.details || '');
+      resetEditForm(taskData);
 
-      // Fetch household details
-      const { data: householdData, error: householdError } = await supabase
-        .from('households')
-        .select('id, name')
-        .eq('id', taskData.household_id)
-        .single();
+      try {
+        setChecklist(await repository.checklist.listForTask(taskData.id));
+      } catch (checklistError) {
+        console.error('Error fetching checklist:', checklistError);
+      }
 
-      if (householdError) {
+      try {
+        setComments(await repository.comments.listForTask(taskData.id));
+      } catch (commentsError) {
+        console.error('Error fetching comments:', commentsError);
+      }
+
+      try {
+        setAttachments(await repository.attachments.listForTask(taskData.id));
+      } catch (attachmentsError) {
+        console.error('Error fetching photos:', attachmentsError);
+      }
+
+      // Fetch household details
+      try {
+        setHousehold(await repository.households.get(taskData.household_id));
+      } catch (householdError) {
         console.error('Error fetching household:', householdError);
-      } else {
-        setHousehold(householdData);
       }
 
     } catch (error) {
-      console.error('Unexpected error:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
+      console.error('Error fetching task:', error);
+      Alert.alert('Error', 'Failed to load task details');
     } finally {
       setLoading(false);
     }
@@ -107,61 +156,430 @@ export default function TaskDetailScreen() {
     fetchTaskData();
   }, [id]);
 
+  // Members can be given checklist items, and the user's membership decides which actions they get
+  const taskHouseholdId = task?.household_id;
+  useEffect(() => {
+    if (!taskHouseholdId) return;
+
+    const fetchMembers = async () => {
+      try {
+        setMembers(await getRepository().members.listActive(taskHouseholdId));
+      } catch (error) {
+        console.error('Error fetching members:', error);
+      }
+    };
+    fetchMembers();
+  }, [taskHouseholdId]);
+
+  const member = members.find(m => m.user_id === userId) || null;
+  // Also knows members who have left since they worked on the task
+  const directory = useMemberDirectory(taskHouseholdId ? [taskHouseholdId] : []);
+  const householdTags = useTaskTags(taskHouseholdId ? [taskHouseholdId] : []);
+  // Tags are picked from the household the task will end up in
+  const editHouseholdTags = useTaskTags(editing && editHouseholdId ? [editHouseholdId] : []);
+  const taskTags = task ? findTags(householdTags, task.tag_ids) : [];
+
+  useEffect(() => {
+    if (!editing || !userId) return;
+
+    const fetchHouseholds = async () => {
+      try {
+        setHouseholds(await getRepository().households.listForUser(userId));
+      } catch (error) {
+        console.error('Error fetching households:', error);
+      }
+    };
+    fetchHouseholds();
+  }, [editing, userId]);
+
+  // The assignee is picked from the household the task will end up in
+  useEffect(() => {
+    if (!editing || !editHouseholdId) return;
+    if (editHouseholdId === taskHouseholdId) {
+      setTargetMembers(members);
+      return;
+    }
+
+    const fetchTargetMembers = async () => {
+      try {
+        const loaded = await getRepository().members.listActive(editHouseholdId);
+        setTargetMembers(loaded);
+        // Someone who isn't in the new household can't keep the task
+        setEditAssignee(prev => prev && loaded.some(m => m.user_id === prev) ? prev : null);
+      } catch (error) {
+        console.error('Error fetching members:', error);
+      }
+    };
+    fetchTargetMembers();
+  }, [editing, editHouseholdId, taskHouseholdId, members]);
+
+  // The history is written by the database, so it's re-read whenever the task changes
+  const taskUpdatedAt = task?.updated_at;
+  useEffect(() => {
+    if (!id || !taskUpdatedAt) return;
+
+    const fetchActivity = async () => {
+      try {
+        setActivity(await getRepository().activity.listForTask(id));
+      } catch (error) {
+        console.error('Error fetching task history:', error);
+      }
+    };
+    fetchActivity();
+  }, [id, taskUpdatedAt]);
+
+  // Keep the comments and the task's counts live while the screen is open
+  const handleRealtimeChange = (change: HouseholdChange) => {
+    if (change.table === 'tasks' && change.record?.id === id) {
+      setTask(change.record);
+    } else if (change.table === 'task_comments') {
+      const record = change.record;
+      if ((record ?? change.old)?.task_id !== id) return;
+      // The thread reads oldest first, so new comments go to the end
+      setComments(prev => change.type === 'INSERT' && record && !prev.some(comment => comment.id === record.id)
+        ? [...prev, record]
+        : applyChange(prev, change, comment => comment.id));
+    }
+  };
+
+  useHouseholdRealtime(taskHouseholdId ? [taskHouseholdId] : [], userId, handleRealtimeChange);
+
+  const canEdit = can(member, 'edit_tasks', household);
+  const canDelete = can(member, 'delete_tasks', household);
+  const canComment = can(member, 'comment_on_tasks', household);
+  const canReviewTask = task ? canReview(task, member, household) : false;
+  const reviewNeeded = task ? needsReview(task, household) : false;
+
+  const getMemberName = (memberId: string | null) => directory.getName(memberId, taskHouseholdId);
+
+  const resetEditForm = (source: Task) => {
+    setEditTitle(source.title);
+    setEditDetails(source.details || '');
+    setEditDueDate(source.due_date ? new Date(source.due_date) : null);
+    setEditDueAllDay(source.due_all_day);
+    setEditRequiresProof(source.requires_proof);
+    setEditRequiresReview(source.requires_review);
+    setEditPoints(source.points);
+    setEditPriority(source.priority);
+    setEditAssignee(source.assignee);
+    setEditHouseholdId(source.household_id);
+    setEditTags(source.tag_ids);
+  };
+
+  // Resolves to the picked photos' URIs, or null when the user backed out
+  const pickPhotos = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Please grant camera roll permissions to attach photos.');
+      return null;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsMultipleSelection: true,
+      quality: 0.7,
+    });
+    if (result.canceled || result.assets.length === 0) return null;
+    return result.assets.map(asset => asset.uri);
+  };
+
+  const completeTask = async (withPhotos: boolean) => {
+    if (!task || !userId) return;
+
+    const photoUris = withPhotos ? await pickPhotos() : [];
+    if (!photoUris) return;
+
+    setUploading(true);
+    try {
+      const result = await finishTaskWithPhotos(task, household, photoUris, userId);
+      setTask(result.task);
+      setAttachments(prev => [...prev, ...result.attachments]);
+      if (result.task.state === 'pending_review') {
+        Alert.alert('Submitted for review', 'Another member needs to approve this task before it counts as done.');
+      } else if (result.checklistSkipped) {
+        Alert.alert('Checklist not copied', CHECKLIST_SKIPPED_MESSAGE);
+      }
+    } catch (error) {
+      console.error('Error completing task:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setUploading(false);
+    }
+  };
+
   const toggleTaskStatus = async () => {
-    if (!task) return;
+    if (!task || !userId || !canEdit) return;
+
+    if (task.state === 'open') {
+      // Offer to attach photos as proof; tasks that require proof can't be completed without one
+      const needsPhoto = task.requires_proof && attachments.length === 0;
+      Alert.alert(
+        reviewNeeded ? 'Submit for Review' : 'Complete Task',
+        needsPhoto ? 'This task needs a photo as proof before it counts as done.' : 'Attach a photo as proof?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Add Photos', onPress: () => completeTask(true) },
+          ...(needsPhoto ? [] : [{ text: reviewNeeded ? 'Submit' : 'Complete', onPress: () => completeTask(false) }])
+        ]
+      );
+      return;
+    }
+
+    // Tasks in review are approved or sent back from the review controls
+    if (task.state !== 'completed') return;
 
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({ status: !task.status })
-        .eq('id', task.id);
-
-      if (error) {
-        console.error('Error updating task status:', error);
-        Alert.alert('Error', 'Failed to update task status');
-        return;
+      const { task: updatedTask } = await transitionTask(task, 'reopen', userId);
+      setTask(updatedTask);
+    } catch (error) {
+      console.error('Error updating task status:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const approveTask = async () => {
+    if (!task || !userId || !canReviewTask) return;
+
+    try {
+      const { task: updatedTask, checklistSkipped } = await transitionTask(task, 'approve', userId);
+      setTask(updatedTask);
+      if (checklistSkipped) {
+        Alert.alert('Checklist not copied', CHECKLIST_SKIPPED_MESSAGE);
       }
+    } catch (error) {
+      console.error('Error approving task:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const rejectTask = async () => {
+    if (!task || !userId || !canReviewTask || !rejectReason.trim()) return;
 
-      setTask(prev => prev ? { ...prev, status: !prev.status } : null);
+    try {
+      const { task: updatedTask } = await transitionTask(task, 'reject', userId, rejectReason);
+      setTask(updatedTask);
+      setRejecting(false);
+      setRejectReason('');
     } catch (error) {
-      console.error('Unexpected error:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
+      console.error('Error sending task back:', error);
+      Alert.alert('Error', errorMessage(error));
     }
   };
 
-  const saveTask = async () => {
-    if (!task || !editTitle.trim()) return;
+  const addPhotos = async () => {
+    if (!task || !userId || !canEdit) return;
 
+    const photoUris = await pickPhotos();
+    if (!photoUris) return;
+
+    setUploading(true);
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({ 
-          title: editTitle,
-          details: editDetails
-        })
-        .eq('id', task.id);
-
-      if (error) {
-        console.error('Error updating task:', error);
-        Alert.alert('Error', 'Failed to update task');
-        return;
+      const repository = getRepository();
+      for (const uri of photoUris) {
+        const uploaded = await repository.attachments.upload({
+          task_id: task.id,
+          household_id: task.household_id,
+          uploaded_by: userId,
+          uri
+        });
+        setAttachments(prev => [...prev, uploaded]);
       }
+    } catch (error) {
+      console.error('Error uploading photo:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setUploading(false);
+    }
+  };
 
-      setTask(prev => prev ? { 
-        ...prev, 
+  const removeAttachment = async (attachment: TaskAttachment) => {
+    try {
+      await getRepository().attachments.remove(attachment);
+      setAttachments(prev => prev.filter(existing => existing.id !== attachment.id));
+    } catch (error) {
+      console.error('Error removing photo:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  // Picks up the checklist counts the database keeps on the task
+  const refreshTask = async (taskId: string) => {
+    const latest = await getRepository().tasks.get(taskId);
+    if (latest) setTask(latest);
+  };
+
+  const toggleChecklistItem = async (item: ChecklistItem) => {
+    if (!task || !userId || !canEdit) return;
+
+    try {
+      const result = await setChecklistItemDone(task, item, !item.done, household, userId);
+      setChecklist(prev => prev.map(existing => existing.id === item.id ? result.item : existing));
+      setTask(result.task);
+      if (result.autoCompleted && result.task.state === 'pending_review') {
+        Alert.alert('Submitted for review', 'Every checklist item is done, so the task was submitted for approval.');
+      } else if (result.autoCompleted) {
+        Alert.alert(
+          'Task completed',
+          'Every checklist item is done, so the task was marked complete.'
+            + (result.checklistSkipped ? ` ${CHECKLIST_SKIPPED_MESSAGE}` : '')
+        );
+      }
+    } catch (error) {
+      console.error('Error updating checklist item:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const addChecklistItem = async (title: string) => {
+    if (!task || !canEdit) return;
+
+    try {
+      const created = await getRepository().checklist.create({
+        task_id: task.id,
+        household_id: task.household_id,
+        title,
+        assignee: null,
+        position: checklist.reduce((max, item) => Math.max(max, item.position + 1), 0)
+      });
+      setChecklist(prev => [...prev, created]);
+      await refreshTask(task.id);
+    } catch (error) {
+      console.error('Error adding checklist item:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const removeChecklistItem = async (item: ChecklistItem) => {
+    if (!task || !canEdit) return;
+
+    try {
+      await getRepository().checklist.remove(item.id);
+      setChecklist(prev => prev.filter(existing => existing.id !== item.id));
+      await refreshTask(task.id);
+    } catch (error) {
+      console.error('Error removing checklist item:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const assignChecklistItem = async (item: ChecklistItem, assignee: string | null) => {
+    if (!canEdit) return;
+
+    try {
+      const updated = await getRepository().checklist.update(item.id, { assignee });
+      setChecklist(prev => prev.map(existing => existing.id === item.id ? updated : existing));
+    } catch (error) {
+      console.error('Error assigning checklist item:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const moveChecklistItem = async (item: ChecklistItem, direction: -1 | 1) => {
+    if (!canEdit) return;
+
+    const index = checklist.findIndex(existing => existing.id === item.id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= checklist.length) return;
+
+    const reordered = [...checklist];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const renumbered = reordered.map((existing, position) => ({ ...existing, position }));
+    setChecklist(renumbered);
+
+    try {
+      const repository = getRepository();
+      // Only write the items whose position actually changed
+      await Promise.all(renumbered
+        .filter(existing => checklist.find(old => old.id === existing.id)?.position !== existing.position)
+        .map(existing => repository.checklist.update(existing.id, { position: existing.position })));
+    } catch (error) {
+      console.error('Error reordering checklist:', error);
+      Alert.alert('Error', errorMessage(error));
+      setChecklist(checklist);
+    }
+  };
+
+  // Resolves to whether the comment was posted, so the composer knows to clear
+  const postComment = async (body: string) => {
+    if (!task || !userId || !canComment) return false;
+
+    try {
+      const created = await getRepository().comments.create({
+        task_id: task.id,
+        household_id: task.household_id,
+        author_id: userId,
+        body,
+        mentions: extractMentions(body, members)
+      });
+      setComments(prev => prev.some(comment => comment.id === created.id) ? prev : [...prev, created]);
+      return true;
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      Alert.alert('Error', errorMessage(error));
+      return false;
+    }
+  };
+
+  const editComment = async (comment: TaskComment, body: string) => {
+    try {
+      const updated = await getRepository().comments.update(comment.id, {
+        body,
+        mentions: extractMentions(body, members)
+      });
+      setComments(prev => prev.map(existing => existing.id === comment.id ? updated : existing));
+      return true;
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      Alert.alert('Error', errorMessage(error));
+      return false;
+    }
+  };
+
+  const deleteComment = async (comment: TaskComment) => {
+    try {
+      await getRepository().comments.remove(comment.id);
+      setComments(prev => prev.filter(existing => existing.id !== comment.id));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      Alert.alert('Error', errorMessage(error));
+    }
+  };
+
+  const saveTask = async () => {
+    if (!task || !userId || !editTitle.trim() || !canEdit) return;
+
+    const moved = editHouseholdId !== task.household_id;
+    try {
+      const updatedTask = await saveTaskEdits(task, {
         title: editTitle,
-        details: editDetails
-      } : null);
+        details: editDetails,
+        due_date: editDueDate ? editDueDate.toISOString() : null,
+        due_all_day: editDueDate ? editDueAllDay : true,
+        requires_proof: editRequiresProof,
+        requires_review: editRequiresReview,
+        points: editPoints,
+        priority: editPriority,
+        assignee: editAssignee,
+        tag_ids: editTags,
+        ...(moved ? { household_id: editHouseholdId } : {})
+      }, userId);
+
+      setTask(updatedTask);
+      resetEditForm(updatedTask);
+      if (moved) {
+        setHousehold(await getRepository().households.get(updatedTask.household_id));
+      }
       setEditing(false);
-      Alert.alert('Success', 'Task updated successfully!');
+      const target = households.find(h => h.id === updatedTask.household_id);
+      Alert.alert('Success', moved ? `Task moved to ${target?.name || 'the other household'}.` : 'Task updated successfully!');
     } catch (error) {
-      console.error('Unexpected error:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
+      console.error('Error updating task:', error);
+      Alert.alert('Error', errorMessage(error));
     }
   };
 
   const deleteTask = async () => {
-    if (!task) return;
+    if (!task || !canDelete) return;
 
     Alert.alert(
       'Delete Task',
@@ -173,21 +591,12 @@ export default function TaskDetailScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const { error } = await supabase
-                .from('tasks')
-                .delete()
-                .eq('id', task.id);
-
-              if (error) {
-                console.error('Error deleting task:', error);
-                Alert.alert('Error', 'Failed to delete task');
-                return;
-              }
+              await getRepository().tasks.remove(task.id);
 
               router.back();
             } catch (error) {
-              console.error('Unexpected error:', error);
-              Alert.alert('Error', 'An unexpected error occurred');
+              console.error('Error deleting task:', error);
+              Alert.alert('Error', 'Failed to delete task');
             }
           }
         }
@@ -239,6 +648,9 @@ export default function TaskDetailScreen() {
     );
   }
 
+  const dueState = getDueState(task);
+  const dueStateLabel = getDueStateLabel(dueState);
+
   return (
     <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
       <StatusBar barStyle={isDark ? "light-content" : "dark-content"} backgroundColor={isDark ? "#1C1C1E" : "#f8f9fa"} />
@@ -261,18 +673,22 @@ export default function TaskDetailScreen() {
             </Text>
           )}
         </View>
-        <TouchableOpacity 
-          style={styles.editButton}
-          onPress={() => setEditing(!editing)}
-        >
-          <Ionicons 
-            name={editing ? "close" : "create"} 
-            size={24} 
-            color={isDark ? "#5AC8FA" : "#4A90E2"} 
-          />
-        </TouchableOpacity>
+        {canEdit && (
+          <TouchableOpacity 
+            style={styles.editButton}
+            onPress={() => setEditing(!editing)}
+          >
+            <Ionicons 
+              name={editing ? "close" : "create"} 
+              size={24} 
+              color={isDark ? "#5AC8FA" : "#4A90E2"} 
+            />
+          </TouchableOpacity>
+        )}
       </View>
 
+      <SyncStatusBanner isDark={isDark} />
+
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {/* Status Section */}
         <View style={[styles.section, isDark && styles.sectionDark]}>
@@ -284,21 +700,119 @@ export default function TaskDetailScreen() {
           </View>
           
           <TouchableOpacity 
-            style={[styles.statusButton, task.status && styles.statusButtonCompleted]}
+            style={[styles.statusButton, { backgroundColor: getTaskStateColor(task.state, isDark) }]}
             onPress={toggleTaskStatus}
+            disabled={!canEdit || task.state === 'pending_review'}
             activeOpacity={0.8}
           >
-            <Ionicons 
-              name={task.status ? "checkmark-circle" : "time"} 
-              size={24} 
-              color={task.status ? "white" : (isDark ? "#FF9500" : "#FF9500")} 
-            />
-            <Text style={[styles.statusText, task.status && styles.statusTextCompleted]}>
-              {task.status ? "Completed" : "Pending"}
+            <Ionicons name={getTaskStateIcon(task.state)} size={24} color="white" />
+            <Text style={styles.statusText}>
+              {getTaskStateLabel(task.state)}
             </Text>
           </TouchableOpacity>
+          {task.requires_proof && task.state === 'open' && (
+            <Text style={styles.proofNote}>
+              <Ionicons name="camera" size={12} color="#8E8E93" /> A photo is required to complete this task
+            </Text>
+          )}
+          {reviewNeeded && task.state === 'open' && (
+            <Text style={styles.proofNote}>
+              <Ionicons name="people" size={12} color="#8E8E93" /> Another member has to approve this task once it is done
+            </Text>
+          )}
+          {task.state === 'open' && task.review_reason && (
+            <View style={[styles.reviewNote, isDark && styles.reviewNoteDark]}>
+              <Text style={[styles.reviewNoteTitle, isDark && styles.reviewNoteTitleDark]}>
+                Sent back by {getMemberName(task.reviewed_by)}
+              </Text>
+              <Text style={[styles.reviewNoteText, isDark && styles.reviewNoteTextDark]}>
+                {task.review_reason}
+              </Text>
+            </View>
+          )}
+
+          {/* Review Controls */}
+          {task.state === 'pending_review' && (
+            <View style={styles.reviewSection}>
+              <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>
+                Submitted by {task.submitted_by === userId ? 'you' : getMemberName(task.submitted_by)}
+                {task.submitted_at ? ` on ${formatDate(task.submitted_at)}` : ''}
+              </Text>
+              {canReviewTask && !rejecting && (
+                <View style={styles.reviewButtons}>
+                  <TouchableOpacity style={[styles.reviewButton, styles.approveButton]} onPress={approveTask} activeOpacity={0.8}>
+                    <Ionicons name="checkmark" size={18} color="white" />
+                    <Text style={styles.reviewButtonText}>Approve</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.reviewButton, styles.rejectButton]} onPress={() => setRejecting(true)} activeOpacity={0.8}>
+                    <Ionicons name="arrow-undo" size={18} color="white" />
+                    <Text style={styles.reviewButtonText}>Send Back</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              {canReviewTask && rejecting && (
+                <View style={styles.editForm}>
+                  <TextInput
+                    placeholder="What still needs doing?"
+                    placeholderTextColor={isDark ? "#8E8E93" : "#8E8E93"}
+                    value={rejectReason}
+                    onChangeText={setRejectReason}
+                    style={[styles.editInput, isDark && styles.editInputDark]}
+                    multiline
+                  />
+                  <View style={styles.editActions}>
+                    <TouchableOpacity 
+                      style={[styles.saveButton, styles.rejectButton, !rejectReason.trim() && styles.saveButtonDisabled]}
+                      onPress={rejectTask}
+                      disabled={!rejectReason.trim()}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={styles.saveButtonText}>Send Back</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity 
+                      style={styles.cancelButton}
+                      onPress={() => {
+                        setRejecting(false);
+                        setRejectReason('');
+                      }}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>
+                        Cancel
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+              {!canReviewTask && task.submitted_by === userId && (
+                <Text style={styles.proofNote}>Waiting for another member to review</Text>
+              )}
+            </View>
+          )}
         </View>
 
+        {/* Photos Section */}
+        {(attachments.length > 0 || canEdit) && (
+          <View style={[styles.section, isDark && styles.sectionDark]}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="images" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+              <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+                Photos ({attachments.length})
+              </Text>
+            </View>
+
+            <AttachmentGallery
+              attachments={attachments}
+              currentUserId={userId}
+              canAdd={canEdit}
+              uploading={uploading}
+              onAdd={addPhotos}
+              onRemove={removeAttachment}
+              isDark={isDark}
+            />
+          </View>
+        )}
+
         {/* Task Content Section */}
         <View style={[styles.section, isDark && styles.sectionDark]}>
           <View style={styles.sectionHeader}>
@@ -326,6 +840,170 @@ export default function TaskDetailScreen() {
                 multiline
                 numberOfLines={4}
               />
+              <View style={styles.editDueDate}>
+                <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Due:</Text>
+                <DueDatePicker
+                  value={editDueDate}
+                  allDay={editDueAllDay}
+                  onChange={(value, allDay) => {
+                    setEditDueDate(value);
+                    setEditDueAllDay(allDay);
+                  }}
+                  isDark={isDark}
+                />
+              </View>
+              <View style={styles.editDueDate}>
+                <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Effort (points):</Text>
+                <View style={styles.effortOptions}>
+                  {EFFORT_POINTS.map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[
+                        styles.effortOption,
+                        isDark && styles.effortOptionDark,
+                        editPoints === option && styles.effortOptionSelected
+                      ]}
+                      onPress={() => setEditPoints(option)}
+                    >
+                      <Text style={[
+                        styles.effortOptionText,
+                        isDark && styles.effortOptionTextDark,
+                        editPoints === option && styles.effortOptionTextSelected
+                      ]}>
+                        {option}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+              <View style={styles.editDueDate}>
+                <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Priority:</Text>
+                <View style={styles.effortOptions}>
+                  {PRIORITY_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.effortOption,
+                        isDark && styles.effortOptionDark,
+                        editPriority === option.value && styles.effortOptionSelected
+                      ]}
+                      onPress={() => setEditPriority(option.value)}
+                    >
+                      <Text style={[
+                        styles.effortOptionText,
+                        isDark && styles.effortOptionTextDark,
+                        editPriority === option.value && styles.effortOptionTextSelected
+                      ]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+              {households.length > 1 && (
+                <View style={styles.editDueDate}>
+                  <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Household:</Text>
+                  <View style={styles.pickerOptions}>
+                    {households.map(option => (
+                      <TouchableOpacity
+                        key={option.id}
+                        style={[
+                          styles.effortOption,
+                          isDark && styles.effortOptionDark,
+                          editHouseholdId === option.id && styles.effortOptionSelected
+                        ]}
+                        onPress={() => {
+                          setEditHouseholdId(option.id);
+                          // Tags belong to their household, so a moved task starts without any
+                          setEditTags(option.id === task.household_id ? task.tag_ids : []);
+                        }}
+                      >
+                        <Text style={[
+                          styles.effortOptionText,
+                          isDark && styles.effortOptionTextDark,
+                          editHouseholdId === option.id && styles.effortOptionTextSelected
+                        ]}>
+                          {option.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  {editHouseholdId !== task.household_id && (
+                    <Text style={styles.proofNote}>
+                      The checklist, comments and photos move with the task
+                    </Text>
+                  )}
+                </View>
+              )}
+              <View style={styles.editDueDate}>
+                <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Tags:</Text>
+                <TagPicker
+                  tags={editHouseholdTags}
+                  selectedIds={editTags}
+                  onChange={setEditTags}
+                  isDark={isDark}
+                />
+              </View>
+              <View style={styles.editDueDate}>
+                <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Assigned to:</Text>
+                <View style={styles.pickerOptions}>
+                  <TouchableOpacity
+                    style={[
+                      styles.effortOption,
+                      isDark && styles.effortOptionDark,
+                      editAssignee === null && styles.effortOptionSelected
+                    ]}
+                    onPress={() => setEditAssignee(null)}
+                  >
+                    <Text style={[
+                      styles.effortOptionText,
+                      isDark && styles.effortOptionTextDark,
+                      editAssignee === null && styles.effortOptionTextSelected
+                    ]}>
+                      Unassigned
+                    </Text>
+                  </TouchableOpacity>
+                  {targetMembers.map(option => (
+                    <TouchableOpacity
+                      key={option.user_id}
+                      style={[
+                        styles.effortOption,
+                        styles.memberOption,
+                        isDark && styles.effortOptionDark,
+                        editAssignee === option.user_id && styles.effortOptionSelected
+                      ]}
+                      onPress={() => setEditAssignee(option.user_id)}
+                    >
+                      <MemberAvatar member={option} />
+                      <Text style={[
+                        styles.effortOptionText,
+                        isDark && styles.effortOptionTextDark,
+                        editAssignee === option.user_id && styles.effortOptionTextSelected
+                      ]}>
+                        {option.name || option.email}{option.is_available ? '' : ' (away)'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+              <View style={styles.editSwitchRow}>
+                <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Require a photo to complete</Text>
+                <Switch
+                  value={editRequiresProof}
+                  onValueChange={setEditRequiresProof}
+                  trackColor={{ true: isDark ? "#5AC8FA" : "#4A90E2", false: isDark ? "#38383A" : "#E5E5EA" }}
+                />
+              </View>
+              {!household?.require_task_review && (
+                <View style={styles.editSwitchRow}>
+                  <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Require approval to complete</Text>
+                  <Switch
+                    value={editRequiresReview}
+                    onValueChange={setEditRequiresReview}
+                    trackColor={{ true: isDark ? "#5AC8FA" : "#4A90E2", false: isDark ? "#38383A" : "#E5E5EA" }}
+                  />
+                </View>
+              )}
               <View style={styles.editActions}>
                 <TouchableOpacity 
                   style={[styles.saveButton, !editTitle.trim() && styles.saveButtonDisabled]}
@@ -339,8 +1017,7 @@ export default function TaskDetailScreen() {
                   style={styles.cancelButton}
                   onPress={() => {
                     setEditing(false);
-                    setEditTitle(task.title);
-                    setEditDetails(task.details || '');
+                    resetEditForm(task);
                   }}
                   activeOpacity={0.8}
                 >
@@ -364,6 +1041,28 @@ export default function TaskDetailScreen() {
           )}
         </View>
 
+        {/* Checklist Section */}
+        <View style={[styles.section, isDark && styles.sectionDark]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="list" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+              Checklist
+            </Text>
+          </View>
+
+          <TaskChecklist
+            items={checklist}
+            members={members}
+            canEdit={canEdit}
+            onToggle={toggleChecklistItem}
+            onAdd={addChecklistItem}
+            onRemove={removeChecklistItem}
+            onAssign={assignChecklistItem}
+            onMove={moveChecklistItem}
+            isDark={isDark}
+          />
+        </View>
+
         {/* Task Info Section */}
         <View style={[styles.section, isDark && styles.sectionDark]}>
           <View style={styles.sectionHeader}>
@@ -373,6 +1072,38 @@ export default function TaskDetailScreen() {
             </Text>
           </View>
           
+          <View style={styles.infoItem}>
+            <Ionicons name="alarm" size={16} color={getDueStateColor(dueState, isDark)} />
+            <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Due:</Text>
+            <Text style={[styles.infoValue, isDark && styles.infoValueDark]}>
+              {task.due_date ? formatDueDate(task.due_date, task.due_all_day) : 'No due date'}
+              {dueStateLabel && (
+                <Text style={{ color: getDueStateColor(dueState, isDark), fontWeight: '600' }}>
+                  {` • ${dueStateLabel}`}
+                </Text>
+              )}
+            </Text>
+          </View>
+
+          <View style={styles.infoItem}>
+            <Ionicons name="flash" size={16} color={isDark ? "#8E8E93" : "#8E8E93"} />
+            <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Effort:</Text>
+            <Text style={[styles.infoValue, isDark && styles.infoValueDark]}>
+              {task.points} {task.points === 1 ? 'point' : 'points'}
+            </Text>
+          </View>
+
+          {task.state === 'completed' && task.completed_by && (
+            <View style={styles.infoItem}>
+              <Ionicons name="trophy" size={16} color={isDark ? "#8E8E93" : "#8E8E93"} />
+              <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Done by:</Text>
+              <Text style={[styles.infoValue, isDark && styles.infoValueDark]}>
+                {getMemberName(task.completed_by)}
+                {task.completed_at ? ` • ${formatDate(task.completed_at)}` : ''}
+              </Text>
+            </View>
+          )}
+
           <View style={styles.infoItem}>
             <Ionicons name="calendar" size={16} color={isDark ? "#8E8E93" : "#8E8E93"} />
             <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Created:</Text>
@@ -381,35 +1112,112 @@ export default function TaskDetailScreen() {
             </Text>
           </View>
           
-          {task.assignee && (
+          {task.recurrence_rule && (
             <View style={styles.infoItem}>
-              <Ionicons name="person" size={16} color={isDark ? "#8E8E93" : "#8E8E93"} />
-              <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Assigned to:</Text>
+              <Ionicons name="repeat" size={16} color={isDark ? "#8E8E93" : "#8E8E93"} />
+              <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Repeats:</Text>
               <Text style={[styles.infoValue, isDark && styles.infoValueDark]}>
-                User ID: {task.assignee}
+                {describeRecurrenceRule(task.recurrence_rule) || task.recurrence_rule}
+                {task.rotation.length > 1 ? ` • rotates between ${task.rotation.length} members` : ''}
               </Text>
             </View>
           )}
+
+          <View style={styles.infoItem}>
+            <Ionicons name="flag" size={16} color={isDark ? "#8E8E93" : "#8E8E93"} />
+            <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Priority:</Text>
+            <Text style={[styles.infoValue, isDark && styles.infoValueDark]}>
+              {PRIORITY_OPTIONS.find(option => option.value === task.priority)?.label || task.priority}
+            </Text>
+          </View>
+
+          {taskTags.length > 0 && (
+            <View style={styles.infoItem}>
+              <Ionicons name="pricetag" size={16} color={isDark ? "#8E8E93" : "#8E8E93"} />
+              <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Tags:</Text>
+              <View style={styles.infoTags}>
+                {taskTags.map(tag => (
+                  <TagChip key={tag.id} tag={tag} size="small" isDark={isDark} />
+                ))}
+              </View>
+            </View>
+          )}
+
+          <View style={styles.infoItem}>
+            <Ionicons name="person" size={16} color={isDark ? "#8E8E93" : "#8E8E93"} />
+            <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Assigned to:</Text>
+            {task.assignee ? (
+              <MemberChip member={directory.getMember(task.assignee, task.household_id)} isDark={isDark} />
+            ) : (
+              <Text style={[styles.infoValue, isDark && styles.infoValueDark]}>Unassigned</Text>
+            )}
+          </View>
+
+          <View style={styles.infoItem}>
+            <Ionicons name="create" size={16} color={isDark ? "#8E8E93" : "#8E8E93"} />
+            <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Created by:</Text>
+            <MemberChip member={directory.getMember(task.created_by, task.household_id)} isDark={isDark} />
+          </View>
         </View>
 
-        {/* Actions Section */}
+        {/* History Section */}
         <View style={[styles.section, isDark && styles.sectionDark]}>
           <View style={styles.sectionHeader}>
-            <Ionicons name="settings" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            <Ionicons name="time" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
             <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-              Actions
+              History
             </Text>
           </View>
-          
-          <TouchableOpacity 
-            style={[styles.actionButton, styles.deleteButton]}
-            onPress={deleteTask}
-            activeOpacity={0.8}
-          >
-            <Ionicons name="trash" size={20} color="white" />
-            <Text style={styles.actionButtonText}>Delete Task</Text>
-          </TouchableOpacity>
+
+          <ActivityTimeline
+            activities={activity}
+            members={directory.members}
+            currentUserId={userId}
+            isDark={isDark}
+          />
         </View>
+
+        {/* Comments Section */}
+        <View style={[styles.section, isDark && styles.sectionDark]}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="chatbubbles" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+              Comments ({comments.length})
+            </Text>
+          </View>
+
+          <CommentThread
+            comments={comments}
+            members={members}
+            currentUserId={userId}
+            canComment={canComment}
+            onPost={postComment}
+            onEdit={editComment}
+            onDelete={deleteComment}
+            isDark={isDark}
+          />
+        </View>
+
+        {/* Actions Section */}
+        {canDelete && (
+          <View style={[styles.section, isDark && styles.sectionDark]}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="settings" size={20} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+              <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+                Actions
+              </Text>
+            </View>
+          
+            <TouchableOpacity 
+              style={[styles.actionButton, styles.deleteButton]}
+              onPress={deleteTask}
+              activeOpacity={0.8}
+            >
+              <Ionicons name="trash" size={20} color="white" />
+              <Text style={styles.actionButtonText}>Delete Task</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -545,17 +1353,115 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     gap: 8,
   },
-  statusButtonCompleted: {
+  statusText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  reviewSection: {
+    marginTop: 12,
+    gap: 12,
+  },
+  reviewButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  reviewButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    paddingVertical: 12,
+    gap: 6,
+  },
+  approveButton: {
     backgroundColor: '#34C759',
   },
-  statusText: {
+  rejectButton: {
+    backgroundColor: '#FF3B30',
+  },
+  reviewButtonText: {
     color: 'white',
     fontSize: 16,
     fontWeight: '600',
   },
-  statusTextCompleted: {
+  reviewNote: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFF4E5',
+  },
+  reviewNoteDark: {
+    backgroundColor: '#3A2A12',
+  },
+  reviewNoteTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#C93400',
+    marginBottom: 4,
+  },
+  reviewNoteTitleDark: {
+    color: '#FF9F0A',
+  },
+  reviewNoteText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  reviewNoteTextDark: {
+    color: '#FFFFFF',
+  },
+  editDueDate: {
+    gap: 8,
+  },
+  effortOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  pickerOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  memberOption: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  effortOption: {
+    minWidth: 40,
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+  },
+  effortOptionDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  effortOptionSelected: {
+    backgroundColor: '#4A90E2',
+  },
+  effortOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  effortOptionTextDark: {
+    color: '#FFFFFF',
+  },
+  effortOptionTextSelected: {
     color: 'white',
   },
+  editSwitchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  proofNote: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
   editForm: {
     gap: 16,
   },
@@ -638,6 +1544,12 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     gap: 8,
   },
+  infoTags: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
   infoLabel: {
     fontSize: 14,
     color: '#8E8E93',
@@ -0,0 +1,94 @@
+-- Task Attachments Setup
+-- Photo proof of completion, stored in the private task-attachments bucket.
+-- Run after permissions_schema.sql.
+
+-- 1. Private bucket; files are stored as <household_id>/<task_id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('task-attachments', 'task-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. One row per uploaded photo
+CREATE TABLE IF NOT EXISTS task_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  uploaded_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  created_at timestamp with time zone DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_attachments_task ON task_attachments(task_id, created_at);
+
+-- 3. Tasks can require a photo before they count as completed
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS requires_proof boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION check_task_proof()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status AND NOT COALESCE(OLD.status, false) AND NEW.requires_proof
+    AND NOT EXISTS (SELECT 1 FROM task_attachments WHERE task_id = NEW.id)
+  THEN
+    RAISE EXCEPTION 'Attach a photo before completing this task' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_task_proof ON tasks;
+CREATE TRIGGER check_task_proof
+  BEFORE UPDATE OF status ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION check_task_proof();
+
+-- 4. Members see a household's photos; anyone who can edit tasks can attach them,
+-- and uploaders can remove their own
+ALTER TABLE task_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view attachments" ON task_attachments;
+CREATE POLICY "Members can view attachments"
+  ON task_attachments FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can add attachments" ON task_attachments;
+CREATE POLICY "Members can add attachments"
+  ON task_attachments FOR INSERT
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND household_can(household_id, 'edit_tasks')
+    AND household_id = (SELECT household_id FROM tasks WHERE id = task_id)
+  );
+
+DROP POLICY IF EXISTS "Uploaders can remove attachments" ON task_attachments;
+CREATE POLICY "Uploaders can remove attachments"
+  ON task_attachments FOR DELETE
+  USING (uploaded_by = auth.uid());
+
+-- 5. The same rules for the files, keyed on the household folder
+DROP POLICY IF EXISTS "Members can view task photos" ON storage.objects;
+CREATE POLICY "Members can view task photos"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'task-attachments'
+    AND (storage.foldername(name))[1] IN (
+      SELECT household_id::text FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can upload task photos" ON storage.objects;
+CREATE POLICY "Members can upload task photos"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'task-attachments'
+    AND household_can(((storage.foldername(name))[1])::uuid, 'edit_tasks')
+  );
+
+DROP POLICY IF EXISTS "Uploaders can delete task photos" ON storage.objects;
+CREATE POLICY "Uploaders can delete task photos"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'task-attachments' AND owner = auth.uid());
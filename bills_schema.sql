@@ -0,0 +1,209 @@
+-- Bills Setup
+-- Recurring household bills such as rent or electricity, with each member's share of every instance.
+-- Run after expenses_schema.sql.
+
+-- 1. Bills. A null amount means it changes every time and is entered as each bill arrives.
+CREATE TABLE IF NOT EXISTS bills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  amount numeric(12, 2),
+  currency text NOT NULL DEFAULT 'USD',
+  -- Null for a one-off bill
+  recurrence_rule text,
+  next_due_date timestamp with time zone NOT NULL,
+  participants uuid[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  CONSTRAINT chk_bills_name CHECK (length(trim(name)) > 0),
+  CONSTRAINT chk_bills_amount CHECK (amount IS NULL OR amount > 0),
+  CONSTRAINT chk_bills_currency CHECK (currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT chk_bills_participants CHECK (cardinality(participants) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bills_household ON bills(household_id, next_due_date);
+
+DROP TRIGGER IF EXISTS update_bills_updated_at ON bills;
+CREATE TRIGGER update_bills_updated_at
+  BEFORE UPDATE ON bills
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Bill instances, one per due date. The unique key lets every client generate due instances
+-- without creating duplicates.
+CREATE TABLE IF NOT EXISTS bill_instances (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id uuid NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  due_date timestamp with time zone NOT NULL,
+  amount numeric(12, 2),
+  currency text NOT NULL DEFAULT 'USD',
+  settled boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone DEFAULT NOW(),
+  CONSTRAINT uq_bill_instances_due UNIQUE (bill_id, due_date),
+  CONSTRAINT chk_bill_instances_amount CHECK (amount IS NULL OR amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_instances_household ON bill_instances(household_id, due_date DESC);
+CREATE INDEX IF NOT EXISTS idx_bill_instances_unsettled ON bill_instances(household_id, due_date) WHERE settled = false;
+
+-- 3. Each participant's share of an instance
+CREATE TABLE IF NOT EXISTS bill_shares (
+  instance_id uuid NOT NULL REFERENCES bill_instances(id) ON DELETE CASCADE,
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount numeric(12, 2),
+  paid_at timestamp with time zone,
+  PRIMARY KEY (instance_id, user_id),
+  CONSTRAINT chk_bill_shares_amount CHECK (amount IS NULL OR amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_shares_user ON bill_shares(user_id) WHERE paid_at IS NULL;
+
+-- Participants may mark their own share paid, but only bill managers change what it is
+CREATE OR REPLACE FUNCTION check_bill_share_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.amount IS DISTINCT FROM OLD.amount
+    AND auth.uid() IS NOT NULL
+    AND NOT household_can(NEW.household_id, 'manage_bills') THEN
+    RAISE EXCEPTION 'Only bill managers can change a share' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_bill_share_update ON bill_shares;
+CREATE TRIGGER check_bill_share_update
+  BEFORE UPDATE ON bill_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION check_bill_share_update();
+
+-- Keep the instance's settled flag in step with its shares. Runs as the owner because participants
+-- can't update instances themselves.
+CREATE OR REPLACE FUNCTION refresh_bill_instance_settled()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target uuid := COALESCE(NEW.instance_id, OLD.instance_id);
+BEGIN
+  UPDATE bill_instances
+  SET settled = NOT EXISTS (
+    SELECT 1 FROM bill_shares WHERE instance_id = target AND paid_at IS NULL
+  )
+  WHERE id = target;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_bill_instance_settled ON bill_shares;
+CREATE TRIGGER refresh_bill_instance_settled
+  AFTER INSERT OR UPDATE OF paid_at OR DELETE ON bill_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_bill_instance_settled();
+
+-- 4. Admins and members set up bills; anyone sharing one marks their part paid
+INSERT INTO household_role_permissions (role, action) VALUES
+  ('admin', 'manage_bills'),
+  ('member', 'manage_bills')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE bills ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view bills" ON bills;
+CREATE POLICY "Members can view bills"
+  ON bills FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can add bills" ON bills;
+CREATE POLICY "Members can add bills"
+  ON bills FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND household_can(household_id, 'manage_bills'));
+
+DROP POLICY IF EXISTS "Members can update bills" ON bills;
+CREATE POLICY "Members can update bills"
+  ON bills FOR UPDATE
+  USING (household_can(household_id, 'manage_bills'))
+  WITH CHECK (household_can(household_id, 'manage_bills'));
+
+DROP POLICY IF EXISTS "Members can delete bills" ON bills;
+CREATE POLICY "Members can delete bills"
+  ON bills FOR DELETE
+  USING (household_can(household_id, 'manage_bills'));
+
+ALTER TABLE bill_instances ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view bill instances" ON bill_instances;
+CREATE POLICY "Members can view bill instances"
+  ON bill_instances FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can generate bill instances" ON bill_instances;
+CREATE POLICY "Members can generate bill instances"
+  ON bill_instances FOR INSERT
+  WITH CHECK (
+    household_can(household_id, 'manage_bills')
+    AND EXISTS (
+      SELECT 1 FROM bills
+      WHERE id = bill_instances.bill_id AND household_id = bill_instances.household_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can update bill instances" ON bill_instances;
+CREATE POLICY "Members can update bill instances"
+  ON bill_instances FOR UPDATE
+  USING (household_can(household_id, 'manage_bills'))
+  WITH CHECK (household_can(household_id, 'manage_bills'));
+
+-- Also lets a failed generation clean up after itself
+DROP POLICY IF EXISTS "Members can delete bill instances" ON bill_instances;
+CREATE POLICY "Members can delete bill instances"
+  ON bill_instances FOR DELETE
+  USING (household_can(household_id, 'manage_bills'));
+
+ALTER TABLE bill_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view bill shares" ON bill_shares;
+CREATE POLICY "Members can view bill shares"
+  ON bill_shares FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can add bill shares" ON bill_shares;
+CREATE POLICY "Members can add bill shares"
+  ON bill_shares FOR INSERT
+  WITH CHECK (
+    household_can(household_id, 'manage_bills')
+    AND EXISTS (
+      SELECT 1 FROM bill_instances
+      WHERE id = bill_shares.instance_id AND household_id = bill_shares.household_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can update bill shares" ON bill_shares;
+CREATE POLICY "Members can update bill shares"
+  ON bill_shares FOR UPDATE
+  USING (user_id = auth.uid() OR household_can(household_id, 'manage_bills'))
+  WITH CHECK (user_id = auth.uid() OR household_can(household_id, 'manage_bills'));
@@ -0,0 +1,95 @@
+-- Task Checklist Setup
+-- Ordered checklist items inside a task, each with its own done state and optional assignee.
+-- Run after permissions_schema.sql.
+
+-- 1. Checklist items
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  done boolean NOT NULL DEFAULT false,
+  assignee uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  CONSTRAINT chk_task_checklist_items_title CHECK (length(trim(title)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task ON task_checklist_items(task_id, position);
+
+DROP TRIGGER IF EXISTS update_task_checklist_items_updated_at ON task_checklist_items;
+CREATE TRIGGER update_task_checklist_items_updated_at
+  BEFORE UPDATE ON task_checklist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Items always belong to their task's household, whatever the client sent
+CREATE OR REPLACE FUNCTION set_checklist_item_household()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.household_id = (SELECT household_id FROM tasks WHERE id = NEW.task_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_checklist_item_household ON task_checklist_items;
+CREATE TRIGGER set_checklist_item_household
+  BEFORE INSERT OR UPDATE OF task_id ON task_checklist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_checklist_item_household();
+
+-- 2. Progress counts on the task, so lists can show "3/7" without loading items
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS checklist_total integer NOT NULL DEFAULT 0;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS checklist_done integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION refresh_task_checklist_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_task uuid := COALESCE(NEW.task_id, OLD.task_id);
+BEGIN
+  UPDATE tasks SET
+    checklist_total = (SELECT count(*) FROM task_checklist_items WHERE task_id = target_task),
+    checklist_done = (SELECT count(*) FROM task_checklist_items WHERE task_id = target_task AND done)
+  WHERE id = target_task;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_task_checklist_counts ON task_checklist_items;
+CREATE TRIGGER refresh_task_checklist_counts
+  AFTER INSERT OR DELETE OR UPDATE OF done, task_id ON task_checklist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_task_checklist_counts();
+
+-- 3. Per-household switch for completing a task once its whole checklist is done
+ALTER TABLE households ADD COLUMN IF NOT EXISTS auto_complete_tasks boolean NOT NULL DEFAULT false;
+
+-- 4. Members read a household's checklists; editing follows the task permissions
+ALTER TABLE task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view checklist items" ON task_checklist_items;
+CREATE POLICY "Members can view checklist items"
+  ON task_checklist_items FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can add checklist items" ON task_checklist_items;
+CREATE POLICY "Members can add checklist items"
+  ON task_checklist_items FOR INSERT
+  WITH CHECK (household_can(household_id, 'edit_tasks'));
+
+DROP POLICY IF EXISTS "Members can edit checklist items" ON task_checklist_items;
+CREATE POLICY "Members can edit checklist items"
+  ON task_checklist_items FOR UPDATE
+  USING (household_can(household_id, 'edit_tasks'))
+  WITH CHECK (household_can(household_id, 'edit_tasks'));
+
+DROP POLICY IF EXISTS "Members can remove checklist items" ON task_checklist_items;
+CREATE POLICY "Members can remove checklist items"
+  ON task_checklist_items FOR DELETE
+  USING (household_can(household_id, 'edit_tasks'));
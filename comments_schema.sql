@@ -0,0 +1,139 @@
+-- Task Comments Setup
+-- A comment thread on every task, with @mentions of household members.
+-- Run after permissions_schema.sql and realtime_schema.sql.
+
+-- 1. Comments
+CREATE TABLE IF NOT EXISTS task_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone DEFAULT NOW(),
+  edited_at timestamp with time zone,
+  updated_by uuid,
+  CONSTRAINT chk_task_comments_body CHECK (length(trim(body)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at);
+
+-- Comments always belong to their task's household, whatever the client sent, and stay on the task they
+-- were posted to. Editing only changes the body and mentions; moving a task moves its comments along.
+CREATE OR REPLACE FUNCTION set_comment_household()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.task_id IS DISTINCT FROM OLD.task_id THEN
+    RAISE EXCEPTION 'Comments cannot be moved to another task' USING ERRCODE = '42501';
+  END IF;
+  NEW.household_id = (SELECT household_id FROM tasks WHERE id = NEW.task_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_comment_household ON task_comments;
+CREATE TRIGGER set_comment_household
+  BEFORE INSERT OR UPDATE ON task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_comment_household();
+
+CREATE OR REPLACE FUNCTION set_comment_edited_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.edited_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_comment_edited_at ON task_comments;
+CREATE TRIGGER set_comment_edited_at
+  BEFORE UPDATE ON task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_comment_edited_at();
+
+DROP TRIGGER IF EXISTS set_task_comments_updated_by ON task_comments;
+CREATE TRIGGER set_task_comments_updated_by
+  BEFORE INSERT OR UPDATE ON task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_by();
+
+-- 2. Comment count on the task for list badges.
+-- Runs as definer because viewers can comment but not edit tasks.
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS comment_count integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION refresh_task_comment_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_task uuid := COALESCE(NEW.task_id, OLD.task_id);
+BEGIN
+  UPDATE tasks
+  SET comment_count = (SELECT count(*) FROM task_comments WHERE task_id = target_task)
+  WHERE id = target_task;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_task_comment_count ON task_comments;
+CREATE TRIGGER refresh_task_comment_count
+  AFTER INSERT OR DELETE ON task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_task_comment_count();
+
+-- 3. Everyone in a household may comment, viewers included
+INSERT INTO household_role_permissions (role, action) VALUES
+  ('admin', 'comment_on_tasks'),
+  ('member', 'comment_on_tasks'),
+  ('viewer', 'comment_on_tasks')
+ON CONFLICT DO NOTHING;
+
+-- 4. Members read the thread; authors edit and delete their own comments
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view comments" ON task_comments;
+CREATE POLICY "Members can view comments"
+  ON task_comments FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can post comments" ON task_comments;
+CREATE POLICY "Members can post comments"
+  ON task_comments FOR INSERT
+  WITH CHECK (author_id = auth.uid() AND household_can(household_id, 'comment_on_tasks'));
+
+DROP POLICY IF EXISTS "Authors can edit their comments" ON task_comments;
+CREATE POLICY "Authors can edit their comments"
+  ON task_comments FOR UPDATE
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
+
+DROP POLICY IF EXISTS "Authors can delete their comments" ON task_comments;
+CREATE POLICY "Authors can delete their comments"
+  ON task_comments FOR DELETE
+  USING (author_id = auth.uid());
+
+-- 5. Mention alerts can be turned off like the other notifications
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS mention_alerts boolean NOT NULL DEFAULT true;
+
+-- 6. Stream comments to open task screens and mention alerts
+ALTER TABLE task_comments REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'task_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.task_comments;
+  END IF;
+END;
+$$;
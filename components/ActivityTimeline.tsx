@@ -0,0 +1,122 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Member, TaskActivity } from '@/lib/data';
+import { describeActivity, getActivityColor, getActivityIcon } from '@/lib/activity';
+import { findMember, getDisplayName } from '@/lib/memberDirectory';
+
+interface ActivityTimelineProps {
+  activities: TaskActivity[];
+  members: Member[];
+  currentUserId: string | null;
+  // Name the task in each entry, for feeds that span several tasks
+  showTaskTitle?: boolean;
+  onPressTask?: (taskId: string) => void;
+  isDark?: boolean;
+}
+
+const formatActivityTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function ActivityTimeline({
+  activities,
+  members,
+  currentUserId,
+  showTaskTitle = false,
+  onPressTask,
+  isDark = false
+}: ActivityTimelineProps) {
+  const getName = (userId: string | null) => {
+    if (!userId) return 'Someone';
+    if (userId === currentUserId) return 'You';
+    return getDisplayName(findMember(members, userId));
+  };
+
+  if (activities.length === 0) {
+    return <Text style={styles.emptyText}>No activity yet</Text>;
+  }
+
+  return (
+    <View>
+      {activities.map((activity, index) => {
+        const isLast = index === activities.length - 1;
+        // Deleted tasks can't be opened any more
+        const canOpen = onPressTask && activity.action !== 'deleted';
+        return (
+          <TouchableOpacity
+            key={activity.id}
+            style={styles.entry}
+            onPress={() => canOpen && onPressTask(activity.task_id)}
+            disabled={!canOpen}
+            activeOpacity={0.7}
+          >
+            <View style={styles.rail}>
+              <Ionicons
+                name={getActivityIcon(activity.action)}
+                size={18}
+                color={getActivityColor(activity.action, isDark)}
+              />
+              {!isLast && <View style={[styles.line, isDark && styles.lineDark]} />}
+            </View>
+            <View style={styles.body}>
+              <Text style={[styles.text, isDark && styles.textDark]}>
+                {describeActivity(activity, getName, showTaskTitle)}
+              </Text>
+              {activity.action === 'rejected' && activity.details.reason && (
+                <Text style={styles.reason}>&ldquo;{activity.details.reason}&rdquo;</Text>
+              )}
+              <Text style={styles.time}>{formatActivityTime(activity.created_at)}</Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  entry: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  rail: {
+    alignItems: 'center',
+    width: 18,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    marginVertical: 2,
+    backgroundColor: '#E5E5EA',
+  },
+  lineDark: {
+    backgroundColor: '#38383A',
+  },
+  body: {
+    flex: 1,
+    paddingBottom: 14,
+  },
+  text: {
+    fontSize: 14,
+    lineHeight: 18,
+    color: '#1C1C1E',
+  },
+  textDark: {
+    color: '#FFFFFF',
+  },
+  reason: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  time: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TaskAttachment } from '@/lib/data';
+
+interface AttachmentGalleryProps {
+  attachments: TaskAttachment[];
+  currentUserId: string | null;
+  canAdd: boolean;
+  uploading: boolean;
+  onAdd: () => void;
+  onRemove: (attachment: TaskAttachment) => void;
+  isDark?: boolean;
+}
+
+export default function AttachmentGallery({
+  attachments,
+  currentUserId,
+  canAdd,
+  uploading,
+  onAdd,
+  onRemove,
+  isDark = false
+}: AttachmentGalleryProps) {
+  const [viewing, setViewing] = useState<TaskAttachment | null>(null);
+
+  // Uploaders can take their own photos down with a long press
+  const confirmRemove = (attachment: TaskAttachment) => {
+    if (attachment.uploaded_by !== currentUserId) return;
+    Alert.alert('Remove Photo', 'Are you sure you want to remove this photo?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => onRemove(attachment) }
+    ]);
+  };
+
+  return (
+    <View>
+      {attachments.length === 0 && !canAdd && (
+        <Text style={styles.emptyText}>No photos yet</Text>
+      )}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+        {attachments.map(attachment => (
+          <TouchableOpacity
+            key={attachment.id}
+            onPress={() => setViewing(attachment)}
+            onLongPress={() => confirmRemove(attachment)}
+            activeOpacity={0.8}
+          >
+            <Image source={{ uri: attachment.url }} style={[styles.thumbnail, isDark && styles.thumbnailDark]} />
+          </TouchableOpacity>
+        ))}
+
+        {canAdd && (
+          <TouchableOpacity
+            style={[styles.addTile, isDark && styles.addTileDark]}
+            onPress={onAdd}
+            disabled={uploading}
+            activeOpacity={0.7}
+          >
+            {uploading ? (
+              <ActivityIndicator color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            ) : (
+              <>
+                <Ionicons name="camera" size={22} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+                <Text style={[styles.addText, isDark && styles.addTextDark]}>Add</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={viewing !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setViewing(null)}
+      >
+        <View style={styles.viewer}>
+          <TouchableOpacity style={styles.closeButton} onPress={() => setViewing(null)}>
+            <Ionicons name="close" size={28} color="white" />
+          </TouchableOpacity>
+          {viewing && (
+            <Image source={{ uri: viewing.url }} style={styles.fullImage} resizeMode="contain" />
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  strip: {
+    gap: 8,
+  },
+  thumbnail: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  thumbnailDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  addTile: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#C7C7CC',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+  },
+  addTileDark: {
+    borderColor: '#48484A',
+  },
+  addText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#4A90E2',
+  },
+  addTextDark: {
+    color: '#5AC8FA',
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 60,
+    right: 20,
+    zIndex: 1,
+    padding: 4,
+  },
+  fullImage: {
+    width: '100%',
+    height: '80%',
+  },
+});
@@ -0,0 +1,150 @@
+import React from 'react';
+import { TouchableOpacity, Text, View, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BillInstance } from '@/lib/data';
+import { formatMoney } from '@/lib/balances';
+import { formatShareAmount, getPaidCount, getShare, getShareDueState } from '@/lib/bills';
+import { formatDueDate, getDueStateColor, getDueStateLabel } from '@/lib/dueDates';
+
+interface BillShareComponentProps {
+  instance: BillInstance;
+  userId: string;
+  onPress: () => void;
+  onMarkPaid: () => void;
+  isDark?: boolean;
+}
+
+// The user's share of a bill, shown among their chores
+export default function BillShareComponent({
+  instance,
+  userId,
+  onPress,
+  onMarkPaid,
+  isDark = false
+}: BillShareComponentProps) {
+  const share = getShare(instance, userId);
+  const dueState = getShareDueState(instance, userId);
+  const dueStateLabel = getDueStateLabel(dueState);
+  const dueDate = formatDueDate(instance.due_date, true);
+
+  return (
+    <TouchableOpacity
+      style={[styles.billCard, isDark && styles.billCardDark]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <View style={styles.billHeader}>
+        <Ionicons name="document-text" size={18} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+        <Text style={[styles.billTitle, isDark && styles.billTitleDark]} numberOfLines={1}>
+          {instance.name}
+        </Text>
+        <Text style={[styles.shareAmount, isDark && styles.shareAmountDark]}>
+          {share ? formatShareAmount(share, instance.currency) : ''}
+        </Text>
+      </View>
+
+      <View style={styles.billFooter}>
+        <View style={styles.billMeta}>
+          <Ionicons name="calendar" size={12} color={getDueStateColor(dueState, isDark)} />
+          <Text style={[
+            styles.billDate,
+            dueStateLabel !== null && [styles.billDateHighlighted, { color: getDueStateColor(dueState, isDark) }]
+          ]}>
+            {dueStateLabel ? `${dueStateLabel} • ${dueDate}` : dueDate}
+          </Text>
+        </View>
+
+        <Text style={styles.billProgress}>
+          {instance.amount !== null ? `${formatMoney(instance.amount, instance.currency)} • ` : ''}
+          {getPaidCount(instance)} of {instance.shares.length} paid
+        </Text>
+
+        <TouchableOpacity style={styles.payButton} onPress={onMarkPaid} activeOpacity={0.7}>
+          <Text style={styles.payButtonText}>Mark paid</Text>
+        </TouchableOpacity>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  billCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+  },
+  billCardDark: {
+    backgroundColor: '#1C1C1E',
+    borderColor: '#38383A',
+    shadowOpacity: 0.3,
+  },
+  billHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  billTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  billTitleDark: {
+    color: '#FFFFFF',
+  },
+  shareAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  shareAmountDark: {
+    color: '#FFFFFF',
+  },
+  billFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  billMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  billDate: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  billDateHighlighted: {
+    fontWeight: '600',
+  },
+  billProgress: {
+    flex: 1,
+    fontSize: 12,
+    color: '#8E8E93',
+    textAlign: 'right',
+  },
+  payButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#4A90E2',
+  },
+  payButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
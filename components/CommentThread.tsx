@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Member, TaskComment } from '@/lib/data';
+import { completeMention, getMentionName, getMentionQuery, splitMentions } from '@/lib/mentions';
+
+interface CommentThreadProps {
+  comments: TaskComment[];
+  members: Member[];
+  currentUserId: string | null;
+  canComment: boolean;
+  onPost: (body: string) => Promise<boolean>;
+  onEdit: (comment: TaskComment, body: string) => Promise<boolean>;
+  onDelete: (comment: TaskComment) => void;
+  isDark?: boolean;
+}
+
+// Suggestions shown while typing a mention
+const MAX_SUGGESTIONS = 5;
+
+const formatCommentTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function CommentThread({
+  comments,
+  members,
+  currentUserId,
+  canComment,
+  onPost,
+  onEdit,
+  onDelete,
+  isDark = false
+}: CommentThreadProps) {
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const getAuthorName = (authorId: string) => {
+    const author = members.find(member => member.user_id === authorId);
+    return author ? getMentionName(author) : 'Former member';
+  };
+
+  const getSuggestions = (text: string) => {
+    const query = getMentionQuery(text);
+    if (query === null) return [];
+    return members
+      .filter(member => member.user_id !== currentUserId)
+      .filter(member => getMentionName(member).toLowerCase().startsWith(query.toLowerCase()))
+      .slice(0, MAX_SUGGESTIONS);
+  };
+
+  const post = async () => {
+    if (!draft.trim() || posting) return;
+    setPosting(true);
+    if (await onPost(draft.trim())) setDraft('');
+    setPosting(false);
+  };
+
+  const saveEdit = async (comment: TaskComment) => {
+    if (!editDraft.trim()) return;
+    if (await onEdit(comment, editDraft.trim())) setEditingId(null);
+  };
+
+  const confirmDelete = (comment: TaskComment) => {
+    Alert.alert('Delete Comment', 'Are you sure you want to delete this comment?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => onDelete(comment) }
+    ]);
+  };
+
+  const renderSuggestions = (text: string, onSelect: (next: string) => void) => {
+    const suggestions = getSuggestions(text);
+    if (suggestions.length === 0) return null;
+    return (
+      <View style={[styles.suggestions, isDark && styles.suggestionsDark]}>
+        {suggestions.map(member => (
+          <TouchableOpacity
+            key={member.user_id}
+            style={styles.suggestion}
+            onPress={() => onSelect(completeMention(text, member))}
+          >
+            <Ionicons name="at" size={14} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+            <Text style={[styles.suggestionText, isDark && styles.suggestionTextDark]}>
+              {getMentionName(member)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderBody = (comment: TaskComment) => (
+    <Text style={[styles.body, isDark && styles.bodyDark]}>
+      {splitMentions(comment.body, members).map((segment, index) => (
+        <Text
+          key={index}
+          style={segment.userId ? [styles.mention, isDark && styles.mentionDark] : undefined}
+        >
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+
+  return (
+    <View>
+      {comments.length === 0 && (
+        <Text style={styles.emptyText}>No comments yet</Text>
+      )}
+
+      {comments.map(comment => {
+        const isOwn = comment.author_id === currentUserId;
+        const isEditing = editingId === comment.id;
+        return (
+          <View key={comment.id} style={[styles.comment, isDark && styles.commentDark]}>
+            <View style={styles.commentHeader}>
+              <Text style={[styles.author, isDark && styles.authorDark]}>
+                {getAuthorName(comment.author_id)}
+              </Text>
+              <Text style={styles.meta}>
+                {formatCommentTime(comment.created_at)}{comment.edited_at ? ' • edited' : ''}
+              </Text>
+              {isOwn && !isEditing && (
+                <View style={styles.commentActions}>
+                  <TouchableOpacity
+                    onPress={() => {
+                      setEditingId(comment.id);
+                      setEditDraft(comment.body);
+                    }}
+                    style={styles.iconButton}
+                  >
+                    <Ionicons name="pencil" size={14} color="#8E8E93" />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => confirmDelete(comment)} style={styles.iconButton}>
+                    <Ionicons name="trash" size={14} color="#8E8E93" />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+
+            {isEditing ? (
+              <View>
+                <TextInput
+                  value={editDraft}
+                  onChangeText={setEditDraft}
+                  multiline
+                  style={[styles.input, isDark && styles.inputDark]}
+                />
+                {renderSuggestions(editDraft, setEditDraft)}
+                <View style={styles.editButtons}>
+                  <TouchableOpacity onPress={() => setEditingId(null)}>
+                    <Text style={styles.cancelText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => saveEdit(comment)} disabled={!editDraft.trim()}>
+                    <Text style={[styles.saveText, isDark && styles.saveTextDark]}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              renderBody(comment)
+            )}
+          </View>
+        );
+      })}
+
+      {canComment && (
+        <View>
+          {renderSuggestions(draft, setDraft)}
+          <View style={styles.composer}>
+            <TextInput
+              placeholder="Add a comment, @ to mention"
+              placeholderTextColor="#8E8E93"
+              value={draft}
+              onChangeText={setDraft}
+              multiline
+              style={[styles.input, styles.composerInput, isDark && styles.inputDark]}
+            />
+            <TouchableOpacity onPress={post} disabled={!draft.trim() || posting} style={styles.iconButton}>
+              <Ionicons
+                name="send"
+                size={22}
+                color={draft.trim() && !posting ? (isDark ? "#5AC8FA" : "#4A90E2") : "#C7C7CC"}
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  comment: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  commentDark: {
+    borderBottomColor: '#2C2C2E',
+  },
+  commentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  author: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  authorDark: {
+    color: '#FFFFFF',
+  },
+  meta: {
+    flex: 1,
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  commentActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  iconButton: {
+    padding: 2,
+  },
+  body: {
+    fontSize: 15,
+    lineHeight: 20,
+    color: '#1C1C1E',
+  },
+  bodyDark: {
+    color: '#FFFFFF',
+  },
+  mention: {
+    fontWeight: '600',
+    color: '#4A90E2',
+  },
+  mentionDark: {
+    color: '#5AC8FA',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#1C1C1E',
+    backgroundColor: '#F2F2F7',
+    maxHeight: 120,
+  },
+  inputDark: {
+    borderColor: '#38383A',
+    backgroundColor: '#2C2C2E',
+    color: '#FFFFFF',
+  },
+  editButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 8,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  saveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4A90E2',
+  },
+  saveTextDark: {
+    color: '#5AC8FA',
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  composerInput: {
+    flex: 1,
+  },
+  suggestions: {
+    marginTop: 8,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+    paddingVertical: 4,
+  },
+  suggestionsDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  suggestionTextDark: {
+    color: '#FFFFFF',
+  },
+});
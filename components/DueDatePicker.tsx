@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Platform, TouchableOpacity, Text, View, StyleSheet } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDueDate, startOfDay } from '@/lib/dueDates';
+
+interface DueDatePickerProps {
+  value: Date | null;
+  allDay: boolean;
+  onChange: (value: Date | null, allDay: boolean) => void;
+  isDark?: boolean;
+  // Hide the time option, for things due on a day rather than at a time
+  dateOnly?: boolean;
+}
+
+type PickerMode = 'date' | 'time';
+
+export default function DueDatePicker({ value, allDay, onChange, isDark = false, dateOnly = false }: DueDatePickerProps) {
+  const [pickerMode, setPickerMode] = useState<PickerMode | null>(null);
+
+  const handlePicked = (event: DateTimePickerEvent, picked?: Date) => {
+    // Android shows a dialog that closes itself; iOS keeps the spinner open until Done
+    if (Platform.OS === 'android') setPickerMode(null);
+    if (event.type !== 'set' || !picked) return;
+
+    if (pickerMode === 'date') {
+      const next = new Date(picked);
+      if (allDay || !value) {
+        onChange(startOfDay(next), allDay || !value);
+      } else {
+        next.setHours(value.getHours(), value.getMinutes(), 0, 0);
+        onChange(next, false);
+      }
+    } else {
+      const next = new Date(value || new Date());
+      next.setHours(picked.getHours(), picked.getMinutes(), 0, 0);
+      onChange(next, false);
+    }
+  };
+
+  const clearTime = () => {
+    if (value) onChange(startOfDay(value), true);
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        {value ? (
+          <>
+            <TouchableOpacity
+              style={[styles.chip, isDark && styles.chipDark, styles.chipSelected]}
+              onPress={() => setPickerMode('date')}
+            >
+              <Ionicons name="calendar" size={14} color="white" />
+              <Text style={[styles.chipText, styles.chipTextSelected]}>
+                {formatDueDate(value.toISOString(), true)}
+              </Text>
+            </TouchableOpacity>
+
+            {dateOnly ? null : allDay ? (
+              <TouchableOpacity
+                style={[styles.chip, isDark && styles.chipDark]}
+                onPress={() => setPickerMode('time')}
+              >
+                <Ionicons name="time-outline" size={14} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+                <Text style={[styles.chipText, isDark && styles.chipTextDark]}>Add time</Text>
+              </TouchableOpacity>
+            ) : (
+              <View style={[styles.chip, isDark && styles.chipDark, styles.chipSelected]}>
+                <TouchableOpacity style={styles.chipContent} onPress={() => setPickerMode('time')}>
+                  <Ionicons name="time" size={14} color="white" />
+                  <Text style={[styles.chipText, styles.chipTextSelected]}>
+                    {value.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={clearTime}>
+                  <Ionicons name="close-circle" size={14} color="white" />
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <TouchableOpacity style={styles.clearButton} onPress={() => onChange(null, true)}>
+              <Ionicons name="close" size={18} color="#8E8E93" />
+            </TouchableOpacity>
+          </>
+        ) : (
+          <TouchableOpacity
+            style={[styles.chip, isDark && styles.chipDark]}
+            onPress={() => setPickerMode('date')}
+          >
+            <Ionicons name="calendar-outline" size={14} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+            <Text style={[styles.chipText, isDark && styles.chipTextDark]}>Add due date</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {pickerMode && (
+        <View style={Platform.OS === 'ios' ? [styles.iosPicker, isDark && styles.iosPickerDark] : undefined}>
+          <DateTimePicker
+            value={value || startOfDay(new Date())}
+            mode={pickerMode}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handlePicked}
+            themeVariant={isDark ? 'dark' : 'light'}
+          />
+          {Platform.OS === 'ios' && (
+            <TouchableOpacity style={styles.doneButton} onPress={() => setPickerMode(null)}>
+              <Text style={styles.doneButtonText}>Done</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  chipDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#38383A',
+  },
+  chipSelected: {
+    backgroundColor: '#4A90E2',
+    borderColor: '#4A90E2',
+  },
+  chipContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  chipTextDark: {
+    color: '#FFFFFF',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '500',
+  },
+  clearButton: {
+    padding: 4,
+  },
+  iosPicker: {
+    marginTop: 8,
+    borderRadius: 12,
+    backgroundColor: '#F2F2F7',
+  },
+  iosPickerDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  doneButtonText: {
+    color: '#4A90E2',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Member, Task } from '@/lib/data';
+import { FAIR_SHARE_TOLERANCE, getMemberShares, getWeeklyHistory } from '@/lib/fairness';
+
+interface FairnessDashboardProps {
+  tasks: Task[];
+  members: Member[];
+  isDark?: boolean;
+}
+
+const PERIODS = [
+  { weeks: 1, label: 'This Week' },
+  { weeks: 4, label: '4 Weeks' },
+  { weeks: 12, label: '12 Weeks' },
+];
+
+const HISTORY_WEEKS = 8;
+const HISTORY_HEIGHT = 80;
+
+// One color per member, in member order
+const MEMBER_COLORS = ['#4A90E2', '#FF9500', '#34C759', '#AF52DE', '#FF2D55', '#5AC8FA', '#FFCC00', '#8E8E93'];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function FairnessDashboard({ tasks, members, isDark = false }: FairnessDashboardProps) {
+  const [weeks, setWeeks] = useState(4);
+
+  const shares = getMemberShares(tasks, members, weeks);
+  const total = shares.reduce((sum, share) => sum + share.points, 0);
+  const history = getWeeklyHistory(tasks, members, HISTORY_WEEKS);
+  const busiestWeek = Math.max(1, ...history.map(week => week.total));
+
+  const getColor = (userId: string) =>
+    MEMBER_COLORS[members.findIndex(member => member.user_id === userId) % MEMBER_COLORS.length];
+
+  const getName = (userId: string) => {
+    const member = members.find(m => m.user_id === userId);
+    return member ? member.name || member.email : 'Unknown';
+  };
+
+  const getBalanceLabel = (share: number, evenShare: number) => {
+    const difference = share - evenShare;
+    if (Math.abs(difference) <= FAIR_SHARE_TOLERANCE) return { text: 'Even', color: '#34C759' };
+    return difference > 0
+      ? { text: `${formatPercent(difference)} over`, color: isDark ? '#5AC8FA' : '#4A90E2' }
+      : { text: `${formatPercent(-difference)} under`, color: '#FF9500' };
+  };
+
+  return (
+    <View>
+      <View style={styles.periods}>
+        {PERIODS.map(period => (
+          <TouchableOpacity
+            key={period.weeks}
+            style={[
+              styles.period,
+              isDark && styles.periodDark,
+              weeks === period.weeks && styles.periodSelected
+            ]}
+            onPress={() => setWeeks(period.weeks)}
+          >
+            <Text style={[
+              styles.periodText,
+              isDark && styles.periodTextDark,
+              weeks === period.weeks && styles.periodTextSelected
+            ]}>
+              {period.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {total === 0 ? (
+        <Text style={styles.emptyText}>No points earned in this period yet</Text>
+      ) : (
+        shares.map(share => {
+          const balance = getBalanceLabel(share.share, share.evenShare);
+          return (
+            <View key={share.userId} style={styles.memberRow}>
+              <View style={styles.memberHeader}>
+                <Text style={[styles.memberName, isDark && styles.memberNameDark]} numberOfLines={1}>
+                  {getName(share.userId)}
+                </Text>
+                <Text style={styles.memberPoints}>
+                  {share.points} pts • {formatPercent(share.share)}
+                </Text>
+                <Text style={[styles.balance, { color: balance.color }]}>{balance.text}</Text>
+              </View>
+              <View style={[styles.track, isDark && styles.trackDark]}>
+                <View
+                  style={[
+                    styles.fill,
+                    { width: `${share.share * 100}%`, backgroundColor: getColor(share.userId) }
+                  ]}
+                />
+                {/* Where an even split would be */}
+                <View style={[styles.evenMarker, isDark && styles.evenMarkerDark, { left: `${share.evenShare * 100}%` }]} />
+              </View>
+            </View>
+          );
+        })
+      )}
+
+      <Text style={[styles.historyTitle, isDark && styles.historyTitleDark]}>
+        Last {HISTORY_WEEKS} weeks
+      </Text>
+      <View style={styles.history}>
+        {history.map(week => (
+          <View key={week.start.toISOString()} style={styles.historyWeek}>
+            <View style={styles.historyBar}>
+              {members.map(member => {
+                const points = week.byMember[member.user_id];
+                if (!points) return null;
+                return (
+                  <View
+                    key={member.user_id}
+                    style={{
+                      height: (points / busiestWeek) * HISTORY_HEIGHT,
+                      backgroundColor: getColor(member.user_id)
+                    }}
+                  />
+                );
+              })}
+            </View>
+            <Text style={styles.historyLabel}>
+              {week.start.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        {members.map(member => (
+          <View key={member.user_id} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: getColor(member.user_id) }]} />
+            <Text style={styles.legendText} numberOfLines={1}>{getName(member.user_id)}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  periods: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  period: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+  },
+  periodDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  periodSelected: {
+    backgroundColor: '#4A90E2',
+  },
+  periodText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  periodTextDark: {
+    color: '#FFFFFF',
+  },
+  periodTextSelected: {
+    color: 'white',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  memberRow: {
+    marginBottom: 12,
+  },
+  memberHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  memberNameDark: {
+    color: '#FFFFFF',
+  },
+  memberPoints: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  balance: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F2F2F7',
+    overflow: 'hidden',
+  },
+  trackDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  evenMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#1C1C1E',
+  },
+  evenMarkerDark: {
+    backgroundColor: '#FFFFFF',
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  historyTitleDark: {
+    color: '#FFFFFF',
+  },
+  history: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  historyWeek: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  historyBar: {
+    width: '100%',
+    height: HISTORY_HEIGHT,
+    justifyContent: 'flex-end',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  historyLabel: {
+    fontSize: 10,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+});
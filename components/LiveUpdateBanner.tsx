@@ -0,0 +1,54 @@
+import React from 'react';
+import { TouchableOpacity, Text, View, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface LiveUpdateBannerProps {
+  message: string | null;
+  onDismiss: () => void;
+  isDark?: boolean;
+}
+
+export default function LiveUpdateBanner({ message, onDismiss, isDark = false }: LiveUpdateBannerProps) {
+  if (!message) return null;
+
+  return (
+    <View style={[styles.banner, isDark && styles.bannerDark]}>
+      <Ionicons name="sync" size={18} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+      <Text style={[styles.bannerText, isDark && styles.bannerTextDark]} numberOfLines={2}>
+        {message}
+      </Text>
+      <TouchableOpacity onPress={onDismiss} activeOpacity={0.7}>
+        <Ionicons name="close" size={18} color="#8E8E93" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#E8F1FC',
+    borderLeftWidth: 4,
+    borderLeftColor: '#4A90E2',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  bannerDark: {
+    backgroundColor: '#2C2C2E',
+    borderLeftColor: '#5AC8FA',
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  bannerTextDark: {
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Image, Text, View, StyleSheet } from 'react-native';
+import { Member } from '@/lib/data';
+import { getAssigneeColor } from '@/lib/calendar';
+import { getDisplayName, getInitial } from '@/lib/memberDirectory';
+
+interface MemberAvatarProps {
+  member: Member | undefined;
+  size?: number;
+}
+
+// The member's photo, or their initial on their calendar color
+export function MemberAvatar({ member, size = 20 }: MemberAvatarProps) {
+  const shape = { width: size, height: size, borderRadius: size / 2 };
+
+  if (member?.avatar_url) {
+    return <Image source={{ uri: member.avatar_url }} style={shape} />;
+  }
+  return (
+    <View style={[styles.placeholder, shape, { backgroundColor: getAssigneeColor(member?.user_id ?? null) }]}>
+      <Text style={[styles.initial, { fontSize: size * 0.55 }]}>{getInitial(member)}</Text>
+    </View>
+  );
+}
+
+interface MemberChipProps {
+  member: Member | undefined;
+  // Shown before the name, e.g. "by"
+  label?: string;
+  size?: 'small' | 'regular';
+  isDark?: boolean;
+}
+
+// Avatar and name of a member, e.g. a task's assignee or creator
+export default function MemberChip({ member, label, size = 'regular', isDark = false }: MemberChipProps) {
+  const small = size === 'small';
+
+  return (
+    <View style={[styles.chip, small && styles.chipSmall, isDark && styles.chipDark]}>
+      <MemberAvatar member={member} size={small ? 14 : 20} />
+      <Text
+        style={[styles.name, small && styles.nameSmall, isDark && styles.nameDark]}
+        numberOfLines={1}
+      >
+        {label ? `${label} ` : ''}{getDisplayName(member)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  placeholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  initial: {
+    fontWeight: '600',
+    color: 'white',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingLeft: 3,
+    paddingRight: 10,
+    paddingVertical: 3,
+    borderRadius: 14,
+    backgroundColor: '#F2F2F7',
+    maxWidth: '100%',
+  },
+  chipSmall: {
+    gap: 4,
+    paddingLeft: 2,
+    paddingRight: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  chipDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  name: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  nameSmall: {
+    fontSize: 11,
+  },
+  nameDark: {
+    color: '#FFFFFF',
+  },
+});
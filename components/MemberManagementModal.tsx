@@ -0,0 +1,434 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { errorMessage, getRepository, Household, Member, MemberRole, Task } from '@/lib/data';
+import {
+  changeMemberRole,
+  getOpenTasksFor,
+  leaveHousehold,
+  removeMember,
+  transferOwnership
+} from '@/lib/memberActions';
+import { can } from '@/lib/permissions';
+
+interface MemberManagementModalProps {
+  // The member being managed, or null when the modal is closed
+  member: Member | null;
+  household: Household;
+  members: Member[];
+  tasks: Task[];
+  currentUserId: string;
+  onClose: () => void;
+  // Called after a change; `left` is true when the current user left the household
+  onChanged: (left: boolean) => void;
+  isDark?: boolean;
+}
+
+const ROLES: MemberRole[] = ['viewer', 'member', 'admin'];
+
+const displayName = (member: Member) => member.name || member.email;
+
+export default function MemberManagementModal({
+  member,
+  household,
+  members,
+  tasks,
+  currentUserId,
+  onClose,
+  onChanged,
+  isDark = false
+}: MemberManagementModalProps) {
+  const [newOwnerId, setNewOwnerId] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setNewOwnerId(null);
+    setReassignTo(null);
+  }, [member?.user_id]);
+
+  if (!member) return null;
+
+  const currentMember = members.find(m => m.user_id === currentUserId) || null;
+  const isSelf = member.user_id === currentUserId;
+  const isOwner = household.created_by === member.user_id;
+  const others = members.filter(m => m.user_id !== member.user_id);
+  const openTasks = getOpenTasksFor(tasks, member.user_id);
+
+  const canChangeRole = !isOwner && can(currentMember, 'change_roles', household);
+  const canSetAvailability = isSelf || can(currentMember, 'change_roles', household);
+  const canMakeOwner = !isSelf && household.created_by === currentUserId;
+  const canDepart = isSelf || (!isOwner && can(currentMember, 'remove_members', household));
+  // Viewers leaving can't edit tasks, so theirs are simply unassigned
+  const canReassign = openTasks.length > 0 && others.length > 0 && can(currentMember, 'edit_tasks', household);
+  const needsNewOwner = isSelf && isOwner && others.length > 0;
+
+  const run = async (action: () => Promise<unknown>, left = false) => {
+    setBusy(true);
+    try {
+      await action();
+      onChanged(left);
+      onClose();
+    } catch (error) {
+      console.error('Error managing member:', error);
+      Alert.alert('Error', errorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmTransfer = () => {
+    Alert.alert(
+      'Transfer Ownership',
+      `Make ${displayName(member)} the owner of ${household.name}? They'll become an admin.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Transfer', onPress: () => run(() => transferOwnership(household, member.user_id)) }
+      ]
+    );
+  };
+
+  const confirmDeparture = () => {
+    if (needsNewOwner && !newOwnerId) {
+      Alert.alert('Choose a new owner', 'Pick who takes over the household before you leave');
+      return;
+    }
+
+    const taskNote = openTasks.length === 0
+      ? ''
+      : reassignTo
+        ? ` Their ${openTasks.length} open task(s) will be reassigned.`
+        : ` Their ${openTasks.length} open task(s) will be unassigned.`;
+
+    Alert.alert(
+      isSelf ? 'Leave Household' : 'Remove Member',
+      (isSelf
+        ? `Are you sure you want to leave ${household.name}?`
+        : `Remove ${displayName(member)} from ${household.name}?`) + taskNote,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isSelf ? 'Leave' : 'Remove',
+          style: 'destructive',
+          onPress: () => isSelf
+            ? run(() => leaveHousehold(household, member.user_id, { newOwnerId, reassignTo }), true)
+            : run(() => removeMember(household, member.user_id, reassignTo))
+        }
+      ]
+    );
+  };
+
+  const renderMemberOptions = (
+    selected: string | null,
+    onSelect: (userId: string | null) => void,
+    noneLabel?: string
+  ) => (
+    <View style={styles.options}>
+      {noneLabel && (
+        <TouchableOpacity
+          style={[styles.option, isDark && styles.optionDark, selected === null && styles.optionSelected]}
+          onPress={() => onSelect(null)}
+        >
+          <Text style={[styles.optionText, isDark && styles.optionTextDark, selected === null && styles.optionTextSelected]}>
+            {noneLabel}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {others.map(other => {
+        const isSelected = selected === other.user_id;
+        return (
+          <TouchableOpacity
+            key={other.user_id}
+            style={[styles.option, isDark && styles.optionDark, isSelected && styles.optionSelected]}
+            onPress={() => onSelect(other.user_id)}
+          >
+            <Text style={[styles.optionText, isDark && styles.optionTextDark, isSelected && styles.optionTextSelected]}>
+              {displayName(other)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, isDark && styles.contentDark]}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, isDark && styles.titleDark]} numberOfLines={1}>
+                {displayName(member)}
+              </Text>
+              <Text style={styles.subtitle}>
+                {isOwner ? 'Owner' : member.role.charAt(0).toUpperCase() + member.role.slice(1)}
+                {isSelf ? ' • You' : ''}
+                {member.is_available ? '' : ' • Away'}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {canSetAvailability && (
+              <View style={[styles.group, styles.availabilityRow]}>
+                <View style={styles.headerText}>
+                  <Text style={[styles.label, isDark && styles.labelDark]}>Available</Text>
+                  <Text style={styles.subtitle}>Auto-assign skips members who are away</Text>
+                </View>
+                <Switch
+                  value={member.is_available}
+                  onValueChange={available => run(() =>
+                    getRepository().members.setAvailability(household.id, member.user_id, available))}
+                  disabled={busy}
+                  trackColor={{ true: isDark ? "#5AC8FA" : "#4A90E2", false: isDark ? "#38383A" : "#E5E5EA" }}
+                />
+              </View>
+            )}
+
+            {canChangeRole && (
+              <View style={styles.group}>
+                <Text style={[styles.label, isDark && styles.labelDark]}>Role</Text>
+                <View style={styles.roleButtons}>
+                  {ROLES.map(role => {
+                    const isSelected = member.role === role;
+                    return (
+                      <TouchableOpacity
+                        key={role}
+                        style={[
+                          styles.roleButton,
+                          isDark && styles.roleButtonDark,
+                          isSelected && styles.roleButtonSelected
+                        ]}
+                        onPress={() => !isSelected && run(() => changeMemberRole(household, member.user_id, role))}
+                        disabled={busy}
+                      >
+                        <Text style={[
+                          styles.roleButtonText,
+                          isDark && styles.roleButtonTextDark,
+                          isSelected && styles.roleButtonTextSelected
+                        ]}>
+                          {role.charAt(0).toUpperCase() + role.slice(1)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            {canMakeOwner && (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.transferButton]}
+                onPress={confirmTransfer}
+                disabled={busy}
+              >
+                <Ionicons name="key" size={18} color="white" />
+                <Text style={styles.actionButtonText}>Make Owner</Text>
+              </TouchableOpacity>
+            )}
+
+            {canDepart && (
+              <View style={styles.group}>
+                {needsNewOwner && (
+                  <>
+                    <Text style={[styles.label, isDark && styles.labelDark]}>New owner</Text>
+                    {renderMemberOptions(newOwnerId, setNewOwnerId)}
+                  </>
+                )}
+
+                {canReassign && (
+                  <>
+                    <Text style={[styles.label, isDark && styles.labelDark]}>
+                      Reassign {openTasks.length} open task{openTasks.length === 1 ? '' : 's'} to
+                    </Text>
+                    {renderMemberOptions(reassignTo, setReassignTo, 'Unassigned')}
+                  </>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.departButton]}
+                  onPress={confirmDeparture}
+                  disabled={busy}
+                >
+                  {busy ? (
+                    <ActivityIndicator color="white" size="small" />
+                  ) : (
+                    <>
+                      <Ionicons name={isSelf ? "exit" : "person-remove"} size={18} color="white" />
+                      <Text style={styles.actionButtonText}>
+                        {isSelf ? 'Leave Household' : 'Remove from Household'}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {!canChangeRole && !canMakeOwner && !canDepart && (
+              <Text style={styles.subtitle}>Only household admins can manage members.</Text>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '80%',
+  },
+  contentDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  titleDark: {
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  group: {
+    marginBottom: 16,
+  },
+  availabilityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  labelDark: {
+    color: '#FFFFFF',
+  },
+  roleButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  roleButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#F2F2F7',
+    alignItems: 'center',
+  },
+  roleButtonDark: {
+    borderColor: '#38383A',
+    backgroundColor: '#2C2C2E',
+  },
+  roleButtonSelected: {
+    borderColor: '#4A90E2',
+    backgroundColor: '#4A90E2',
+  },
+  roleButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  roleButtonTextDark: {
+    color: '#FFFFFF',
+  },
+  roleButtonTextSelected: {
+    color: '#FFFFFF',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#F2F2F7',
+  },
+  optionDark: {
+    borderColor: '#38383A',
+    backgroundColor: '#2C2C2E',
+  },
+  optionSelected: {
+    backgroundColor: '#4A90E2',
+    borderColor: '#4A90E2',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  optionTextDark: {
+    color: '#FFFFFF',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  transferButton: {
+    backgroundColor: '#4A90E2',
+  },
+  departButton: {
+    backgroundColor: '#FF3B30',
+    marginBottom: 0,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
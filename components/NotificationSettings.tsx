@@ -0,0 +1,187 @@
+import React from 'react';
+import { Switch, TouchableOpacity, Text, View, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NotificationPreferences } from '@/lib/data';
+
+interface NotificationSettingsProps {
+  preferences: NotificationPreferences;
+  onChange: (preferences: NotificationPreferences) => void;
+  isDark?: boolean;
+}
+
+const LEAD_OPTIONS = [
+  { label: 'At due time', minutes: 0 },
+  { label: '15 min', minutes: 15 },
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 24 * 60 },
+];
+
+const formatHour = (hour: number) => {
+  const date = new Date();
+  date.setHours(hour, 0, 0, 0);
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+};
+
+export default function NotificationSettings({ preferences, onChange, isDark = false }: NotificationSettingsProps) {
+  const update = (changes: Partial<NotificationPreferences>) => onChange({ ...preferences, ...changes });
+
+  const renderToggle = (label: string, description: string, value: boolean, onToggle: (value: boolean) => void) => (
+    <View style={styles.settingRow}>
+      <View style={styles.settingText}>
+        <Text style={[styles.settingLabel, isDark && styles.settingLabelDark]}>{label}</Text>
+        <Text style={styles.settingDescription}>{description}</Text>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onToggle}
+        trackColor={{ true: isDark ? "#5AC8FA" : "#4A90E2", false: isDark ? "#38383A" : "#E5E5EA" }}
+      />
+    </View>
+  );
+
+  return (
+    <View>
+      {renderToggle(
+        'Due date reminders',
+        'Get reminded about chores assigned to you',
+        preferences.reminders_enabled,
+        value => update({ reminders_enabled: value })
+      )}
+      {preferences.reminders_enabled && (
+        <View style={styles.options}>
+          {LEAD_OPTIONS.map(option => {
+            const selected = preferences.reminder_lead_minutes === option.minutes;
+            return (
+              <TouchableOpacity
+                key={option.minutes}
+                style={[styles.option, isDark && styles.optionDark, selected && styles.optionSelected]}
+                onPress={() => update({ reminder_lead_minutes: option.minutes })}
+              >
+                <Text style={[styles.optionText, isDark && styles.optionTextDark, selected && styles.optionTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {renderToggle(
+        'Assignment alerts',
+        'When a chore is assigned to you or reassigned away',
+        preferences.assignment_alerts,
+        value => update({ assignment_alerts: value })
+      )}
+
+      {renderToggle(
+        'Mentions',
+        'When someone @mentions you in a comment',
+        preferences.mention_alerts,
+        value => update({ mention_alerts: value })
+      )}
+
+      {renderToggle(
+        'Daily digest',
+        'A summary of your open chores each day',
+        preferences.digest_enabled,
+        value => update({ digest_enabled: value })
+      )}
+      {preferences.digest_enabled && (
+        <View style={styles.hourStepper}>
+          <TouchableOpacity
+            onPress={() => update({ digest_hour: (preferences.digest_hour + 23) % 24 })}
+            style={styles.stepperButton}
+          >
+            <Ionicons name="remove-circle" size={24} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          </TouchableOpacity>
+          <Text style={[styles.hourText, isDark && styles.hourTextDark]}>
+            {formatHour(preferences.digest_hour)}
+          </Text>
+          <TouchableOpacity
+            onPress={() => update({ digest_hour: (preferences.digest_hour + 1) % 24 })}
+            style={styles.stepperButton}
+          >
+            <Ionicons name="add-circle" size={24} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  settingLabelDark: {
+    color: '#FFFFFF',
+  },
+  settingDescription: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  optionDark: {
+    backgroundColor: '#2C2C2E',
+    borderColor: '#38383A',
+  },
+  optionSelected: {
+    backgroundColor: '#4A90E2',
+    borderColor: '#4A90E2',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  optionTextDark: {
+    color: '#FFFFFF',
+  },
+  optionTextSelected: {
+    color: 'white',
+    fontWeight: '500',
+  },
+  hourStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  stepperButton: {
+    padding: 4,
+  },
+  hourText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    minWidth: 80,
+    textAlign: 'center',
+  },
+  hourTextDark: {
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { TouchableOpacity, Text, View, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SyncConflict } from '@/lib/data';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+
+interface SyncStatusBannerProps {
+  isDark?: boolean;
+}
+
+const describeConflict = (conflict: SyncConflict) => {
+  switch (conflict.reason) {
+    case 'edited':
+      return `"${conflict.title}" was changed by someone else while you were offline. Their changes to ${conflict.fields.join(', ')} were kept.`;
+    case 'deleted':
+      return `"${conflict.title}" was deleted before your changes synced.`;
+    case 'rejected':
+      return `Your change to "${conflict.title}" couldn't be saved.`;
+  }
+};
+
+export default function SyncStatusBanner({ isDark = false }: SyncStatusBannerProps) {
+  const { status, dismissConflicts } = useSyncStatus();
+  if (!status) return null;
+
+  if (status.conflicts.length > 0) {
+    const [first, ...rest] = status.conflicts;
+    return (
+      <View style={[styles.banner, styles.bannerConflict, isDark && styles.bannerDark]}>
+        <Ionicons name="git-merge" size={18} color="#FF9500" />
+        <Text style={[styles.bannerText, isDark && styles.bannerTextDark]}>
+          {describeConflict(first)}{rest.length > 0 ? ` (+${rest.length} more)` : ''}
+        </Text>
+        <TouchableOpacity onPress={dismissConflicts} activeOpacity={0.7}>
+          <Ionicons name="close" size={18} color="#8E8E93" />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!status.online) {
+    return (
+      <View style={[styles.banner, styles.bannerOffline, isDark && styles.bannerDark]}>
+        <Ionicons name="cloud-offline" size={18} color="#8E8E93" />
+        <Text style={[styles.bannerText, isDark && styles.bannerTextDark]}>
+          {status.pending > 0
+            ? `You're offline. ${status.pending} change${status.pending === 1 ? '' : 's'} will sync when you reconnect.`
+            : "You're offline. Showing saved data."}
+        </Text>
+      </View>
+    );
+  }
+
+  if (status.syncing && status.pending > 0) {
+    return (
+      <View style={[styles.banner, isDark && styles.bannerDark]}>
+        <Ionicons name="cloud-upload" size={18} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+        <Text style={[styles.bannerText, isDark && styles.bannerTextDark]}>
+          Syncing {status.pending} change{status.pending === 1 ? '' : 's'}...
+        </Text>
+      </View>
+    );
+  }
+
+  return null;
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#E8F1FC',
+    borderLeftWidth: 4,
+    borderLeftColor: '#4A90E2',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  bannerOffline: {
+    backgroundColor: '#F2F2F7',
+    borderLeftColor: '#8E8E93',
+  },
+  bannerConflict: {
+    backgroundColor: '#FFF3E0',
+    borderLeftColor: '#FF9500',
+  },
+  bannerDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  bannerTextDark: {
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,92 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { TaskTag } from '@/lib/data';
+
+interface TagChipProps {
+  tag: Pick<TaskTag, 'name' | 'color'>;
+  // Picked tags are filled with their color
+  selected?: boolean;
+  // Leave out for a chip that only shows the tag
+  onPress?: () => void;
+  onLongPress?: () => void;
+  size?: 'small' | 'regular';
+  isDark?: boolean;
+}
+
+// A tag's name on a tint of its color
+export default function TagChip({
+  tag,
+  selected = false,
+  onPress,
+  onLongPress,
+  size = 'regular',
+  isDark = false
+}: TagChipProps) {
+  const small = size === 'small';
+  const chipStyle = [
+    styles.chip,
+    small && styles.chipSmall,
+    { backgroundColor: selected ? tag.color : `${tag.color}${isDark ? '40' : '26'}` },
+  ];
+  const content = (
+    <>
+      {!selected && <View style={[styles.dot, small && styles.dotSmall, { backgroundColor: tag.color }]} />}
+      <Text
+        style={[styles.name, small && styles.nameSmall, isDark && styles.nameDark, selected && styles.nameSelected]}
+        numberOfLines={1}
+      >
+        {tag.name}
+      </Text>
+    </>
+  );
+
+  if (!onPress && !onLongPress) return <View style={chipStyle}>{content}</View>;
+  return (
+    <TouchableOpacity style={chipStyle} onPress={onPress} onLongPress={onLongPress} activeOpacity={0.7}>
+      {content}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    maxWidth: '100%',
+  },
+  chipSmall: {
+    gap: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  dotSmall: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  name: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  nameSmall: {
+    fontSize: 11,
+  },
+  nameDark: {
+    color: '#FFFFFF',
+  },
+  nameSelected: {
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { errorMessage, getRepository, isUniqueViolation, TaskTag } from '@/lib/data';
+import TagChip from '@/components/TagChip';
+import { MAX_TAG_NAME_LENGTH, notifyTagsChanged, SUGGESTED_TAGS, TAG_COLORS } from '@/lib/tags';
+
+interface TagManagerModalProps {
+  visible: boolean;
+  householdId: string;
+  // The household's tags
+  tags: TaskTag[];
+  userId: string;
+  // Without permission the tags are only listed
+  canManage: boolean;
+  onClose: () => void;
+  isDark?: boolean;
+}
+
+export default function TagManagerModal({
+  visible,
+  householdId,
+  tags,
+  userId,
+  canManage,
+  onClose,
+  isDark = false
+}: TagManagerModalProps) {
+  const [editing, setEditing] = useState<TaskTag | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(TAG_COLORS[0]);
+  const [busy, setBusy] = useState(false);
+
+  const resetForm = () => {
+    setEditing(null);
+    setName('');
+    setColor(TAG_COLORS[0]);
+  };
+
+  const startEditing = (tag: TaskTag) => {
+    setEditing(tag);
+    setName(tag.name);
+    setColor(tag.color);
+  };
+
+  const saveTag = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setBusy(true);
+    try {
+      const repository = getRepository();
+      if (editing) {
+        await repository.tags.update(editing.id, { name: trimmed, color });
+      } else {
+        await repository.tags.create({ household_id: householdId, name: trimmed, color, created_by: userId });
+      }
+      resetForm();
+      notifyTagsChanged();
+    } catch (error) {
+      console.error('Error saving tag:', error);
+      Alert.alert('Error', isUniqueViolation(error) ? `There is already a tag named "${trimmed}"` : errorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteTag = (tag: TaskTag) => {
+    Alert.alert(
+      'Delete Tag',
+      `Delete "${tag.name}"? It will be taken off every task that has it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await getRepository().tags.remove(tag.id);
+              if (editing?.id === tag.id) resetForm();
+              notifyTagsChanged();
+            } catch (error) {
+              console.error('Error deleting tag:', error);
+              Alert.alert('Error', errorMessage(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const close = () => {
+    resetForm();
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={close}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, isDark && styles.contentDark]}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, isDark && styles.titleDark]}>Tags</Text>
+              <Text style={styles.subtitle}>Group tasks by room or kind of chore</Text>
+            </View>
+            <TouchableOpacity onPress={close} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {tags.length === 0 && (
+              <Text style={[styles.subtitle, styles.group]}>No tags yet</Text>
+            )}
+            {tags.map(tag => (
+              <View key={tag.id} style={[styles.tagRow, isDark && styles.tagRowDark]}>
+                <View style={styles.headerText}>
+                  <TagChip tag={tag} selected={editing?.id === tag.id} isDark={isDark} />
+                </View>
+                {canManage && (
+                  <>
+                    <TouchableOpacity onPress={() => startEditing(tag)} style={styles.iconButton}>
+                      <Ionicons name="pencil" size={18} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => deleteTag(tag)} style={styles.iconButton}>
+                      <Ionicons name="trash" size={18} color={isDark ? "#FF453A" : "#FF3B30"} />
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            ))}
+
+            {canManage && (
+              <View style={styles.form}>
+                <Text style={[styles.label, isDark && styles.labelDark]}>
+                  {editing ? `Edit "${editing.name}"` : 'New tag'}
+                </Text>
+
+                {tags.length === 0 && !editing && (
+                  <View style={styles.options}>
+                    {SUGGESTED_TAGS.map(suggestion => (
+                      <TagChip
+                        key={suggestion.name}
+                        tag={suggestion}
+                        onPress={() => {
+                          setName(suggestion.name);
+                          setColor(suggestion.color);
+                        }}
+                        isDark={isDark}
+                      />
+                    ))}
+                  </View>
+                )}
+
+                <TextInput
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="Tag name"
+                  placeholderTextColor="#8E8E93"
+                  maxLength={MAX_TAG_NAME_LENGTH}
+                  style={[styles.input, isDark && styles.inputDark]}
+                />
+
+                <View style={styles.options}>
+                  {TAG_COLORS.map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.colorOption, { backgroundColor: option }, color === option && styles.colorOptionSelected]}
+                      onPress={() => setColor(option)}
+                    >
+                      {color === option && <Ionicons name="checkmark" size={16} color="white" />}
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <View style={styles.formButtons}>
+                  {editing && (
+                    <TouchableOpacity
+                      style={[styles.formButton, styles.cancelButton, isDark && styles.cancelButtonDark]}
+                      onPress={resetForm}
+                      disabled={busy}
+                    >
+                      <Text style={[styles.cancelButtonText, isDark && styles.cancelButtonTextDark]}>Cancel</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.formButton, styles.saveButton, (!name.trim() || busy) && styles.buttonDisabled]}
+                    onPress={saveTag}
+                    disabled={!name.trim() || busy}
+                  >
+                    {busy ? (
+                      <ActivityIndicator color="white" size="small" />
+                    ) : (
+                      <Text style={styles.saveButtonText}>{editing ? 'Save Tag' : 'Add Tag'}</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '80%',
+  },
+  contentDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  titleDark: {
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  group: {
+    marginBottom: 16,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  tagRowDark: {
+    borderBottomColor: '#2C2C2E',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  form: {
+    marginTop: 16,
+    gap: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  labelDark: {
+    color: '#FFFFFF',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  inputDark: {
+    borderColor: '#38383A',
+    color: '#FFFFFF',
+  },
+  colorOption: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  colorOptionSelected: {
+    borderWidth: 2,
+    borderColor: '#1C1C1E',
+  },
+  formButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  formButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  cancelButton: {
+    backgroundColor: '#F2F2F7',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  cancelButtonTextDark: {
+    color: '#FFFFFF',
+  },
+  saveButton: {
+    backgroundColor: '#4A90E2',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
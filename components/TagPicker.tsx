@@ -0,0 +1,48 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { TaskTag } from '@/lib/data';
+import TagChip from '@/components/TagChip';
+
+interface TagPickerProps {
+  tags: TaskTag[];
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+  isDark?: boolean;
+}
+
+// Pick any number of a household's tags for a task
+export default function TagPicker({ tags, selectedIds, onChange, isDark = false }: TagPickerProps) {
+  if (tags.length === 0) {
+    return <Text style={styles.emptyText}>This household has no tags yet</Text>;
+  }
+
+  const toggle = (tagId: string) => onChange(selectedIds.includes(tagId)
+    ? selectedIds.filter(id => id !== tagId)
+    : [...selectedIds, tagId]);
+
+  return (
+    <View style={styles.tags}>
+      {tags.map(tag => (
+        <TagChip
+          key={tag.id}
+          tag={tag}
+          selected={selectedIds.includes(tag.id)}
+          onPress={() => toggle(tag.id)}
+          isDark={isDark}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+});
@@ -0,0 +1,602 @@
+import React, { useRef, useState } from 'react';
+import {
+  GestureResponderEvent,
+  PanResponder,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Member, Task } from '@/lib/data';
+import {
+  CalendarEntry,
+  CalendarMode,
+  formatCalendarTitle,
+  getAssigneeColor,
+  getCalendarDays,
+  getCalendarEntries,
+  isSameDay,
+  moveDueDate,
+  shiftAnchor,
+  toDayKey
+} from '@/lib/calendar';
+import { startOfDay } from '@/lib/dueDates';
+import { findMember, getDisplayName } from '@/lib/memberDirectory';
+
+interface TaskCalendarProps {
+  tasks: Task[];
+  onPressTask: (task: Task) => void;
+  // Leave out to make the calendar read-only
+  onReschedule?: (task: Task, dueDate: string) => void;
+  // Tasks the user may not edit stay put; all of them can be dragged when left out
+  canReschedule?: (task: Task) => boolean;
+  // First due date of each series, by series id, so monthly projections keep to the day the series started on
+  seriesStarts?: Record<string, string>;
+  // Shown in the legend and the day's agenda
+  members?: Member[];
+  isDark?: boolean;
+}
+
+interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Tasks shown in a month cell before it collapses into "+N"
+const MONTH_CELL_LIMIT = 3;
+
+export default function TaskCalendar({
+  tasks,
+  onPressTask,
+  onReschedule,
+  canReschedule,
+  seriesStarts,
+  members = [],
+  isDark = false
+}: TaskCalendarProps) {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [selectedDay, setSelectedDay] = useState(() => startOfDay(new Date()));
+  const [drag, setDrag] = useState<{ entry: CalendarEntry; x: number; y: number } | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const days = getCalendarDays(mode, anchor);
+  const rows = days.length / 7;
+  const entries = getCalendarEntries(tasks, days[0], days[days.length - 1], seriesStarts);
+  const today = new Date();
+
+  // Drag state is read from the pan responder, which is only created once
+  const containerRef = useRef<View>(null);
+  const gridRef = useRef<View>(null);
+  const containerFrame = useRef<Frame>({ x: 0, y: 0, width: 0, height: 0 });
+  const gridFrame = useRef<Frame>({ x: 0, y: 0, width: 0, height: 0 });
+  const dragging = useRef<CalendarEntry | null>(null);
+  const captured = useRef(false);
+  const latest = useRef({ days, rows, onReschedule });
+  latest.current = { days, rows, onReschedule };
+
+  const cellIndexAt = (pageX: number, pageY: number) => {
+    const frame = gridFrame.current;
+    const column = Math.floor((pageX - frame.x) / (frame.width / 7));
+    const row = Math.floor((pageY - frame.y) / (frame.height / latest.current.rows));
+    if (column < 0 || column > 6 || row < 0 || row >= latest.current.rows) return null;
+    return row * 7 + column;
+  };
+
+  const endDrag = () => {
+    dragging.current = null;
+    captured.current = false;
+    setDrag(null);
+    setDropIndex(null);
+  };
+
+  const panResponder = useRef(PanResponder.create({
+    // Only takes over once a task has been picked up with a long press
+    onMoveShouldSetPanResponderCapture: () => dragging.current !== null,
+    onPanResponderGrant: () => {
+      captured.current = true;
+    },
+    onPanResponderMove: (_, gesture) => {
+      setDrag(prev => prev && { ...prev, x: gesture.moveX, y: gesture.moveY });
+      setDropIndex(cellIndexAt(gesture.moveX, gesture.moveY));
+    },
+    onPanResponderRelease: (_, gesture) => {
+      const entry = dragging.current;
+      const index = cellIndexAt(gesture.moveX, gesture.moveY);
+      const { days: visibleDays, onReschedule: reschedule } = latest.current;
+      if (entry && index !== null && reschedule && !isSameDay(visibleDays[index], entry.date)) {
+        reschedule(entry.task, moveDueDate(entry.task, visibleDays[index]));
+      }
+      endDrag();
+    },
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderTerminate: endDrag,
+  })).current;
+
+  const canMove = (entry: CalendarEntry) =>
+    !!onReschedule && !entry.projected && entry.task.state === 'open' && (!canReschedule || canReschedule(entry.task));
+
+  const startDrag = (entry: CalendarEntry, event: GestureResponderEvent) => {
+    if (!canMove(entry)) return;
+    const { pageX, pageY } = event.nativeEvent;
+
+    containerRef.current?.measure((x, y, width, height, left, top) => {
+      containerFrame.current = { x: left, y: top, width, height };
+    });
+    gridRef.current?.measure((x, y, width, height, left, top) => {
+      gridFrame.current = { x: left, y: top, width, height };
+    });
+    dragging.current = entry;
+    captured.current = false;
+    setDrag({ entry, x: pageX, y: pageY });
+  };
+
+  // Let go without moving: the pan responder never took over, so put the task back
+  const releasePress = () => {
+    setTimeout(() => {
+      if (dragging.current && !captured.current) endDrag();
+    }, 0);
+  };
+
+  const getMemberName = (userId: string | null) => {
+    if (!userId) return 'Unassigned';
+    const member = findMember(members, userId);
+    return member ? getDisplayName(member) : 'Assigned';
+  };
+
+  const formatTime = (entry: CalendarEntry) => entry.task.due_all_day
+    ? 'All day'
+    : entry.date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const goToToday = () => {
+    setAnchor(startOfDay(new Date()));
+    setSelectedDay(startOfDay(new Date()));
+  };
+
+  const renderChip = (entry: CalendarEntry, compact: boolean) => (
+    <TouchableOpacity
+      key={entry.key}
+      style={[
+        styles.chip,
+        compact && styles.chipCompact,
+        { borderLeftColor: getAssigneeColor(entry.task.assignee) },
+        isDark && styles.chipDark,
+        entry.projected && styles.chipProjected,
+        drag?.entry.key === entry.key && styles.chipDragging
+      ]}
+      onPress={() => onPressTask(entry.task)}
+      onLongPress={event => startDrag(entry, event)}
+      onPressOut={releasePress}
+      delayLongPress={300}
+      activeOpacity={0.7}
+    >
+      <Text
+        style={[styles.chipText, compact && styles.chipTextCompact, isDark && styles.chipTextDark]}
+        numberOfLines={compact ? 1 : 2}
+      >
+        {entry.task.title}
+      </Text>
+      {!compact && !entry.task.due_all_day && (
+        <Text style={styles.chipTime}>{formatTime(entry)}</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderDay = (day: Date, index: number) => {
+    const dayEntries = entries.get(toDayKey(day)) || [];
+    const inMonth = mode === 'week' || day.getMonth() === anchor.getMonth();
+    const compact = mode === 'month';
+    const shown = compact ? dayEntries.slice(0, MONTH_CELL_LIMIT) : dayEntries;
+
+    return (
+      <TouchableOpacity
+        key={toDayKey(day)}
+        style={[
+          styles.cell,
+          mode === 'week' && styles.cellWeek,
+          isDark && styles.cellDark,
+          isSameDay(day, selectedDay) && styles.cellSelected,
+          dropIndex === index && styles.cellDrop
+        ]}
+        onPress={() => setSelectedDay(day)}
+        activeOpacity={0.8}
+      >
+        <View style={[styles.dayNumber, isSameDay(day, today) && styles.dayNumberToday]}>
+          <Text style={[
+            styles.dayNumberText,
+            isDark && styles.dayNumberTextDark,
+            !inMonth && styles.dayNumberTextMuted,
+            isSameDay(day, today) && styles.dayNumberTextToday
+          ]}>
+            {day.getDate()}
+          </Text>
+        </View>
+        {shown.map(entry => renderChip(entry, compact))}
+        {dayEntries.length > shown.length && (
+          <Text style={styles.moreText}>+{dayEntries.length - shown.length}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const selectedEntries = entries.get(toDayKey(selectedDay)) || [];
+  // Members with something on screen, for the legend
+  const legendIds = [...new Set([...entries.values()].flat().map(entry => entry.task.assignee))];
+
+  return (
+    <View ref={containerRef} style={styles.container} {...panResponder.panHandlers}>
+      <View style={styles.toolbar}>
+        <TouchableOpacity onPress={() => setAnchor(shiftAnchor(mode, anchor, -1))} style={styles.toolbarButton}>
+          <Ionicons name="chevron-back" size={22} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={goToToday} style={styles.toolbarTitle}>
+          <Text style={[styles.toolbarTitleText, isDark && styles.toolbarTitleTextDark]} numberOfLines={1}>
+            {formatCalendarTitle(mode, anchor)}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setAnchor(shiftAnchor(mode, anchor, 1))} style={styles.toolbarButton}>
+          <Ionicons name="chevron-forward" size={22} color={isDark ? "#5AC8FA" : "#4A90E2"} />
+        </TouchableOpacity>
+        <View style={[styles.modeSwitch, isDark && styles.modeSwitchDark]}>
+          {(['month', 'week'] as CalendarMode[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.modeOption, mode === option && styles.modeOptionSelected]}
+              onPress={() => {
+                setMode(option);
+                setAnchor(selectedDay);
+              }}
+            >
+              <Text style={[
+                styles.modeOptionText,
+                isDark && styles.modeOptionTextDark,
+                mode === option && styles.modeOptionTextSelected
+              ]}>
+                {option === 'month' ? 'Month' : 'Week'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.weekdays}>
+        {WEEKDAY_NAMES.map(name => (
+          <Text key={name} style={styles.weekdayText}>{name}</Text>
+        ))}
+      </View>
+
+      <View ref={gridRef} style={styles.grid}>
+        {Array.from({ length: rows }, (_, row) => (
+          <View key={row} style={styles.gridRow}>
+            {days.slice(row * 7, row * 7 + 7).map((day, column) => renderDay(day, row * 7 + column))}
+          </View>
+        ))}
+      </View>
+
+      {legendIds.length > 0 && (
+        <View style={styles.legend}>
+          {legendIds.map(userId => (
+            <View key={userId || 'unassigned'} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: getAssigneeColor(userId) }]} />
+              <Text style={styles.legendText} numberOfLines={1}>{getMemberName(userId)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <ScrollView style={styles.agenda} scrollEnabled={!drag}>
+        <Text style={[styles.agendaTitle, isDark && styles.agendaTitleDark]}>
+          {selectedDay.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+        </Text>
+        {selectedEntries.length === 0 ? (
+          <Text style={styles.agendaEmpty}>Nothing due</Text>
+        ) : (
+          selectedEntries.map(entry => (
+            <TouchableOpacity
+              key={entry.key}
+              style={[styles.agendaItem, isDark && styles.agendaItemDark]}
+              onPress={() => onPressTask(entry.task)}
+              activeOpacity={0.7}
+            >
+              <View style={[styles.agendaBar, { backgroundColor: getAssigneeColor(entry.task.assignee) }]} />
+              <View style={styles.agendaInfo}>
+                <Text style={[styles.agendaItemTitle, isDark && styles.agendaItemTitleDark]} numberOfLines={1}>
+                  {entry.task.title}
+                </Text>
+                <Text style={styles.agendaMeta}>
+                  {formatTime(entry)} • {getMemberName(entry.task.assignee)}
+                  {entry.projected ? ' • Upcoming repeat' : ''}
+                </Text>
+              </View>
+              {entry.task.state !== 'open' && (
+                <Ionicons name="checkmark-circle" size={18} color="#34C759" />
+              )}
+            </TouchableOpacity>
+          ))
+        )}
+        {onReschedule && (
+          <Text style={styles.agendaHint}>Hold a task on the calendar and drag it to another day to reschedule it.</Text>
+        )}
+      </ScrollView>
+
+      {drag && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.dragPreview,
+            { borderLeftColor: getAssigneeColor(drag.entry.task.assignee) },
+            isDark && styles.chipDark,
+            { left: drag.x - containerFrame.current.x - 60, top: drag.y - containerFrame.current.y - 16 }
+          ]}
+        >
+          <Text style={[styles.chipText, isDark && styles.chipTextDark]} numberOfLines={1}>
+            {drag.entry.task.title}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  toolbarButton: {
+    padding: 4,
+  },
+  toolbarTitle: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  toolbarTitleText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  toolbarTitleTextDark: {
+    color: '#FFFFFF',
+  },
+  modeSwitch: {
+    flexDirection: 'row',
+    marginLeft: 8,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+    padding: 2,
+  },
+  modeSwitchDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  modeOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  modeOptionSelected: {
+    backgroundColor: '#4A90E2',
+  },
+  modeOptionText: {
+    fontSize: 13,
+    color: '#1C1C1E',
+  },
+  modeOptionTextDark: {
+    color: '#FFFFFF',
+  },
+  modeOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  weekdays: {
+    flexDirection: 'row',
+    paddingHorizontal: 4,
+  },
+  weekdayText: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#8E8E93',
+    paddingVertical: 4,
+  },
+  grid: {
+    paddingHorizontal: 4,
+  },
+  gridRow: {
+    flexDirection: 'row',
+  },
+  cell: {
+    flex: 1,
+    height: 78,
+    margin: 1,
+    padding: 2,
+    borderRadius: 6,
+    backgroundColor: 'white',
+    overflow: 'hidden',
+  },
+  cellWeek: {
+    height: 280,
+  },
+  cellDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  cellSelected: {
+    borderWidth: 1,
+    borderColor: '#4A90E2',
+  },
+  cellDrop: {
+    backgroundColor: '#D6E8FB',
+  },
+  dayNumber: {
+    alignSelf: 'flex-start',
+    minWidth: 20,
+    paddingHorizontal: 4,
+    borderRadius: 10,
+    marginBottom: 2,
+  },
+  dayNumberToday: {
+    backgroundColor: '#4A90E2',
+  },
+  dayNumberText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#1C1C1E',
+    textAlign: 'center',
+  },
+  dayNumberTextDark: {
+    color: '#FFFFFF',
+  },
+  dayNumberTextMuted: {
+    color: '#C7C7CC',
+  },
+  dayNumberTextToday: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  chip: {
+    borderLeftWidth: 3,
+    borderRadius: 4,
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 4,
+    paddingVertical: 3,
+    marginBottom: 2,
+  },
+  chipCompact: {
+    paddingVertical: 1,
+  },
+  chipDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  chipProjected: {
+    opacity: 0.5,
+  },
+  chipDragging: {
+    opacity: 0.3,
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#1C1C1E',
+  },
+  chipTextCompact: {
+    fontSize: 10,
+  },
+  chipTextDark: {
+    color: '#FFFFFF',
+  },
+  chipTime: {
+    fontSize: 10,
+    color: '#8E8E93',
+    marginTop: 1,
+  },
+  moreText: {
+    fontSize: 10,
+    color: '#8E8E93',
+    paddingLeft: 2,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  agenda: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  agendaTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  agendaTitleDark: {
+    color: '#FFFFFF',
+  },
+  agendaEmpty: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  agendaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 8,
+    gap: 10,
+  },
+  agendaItemDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  agendaBar: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+  },
+  agendaInfo: {
+    flex: 1,
+  },
+  agendaItemTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1C1C1E',
+  },
+  agendaItemTitleDark: {
+    color: '#FFFFFF',
+  },
+  agendaMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  agendaHint: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  dragPreview: {
+    position: 'absolute',
+    width: 120,
+    borderLeftWidth: 3,
+    borderRadius: 6,
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+});
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ChecklistItem, Member } from '@/lib/data';
+
+interface TaskChecklistProps {
+  items: ChecklistItem[];
+  members: Member[];
+  // Viewers only see the checklist
+  canEdit: boolean;
+  onToggle: (item: ChecklistItem) => void;
+  onAdd: (title: string) => void;
+  onRemove: (item: ChecklistItem) => void;
+  onAssign: (item: ChecklistItem, assignee: string | null) => void;
+  onMove: (item: ChecklistItem, direction: -1 | 1) => void;
+  isDark?: boolean;
+}
+
+export default function TaskChecklist({
+  items,
+  members,
+  canEdit,
+  onToggle,
+  onAdd,
+  onRemove,
+  onAssign,
+  onMove,
+  isDark = false
+}: TaskChecklistProps) {
+  const [newItemTitle, setNewItemTitle] = useState('');
+  const [reordering, setReordering] = useState(false);
+
+  const addItem = () => {
+    if (!newItemTitle.trim()) return;
+    onAdd(newItemTitle.trim());
+    setNewItemTitle('');
+  };
+
+  // Tapping the assignee badge steps through unassigned and each member in turn
+  const cycleAssignee = (item: ChecklistItem) => {
+    const options = [null, ...members.map(member => member.user_id)];
+    const next = options[(options.indexOf(item.assignee) + 1) % options.length];
+    onAssign(item, next);
+  };
+
+  const getInitial = (userId: string) => {
+    const member = members.find(m => m.user_id === userId);
+    return (member?.name || member?.email || '?').charAt(0).toUpperCase();
+  };
+
+  const doneCount = items.filter(item => item.done).length;
+
+  return (
+    <View>
+      {items.length > 0 && (
+        <View style={styles.progressRow}>
+          <View style={[styles.progressTrack, isDark && styles.progressTrackDark]}>
+            <View style={[styles.progressFill, { width: `${(doneCount / items.length) * 100}%` }]} />
+          </View>
+          <Text style={styles.progressText}>{doneCount}/{items.length}</Text>
+          {canEdit && items.length > 1 && (
+            <TouchableOpacity onPress={() => setReordering(!reordering)}>
+              <Text style={[styles.reorderText, isDark && styles.reorderTextDark]}>
+                {reordering ? 'Done' : 'Reorder'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {items.map((item, index) => (
+        <View key={item.id} style={[styles.itemRow, isDark && styles.itemRowDark]}>
+          <TouchableOpacity onPress={() => onToggle(item)} disabled={!canEdit} style={styles.checkbox}>
+            <Ionicons
+              name={item.done ? "checkbox" : "square-outline"}
+              size={22}
+              color={item.done ? "#34C759" : (isDark ? "#8E8E93" : "#C7C7CC")}
+            />
+          </TouchableOpacity>
+          <Text
+            style={[styles.itemTitle, isDark && styles.itemTitleDark, item.done && styles.itemTitleDone]}
+            numberOfLines={2}
+          >
+            {item.title}
+          </Text>
+
+          {reordering ? (
+            <>
+              <TouchableOpacity onPress={() => onMove(item, -1)} disabled={index === 0} style={styles.iconButton}>
+                <Ionicons name="chevron-up" size={18} color={index === 0 ? "#C7C7CC" : (isDark ? "#5AC8FA" : "#4A90E2")} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => onMove(item, 1)}
+                disabled={index === items.length - 1}
+                style={styles.iconButton}
+              >
+                <Ionicons
+                  name="chevron-down"
+                  size={18}
+                  color={index === items.length - 1 ? "#C7C7CC" : (isDark ? "#5AC8FA" : "#4A90E2")}
+                />
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <TouchableOpacity
+                onPress={() => cycleAssignee(item)}
+                disabled={!canEdit}
+                style={[styles.assigneeBadge, isDark && styles.assigneeBadgeDark]}
+              >
+                {item.assignee ? (
+                  <Text style={[styles.assigneeInitial, isDark && styles.assigneeInitialDark]}>
+                    {getInitial(item.assignee)}
+                  </Text>
+                ) : (
+                  <Ionicons name="person-add-outline" size={14} color="#8E8E93" />
+                )}
+              </TouchableOpacity>
+              {canEdit && (
+                <TouchableOpacity onPress={() => onRemove(item)} style={styles.iconButton}>
+                  <Ionicons name="close" size={18} color="#8E8E93" />
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+      ))}
+
+      {items.length === 0 && !canEdit && (
+        <Text style={styles.emptyText}>No checklist items</Text>
+      )}
+
+      {canEdit && (
+        <View style={styles.addRow}>
+          <TextInput
+            placeholder="Add a step"
+            placeholderTextColor="#8E8E93"
+            value={newItemTitle}
+            onChangeText={setNewItemTitle}
+            onSubmitEditing={addItem}
+            returnKeyType="done"
+            style={[styles.addInput, isDark && styles.addInputDark]}
+          />
+          <TouchableOpacity onPress={addItem} disabled={!newItemTitle.trim()} style={styles.iconButton}>
+            <Ionicons
+              name="add-circle"
+              size={28}
+              color={newItemTitle.trim() ? (isDark ? "#5AC8FA" : "#4A90E2") : "#C7C7CC"}
+            />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E5E5EA',
+    overflow: 'hidden',
+  },
+  progressTrackDark: {
+    backgroundColor: '#38383A',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#34C759',
+  },
+  progressText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  reorderText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4A90E2',
+  },
+  reorderTextDark: {
+    color: '#5AC8FA',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  itemRowDark: {
+    borderBottomColor: '#2C2C2E',
+  },
+  checkbox: {
+    padding: 2,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  itemTitleDark: {
+    color: '#FFFFFF',
+  },
+  itemTitleDone: {
+    color: '#8E8E93',
+    textDecorationLine: 'line-through',
+  },
+  assigneeBadge: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: '#F2F2F7',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  assigneeBadgeDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  assigneeInitial: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4A90E2',
+  },
+  assigneeInitialDark: {
+    color: '#5AC8FA',
+  },
+  iconButton: {
+    padding: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  addInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#1C1C1E',
+    backgroundColor: '#F2F2F7',
+  },
+  addInputDark: {
+    borderColor: '#38383A',
+    backgroundColor: '#2C2C2E',
+    color: '#FFFFFF',
+  },
+});
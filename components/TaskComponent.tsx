@@ -1,40 +1,35 @@
 import React from 'react';
 import { TouchableOpacity, Text, View, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-
-interface Task {
-  id: string;
-  household_id: string;
-  title: string;
-  details: string;
-  status: boolean;
-  assignee: string | null;
-  created_by: string;
-  created_at: string;
-  updated_at: string;
-  due_date: string | null;
-  priority: 'low' | 'medium' | 'high';
-}
+import { Member, Task, TaskTag } from '@/lib/data';
+import MemberChip from '@/components/MemberChip';
+import TagChip from '@/components/TagChip';
+import { formatDueDate, getDueState, getDueStateColor, getDueStateLabel } from '@/lib/dueDates';
+import { getTaskStateColor, getTaskStateIcon, getTaskStateLabel } from '@/lib/taskState';
+import { getMatchExcerpt, splitHighlights } from '@/lib/searchHighlight';
 
 interface TaskComponentProps {
   task: Task;
   onPress: () => void;
+  // Resolved from the member directory; until then the card just says whether the task is assigned
+  assignee?: Member;
+  creator?: Member;
+  // The task's tags, looked up from the household's
+  tags?: TaskTag[];
+  // Search words to highlight in the title and details
+  highlightTerms?: string[];
   isDark?: boolean;
 }
 
-export default function TaskComponent({ task, onPress, isDark = false }: TaskComponentProps) {
-  const getStatusColor = () => {
-    return task.status ? (isDark ? "#34C759" : "#34C759") : (isDark ? "#FF9500" : "#FF9500");
-  };
-
-  const getStatusIcon = () => {
-    return task.status ? "checkmark-circle" : "time";
-  };
-
-  const getStatusText = () => {
-    return task.status ? "Completed" : "Pending";
-  };
-
+export default function TaskComponent({
+  task,
+  onPress,
+  assignee,
+  creator,
+  tags = [],
+  highlightTerms = [],
+  isDark = false
+}: TaskComponentProps) {
   const getPriorityColor = () => {
     switch (task.priority) {
       case 'high': return isDark ? "#FF453A" : "#FF3B30";
@@ -53,16 +48,21 @@ export default function TaskComponent({ task, onPress, isDark = false }: TaskCom
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+  const dueState = getDueState(task);
+  const dueStateLabel = getDueStateLabel(dueState);
+
+  const getDueText = () => {
+    if (!task.due_date) return 'No due date';
+    const dueDate = formatDueDate(task.due_date, task.due_all_day);
+    return dueStateLabel ? `${dueStateLabel} • ${dueDate}` : dueDate;
   };
 
+  const renderHighlighted = (text: string) => splitHighlights(text, highlightTerms).map((segment, index) => (
+    <Text key={index} style={segment.match ? [styles.highlight, isDark && styles.highlightDark] : undefined}>
+      {segment.text}
+    </Text>
+  ));
+
   return (
     <TouchableOpacity 
       style={[styles.taskCard, isDark && styles.taskCardDark]}
@@ -72,11 +72,14 @@ export default function TaskComponent({ task, onPress, isDark = false }: TaskCom
       <View style={styles.taskHeader}>
         <View style={styles.taskTitleContainer}>
           <Text style={[styles.taskTitle, isDark && styles.taskTitleDark]} numberOfLines={1}>
-            {task.title}
+            {renderHighlighted(task.title)}
           </Text>
-          <View style={[styles.statusBadge, { backgroundColor: getStatusColor() }]}>
-            <Ionicons name={getStatusIcon()} size={12} color="white" />
-            <Text style={styles.statusText}>{getStatusText()}</Text>
+          {task.recurrence_rule && (
+            <Ionicons name="repeat" size={14} color={isDark ? "#8E8E93" : "#8E8E93"} />
+          )}
+          <View style={[styles.statusBadge, { backgroundColor: getTaskStateColor(task.state, isDark) }]}>
+            <Ionicons name={getTaskStateIcon(task.state)} size={12} color="white" />
+            <Text style={styles.statusText}>{getTaskStateLabel(task.state)}</Text>
           </View>
         </View>
         <Ionicons name="chevron-forward" size={16} color={isDark ? "#8E8E93" : "#C7C7CC"} />
@@ -84,15 +87,25 @@ export default function TaskComponent({ task, onPress, isDark = false }: TaskCom
 
       {task.details && (
         <Text style={[styles.taskDetails, isDark && styles.taskDetailsDark]} numberOfLines={2}>
-          {task.details}
+          {renderHighlighted(getMatchExcerpt(task.details, highlightTerms))}
         </Text>
       )}
 
+      {tags.length > 0 && (
+        <View style={styles.taskTags}>
+          {tags.map(tag => <TagChip key={tag.id} tag={tag} size="small" isDark={isDark} />)}
+        </View>
+      )}
+
       <View style={styles.taskFooter}>
         <View style={styles.taskMeta}>
-          <Ionicons name="calendar" size={12} color={isDark ? "#8E8E93" : "#8E8E93"} />
-          <Text style={[styles.taskDate, isDark && styles.taskDateDark]}>
-            {formatDate(task.created_at)}
+          <Ionicons name="calendar" size={12} color={getDueStateColor(dueState, isDark)} />
+          <Text style={[
+            styles.taskDate,
+            isDark && styles.taskDateDark,
+            dueStateLabel !== null && [styles.taskDateHighlighted, { color: getDueStateColor(dueState, isDark) }]
+          ]}>
+            {getDueText()}
           </Text>
         </View>
         
@@ -102,8 +115,37 @@ export default function TaskComponent({ task, onPress, isDark = false }: TaskCom
             {task.priority}
           </Text>
         </View>
+
+        <View style={styles.taskMeta}>
+          <Ionicons name="flash" size={12} color="#8E8E93" />
+          <Text style={[styles.taskCount, isDark && styles.taskCountDark]}>
+            {task.points}
+          </Text>
+        </View>
+
+        {task.checklist_total > 0 && (
+          <View style={styles.taskMeta}>
+            <Ionicons
+              name="list"
+              size={12}
+              color={task.checklist_done === task.checklist_total ? "#34C759" : "#8E8E93"}
+            />
+            <Text style={[styles.taskCount, isDark && styles.taskCountDark]}>
+              {task.checklist_done}/{task.checklist_total}
+            </Text>
+          </View>
+        )}
+
+        {task.comment_count > 0 && (
+          <View style={styles.taskMeta}>
+            <Ionicons name="chatbubble" size={12} color="#8E8E93" />
+            <Text style={[styles.taskCount, isDark && styles.taskCountDark]}>
+              {task.comment_count}
+            </Text>
+          </View>
+        )}
         
-        {task.assignee && (
+        {task.assignee && !assignee && (
           <View style={styles.taskMeta}>
             <Ionicons name="person" size={12} color={isDark ? "#8E8E93" : "#8E8E93"} />
             <Text style={[styles.taskAssignee, isDark && styles.taskAssigneeDark]}>
@@ -112,6 +154,13 @@ export default function TaskComponent({ task, onPress, isDark = false }: TaskCom
           </View>
         )}
       </View>
+
+      {((task.assignee && assignee) || creator) && (
+        <View style={styles.taskPeople}>
+          {task.assignee && assignee && <MemberChip member={assignee} size="small" isDark={isDark} />}
+          {creator && <MemberChip member={creator} label="by" size="small" isDark={isDark} />}
+        </View>
+      )}
     </TouchableOpacity>
   );
 }
@@ -181,11 +230,31 @@ const styles = StyleSheet.create({
   taskDetailsDark: {
     color: '#8E8E93',
   },
+  highlight: {
+    backgroundColor: '#FFF3B0',
+    color: '#1C1C1E',
+  },
+  highlightDark: {
+    backgroundColor: '#5C4B00',
+    color: '#FFFFFF',
+  },
   taskFooter: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  taskTags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 10,
+  },
+  taskPeople: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
   taskMeta: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -198,6 +267,17 @@ const styles = StyleSheet.create({
   taskDateDark: {
     color: '#8E8E93',
   },
+  taskDateHighlighted: {
+    fontWeight: '600',
+  },
+  taskCount: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#8E8E93',
+  },
+  taskCountDark: {
+    color: '#8E8E93',
+  },
   taskAssignee: {
     fontSize: 12,
     color: '#8E8E93',
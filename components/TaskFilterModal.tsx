@@ -0,0 +1,374 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import TagChip from '@/components/TagChip';
+import { HouseholdSummary, Member, TaskFilter, TaskTag } from '@/lib/data';
+import { getDisplayName } from '@/lib/memberDirectory';
+import { groupTagsByName } from '@/lib/tags';
+import {
+  countFilterFields,
+  DUE_RANGE_OPTIONS,
+  PRIORITY_OPTIONS,
+  STATE_OPTIONS,
+  toggleValue
+} from '@/lib/taskFilters';
+
+interface TaskFilterModalProps {
+  visible: boolean;
+  filter: TaskFilter;
+  households: HouseholdSummary[];
+  // Everyone in the user's households, from the member directory
+  members: Member[];
+  // Tags of the user's households
+  tags: TaskTag[];
+  userId: string;
+  onChange: (filter: TaskFilter) => void;
+  // Saves the current filter as a named view
+  onSave: (name: string) => Promise<void>;
+  onClose: () => void;
+  isDark?: boolean;
+}
+
+interface ChipOption<T> {
+  value: T;
+  label: string;
+}
+
+export default function TaskFilterModal({
+  visible,
+  filter,
+  households,
+  members,
+  tags,
+  userId,
+  onChange,
+  onSave,
+  onClose,
+  isDark = false
+}: TaskFilterModalProps) {
+  const [viewName, setViewName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // One chip per person, whichever households they share with the user
+  const people = members
+    .filter((member, index) =>
+      member.is_active
+      && member.user_id !== userId
+      && members.findIndex(other => other.user_id === member.user_id && other.is_active) === index)
+    .sort((a, b) => getDisplayName(a).localeCompare(getDisplayName(b)));
+  const personOptions = people.map(member => ({ value: member.user_id, label: getDisplayName(member) }));
+
+  // Same-named tags of different households are one choice, picking all of their ids
+  const tagGroups = groupTagsByName(tags);
+  const toggleTagGroup = (ids: string[]) => {
+    const selected = ids.some(id => filter.tags?.includes(id));
+    const rest = (filter.tags || []).filter(id => !ids.includes(id));
+    onChange({ ...filter, tags: selected ? rest : [...rest, ...ids] });
+  };
+
+  const save = async () => {
+    if (!viewName.trim()) return;
+    setSaving(true);
+    try {
+      await onSave(viewName.trim());
+      setViewName('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderOptions = <T,>(options: ChipOption<T>[], isSelected: (value: T) => boolean, onPress: (value: T) => void) => (
+    <View style={styles.options}>
+      {options.map(option => {
+        const selected = isSelected(option.value);
+        return (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[styles.option, isDark && styles.optionDark, selected && styles.optionSelected]}
+            onPress={() => onPress(option.value)}
+          >
+            <Text style={[styles.optionText, isDark && styles.optionTextDark, selected && styles.optionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderSection = (title: string, content: React.ReactNode) => (
+    <View style={styles.group}>
+      <Text style={[styles.label, isDark && styles.labelDark]}>{title}</Text>
+      {content}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, isDark && styles.contentDark]}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, isDark && styles.titleDark]}>Filters</Text>
+              <Text style={styles.subtitle}>Tasks must match every section you pick</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={isDark ? "#FFFFFF" : "#1C1C1E"} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {renderSection('Status', renderOptions(
+              STATE_OPTIONS,
+              value => !!filter.states?.includes(value),
+              value => onChange({ ...filter, states: toggleValue(filter.states, value) })
+            ))}
+
+            {renderSection('Assigned to', renderOptions<string | null>(
+              [{ value: userId, label: 'Me' }, { value: null, label: 'Unassigned' }, ...personOptions],
+              value => !!filter.assignees?.includes(value),
+              value => onChange({ ...filter, assignees: toggleValue(filter.assignees, value) })
+            ))}
+
+            {renderSection('Created by', renderOptions(
+              [{ value: userId, label: 'Me' }, ...personOptions],
+              value => !!filter.creators?.includes(value),
+              value => onChange({ ...filter, creators: toggleValue(filter.creators, value) })
+            ))}
+
+            {renderSection('Priority', renderOptions(
+              PRIORITY_OPTIONS,
+              value => !!filter.priorities?.includes(value),
+              value => onChange({ ...filter, priorities: toggleValue(filter.priorities, value) })
+            ))}
+
+            {households.length > 1 && renderSection('Household', renderOptions(
+              households.map(household => ({ value: household.id, label: household.name })),
+              value => !!filter.householdIds?.includes(value),
+              value => onChange({ ...filter, householdIds: toggleValue(filter.householdIds, value) })
+            ))}
+
+            {tagGroups.length > 0 && renderSection('Tags', (
+              <View style={styles.options}>
+                {tagGroups.map(group => (
+                  <TagChip
+                    key={group.name}
+                    tag={group}
+                    selected={group.ids.some(id => filter.tags?.includes(id))}
+                    onPress={() => toggleTagGroup(group.ids)}
+                    isDark={isDark}
+                  />
+                ))}
+              </View>
+            ))}
+
+            {renderSection('Due', renderOptions(
+              DUE_RANGE_OPTIONS,
+              value => filter.due === value,
+              value => onChange({ ...filter, due: filter.due === value ? null : value })
+            ))}
+
+            {renderSection('Save as view', (
+              <View style={styles.saveRow}>
+                <TextInput
+                  value={viewName}
+                  onChangeText={setViewName}
+                  placeholder="View name"
+                  placeholderTextColor="#8E8E93"
+                  maxLength={40}
+                  style={[styles.input, isDark && styles.inputDark]}
+                />
+                <TouchableOpacity
+                  style={[styles.saveButton, (!viewName.trim() || saving) && styles.buttonDisabled]}
+                  onPress={save}
+                  disabled={!viewName.trim() || saving}
+                >
+                  {saving ? (
+                    <ActivityIndicator color="white" size="small" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.footerButton, styles.clearButton, isDark && styles.clearButtonDark]}
+              onPress={() => onChange({})}
+              disabled={countFilterFields(filter) === 0}
+            >
+              <Text style={[styles.clearButtonText, isDark && styles.clearButtonTextDark]}>Clear</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.footerButton, styles.doneButton]} onPress={onClose}>
+              <Text style={styles.doneButtonText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '85%',
+  },
+  contentDark: {
+    backgroundColor: '#1C1C1E',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  titleDark: {
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  group: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  labelDark: {
+    color: '#FFFFFF',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#F2F2F7',
+  },
+  optionDark: {
+    borderColor: '#38383A',
+    backgroundColor: '#2C2C2E',
+  },
+  optionSelected: {
+    backgroundColor: '#4A90E2',
+    borderColor: '#4A90E2',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  optionTextDark: {
+    color: '#FFFFFF',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  inputDark: {
+    borderColor: '#38383A',
+    color: '#FFFFFF',
+  },
+  saveButton: {
+    backgroundColor: '#4A90E2',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 11,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  footerButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  clearButton: {
+    backgroundColor: '#F2F2F7',
+  },
+  clearButtonDark: {
+    backgroundColor: '#2C2C2E',
+  },
+  clearButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  clearButtonTextDark: {
+    color: '#FFFFFF',
+  },
+  doneButton: {
+    backgroundColor: '#4A90E2',
+  },
+  doneButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,11 @@
+-- Due Dates Schema Setup
+-- Lets tasks be due on a day or at a specific time
+
+-- 1. Whether due_date is a whole day or an exact time
+-- All-day tasks store local midnight of the due day and are overdue once that day ends
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_all_day boolean NOT NULL DEFAULT true;
+
+-- 2. Index for sorting and filtering open tasks by due date
+CREATE INDEX IF NOT EXISTS idx_tasks_due_date
+  ON tasks(due_date)
+  WHERE due_date IS NOT NULL;
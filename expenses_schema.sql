@@ -0,0 +1,166 @@
+-- Expenses Setup
+-- Split expenses between members and record the payments that settle them up.
+-- Run after shopping_schema.sql.
+
+-- 1. Currency and split mode on each expense
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD';
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS split_mode text NOT NULL DEFAULT 'equal';
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS chk_expenses_currency;
+ALTER TABLE expenses ADD CONSTRAINT chk_expenses_currency CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS chk_expenses_split_mode;
+ALTER TABLE expenses ADD CONSTRAINT chk_expenses_split_mode CHECK (split_mode IN ('equal', 'shares', 'exact'));
+
+-- 2. What each participant owes. `share` is the weight or amount entered in the form; `amount` is what
+-- counts towards the balances.
+CREATE TABLE IF NOT EXISTS expense_splits (
+  expense_id uuid NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  share numeric(12, 2) NOT NULL DEFAULT 1,
+  amount numeric(12, 2) NOT NULL,
+  PRIMARY KEY (expense_id, user_id),
+  CONSTRAINT chk_expense_splits_amount CHECK (amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_splits_household ON expense_splits(household_id);
+
+-- Splits are written in one statement after their expense, so check the totals once it's done
+CREATE OR REPLACE FUNCTION check_expense_splits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM expenses e
+    JOIN (SELECT expense_id, sum(amount) AS total FROM expense_splits GROUP BY expense_id) s
+      ON s.expense_id = e.id
+    WHERE e.id IN (SELECT expense_id FROM inserted_splits)
+      AND s.total <> e.amount
+  ) THEN
+    RAISE EXCEPTION 'The splits must add up to the amount' USING ERRCODE = '23514';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_expense_splits ON expense_splits;
+CREATE TRIGGER check_expense_splits
+  AFTER INSERT ON expense_splits
+  REFERENCING NEW TABLE AS inserted_splits
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION check_expense_splits();
+
+-- Expenses recorded before splits existed were shared equally by whoever was in the household
+INSERT INTO expense_splits (expense_id, household_id, user_id, share, amount)
+SELECT
+  e.id,
+  e.household_id,
+  m.user_id,
+  1,
+  floor(e.amount * 100 / count(*) OVER (PARTITION BY e.id)) / 100
+    + CASE
+        WHEN row_number() OVER (PARTITION BY e.id ORDER BY m.joined_at, m.user_id)
+          <= (e.amount * 100)::bigint % count(*) OVER (PARTITION BY e.id)
+        THEN 0.01
+        ELSE 0
+      END
+FROM expenses e
+JOIN household_members m ON m.household_id = e.household_id AND m.is_active = true
+WHERE NOT EXISTS (SELECT 1 FROM expense_splits s WHERE s.expense_id = e.id);
+
+-- 3. Settle-up payments from one member to another
+CREATE TABLE IF NOT EXISTS expense_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  from_user uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  to_user uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL,
+  currency text NOT NULL DEFAULT 'USD',
+  note text,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT NOW(),
+  CONSTRAINT chk_expense_payments_amount CHECK (amount > 0),
+  CONSTRAINT chk_expense_payments_members CHECK (from_user <> to_user),
+  CONSTRAINT chk_expense_payments_currency CHECK (currency ~ '^[A-Z]{3}$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_payments_household ON expense_payments(household_id, created_at DESC);
+
+-- 4. Admins can remove expenses and payments others recorded
+INSERT INTO household_role_permissions (role, action) VALUES
+  ('admin', 'manage_expenses')
+ON CONFLICT DO NOTHING;
+
+-- 5. Any member may record an expense someone else in the household paid for
+DROP POLICY IF EXISTS "Members can record their own expenses" ON expenses;
+DROP POLICY IF EXISTS "Members can record expenses" ON expenses;
+CREATE POLICY "Members can record expenses"
+  ON expenses FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND household_can(household_id, 'record_expenses')
+    AND paid_by IN (
+      SELECT user_id FROM household_members
+      WHERE household_id = expenses.household_id AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can delete expenses" ON expenses;
+CREATE POLICY "Members can delete expenses"
+  ON expenses FOR DELETE
+  USING (created_by = auth.uid() OR household_can(household_id, 'manage_expenses'));
+
+ALTER TABLE expense_splits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view expense splits" ON expense_splits;
+CREATE POLICY "Members can view expense splits"
+  ON expense_splits FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+-- Only the expense's author adds its splits, and only into the expense's household
+DROP POLICY IF EXISTS "Authors can split their expenses" ON expense_splits;
+CREATE POLICY "Authors can split their expenses"
+  ON expense_splits FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM expenses
+      WHERE id = expense_splits.expense_id
+        AND household_id = expense_splits.household_id
+        AND created_by = auth.uid()
+    )
+  );
+
+ALTER TABLE expense_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view payments" ON expense_payments;
+CREATE POLICY "Members can view payments"
+  ON expense_payments FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+-- Either side of a payment can record it
+DROP POLICY IF EXISTS "Members can record payments" ON expense_payments;
+CREATE POLICY "Members can record payments"
+  ON expense_payments FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND auth.uid() IN (from_user, to_user)
+    AND household_can(household_id, 'record_expenses')
+  );
+
+DROP POLICY IF EXISTS "Members can delete payments" ON expense_payments;
+CREATE POLICY "Members can delete payments"
+  ON expense_payments FOR DELETE
+  USING (created_by = auth.uid() OR household_can(household_id, 'manage_expenses'));
@@ -0,0 +1,50 @@
+-- Chore Points Setup
+-- Tasks carry an effort weight, credited to whoever completed them, for the household's fairness dashboard.
+-- Run after task_review_schema.sql.
+
+-- 1. Effort weight per task
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS points integer NOT NULL DEFAULT 1;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS chk_tasks_points;
+ALTER TABLE tasks ADD CONSTRAINT chk_tasks_points CHECK (points BETWEEN 1 AND 100);
+
+-- 2. Who completed the task and when
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS completed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS completed_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_household_completed ON tasks(household_id, completed_at)
+  WHERE completed_at IS NOT NULL;
+
+-- Best guess for tasks completed before attribution was recorded
+UPDATE tasks
+SET completed_by = COALESCE(submitted_by, assignee), completed_at = updated_at
+WHERE state = 'completed' AND completed_at IS NULL;
+
+-- 3. Record the attribution the moment a task becomes completed.
+-- The points go to whoever handed the task in (check_task_state has already set submitted_by), not the reviewer.
+CREATE OR REPLACE FUNCTION set_task_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.state = OLD.state THEN
+    -- Attribution can't be edited after the fact
+    NEW.completed_by = OLD.completed_by;
+    NEW.completed_at = OLD.completed_at;
+  ELSIF NEW.state = 'completed' THEN
+    NEW.completed_by = COALESCE(NEW.submitted_by, auth.uid(), NEW.completed_by);
+    NEW.completed_at = NOW();
+  ELSE
+    NEW.completed_by = NULL;
+    NEW.completed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire after check_task_state; BEFORE triggers run in name order
+DROP TRIGGER IF EXISTS set_task_completion ON tasks;
+CREATE TRIGGER set_task_completion
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_task_completion();
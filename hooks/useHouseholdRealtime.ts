@@ -0,0 +1,47 @@
+import { getRepository, HouseholdChange } from '@/lib/data';
+import { invalidateMemberDirectory } from '@/lib/memberDirectory';
+import { describeChange } from '@/lib/realtime';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const NOTICE_DURATION_MS = 4000;
+
+// Subscribe to live changes for a set of households.
+// Every change is passed to `onChange`; changes known to come from other users also produce a short notice
+// that screens show as a banner until it times out or is dismissed. Membership changes also refresh
+// the household in the shared member directory.
+export function useHouseholdRealtime(
+  householdIds: string[],
+  userId: string | null,
+  onChange: (change: HouseholdChange) => void
+) {
+  const [notice, setNotice] = useState<string | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const idsKey = [...householdIds].sort().join(',');
+
+  useEffect(() => {
+    if (!userId || !idsKey) return;
+
+    return getRepository().realtime.subscribe(idsKey.split(','), change => {
+      if (change.table === 'household_members') {
+        const householdId = change.record?.household_id ?? change.old?.household_id;
+        if (householdId) invalidateMemberDirectory(householdId);
+      }
+      onChangeRef.current(change);
+      if (change.actor && change.actor !== userId) {
+        setNotice(describeChange(change));
+      }
+    });
+  }, [idsKey, userId]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  const dismissNotice = useCallback(() => setNotice(null), []);
+
+  return { notice, dismissNotice };
+}
@@ -0,0 +1,36 @@
+import { Member } from '@/lib/data';
+import {
+  findMember,
+  getDirectoryMembers,
+  getDisplayName,
+  loadMemberDirectory,
+  subscribeToMemberDirectory
+} from '@/lib/memberDirectory';
+import { useEffect, useState } from 'react';
+
+// Names and avatars of everyone in a set of households, from the shared member directory.
+// Lists pass all their households at once so they're fetched in a single request.
+export function useMemberDirectory(householdIds: string[]) {
+  const [members, setMembers] = useState<Member[]>([]);
+
+  const idsKey = [...new Set(householdIds)].sort().join(',');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    // Runs again whenever the directory changes, so invalidated households are fetched again
+    const refresh = () => {
+      setMembers(getDirectoryMembers(ids));
+      loadMemberDirectory(ids).catch(error => {
+        console.error('Error loading members:', error);
+      });
+    };
+    refresh();
+    return subscribeToMemberDirectory(refresh);
+  }, [idsKey]);
+
+  return {
+    members,
+    getMember: (userId: string | null, householdId?: string) => findMember(members, userId, householdId),
+    getName: (userId: string | null, householdId?: string) => getDisplayName(findMember(members, userId, householdId)),
+  };
+}
@@ -0,0 +1,30 @@
+import { Task } from '@/lib/data';
+import { loadSeriesStarts } from '@/lib/taskActions';
+import { useEffect, useState } from 'react';
+
+// First due dates of the series the recurring tasks belong to, for projecting their occurrences
+export function useSeriesStarts(tasks: Task[]) {
+  const [seriesStarts, setSeriesStarts] = useState<Record<string, string>>({});
+
+  const seriesKey = [...new Set(tasks.flatMap(task => task.recurrence_rule && task.series_id ? [task.series_id] : []))]
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    if (!seriesKey) return;
+    // The tasks can change again before the series arrive
+    let active = true;
+    loadSeriesStarts(tasks)
+      .then(starts => {
+        if (active) setSeriesStarts(starts);
+      })
+      .catch(error => {
+        console.error('Error loading series:', error);
+      });
+    return () => {
+      active = false;
+    };
+  }, [seriesKey]);
+
+  return seriesStarts;
+}
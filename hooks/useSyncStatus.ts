@@ -0,0 +1,20 @@
+import { getSyncController, SyncStatus } from '@/lib/data';
+import { useEffect, useState } from 'react';
+
+// Connectivity, queued changes and sync conflicts of the offline cache.
+// `status` is null when the app runs against a repository without one.
+export function useSyncStatus() {
+  const controller = getSyncController();
+  const [status, setStatus] = useState<SyncStatus | null>(() => controller?.getStatus() ?? null);
+
+  useEffect(() => {
+    if (!controller) return;
+    setStatus(controller.getStatus());
+    return controller.subscribe(setStatus);
+  }, [controller]);
+
+  return {
+    status,
+    dismissConflicts: () => controller?.dismissConflicts(),
+  };
+}
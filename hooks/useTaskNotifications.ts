@@ -0,0 +1,143 @@
+import * as Notifications from 'expo-notifications';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { getRepository } from '@/lib/data';
+import {
+  notifyAssignmentChange,
+  notifyMention,
+  requestNotificationPermission,
+  scheduleTaskNotifications
+} from '@/lib/notifications';
+import { supabase } from '@/lib/supabaseClient';
+
+// Wait for a burst of task changes to settle before rescheduling
+const RESCHEDULE_DELAY_MS = 2000;
+
+// Keeps the signed-in user's reminders and digest scheduled, alerts them about assignment
+// changes and mentions while the app is open, and opens the task or bills when a notification is tapped.
+export function useTaskNotifications() {
+  const router = useRouter();
+  const [userId, setUserId] = useState<string | null>(null);
+  // Set once the user has allowed notifications
+  const [enabled, setEnabled] = useState(false);
+  const [householdIds, setHouseholdIds] = useState<string[]>([]);
+  const rescheduleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The households last loaded, to tell when the user joined or left one
+  const loadedKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    const getCurrentUser = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      setUserId(session?.user.id ?? null);
+    };
+    getCurrentUser();
+  }, []);
+
+  // Reschedule once a burst of changes has settled
+  const queueReschedule = useCallback(() => {
+    if (!userId) return;
+    if (rescheduleTimer.current) clearTimeout(rescheduleTimer.current);
+    rescheduleTimer.current = setTimeout(() => {
+      scheduleTaskNotifications(userId).catch(error => {
+        console.error('Error scheduling notifications:', error);
+      });
+    }, RESCHEDULE_DELAY_MS);
+  }, [userId]);
+
+  // The households to listen to. The subscription is only replaced when the user joined or left one,
+  // and the reminders are planned again for the new set.
+  const loadHouseholdIds = useCallback(async () => {
+    if (!userId || !enabled) return;
+    try {
+      const ids = await getRepository().members.listHouseholdIds(userId);
+      const key = ids.join(',');
+      if (key === loadedKey.current) return;
+      if (loadedKey.current !== null) queueReschedule();
+      loadedKey.current = key;
+      setHouseholdIds(ids);
+    } catch (error) {
+      console.error('Error loading households:', error);
+    }
+  }, [userId, enabled, queueReschedule]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const reschedule = async () => {
+      try {
+        await scheduleTaskNotifications(userId);
+      } catch (error) {
+        console.error('Error scheduling notifications:', error);
+      }
+    };
+
+    const setup = async () => {
+      try {
+        if (!(await requestNotificationPermission())) return;
+        setEnabled(true);
+        await reschedule();
+      } catch (error) {
+        console.error('Error setting up notifications:', error);
+      }
+    };
+    setup();
+
+    // Due states and the digest depend on the time of day, so refresh when the app comes back
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') reschedule();
+    });
+    return () => subscription.remove();
+  }, [userId]);
+
+  // Households joined or left elsewhere in the app (accepting an invitation, creating one, leaving one)
+  // are picked up when the tabs come back into view
+  useFocusEffect(
+    useCallback(() => {
+      loadHouseholdIds();
+    }, [loadHouseholdIds])
+  );
+
+  useEffect(() => {
+    if (!userId || householdIds.length === 0) return;
+
+    const unsubscribe = getRepository().realtime.subscribe(householdIds, change => {
+      if (change.table === 'household_members') {
+        // The user left or was removed from one of these households
+        if ((change.record?.user_id ?? change.old?.user_id) === userId) loadHouseholdIds();
+        return;
+      }
+      if (change.table === 'task_comments') {
+        notifyMention(change, userId).catch(error => {
+          console.error('Error showing mention notification:', error);
+        });
+        return;
+      }
+      if (change.table !== 'tasks') return;
+
+      notifyAssignmentChange(change, userId).catch(error => {
+        console.error('Error showing assignment notification:', error);
+      });
+      queueReschedule();
+    });
+
+    return unsubscribe;
+  }, [userId, householdIds, loadHouseholdIds, queueReschedule]);
+
+  useEffect(() => () => {
+    if (rescheduleTimer.current) clearTimeout(rescheduleTimer.current);
+  }, []);
+
+  useEffect(() => {
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      const data = response.notification.request.content.data;
+      if (typeof data?.taskId === 'string') {
+        router.push(`/tasks/${data.taskId}`);
+      } else if (typeof data?.householdId === 'string') {
+        // Bill reminders
+        router.push(`/bills/${data.householdId}`);
+      }
+    });
+    return () => subscription.remove();
+  }, [router]);
+}
@@ -0,0 +1,33 @@
+import { getRepository, TaskTag } from '@/lib/data';
+import { subscribeToTagChanges } from '@/lib/tags';
+import { useEffect, useState } from 'react';
+
+// Tags of a set of households, loaded again whenever a tag is added, changed or deleted
+export function useTaskTags(householdIds: string[]) {
+  const [tags, setTags] = useState<TaskTag[]>([]);
+
+  const idsKey = [...new Set(householdIds)].sort().join(',');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    // Households can change before their tags arrive
+    let active = true;
+    const load = () => {
+      getRepository().tags.listForHouseholds(ids)
+        .then(list => {
+          if (active) setTags(list);
+        })
+        .catch(error => {
+          console.error('Error loading tags:', error);
+        });
+    };
+    load();
+    const unsubscribe = subscribeToTagChanges(load);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [idsKey]);
+
+  return tags;
+}
@@ -0,0 +1,111 @@
+-- Household Invitations Inbox Setup
+-- Lets invitees see and resolve their pending invitations
+
+-- 1. Store the details the inviter chose so they can be applied on accept
+ALTER TABLE household_invitations ADD COLUMN IF NOT EXISTS member_name text;
+ALTER TABLE household_invitations ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'member';
+ALTER TABLE household_invitations ADD COLUMN IF NOT EXISTS responded_at timestamp with time zone;
+
+ALTER TABLE household_invitations DROP CONSTRAINT IF EXISTS chk_household_invitations_role;
+ALTER TABLE household_invitations ADD CONSTRAINT chk_household_invitations_role
+  CHECK (role IN ('admin', 'member', 'viewer'));
+
+-- 2. Invitee emails are matched case-insensitively against the signed-in user's email
+UPDATE household_invitations SET invitee_email = lower(trim(invitee_email));
+
+-- 3. Row level security so invitees can read and resolve their own invitations
+ALTER TABLE household_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view household invitations" ON household_invitations;
+CREATE POLICY "Members can view household invitations"
+  ON household_invitations FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can create household invitations" ON household_invitations;
+CREATE POLICY "Members can create household invitations"
+  ON household_invitations FOR INSERT
+  WITH CHECK (
+    inviter_id = auth.uid()
+    AND household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Invitees can view their invitations" ON household_invitations;
+CREATE POLICY "Invitees can view their invitations"
+  ON household_invitations FOR SELECT
+  USING (invitee_email = lower(auth.jwt() ->> 'email'));
+
+DROP POLICY IF EXISTS "Invitees can respond to their invitations" ON household_invitations;
+CREATE POLICY "Invitees can respond to their invitations"
+  ON household_invitations FOR UPDATE
+  USING (invitee_email = lower(auth.jwt() ->> 'email') AND status = 'pending')
+  WITH CHECK (status IN ('accepted', 'declined'));
+
+-- 4. Allow an invitee to join a household they hold a pending invitation for, with the role they were invited as
+DROP POLICY IF EXISTS "Invitees can join invited households" ON household_members;
+CREATE POLICY "Invitees can join invited households"
+  ON household_members FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND is_active = true
+    AND EXISTS (
+      SELECT 1 FROM household_invitations i
+      WHERE i.household_id = household_members.household_id
+        AND i.invitee_email = lower(auth.jwt() ->> 'email')
+        AND i.status = 'pending'
+        AND i.role = household_members.role
+    )
+  );
+
+-- 5. Accepting joins the household and resolves the invitation in one transaction, so an invitation
+-- can't be left pending after it was used. The role and name come from the invitation, not the client.
+CREATE OR REPLACE FUNCTION accept_invitation(p_invitation_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation household_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM household_invitations
+  WHERE id = p_invitation_id
+    AND invitee_email = lower(auth.jwt() ->> 'email')
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation is no longer pending' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Rejoining a household reactivates the previous membership row
+  INSERT INTO household_members (household_id, user_id, name, role, is_active)
+  VALUES (
+    v_invitation.household_id,
+    auth.uid(),
+    COALESCE(
+      v_invitation.member_name,
+      (SELECT name FROM users WHERE id = auth.uid()),
+      split_part(v_invitation.invitee_email, '@', 1)
+    ),
+    v_invitation.role,
+    true
+  )
+  ON CONFLICT (user_id, household_id) DO UPDATE
+    SET name = EXCLUDED.name, role = EXCLUDED.role, is_active = true;
+
+  UPDATE household_invitations
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = p_invitation_id;
+
+  RETURN v_invitation.household_id;
+END;
+$$;
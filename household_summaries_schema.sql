@@ -0,0 +1,32 @@
+-- Household Summaries Setup
+-- Loads the household list with its member and task counts in one query instead of two per household.
+-- Run after permissions_schema.sql.
+
+-- 1. A user's households, counted in one grouped pass over members and tasks.
+-- Runs as the caller, so only households and rows their row level security lets through are counted.
+DROP FUNCTION IF EXISTS list_household_summaries(uuid);
+CREATE FUNCTION list_household_summaries(p_user_id uuid)
+RETURNS TABLE (id uuid, name text, created_by uuid, member_count integer, task_count integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    h.id,
+    h.name,
+    h.created_by,
+    COALESCE(members.total, 0)::integer,
+    COALESCE(tasks.total, 0)::integer
+  FROM household_members me
+  JOIN households h ON h.id = me.household_id
+  LEFT JOIN (
+    SELECT household_id, count(*) AS total FROM household_members
+    WHERE is_active = true
+    GROUP BY household_id
+  ) members ON members.household_id = h.id
+  LEFT JOIN (
+    SELECT household_id, count(*) AS total FROM tasks
+    GROUP BY household_id
+  ) tasks ON tasks.household_id = h.id
+  WHERE me.user_id = p_user_id AND me.is_active = true;
+$$;
@@ -0,0 +1,7 @@
+// Native modules the data layer loads, replaced by the mocks their packages ship
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock'));
+
+// Tests never reach Supabase; anything that needs a store uses createMemoryRepository
+jest.mock('@/lib/supabaseClient', () => ({ supabase: {} }));
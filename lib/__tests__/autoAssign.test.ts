@@ -0,0 +1,102 @@
+import { getAssignmentLoad, RECENT_DAYS, suggestAssignee } from '@/lib/autoAssign';
+import { makeMember, makeTask } from './fixtures';
+
+const NOW = new Date('2025-03-15T12:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY).toISOString();
+
+const completed = (userId: string, points: number, completedAt: string) =>
+  makeTask({ state: 'completed', assignee: userId, completed_by: userId, completed_at: completedAt, points });
+
+describe('getAssignmentLoad', () => {
+  it('adds open tasks, their points and half the recently completed points', () => {
+    const tasks = [
+      makeTask({ assignee: 'alex', points: 3 }),
+      makeTask({ assignee: 'alex', points: 2 }),
+      completed('alex', 4, daysAgo(1)),
+      makeTask({ assignee: 'sam', points: 5 }),
+    ];
+
+    expect(getAssignmentLoad(tasks, 'alex', NOW)).toEqual({
+      userId: 'alex',
+      openTasks: 2,
+      openPoints: 5,
+      recentPoints: 4,
+      load: 2 + 5 + 2,
+    });
+  });
+
+  it('only counts completed points inside the recent window', () => {
+    const tasks = [
+      completed('alex', 1, daysAgo(RECENT_DAYS)),
+      completed('alex', 2, daysAgo(RECENT_DAYS - 1)),
+      completed('alex', 10, daysAgo(RECENT_DAYS + 1)),
+    ];
+
+    expect(getAssignmentLoad(tasks, 'alex', NOW).recentPoints).toBe(3);
+  });
+
+  it('ignores tasks in review and completions credited to someone else', () => {
+    const tasks = [
+      makeTask({ assignee: 'alex', state: 'pending_review', points: 3 }),
+      completed('sam', 4, daysAgo(1)),
+    ];
+
+    expect(getAssignmentLoad(tasks, 'alex', NOW).load).toBe(0);
+  });
+});
+
+describe('suggestAssignee', () => {
+  it('picks the member with the lightest load', () => {
+    const tasks = [makeTask({ assignee: 'alex', points: 3 })];
+    const suggestion = suggestAssignee(tasks, [makeMember('alex', 'Alex'), makeMember('sam', 'Sam')], NOW);
+
+    expect(suggestion?.userId).toBe('sam');
+    expect(suggestion?.loads.map(load => load.userId)).toEqual(['sam', 'alex']);
+  });
+
+  it('skips members who are away or have left', () => {
+    const tasks = [makeTask({ assignee: 'sam', points: 3 })];
+    const members = [
+      makeMember('alex', 'Alex', { is_available: false }),
+      makeMember('jo', 'Jo', { is_active: false }),
+      makeMember('sam', 'Sam'),
+      makeMember('kim', 'Kim'),
+    ];
+    const suggestion = suggestAssignee(tasks, members, NOW);
+
+    expect(suggestion?.userId).toBe('kim');
+    expect(suggestion?.loads.map(load => load.userId)).toEqual(['kim', 'sam']);
+    expect(suggestion?.reason).toMatch(/\(2 members away\)$/);
+  });
+
+  it('says when only one member is available', () => {
+    const members = [makeMember('alex', 'Alex', { is_available: false }), makeMember('sam', 'Sam')];
+    const suggestion = suggestAssignee([], members, NOW);
+
+    expect(suggestion?.reason).toBe('Sam is the only member available (1 member away)');
+  });
+
+  it('returns null when nobody is available', () => {
+    expect(suggestAssignee([], [makeMember('alex', 'Alex', { is_available: false })], NOW)).toBeNull();
+  });
+
+  it('breaks a tie in load by the points still waiting', () => {
+    const tasks = [
+      // Alex: 1 open task of 1 point, a load of 2
+      makeTask({ assignee: 'alex', points: 1 }),
+      // Sam: 4 points done lately, also a load of 2, but nothing waiting
+      completed('sam', 4, daysAgo(2)),
+    ];
+
+    expect(suggestAssignee(tasks, [makeMember('alex', 'Alex'), makeMember('sam', 'Sam')], NOW)?.userId).toBe('sam');
+  });
+
+  it('breaks a full tie by name, whatever the member order', () => {
+    const members = [makeMember('user-2', 'Zoe'), makeMember('user-1', 'Alex')];
+
+    expect(suggestAssignee([], members, NOW)?.userId).toBe('user-1');
+    expect(suggestAssignee([], [...members].reverse(), NOW)?.userId).toBe('user-1');
+  });
+});
@@ -0,0 +1,168 @@
+import { createMemoryRepository, Expense, ExpensePayment } from '@/lib/data';
+import { getBalances, settleUp, splitExpense, Transfer } from '@/lib/balances';
+
+const expense = (paidBy: string, amount: number, splits: Record<string, number>, currency = 'USD'): Expense => ({
+  id: `expense-${paidBy}-${amount}`,
+  household_id: 'household-1',
+  description: 'Groceries',
+  amount,
+  currency,
+  paid_by: paidBy,
+  split_mode: 'exact',
+  splits: Object.entries(splits).map(([userId, share]) => ({ user_id: userId, share, amount: share })),
+  created_by: paidBy,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+});
+
+const payment = (from: string, to: string, amount: number, currency = 'USD'): ExpensePayment => ({
+  id: `payment-${from}-${to}`,
+  household_id: 'household-1',
+  from_user: from,
+  to_user: to,
+  amount,
+  currency,
+  note: null,
+  created_by: from,
+  created_at: '2025-01-02T00:00:00.000Z',
+});
+
+// Balances after every transfer has been paid, in cents to dodge float noise
+const applyTransfers = (balances: Record<string, number>, transfers: Transfer[]) => {
+  const cents = Object.fromEntries(Object.entries(balances).map(([userId, amount]) => [userId, Math.round(amount * 100)]));
+  transfers.forEach(({ from, to, amount }) => {
+    cents[from] += Math.round(amount * 100);
+    cents[to] -= Math.round(amount * 100);
+  });
+  return cents;
+};
+
+describe('splitExpense', () => {
+  it('gives the leftover cent of an equal split to the earliest participant', () => {
+    const splits = splitExpense(10, 'equal', [
+      { userId: 'a', value: 0 },
+      { userId: 'b', value: 0 },
+      { userId: 'c', value: 0 },
+    ]);
+    expect(splits.map(split => split.amount)).toEqual([3.34, 3.33, 3.33]);
+  });
+
+  it('gives leftover cents of a shares split to the largest remainders', () => {
+    const splits = splitExpense(1, 'shares', [
+      { userId: 'a', value: 1 },
+      { userId: 'b', value: 2 },
+      { userId: 'c', value: 3 },
+    ]);
+    expect(splits).toEqual([
+      { user_id: 'a', share: 1, amount: 0.17 },
+      { user_id: 'b', share: 2, amount: 0.33 },
+      { user_id: 'c', share: 3, amount: 0.5 },
+    ]);
+  });
+
+  it('always adds up to the amount', () => {
+    const splits = splitExpense(100, 'shares', [
+      { userId: 'a', value: 1 },
+      { userId: 'b', value: 1 },
+      { userId: 'c', value: 1 },
+      { userId: 'd', value: 4 },
+    ]);
+    const total = splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+    expect(total).toBe(10000);
+  });
+
+  it('keeps exact amounts that add up to the total', () => {
+    const splits = splitExpense(10, 'exact', [{ userId: 'a', value: 4 }, { userId: 'b', value: 6 }]);
+    expect(splits.map(split => split.amount)).toEqual([4, 6]);
+  });
+
+  it('rejects exact amounts that do not add up to the total', () => {
+    expect(() => splitExpense(10, 'exact', [{ userId: 'a', value: 4 }, { userId: 'b', value: 5 }]))
+      .toThrow('The amounts add up to 9.00, not 10.00');
+  });
+
+  it('rejects a participant listed twice', () => {
+    expect(() => splitExpense(10, 'equal', [{ userId: 'a', value: 0 }, { userId: 'a', value: 0 }]))
+      .toThrow('Each person can only be in the split once');
+  });
+});
+
+describe('getBalances', () => {
+  it('nets expenses against recorded payments', () => {
+    const expenses = [expense('a', 30, { a: 10, b: 10, c: 10 })];
+    const payments = [payment('b', 'a', 10)];
+
+    expect(getBalances(expenses, payments, 'USD')).toEqual({ a: 10, c: -10 });
+  });
+
+  it('ignores other currencies', () => {
+    const expenses = [expense('a', 30, { a: 10, b: 10, c: 10 }), expense('b', 20, { a: 20 }, 'EUR')];
+    const payments = [payment('c', 'a', 10, 'EUR')];
+
+    expect(getBalances(expenses, payments, 'USD')).toEqual({ a: 20, b: -10, c: -10 });
+  });
+});
+
+describe('recorded in the store', () => {
+  it('settles what was split and saved, less what was paid back', async () => {
+    const repository = createMemoryRepository();
+    const record = (paidBy: string, amount: number) => repository.expenses.create({
+      household_id: 'household-1',
+      description: 'Shared',
+      amount,
+      currency: 'USD',
+      paid_by: paidBy,
+      split_mode: 'equal',
+      splits: splitExpense(amount, 'equal', ['a', 'b', 'c'].map(userId => ({ userId, value: 0 }))),
+      created_by: paidBy,
+    });
+    await record('a', 100);
+    await record('b', 20);
+    await repository.payments.create({
+      household_id: 'household-1',
+      from_user: 'c',
+      to_user: 'a',
+      amount: 20,
+      currency: 'USD',
+      note: null,
+      created_by: 'c',
+    });
+
+    const balances = getBalances(
+      await repository.expenses.listForHousehold('household-1'),
+      await repository.payments.listForHousehold('household-1'),
+      'USD'
+    );
+
+    // a paid 100 and owes 33.34 + 6.67, b paid 20 and owes 33.33 + 6.67, c owes 33.33 + 6.66 and paid 20 back
+    expect(balances).toEqual({ a: 39.99, b: -20, c: -19.99 });
+    expect(settleUp(balances)).toEqual([
+      { from: 'b', to: 'a', amount: 20 },
+      { from: 'c', to: 'a', amount: 19.99 },
+    ]);
+  });
+});
+
+describe('settleUp', () => {
+  it('pairs the largest debts with the largest credits', () => {
+    const balances = { a: 50, b: 10, c: -30, d: -20, e: -10 };
+
+    expect(settleUp(balances)).toEqual([
+      { from: 'c', to: 'a', amount: 30 },
+      { from: 'd', to: 'a', amount: 20 },
+      { from: 'e', to: 'b', amount: 10 },
+    ]);
+  });
+
+  it('brings every balance to zero in fewer payments than members', () => {
+    const balances = { a: 33.34, b: -16.67, c: -16.67, d: 12.5, e: -12.5 };
+    const transfers = settleUp(balances);
+
+    expect(transfers.length).toBeLessThan(Object.keys(balances).length);
+    expect(Object.values(applyTransfers(balances, transfers)).every(cents => cents === 0)).toBe(true);
+  });
+
+  it('has nothing to do when everyone is square', () => {
+    expect(settleUp({})).toEqual([]);
+  });
+});
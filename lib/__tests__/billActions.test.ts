@@ -0,0 +1,45 @@
+import { Bill, createMemoryRepository, setRepository } from '@/lib/data';
+import { generateDueBillsForMember } from '@/lib/billActions';
+import { makeHousehold, makeMemberRow } from './fixtures';
+
+const NOW = new Date(2025, 2, 15, 9);
+
+const rent = (householdId: string): Bill => ({
+  id: `rent-${householdId}`,
+  household_id: householdId,
+  name: 'Rent',
+  amount: 1000,
+  currency: 'USD',
+  recurrence_rule: 'FREQ=MONTHLY;BYMONTHDAY=1',
+  next_due_date: new Date(2025, 2, 1).toISOString(),
+  participants: ['alex', 'sam'],
+  is_active: true,
+  created_by: 'sam',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+});
+
+describe('generateDueBillsForMember', () => {
+  it('only generates in households where the user manages bills, once a day', async () => {
+    const repository = createMemoryRepository({
+      households: [makeHousehold('home', { created_by: 'sam' }), makeHousehold('office', { created_by: 'sam' })],
+      members: [
+        makeMemberRow('home', 'sam', { role: 'admin' }),
+        makeMemberRow('home', 'alex', { role: 'member' }),
+        makeMemberRow('office', 'sam', { role: 'admin' }),
+        makeMemberRow('office', 'alex', { role: 'viewer' }),
+      ],
+      bills: [rent('home'), rent('office')],
+    });
+    setRepository(repository);
+
+    expect(await generateDueBillsForMember('alex', ['home', 'office'], NOW)).toBe(1);
+    expect(await repository.bills.listInstances('home')).toHaveLength(1);
+    expect(await repository.bills.listInstances('office')).toHaveLength(0);
+
+    // A bill that comes due again after today's run waits for tomorrow's
+    await repository.bills.update('rent-home', { next_due_date: new Date(2025, 2, 14).toISOString() });
+    expect(await generateDueBillsForMember('alex', ['home'], NOW)).toBe(0);
+    expect(await generateDueBillsForMember('alex', ['home'], new Date(2025, 2, 16, 9))).toBe(1);
+  });
+});
@@ -0,0 +1,36 @@
+import { getCalendarEntries, toDayKey } from '@/lib/calendar';
+import { makeTask } from './fixtures';
+
+const projectedDays = (entries: ReturnType<typeof getCalendarEntries>) =>
+  [...entries.entries()].flatMap(([day, list]) => list.some(entry => entry.projected) ? [day] : []).sort();
+
+describe('getCalendarEntries', () => {
+  // The February occurrence of a series that started on 31 January, clamped to the 28th
+  const february = makeTask({
+    id: 'rent-feb',
+    due_date: new Date(2025, 1, 28).toISOString(),
+    due_all_day: true,
+    recurrence_rule: 'FREQ=MONTHLY',
+    series_id: 'rent',
+  });
+
+  it('projects a clamped monthly series on the day it started', () => {
+    const entries = getCalendarEntries([february], new Date(2025, 2, 1), new Date(2025, 3, 30), {
+      rent: new Date(2025, 0, 31).toISOString(),
+    });
+
+    expect(projectedDays(entries)).toEqual([toDayKey(new Date(2025, 2, 31)), toDayKey(new Date(2025, 3, 30))]);
+  });
+
+  it('projects from the task itself when the series start is not known', () => {
+    const entries = getCalendarEntries([february], new Date(2025, 2, 1), new Date(2025, 3, 30));
+
+    expect(projectedDays(entries)).toEqual([toDayKey(new Date(2025, 2, 28)), toDayKey(new Date(2025, 3, 28))]);
+  });
+
+  it('does not project completed tasks', () => {
+    const done = { ...february, state: 'completed' as const };
+
+    expect(getCalendarEntries([done], new Date(2025, 1, 1), new Date(2025, 3, 30)).size).toBe(1);
+  });
+});
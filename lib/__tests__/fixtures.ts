@@ -0,0 +1,74 @@
+import { Household, Member, MemberRow, Task } from '@/lib/data';
+
+// Rows with every field filled in, for tests to override only what they're about
+
+let nextId = 1;
+
+export const makeTask = (changes: Partial<Task> = {}): Task => ({
+  id: `task-${nextId++}`,
+  household_id: 'household-1',
+  title: 'Chore',
+  details: '',
+  state: 'open',
+  assignee: null,
+  created_by: 'alex',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  due_date: null,
+  due_all_day: true,
+  priority: 'medium',
+  tag_ids: [],
+  points: 1,
+  recurrence_rule: null,
+  rotation: [],
+  series_id: null,
+  requires_proof: false,
+  requires_review: false,
+  submitted_by: null,
+  submitted_at: null,
+  reviewed_by: null,
+  review_reason: null,
+  completed_by: null,
+  completed_at: null,
+  checklist_total: 0,
+  checklist_done: 0,
+  comment_count: 0,
+  ...changes,
+});
+
+export const makeMember = (userId: string, name: string, changes: Partial<Member> = {}): Member => ({
+  household_id: 'household-1',
+  user_id: userId,
+  email: `${userId}@example.com`,
+  name,
+  avatar_url: null,
+  role: 'member',
+  joined_at: '2025-01-01T00:00:00.000Z',
+  is_active: true,
+  is_available: true,
+  ...changes,
+});
+
+export const makeHousehold = (id: string, changes: Partial<Household> = {}): Household => ({
+  id,
+  name: `Household ${id}`,
+  description: null,
+  created_by: 'alex',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  auto_complete_tasks: false,
+  require_task_review: false,
+  ...changes,
+});
+
+// A household_members row, as the in-memory repository stores it
+export const makeMemberRow = (householdId: string, userId: string, changes: Partial<MemberRow> = {}): MemberRow => ({
+  household_id: householdId,
+  user_id: userId,
+  name: userId,
+  role: 'member',
+  joined_at: '2025-01-01T00:00:00.000Z',
+  is_active: true,
+  is_available: true,
+  ...changes,
+});
@@ -0,0 +1,105 @@
+import { Clock, DEFAULT_NOTIFICATION_PREFERENCES, planNotifications } from '@/lib/notificationPlanner';
+import { makeTask } from './fixtures';
+
+// Local times, so the tests hold in any time zone
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 2, day, hour, minute);
+
+const clockAt = (date: Date): Clock => ({ now: () => date });
+
+const preferences = DEFAULT_NOTIFICATION_PREFERENCES;
+
+const openTask = (dueDate: Date, dueAllDay: boolean, id: string) =>
+  makeTask({ id, title: `Chore ${id}`, assignee: 'alex', due_date: dueDate.toISOString(), due_all_day: dueAllDay });
+
+describe('planNotifications', () => {
+  it('schedules a reminder ahead of a timed task', () => {
+    const planned = planNotifications([openTask(at(15, 18), false, 'dinner')], 'alex',
+      { ...preferences, digest_enabled: false }, clockAt(at(15, 9)));
+
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({ id: 'reminder-dinner', kind: 'reminder', fireAt: at(15, 17), taskId: 'dinner' });
+  });
+
+  describe('across midnight', () => {
+    it('moves the digest to tomorrow once its hour has passed', () => {
+      const tasks = [openTask(at(20, 12), false, 'laundry')];
+
+      expect(planNotifications(tasks, 'alex', preferences, clockAt(at(15, 23, 30)))[0].fireAt).toEqual(at(16, 8));
+      expect(planNotifications(tasks, 'alex', preferences, clockAt(at(16, 0, 30)))[0].fireAt).toEqual(at(16, 8));
+      expect(planNotifications(tasks, 'alex', preferences, clockAt(at(16, 8)))[0].fireAt).toEqual(at(17, 8));
+    });
+
+    it('reminds the evening before a task due just after midnight', () => {
+      const planned = planNotifications([openTask(at(16, 0, 30), false, 'bins')], 'alex',
+        { ...preferences, digest_enabled: false }, clockAt(at(15, 20)));
+
+      expect(planned[0].fireAt).toEqual(at(15, 23, 30));
+      expect(planned[0].body).toMatch(/^Due: Tomorrow/);
+    });
+
+    it('reminds of an all-day task the day before when the lead is long enough', () => {
+      const planned = planNotifications([openTask(at(16, 0), true, 'plants')], 'alex',
+        { ...preferences, digest_enabled: false, reminder_lead_minutes: 12 * 60 }, clockAt(at(15, 8)));
+
+      expect(planned[0].fireAt).toEqual(at(15, 21));
+      expect(planned[0].body).toBe('Due: Tomorrow');
+    });
+  });
+
+  describe('reminders that are already due', () => {
+    it('drops reminders for overdue tasks', () => {
+      const planned = planNotifications([openTask(at(14, 18), false, 'late')], 'alex',
+        { ...preferences, digest_enabled: false }, clockAt(at(15, 9)));
+
+      expect(planned).toEqual([]);
+    });
+
+    it('drops reminders whose time has passed before the task is due', () => {
+      const planned = planNotifications([openTask(at(15, 9, 30), false, 'soon')], 'alex',
+        { ...preferences, digest_enabled: false }, clockAt(at(15, 9)));
+
+      expect(planned).toEqual([]);
+    });
+
+    it('still counts overdue tasks in the digest', () => {
+      const tasks = [openTask(at(14, 18), false, 'late'), openTask(at(16, 18), false, 'tomorrow')];
+      const planned = planNotifications(tasks, 'alex', preferences, clockAt(at(15, 9)));
+
+      // The digest goes out tomorrow morning, when the second task is due that day
+      expect(planned.map(notification => notification.id)).toEqual(['digest', 'reminder-tomorrow']);
+      expect(planned[0].body).toBe('You have 2 open chores: 1 overdue, 1 due today.');
+    });
+  });
+
+  describe('preferences', () => {
+    const tasks = [openTask(at(15, 18), false, 'dinner')];
+    const clock = clockAt(at(15, 9));
+
+    it('leaves out reminders when they are turned off', () => {
+      const planned = planNotifications(tasks, 'alex', { ...preferences, reminders_enabled: false }, clock);
+
+      expect(planned.map(notification => notification.kind)).toEqual(['digest']);
+    });
+
+    it('leaves out the digest when it is turned off', () => {
+      const planned = planNotifications(tasks, 'alex', { ...preferences, digest_enabled: false }, clock);
+
+      expect(planned.map(notification => notification.kind)).toEqual(['reminder']);
+    });
+
+    it('plans nothing when both are turned off', () => {
+      const off = { ...preferences, reminders_enabled: false, digest_enabled: false };
+
+      expect(planNotifications(tasks, 'alex', off, clock)).toEqual([]);
+    });
+  });
+
+  it('only plans for open tasks assigned to the user', () => {
+    const tasks = [
+      makeTask({ assignee: 'sam', due_date: at(15, 18).toISOString(), due_all_day: false }),
+      makeTask({ assignee: 'alex', state: 'completed', due_date: at(15, 18).toISOString(), due_all_day: false }),
+    ];
+
+    expect(planNotifications(tasks, 'alex', preferences, clockAt(at(15, 9)))).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { applyChange, inHousehold } from '@/lib/realtime';
+import { makeTask } from './fixtures';
+
+describe('applyChange', () => {
+  const dishes = makeTask({ id: 'dishes', household_id: 'home', title: 'Dishes' });
+  const bins = makeTask({ id: 'bins', household_id: 'home', title: 'Bins' });
+
+  it('adds new rows to the front and replaces updated ones in place', () => {
+    const added = applyChange([dishes], { type: 'INSERT', record: bins, old: null }, task => task.id);
+    const renamed = { ...dishes, title: 'Wash up' };
+
+    expect(added).toEqual([bins, dishes]);
+    expect(applyChange(added, { type: 'UPDATE', record: renamed, old: { id: 'dishes' } }, task => task.id))
+      .toEqual([bins, renamed]);
+  });
+
+  it('removes deleted rows by their old key', () => {
+    expect(applyChange([dishes, bins], { type: 'DELETE', record: null, old: { id: 'dishes' } }, task => task.id))
+      .toEqual([bins]);
+  });
+
+  it('drops a task moved to another household from the household list', () => {
+    const moved = { ...dishes, household_id: 'cabin' };
+    const list = applyChange(
+      [dishes, bins],
+      { type: 'UPDATE', record: moved, old: { id: 'dishes' } },
+      task => task.id,
+      inHousehold('home')
+    );
+
+    expect(list).toEqual([bins]);
+  });
+
+  it('adds a task moved in from another household', () => {
+    const list = applyChange([bins], { type: 'UPDATE', record: dishes, old: { id: 'dishes' } }, task => task.id, inHousehold('home'));
+
+    expect(list).toEqual([dishes, bins]);
+  });
+});
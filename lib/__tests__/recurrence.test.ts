@@ -0,0 +1,80 @@
+import {
+  describeRecurrenceRule,
+  formatRecurrenceRule,
+  getNextOccurrence,
+  parseRecurrenceRule,
+  pinMonthDay,
+} from '@/lib/recurrence';
+
+// Dates are built in local time, the way the rules step through them
+
+describe('parseRecurrenceRule', () => {
+  it('reads every supported part and writes the same rule back', () => {
+    const rule = parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO;UNTIL=20251231');
+
+    expect(rule).toMatchObject({ freq: 'WEEKLY', interval: 2, byDay: ['MO', 'TH'] });
+    expect(formatRecurrenceRule(rule!)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20251231');
+  });
+
+  it('rejects rules it cannot follow', () => {
+    expect(parseRecurrenceRule('FREQ=YEARLY')).toBeNull();
+    expect(parseRecurrenceRule('INTERVAL=2')).toBeNull();
+    expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=32')).toBeNull();
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('steps to the next listed weekday, then on to the next active week', () => {
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH';
+
+    // Monday 3 March 2025
+    expect(getNextOccurrence(rule, new Date(2025, 2, 3))).toEqual(new Date(2025, 2, 6));
+    expect(getNextOccurrence(rule, new Date(2025, 2, 6))).toEqual(new Date(2025, 2, 17));
+  });
+
+  it('clamps a monthly date to the end of a shorter month', () => {
+    expect(getNextOccurrence('FREQ=MONTHLY', new Date(2025, 0, 31))).toEqual(new Date(2025, 1, 28));
+    expect(getNextOccurrence('FREQ=MONTHLY;BYMONTHDAY=30', new Date(2025, 0, 30))).toEqual(new Date(2025, 1, 28));
+  });
+
+  it('returns to the series start day after clamping', () => {
+    const seriesStart = new Date(2025, 0, 31);
+    let due = new Date(2025, 1, 28);
+    const dates: Date[] = [];
+    for (let i = 0; i < 3; i++) {
+      due = getNextOccurrence('FREQ=MONTHLY', due, undefined, seriesStart)!;
+      dates.push(due);
+    }
+
+    expect(dates).toEqual([new Date(2025, 2, 31), new Date(2025, 3, 30), new Date(2025, 4, 31)]);
+  });
+
+  it('skips occurrences before notBefore', () => {
+    const next = getNextOccurrence('FREQ=DAILY;INTERVAL=3', new Date(2025, 2, 1), new Date(2025, 2, 10, 15));
+
+    expect(next).toEqual(new Date(2025, 2, 10));
+  });
+
+  it('ends after UNTIL', () => {
+    expect(getNextOccurrence('FREQ=DAILY;UNTIL=20250301', new Date(2025, 2, 1))).toBeNull();
+  });
+});
+
+describe('pinMonthDay', () => {
+  it('writes the start day into monthly rules that leave it out', () => {
+    expect(pinMonthDay('FREQ=MONTHLY;INTERVAL=2', new Date(2025, 0, 31))).toBe('FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=31');
+  });
+
+  it('leaves other rules as they are', () => {
+    expect(pinMonthDay('FREQ=MONTHLY;BYMONTHDAY=1', new Date(2025, 0, 31))).toBe('FREQ=MONTHLY;BYMONTHDAY=1');
+    expect(pinMonthDay('FREQ=WEEKLY', new Date(2025, 0, 31))).toBe('FREQ=WEEKLY');
+    expect(pinMonthDay('not a rule', new Date(2025, 0, 31))).toBe('not a rule');
+  });
+});
+
+describe('describeRecurrenceRule', () => {
+  it('summarises the rule', () => {
+    expect(describeRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH')).toBe('Every 2 weeks on Mon, Thu');
+    expect(describeRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=15')).toBe('Every month on day 15');
+  });
+});
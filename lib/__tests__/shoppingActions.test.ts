@@ -0,0 +1,44 @@
+import { createMemoryRepository, setRepository, ShoppingItem } from '@/lib/data';
+import { recordShoppingExpense } from '@/lib/shoppingActions';
+
+const item = (id: string, changes: Partial<ShoppingItem> = {}): ShoppingItem => ({
+  id,
+  household_id: 'home',
+  name: id,
+  quantity: null,
+  category: 'other',
+  added_by: 'alex',
+  claimed_by: null,
+  purchased: true,
+  purchased_by: 'alex',
+  purchased_at: '2025-03-01T10:00:00.000Z',
+  expense_id: null,
+  created_at: '2025-03-01T09:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+  ...changes,
+});
+
+describe('recordShoppingExpense', () => {
+  it('records one expense and puts every item on it', async () => {
+    const repository = createMemoryRepository({ shoppingItems: [item('milk'), item('bread')] });
+    setRepository(repository);
+
+    const expense = await recordShoppingExpense([item('milk'), item('bread')], 9, 'USD', ['alex', 'sam'], 'alex');
+
+    expect(expense.splits.map(split => split.amount)).toEqual([4.5, 4.5]);
+    const items = await repository.shopping.listForHousehold('home');
+    expect(items.map(entry => entry.expense_id)).toEqual([expense.id, expense.id]);
+  });
+
+  it('removes the expense again when an item was put on another one meanwhile', async () => {
+    // Bread went on someone else's expense after this list was loaded
+    const repository = createMemoryRepository({ shoppingItems: [item('milk'), item('bread', { expense_id: 'other' })] });
+    setRepository(repository);
+
+    await expect(recordShoppingExpense([item('milk'), item('bread')], 9, 'USD', ['alex'], 'alex')).rejects.toThrow();
+
+    expect(await repository.expenses.listForHousehold('home')).toEqual([]);
+    const items = await repository.shopping.listForHousehold('home');
+    expect(items.map(entry => entry.expense_id)).toEqual([null, 'other']);
+  });
+});
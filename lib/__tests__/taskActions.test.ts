@@ -0,0 +1,166 @@
+import { createMemoryRepository, DataError, Household, setRepository, Task } from '@/lib/data';
+import { NETWORK_ERROR } from '@/lib/data/errors';
+import { saveTaskEdits, setChecklistItemDone, transitionTask } from '@/lib/taskActions';
+import { makeHousehold, makeMemberRow, makeTask } from './fixtures';
+
+// The actions run against the in-memory repository, which keeps checklist counts and occurrences the way
+// the database does
+
+const NOW = new Date(2025, 2, 15, 9);
+
+const setup = (tasks: Task[], changes: Partial<Household> = {}) => {
+  const repository = createMemoryRepository({
+    households: [makeHousehold('home', changes), makeHousehold('cabin', { created_by: 'sam' })],
+    members: [
+      makeMemberRow('home', 'alex', { role: 'admin' }),
+      makeMemberRow('home', 'sam'),
+      makeMemberRow('home', 'kim', { is_active: false }),
+      makeMemberRow('cabin', 'sam', { role: 'admin' }),
+      makeMemberRow('cabin', 'alex', { role: 'viewer' }),
+    ],
+    tasks,
+  });
+  setRepository(repository);
+  return repository;
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('transitionTask', () => {
+  it('schedules the next occurrence of a recurring task for the next member in the rotation', async () => {
+    const weekly = makeTask({
+      id: 'bins',
+      household_id: 'home',
+      assignee: 'alex',
+      due_date: new Date(2025, 2, 16).toISOString(),
+      recurrence_rule: 'FREQ=WEEKLY',
+      rotation: ['alex', 'kim', 'sam'],
+    });
+    setup([weekly]);
+
+    const { task, nextOccurrence } = await transitionTask(weekly, 'complete', 'alex');
+
+    expect(task.state).toBe('completed');
+    // Kim left the household, so the rotation skips them
+    expect(nextOccurrence).toMatchObject({
+      assignee: 'sam',
+      state: 'open',
+      series_id: 'bins',
+      due_date: new Date(2025, 2, 23).toISOString(),
+    });
+  });
+
+  it('keeps a monthly series on the day it started after a shorter month', async () => {
+    const first = makeTask({
+      id: 'rent',
+      household_id: 'home',
+      state: 'completed',
+      due_date: new Date(2025, 0, 31).toISOString(),
+      recurrence_rule: 'FREQ=MONTHLY',
+    });
+    const february = makeTask({
+      id: 'rent-feb',
+      household_id: 'home',
+      due_date: new Date(2025, 1, 28).toISOString(),
+      recurrence_rule: 'FREQ=MONTHLY',
+      series_id: 'rent',
+    });
+    setup([first, february]);
+
+    const { nextOccurrence } = await transitionTask(february, 'complete', 'alex');
+
+    expect(nextOccurrence?.due_date).toBe(new Date(2025, 2, 31).toISOString());
+  });
+
+  it('copies the checklist to the next occurrence, unchecked', async () => {
+    const daily = makeTask({ id: 'dishes', household_id: 'home', assignee: 'alex', recurrence_rule: 'FREQ=DAILY' });
+    const repository = setup([daily]);
+    const item = await repository.checklist.create({
+      task_id: 'dishes', household_id: 'home', title: 'Dry', assignee: null, position: 0,
+    });
+    await repository.checklist.update(item.id, { done: true });
+
+    const { nextOccurrence } = await transitionTask((await repository.tasks.get('dishes'))!, 'complete', 'alex');
+    const copied = await repository.checklist.listForTask(nextOccurrence!.id);
+
+    expect(copied.map(({ title, done }) => ({ title, done }))).toEqual([{ title: 'Dry', done: false }]);
+    expect(nextOccurrence).toMatchObject({ checklist_total: 1, checklist_done: 0 });
+  });
+
+  it('completes without the checklist when the store cannot be reached', async () => {
+    const daily = makeTask({ id: 'dishes', household_id: 'home', assignee: 'alex', recurrence_rule: 'FREQ=DAILY' });
+    const repository = setup([daily]);
+    await repository.checklist.create({ task_id: 'dishes', household_id: 'home', title: 'Dry', assignee: null, position: 0 });
+    repository.checklist.listForTask = async () => {
+      throw new DataError('Network request failed', NETWORK_ERROR);
+    };
+
+    const result = await transitionTask((await repository.tasks.get('dishes'))!, 'complete', 'alex');
+
+    expect(result.task.state).toBe('completed');
+    expect(result.checklistSkipped).toBe(true);
+    expect(result.nextOccurrence).toMatchObject({ series_id: 'dishes', checklist_total: 0 });
+  });
+});
+
+describe('setChecklistItemDone', () => {
+  it('completes the task with its last item when the household auto-completes', async () => {
+    const repository = setup([makeTask({ id: 'laundry', household_id: 'home', assignee: 'sam' })], {
+      auto_complete_tasks: true,
+    });
+    const item = await repository.checklist.create({
+      task_id: 'laundry', household_id: 'home', title: 'Fold', assignee: null, position: 0,
+    });
+    const home = await repository.households.get('home');
+
+    const result = await setChecklistItemDone((await repository.tasks.get('laundry'))!, item, true, home, 'sam');
+
+    expect(result.autoCompleted).toBe(true);
+    expect(result.task).toMatchObject({ state: 'completed', completed_by: 'sam' });
+  });
+});
+
+describe('saveTaskEdits', () => {
+  it('rejects an assignee who is not an active member', async () => {
+    const task = makeTask({ id: 'mow', household_id: 'home' });
+    setup([task]);
+
+    await expect(saveTaskEdits(task, { assignee: 'kim' }, 'alex'))
+      .rejects.toThrow("The assignee isn't a member of Household home");
+  });
+
+  it('rejects moving a task to a household the user can only view', async () => {
+    const task = makeTask({ id: 'mow', household_id: 'home' });
+    setup([task]);
+
+    await expect(saveTaskEdits(task, { household_id: 'cabin' }, 'alex'))
+      .rejects.toThrow("You can't add tasks to Household cabin");
+  });
+
+  it('saves edits that pass the checks', async () => {
+    const task = makeTask({ id: 'mow', household_id: 'home' });
+    setup([task]);
+
+    expect(await saveTaskEdits(task, { assignee: 'sam', title: 'Mow the lawn' }, 'alex'))
+      .toMatchObject({ assignee: 'sam', title: 'Mow the lawn' });
+  });
+
+  it('records a move in the history of both households', async () => {
+    const task = makeTask({ id: 'mow', household_id: 'home', assignee: null });
+    const repository = setup([task]);
+
+    await saveTaskEdits(task, { household_id: 'cabin' }, 'sam');
+
+    for (const householdId of ['home', 'cabin']) {
+      expect(await repository.activity.listForHousehold(householdId, 10)).toEqual([
+        expect.objectContaining({ task_id: 'mow', action: 'edited', details: { fields: ['household_id'] } }),
+      ]);
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { ActivityAction, TaskActivity } from '@/lib/data';
+
+// How task history entries read in the timeline and the household feed
+
+// Friendlier names for the edited columns
+const FIELD_LABELS: Record<string, string> = {
+  household_id: 'household',
+  title: 'title',
+  details: 'details',
+  due_date: 'due date',
+  due_all_day: 'due time',
+  priority: 'priority',
+  points: 'effort',
+  recurrence_rule: 'repeat',
+  rotation: 'rotation',
+  requires_proof: 'photo requirement',
+  requires_review: 'approval requirement',
+  tag_ids: 'tags',
+};
+
+const listFields = (fields: string[]) => {
+  const labels = [...new Set(fields.map(field => FIELD_LABELS[field] || field))];
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+};
+
+// e.g. "Sam completed the task", or with `includeTitle` "Sam completed "Dishes""
+export const describeActivity = (
+  activity: TaskActivity,
+  getName: (userId: string | null) => string,
+  includeTitle = false
+) => {
+  const actor = getName(activity.actor_id);
+  const task = includeTitle ? `"${activity.task_title}"` : 'the task';
+
+  switch (activity.action) {
+    case 'created':
+      return activity.details.assignee
+        ? `${actor} created ${task} for ${getName(activity.details.assignee)}`
+        : `${actor} created ${task}`;
+    case 'edited':
+      return activity.details.fields?.length
+        ? `${actor} changed the ${listFields(activity.details.fields)} of ${task}`
+        : `${actor} edited ${task}`;
+    case 'assigned':
+      return activity.details.assignee
+        ? `${actor} assigned ${task} to ${getName(activity.details.assignee)}`
+        : `${actor} unassigned ${task}`;
+    case 'submitted': return `${actor} submitted ${task} for review`;
+    case 'approved': return `${actor} approved ${task}`;
+    case 'rejected': return `${actor} sent ${task} back`;
+    case 'completed': return `${actor} completed ${task}`;
+    case 'reopened': return `${actor} reopened ${task}`;
+    case 'deleted': return `${actor} deleted ${task}`;
+  }
+};
+
+export const getActivityIcon = (action: ActivityAction) => {
+  switch (action) {
+    case 'created': return 'add-circle';
+    case 'edited': return 'create';
+    case 'assigned': return 'person';
+    case 'submitted': return 'hourglass';
+    case 'approved': return 'checkmark-done-circle';
+    case 'rejected': return 'arrow-undo-circle';
+    case 'completed': return 'checkmark-circle';
+    case 'reopened': return 'refresh-circle';
+    case 'deleted': return 'trash';
+  }
+};
+
+export const getActivityColor = (action: ActivityAction, isDark = false) => {
+  switch (action) {
+    case 'completed':
+    case 'approved':
+      return '#34C759';
+    case 'submitted': return isDark ? '#5E5CE6' : '#5856D6';
+    case 'rejected':
+    case 'deleted':
+      return isDark ? '#FF453A' : '#FF3B30';
+    default: return isDark ? '#5AC8FA' : '#4A90E2';
+  }
+};
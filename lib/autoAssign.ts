@@ -0,0 +1,97 @@
+import { Member, Task } from '@/lib/data';
+
+// Picks who should get a new task: the available member with the lightest load.
+// Load adds up what a member still has to do and what they've done lately, so someone who just
+// finished a big job isn't handed the next one straight away. Nothing here reads the clock or the
+// network, so suggestions can be checked against fixed data.
+
+// How far back completed points count towards a member's load
+export const RECENT_DAYS = 14;
+
+// Weights of the load components
+const OPEN_TASK_WEIGHT = 1;
+const OPEN_POINTS_WEIGHT = 1;
+// Work already done weighs less than work still waiting
+const RECENT_POINTS_WEIGHT = 0.5;
+
+export interface AssignmentLoad {
+  userId: string;
+  openTasks: number;
+  openPoints: number;
+  recentPoints: number;
+  load: number;
+}
+
+export interface AssignmentSuggestion {
+  userId: string;
+  // Why this member was picked, for showing to the user
+  reason: string;
+  // Every available member's load, lightest first
+  loads: AssignmentLoad[];
+}
+
+const displayName = (member: Member) => member.name || member.email;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const getAssignmentLoad = (tasks: Task[], userId: string, now: Date = new Date()): AssignmentLoad => {
+  const since = now.getTime() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+  const open = tasks.filter(task => task.assignee === userId && task.state === 'open');
+  const recent = tasks.filter(task =>
+    task.state === 'completed'
+    && task.completed_by === userId
+    && task.completed_at !== null
+    && new Date(task.completed_at).getTime() >= since
+  );
+
+  const openPoints = open.reduce((sum, task) => sum + task.points, 0);
+  const recentPoints = recent.reduce((sum, task) => sum + task.points, 0);
+  return {
+    userId,
+    openTasks: open.length,
+    openPoints,
+    recentPoints,
+    load: OPEN_TASK_WEIGHT * open.length + OPEN_POINTS_WEIGHT * openPoints + RECENT_POINTS_WEIGHT * recentPoints,
+  };
+};
+
+// Lightest load first; ties go to whoever has less waiting, then by name so the pick is stable
+const compareLoads = (members: Member[]) => (a: AssignmentLoad, b: AssignmentLoad) => {
+  if (a.load !== b.load) return a.load - b.load;
+  if (a.openPoints !== b.openPoints) return a.openPoints - b.openPoints;
+  const nameOf = (userId: string) => {
+    const member = members.find(m => m.user_id === userId);
+    return member ? displayName(member) : userId;
+  };
+  return nameOf(a.userId).localeCompare(nameOf(b.userId));
+};
+
+// The member a new task should go to, or null when nobody is available
+export const suggestAssignee = (
+  tasks: Task[],
+  members: Member[],
+  now: Date = new Date()
+): AssignmentSuggestion | null => {
+  const available = members.filter(member => member.is_active && member.is_available);
+  if (available.length === 0) return null;
+
+  const loads = available
+    .map(member => getAssignmentLoad(tasks, member.user_id, now))
+    .sort(compareLoads(available));
+  const pick = loads[0];
+  const member = available.find(m => m.user_id === pick.userId);
+  if (!member) return null;
+
+  const details = `${plural(pick.openTasks, 'open task')} (${plural(pick.openPoints, 'pt')}) and `
+    + `${plural(pick.recentPoints, 'pt')} done in the last ${RECENT_DAYS} days`;
+  const skipped = members.length - available.length;
+  const reason = available.length === 1
+    ? `${displayName(member)} is the only member available`
+    : `${displayName(member)} has the lightest load: ${details}`;
+
+  return {
+    userId: pick.userId,
+    reason: skipped > 0 ? `${reason} (${plural(skipped, 'member')} away)` : reason,
+    loads,
+  };
+};
@@ -0,0 +1,170 @@
+import { DataError, Expense, ExpensePayment, ExpenseSplit, SplitMode } from '@/lib/data';
+
+// Splitting expenses and working out who owes whom.
+// Money is counted in whole cents so rounding never loses or invents any, and nothing here reads the
+// clock or the network, so the results can be checked against fixed data.
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Currencies with two decimal places, which the cent arithmetic below assumes
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'SEK', 'NZD'];
+
+export const SPLIT_MODES: { value: SplitMode; label: string }[] = [
+  { value: 'equal', label: 'Equally' },
+  { value: 'shares', label: 'By shares' },
+  { value: 'exact', label: 'Exact amounts' },
+];
+
+// One participant as entered in the expense form
+export interface SplitInput {
+  userId: string;
+  // The weight when splitting by shares, the amount when splitting exactly; ignored when splitting equally
+  value: number;
+}
+
+// A suggested payment that moves the balances towards zero
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export const toCents = (amount: number) => Math.round(amount * 100);
+
+export const fromCents = (cents: number) => cents / 100;
+
+// Share `cents` out in proportion to `weights`. The cents left over after rounding down go to
+// the largest remainders, earliest participant first, so the parts always add up to the whole.
+const allocate = (cents: number, weights: number[]) => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map(weight => cents * weight / totalWeight);
+  const parts = exact.map(Math.floor);
+  const leftover = cents - parts.reduce((sum, part) => sum + part, 0);
+
+  exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .slice(0, leftover)
+    .forEach(({ index }) => {
+      parts[index] += 1;
+    });
+  return parts;
+};
+
+// What each participant owes towards `amount`. Throws a DataError when the inputs can't be split.
+export const splitExpense = (amount: number, mode: SplitMode, inputs: SplitInput[]): ExpenseSplit[] => {
+  const cents = toCents(amount);
+  if (cents <= 0) throw new DataError('Enter an amount more than zero');
+  if (inputs.length === 0) throw new DataError('Choose at least one person to split with');
+  if (new Set(inputs.map(input => input.userId)).size !== inputs.length) {
+    throw new DataError('Each person can only be in the split once');
+  }
+
+  switch (mode) {
+    case 'equal': {
+      const parts = allocate(cents, inputs.map(() => 1));
+      return inputs.map((input, index) => ({ user_id: input.userId, share: 1, amount: fromCents(parts[index]) }));
+    }
+    case 'shares': {
+      if (inputs.some(input => !(input.value > 0))) throw new DataError('Every share must be more than zero');
+      const parts = allocate(cents, inputs.map(input => input.value));
+      return inputs.map((input, index) => ({
+        user_id: input.userId,
+        share: input.value,
+        amount: fromCents(parts[index]),
+      }));
+    }
+    case 'exact': {
+      if (inputs.some(input => !(input.value >= 0))) throw new DataError('Amounts can\'t be negative');
+      const parts = inputs.map(input => toCents(input.value));
+      const total = parts.reduce((sum, part) => sum + part, 0);
+      if (total !== cents) {
+        throw new DataError(`The amounts add up to ${fromCents(total).toFixed(2)}, not ${fromCents(cents).toFixed(2)}`);
+      }
+      return inputs.map((input, index) => ({
+        user_id: input.userId,
+        share: fromCents(parts[index]),
+        amount: fromCents(parts[index]),
+      }));
+    }
+  }
+};
+
+// Every currency that appears in the expenses or payments, most used first
+export const getCurrencies = (expenses: Expense[], payments: ExpensePayment[]) => {
+  const counts = new Map<string, number>();
+  [...expenses, ...payments].forEach(entry => counts.set(entry.currency, (counts.get(entry.currency) || 0) + 1));
+  return [...counts.keys()].sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0) || a.localeCompare(b));
+};
+
+// Net position of each member in one currency: positive means they're owed money, negative that they owe it.
+// Members with nothing outstanding are left out.
+export const getBalances = (
+  expenses: Expense[],
+  payments: ExpensePayment[],
+  currency: string
+): Record<string, number> => {
+  const cents: Record<string, number> = {};
+  const add = (userId: string, value: number) => {
+    cents[userId] = (cents[userId] || 0) + value;
+  };
+
+  expenses
+    .filter(expense => expense.currency === currency)
+    .forEach(expense => {
+      add(expense.paid_by, toCents(expense.amount));
+      expense.splits.forEach(split => add(split.user_id, -toCents(split.amount)));
+    });
+
+  // Paying someone back raises the payer's balance and lowers the receiver's
+  payments
+    .filter(payment => payment.currency === currency)
+    .forEach(payment => {
+      add(payment.from_user, toCents(payment.amount));
+      add(payment.to_user, -toCents(payment.amount));
+    });
+
+  return Object.fromEntries(
+    Object.entries(cents)
+      .filter(([, value]) => value !== 0)
+      .map(([userId, value]) => [userId, fromCents(value)])
+  );
+};
+
+// The payments that clear every balance. Debtors and creditors are paired off largest first, and each
+// payment squares at least one of them, so n members settle in at most n - 1 payments.
+export const settleUp = (balances: Record<string, number>): Transfer[] => {
+  const byAmount = (a: { userId: string; cents: number }, b: { userId: string; cents: number }) =>
+    b.cents - a.cents || a.userId.localeCompare(b.userId);
+  const entries = Object.entries(balances).map(([userId, amount]) => ({ userId, cents: toCents(amount) }));
+  const creditors = entries.filter(entry => entry.cents > 0).sort(byAmount);
+  const debtors = entries
+    .filter(entry => entry.cents < 0)
+    .map(entry => ({ ...entry, cents: -entry.cents }))
+    .sort(byAmount);
+
+  const transfers: Transfer[] = [];
+  let creditorIndex = 0;
+  let debtorIndex = 0;
+  while (creditorIndex < creditors.length && debtorIndex < debtors.length) {
+    const creditor = creditors[creditorIndex];
+    const debtor = debtors[debtorIndex];
+    const cents = Math.min(creditor.cents, debtor.cents);
+
+    transfers.push({ from: debtor.userId, to: creditor.userId, amount: fromCents(cents) });
+    creditor.cents -= cents;
+    debtor.cents -= cents;
+    if (creditor.cents === 0) creditorIndex++;
+    if (debtor.cents === 0) debtorIndex++;
+  }
+  return transfers;
+};
+
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return amount.toLocaleString('en-US', { style: 'currency', currency });
+  } catch {
+    // Unknown currency codes
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
@@ -0,0 +1,80 @@
+import { getBillShares, getDueInstances } from '@/lib/bills';
+import { Bill, BillInstance, DataError, getRepository, isUniqueViolation } from '@/lib/data';
+import { startOfDay } from '@/lib/dueDates';
+import { can } from '@/lib/permissions';
+import { getNextOccurrence } from '@/lib/recurrence';
+
+// Create the instances of a household's bills that have come due and move each bill on to its next due date.
+// Every device does this when bills are shown, so instances another device already created are skipped.
+export const generateDueBills = async (householdId: string, now: Date = new Date()) => {
+  const repository = getRepository();
+  const bills = (await repository.bills.listForHousehold(householdId)).filter(bill => bill.is_active);
+  if (bills.length === 0) return 0;
+
+  // Members who have left don't get a share of new bills
+  const activeIds = (await repository.members.listActive(householdId)).map(member => member.user_id);
+
+  let created = 0;
+  for (const bill of bills) {
+    const participants = bill.participants.filter(userId => activeIds.includes(userId));
+    const { instances, nextDueDate } = getDueInstances(
+      { ...bill, participants: participants.length > 0 ? participants : bill.participants },
+      now
+    );
+    if (instances.length === 0) continue;
+
+    for (const instance of instances) {
+      try {
+        await repository.bills.createInstance(instance);
+        created++;
+      } catch (error) {
+        if (!isUniqueViolation(error)) throw error;
+      }
+    }
+    await repository.bills.update(
+      bill.id,
+      nextDueDate ? { next_due_date: nextDueDate.toISOString() } : { is_active: false }
+    );
+  }
+  return created;
+};
+
+// The day each household's bills were last generated on this device
+const generatedOn = new Map<string, number>();
+
+// Generate due bills in the user's households where they may manage bills, at most once a day each, so
+// screens can ask whenever they're shown without writing every time. Resolves to the instances created.
+export const generateDueBillsForMember = async (userId: string, householdIds: string[], now: Date = new Date()) => {
+  const repository = getRepository();
+  const today = startOfDay(now).getTime();
+
+  let created = 0;
+  for (const householdId of householdIds) {
+    if (generatedOn.get(householdId) === today) continue;
+    const [household, member] = await Promise.all([
+      repository.households.get(householdId),
+      repository.members.findActive(householdId, userId),
+    ]);
+    if (!can(member, 'manage_bills', household)) continue;
+
+    created += await generateDueBills(householdId, now);
+    generatedOn.set(householdId, today);
+  }
+  return created;
+};
+
+// Fill in what an instance actually came to and share it equally again, keeping who has already paid
+export const setBillAmount = (instance: BillInstance, amount: number) => {
+  const shares = getBillShares(amount, instance.shares.map(share => share.user_id));
+  return getRepository().bills.setInstanceAmount(instance.id, amount, shares);
+};
+
+// Start a stopped bill again. Due dates missed while it was stopped are skipped rather than created.
+export const resumeBill = (bill: Bill, now: Date = new Date()) => {
+  const due = new Date(bill.next_due_date);
+  const next = due.getTime() < startOfDay(now).getTime()
+    ? getNextOccurrence(bill.recurrence_rule, due, now)
+    : due;
+  if (!next) throw new DataError('This bill has no more due dates');
+  return getRepository().bills.update(bill.id, { is_active: true, next_due_date: next.toISOString() });
+};
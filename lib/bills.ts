@@ -0,0 +1,72 @@
+import { formatMoney, splitExpense } from '@/lib/balances';
+import { Bill, BillInstance, BillShare, NewBillInstance } from '@/lib/data';
+import { DueState, getDueState, startOfDay } from '@/lib/dueDates';
+import { getNextOccurrence, RecurrencePreset } from '@/lib/recurrence';
+
+// Recurring bills: which instances are due to be created and how each one is shared.
+// Bills fall due on a day rather than at a time, like all-day chores.
+
+// Instances are created this many days before they're due, so they turn up in My Tasks in time
+export const BILL_LEAD_DAYS = 7;
+
+export const BILL_REPEAT_OPTIONS: { value: RecurrencePreset; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'none', label: 'Once' },
+  { value: 'custom', label: 'Custom' },
+];
+
+// Most instances created in one go for a bill nobody has opened in a while
+const MAX_CATCH_UP = 12;
+
+// Each participant's equal share of `amount`. Shares stay unknown until a variable bill's amount is in.
+export const getBillShares = (amount: number | null, participants: string[]): BillShare[] => {
+  if (amount === null) return participants.map(userId => ({ user_id: userId, amount: null, paid_at: null }));
+  return splitExpense(amount, 'equal', participants.map(userId => ({ userId, value: 1 })))
+    .map(split => ({ user_id: split.user_id, amount: split.amount, paid_at: null }));
+};
+
+// The instances due within the lead time that still need creating, and the due date the bill moves on to.
+// `nextDueDate` is null once the bill's rule has ended, or straight away for a one-off bill.
+export const getDueInstances = (bill: Bill, now: Date = new Date()) => {
+  const horizon = startOfDay(now);
+  horizon.setDate(horizon.getDate() + BILL_LEAD_DAYS + 1);
+
+  const instances: NewBillInstance[] = [];
+  let due: Date | null = new Date(bill.next_due_date);
+  while (due && due.getTime() < horizon.getTime() && instances.length < MAX_CATCH_UP) {
+    instances.push({
+      bill_id: bill.id,
+      household_id: bill.household_id,
+      name: bill.name,
+      due_date: due.toISOString(),
+      amount: bill.amount,
+      currency: bill.currency,
+      shares: getBillShares(bill.amount, bill.participants),
+    });
+    due = getNextOccurrence(bill.recurrence_rule, due);
+  }
+  return { instances, nextDueDate: due };
+};
+
+export const getShare = (instance: BillInstance, userId: string) =>
+  instance.shares.find(share => share.user_id === userId) || null;
+
+// Whether `userId` still has to pay their part of the instance
+export const hasUnpaidShare = (instance: BillInstance, userId: string) => {
+  const share = getShare(instance, userId);
+  return !!share && share.paid_at === null;
+};
+
+export const getPaidCount = (instance: BillInstance) =>
+  instance.shares.filter(share => share.paid_at !== null).length;
+
+// Due state of the user's share, on the same scale as chores; paid shares are never late
+export const getShareDueState = (instance: BillInstance, userId: string, now: Date = new Date()): DueState =>
+  getDueState(
+    { due_date: instance.due_date, due_all_day: true, state: hasUnpaidShare(instance, userId) ? 'open' : 'completed' },
+    now
+  );
+
+export const formatShareAmount = (share: BillShare, currency: string) =>
+  share.amount === null ? 'Amount to come' : formatMoney(share.amount, currency);
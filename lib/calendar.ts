@@ -0,0 +1,123 @@
+import { Task } from '@/lib/data';
+import { startOfDay } from '@/lib/dueDates';
+import { getNextOccurrence } from '@/lib/recurrence';
+
+// Calendar layout for tasks: which days are shown, which tasks land on them and how they're colored.
+// Weeks start on Monday, like the recurrence rules.
+
+export type CalendarMode = 'month' | 'week';
+
+// A task as it appears on one day. Occurrences of a recurring task that don't exist yet are
+// projected from its rule so the coming weeks can be planned; they can't be moved.
+export interface CalendarEntry {
+  key: string;
+  task: Task;
+  date: Date;
+  projected: boolean;
+}
+
+// Most occurrences projected per task, so a daily chore can't flood the month
+const MAX_PROJECTED = 42;
+
+const ASSIGNEE_COLORS = ['#4A90E2', '#FF9500', '#34C759', '#AF52DE', '#FF2D55', '#5AC8FA', '#FFCC00', '#A2845E'];
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Local calendar day, e.g. "2024-03-09"
+export const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isSameDay = (a: Date, b: Date) => toDayKey(a) === toDayKey(b);
+
+export const startOfWeek = (date: Date) => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+// Every day on screen: six full weeks covering the month, or the seven days of the week
+export const getCalendarDays = (mode: CalendarMode, anchor: Date): Date[] => {
+  const first = mode === 'month'
+    ? startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+    : startOfWeek(anchor);
+  return Array.from({ length: mode === 'month' ? 42 : 7 }, (_, index) => addDays(first, index));
+};
+
+// The anchor one month or week before or after
+export const shiftAnchor = (mode: CalendarMode, anchor: Date, direction: 1 | -1) => {
+  if (mode === 'week') return addDays(anchor, 7 * direction);
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+};
+
+export const formatCalendarTitle = (mode: CalendarMode, anchor: Date) => {
+  if (mode === 'month') return anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  const days = getCalendarDays('week', anchor);
+  const first = days[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const last = days[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${first} – ${last}`;
+};
+
+// Tasks placed on the days between `start` and `end`, inclusive, grouped by day key.
+// Only open recurring tasks are projected forward: completed ones already have their next occurrence.
+// `seriesStarts` holds the first due date of each series (see loadSeriesStarts), so projections land where
+// the next occurrences will actually be created.
+export const getCalendarEntries = (
+  tasks: Task[],
+  start: Date,
+  end: Date,
+  seriesStarts: Record<string, string> = {}
+) => {
+  const from = startOfDay(start).getTime();
+  const until = addDays(startOfDay(end), 1).getTime();
+  const byDay = new Map<string, CalendarEntry[]>();
+  const add = (entry: CalendarEntry) => {
+    const key = toDayKey(entry.date);
+    byDay.set(key, [...(byDay.get(key) || []), entry]);
+  };
+
+  for (const task of tasks) {
+    if (!task.due_date) continue;
+
+    const due = new Date(task.due_date);
+    if (due.getTime() >= from && due.getTime() < until) {
+      add({ key: task.id, task, date: due, projected: false });
+    }
+    if (!task.recurrence_rule || task.state !== 'open') continue;
+
+    const seriesStart = task.series_id && seriesStarts[task.series_id] ? new Date(seriesStarts[task.series_id]) : due;
+    let next = getNextOccurrence(task.recurrence_rule, due, undefined, seriesStart);
+    for (let count = 0; next && next.getTime() < until && count < MAX_PROJECTED; count++) {
+      if (next.getTime() >= from) {
+        add({ key: `${task.id}-${next.getTime()}`, task, date: next, projected: true });
+      }
+      next = getNextOccurrence(task.recurrence_rule, next, undefined, seriesStart);
+    }
+  }
+
+  // Timed tasks in time order, after the all-day ones
+  byDay.forEach(entries => entries.sort((a, b) =>
+    Number(!a.task.due_all_day) - Number(!b.task.due_all_day) || a.date.getTime() - b.date.getTime()
+  ));
+  return byDay;
+};
+
+// The same member always gets the same color, whichever household or screen they're seen in
+export const getAssigneeColor = (userId: string | null) => {
+  if (!userId) return '#8E8E93';
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return ASSIGNEE_COLORS[Math.abs(hash) % ASSIGNEE_COLORS.length];
+};
+
+// The task's due date moved to `day`, keeping the time of timed tasks
+export const moveDueDate = (task: Pick<Task, 'due_date' | 'due_all_day'>, day: Date) => {
+  const moved = startOfDay(day);
+  if (task.due_date && !task.due_all_day) {
+    const due = new Date(task.due_date);
+    moved.setHours(due.getHours(), due.getMinutes(), 0, 0);
+  }
+  return moved.toISOString();
+};
@@ -0,0 +1,35 @@
+// Errors raised by repository implementations.
+// `code` carries the Postgres error code when there is one (e.g. '23505' for unique violations).
+export class DataError extends Error {
+  code: string | null;
+
+  constructor(message: string, code: string | null = null) {
+    super(message);
+    this.name = 'DataError';
+    this.code = code;
+  }
+}
+
+export const UNIQUE_VIOLATION = '23505';
+
+// Row level security rejected the write, or hid the row from it
+export const PERMISSION_DENIED = '42501';
+
+// Raised when a conditional write finds the row was changed since it was read
+export const STALE_WRITE = 'stale_write';
+
+export const isUniqueViolation = (error: unknown) =>
+  error instanceof DataError && error.code === UNIQUE_VIOLATION;
+
+export const isStaleWrite = (error: unknown) =>
+  error instanceof DataError && error.code === STALE_WRITE;
+
+// Raised when the request never reached the database
+export const NETWORK_ERROR = 'network_error';
+
+export const isNetworkError = (error: unknown) =>
+  (error instanceof DataError && error.code === NETWORK_ERROR) || error instanceof TypeError;
+
+// Human readable message for alerts
+export const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'An unexpected error occurred';
@@ -0,0 +1,48 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { randomUUID } from 'expo-crypto';
+import { supabase } from '@/lib/supabaseClient';
+import { netInfoConnectivity } from './netInfoConnectivity';
+import { createOfflineRepository, OfflineRepository, SyncController } from './offlineRepository';
+import { DataRepository } from './repository';
+import { createSupabaseRepository } from './supabaseRepository';
+
+export * from './types';
+export * from './repository';
+export { DataError, errorMessage, isNetworkError, isStaleWrite, isUniqueViolation } from './errors';
+export { createSupabaseRepository } from './supabaseRepository';
+export { createMemoryRepository } from './memoryRepository';
+export { createOfflineRepository } from './offlineRepository';
+export { getSearchTerms, matchesTaskQuery } from './taskQuery';
+export type {
+  Connectivity,
+  KeyValueStorage,
+  OfflineRepository,
+  SyncConflict,
+  SyncController,
+  SyncStatus
+} from './offlineRepository';
+
+let repository: DataRepository | null = null;
+
+// The repository screens read from. Defaults to Supabase behind the offline cache.
+export const getRepository = (): DataRepository => {
+  if (!repository) {
+    repository = createOfflineRepository(createSupabaseRepository(supabase), {
+      storage: AsyncStorage,
+      connectivity: netInfoConnectivity,
+      generateId: randomUUID,
+    });
+  }
+  return repository;
+};
+
+// Swap the backing store, e.g. for an in-memory repository in tests
+export const setRepository = (next: DataRepository) => {
+  repository = next;
+};
+
+// Sync state of the offline cache, or null when the current repository works online only
+export const getSyncController = (): SyncController | null => {
+  const current = getRepository();
+  return 'sync' in current ? (current as OfflineRepository).sync : null;
+};
@@ -0,0 +1,1029 @@
+import { DataError, STALE_WRITE, UNIQUE_VIOLATION } from './errors';
+import { DataRepository } from './repository';
+import { matchesTaskQuery, pageTasks } from './taskQuery';
+import {
+  Bill,
+  BillInstance,
+  ChecklistItem,
+  Expense,
+  ExpensePayment,
+  Household,
+  HouseholdChange,
+  Invitation,
+  Member,
+  MemberRow,
+  NotificationPreferences,
+  SavedTaskView,
+  ShoppingItem,
+  Task,
+  TaskActivity,
+  TaskAttachment,
+  TaskComment,
+  TaskTag,
+  UserProfile
+} from './types';
+
+export interface MemoryState {
+  users: UserProfile[];
+  households: Household[];
+  members: MemberRow[];
+  tasks: Task[];
+  tags: TaskTag[];
+  checklistItems: ChecklistItem[];
+  comments: TaskComment[];
+  attachments: TaskAttachment[];
+  activity: TaskActivity[];
+  shoppingItems: ShoppingItem[];
+  expenses: Expense[];
+  payments: ExpensePayment[];
+  bills: Bill[];
+  billInstances: BillInstance[];
+  invitations: Invitation[];
+  notificationPreferences: NotificationPreferences[];
+  savedViews: SavedTaskView[];
+}
+
+// In-memory repository for tests and local development.
+// Mirrors the constraints the Supabase schema enforces that screens rely on.
+export const createMemoryRepository = (seed: Partial<MemoryState> = {}): DataRepository & { state: MemoryState } => {
+  const state: MemoryState = {
+    users: [...(seed.users || [])],
+    households: [...(seed.households || [])],
+    members: [...(seed.members || [])],
+    tasks: [...(seed.tasks || [])],
+    tags: [...(seed.tags || [])],
+    checklistItems: [...(seed.checklistItems || [])],
+    comments: [...(seed.comments || [])],
+    attachments: [...(seed.attachments || [])],
+    activity: [...(seed.activity || [])],
+    shoppingItems: [...(seed.shoppingItems || [])],
+    expenses: [...(seed.expenses || [])],
+    payments: [...(seed.payments || [])],
+    bills: [...(seed.bills || [])],
+    billInstances: [...(seed.billInstances || [])],
+    invitations: [...(seed.invitations || [])],
+    notificationPreferences: [...(seed.notificationPreferences || [])],
+    savedViews: [...(seed.savedViews || [])],
+  };
+
+  let nextId = 1;
+  const generateId = () => `memory-${nextId++}`;
+  const now = () => new Date().toISOString();
+  const byNewest = <T extends { created_at: string }>(a: T, b: T) => b.created_at.localeCompare(a.created_at);
+
+  // Realtime subscribers, each watching a set of households
+  const listeners = new Set<{ householdIds: string[]; onChange: (change: HouseholdChange) => void }>();
+  const emit = (change: HouseholdChange) => {
+    const householdId = change.record?.household_id ?? change.old?.household_id;
+    listeners.forEach(listener => {
+      if (householdId && listener.householdIds.includes(householdId)) listener.onChange(change);
+    });
+  };
+
+  const toMember = (row: MemberRow): Member => {
+    const user = state.users.find(u => u.id === row.user_id);
+    return {
+      ...row,
+      email: user?.email || 'Unknown',
+      name: row.name || user?.email || null,
+      avatar_url: user?.avatar_url || null,
+    };
+  };
+
+  const requireMember = (householdId: string, userId: string) => {
+    const row = state.members.find(m => m.household_id === householdId && m.user_id === userId && m.is_active);
+    if (!row) throw new DataError('Member not found');
+    return row;
+  };
+
+  const requireTask = (id: string) => {
+    const task = state.tasks.find(t => t.id === id);
+    if (!task) throw new DataError('Task not found');
+    return task;
+  };
+
+  // Task fields whose changes are logged as edits, as in the schema's log_task_activity trigger
+  const EDITED_FIELDS: (keyof Task)[] = [
+    'household_id',
+    'title',
+    'details',
+    'due_date',
+    'due_all_day',
+    'priority',
+    'points',
+    'recurrence_rule',
+    'rotation',
+    'requires_proof',
+    'requires_review',
+    'tag_ids',
+  ];
+
+  const logActivity = (task: Task, action: TaskActivity['action'], details: TaskActivity['details'] = {}) => {
+    state.activity.push({
+      id: generateId(),
+      household_id: task.household_id,
+      task_id: task.id,
+      task_title: task.title,
+      actor_id: null,
+      action,
+      details,
+      created_at: now(),
+    });
+  };
+
+  const logTaskUpdate = (old: Task, updated: Task) => {
+    if (updated.state !== old.state) {
+      if (updated.state === 'pending_review') logActivity(updated, 'submitted');
+      else if (old.state === 'pending_review' && updated.state === 'completed') logActivity(updated, 'approved');
+      else if (old.state === 'pending_review') logActivity(updated, 'rejected', { reason: updated.review_reason ?? '' });
+      else if (updated.state === 'completed') logActivity(updated, 'completed');
+      else logActivity(updated, 'reopened');
+    }
+    if (updated.assignee !== old.assignee) {
+      logActivity(updated, 'assigned', { assignee: updated.assignee });
+    }
+    const fields = EDITED_FIELDS.filter(field => JSON.stringify(updated[field]) !== JSON.stringify(old[field]));
+    if (fields.length > 0) logActivity(updated, 'edited', { fields });
+    if (fields.length > 0 && updated.household_id !== old.household_id) {
+      logActivity({ ...updated, household_id: old.household_id }, 'edited', { fields });
+    }
+  };
+
+  // Same rules as the schema's check_task_state and check_task_proof triggers
+  const checkStateChange = (old: Task, updated: Task) => {
+    if (updated.state === old.state) return;
+    const allowed = [
+      'open>completed',
+      'open>pending_review',
+      'pending_review>completed',
+      'pending_review>open',
+      'completed>open',
+    ];
+    if (!allowed.includes(`${old.state}>${updated.state}`)) {
+      throw new DataError(`A task can't go from ${old.state} to ${updated.state}`);
+    }
+
+    const household = state.households.find(h => h.id === updated.household_id);
+    if (old.state === 'open' && updated.state === 'completed'
+      && (updated.requires_review || household?.require_task_review)) {
+      throw new DataError('This task needs to be approved before it counts as done');
+    }
+    if (old.state === 'pending_review' && (!updated.reviewed_by || updated.reviewed_by === old.submitted_by)) {
+      throw new DataError('Someone else has to review this task');
+    }
+    if (old.state === 'pending_review' && updated.state === 'open' && !updated.review_reason?.trim()) {
+      throw new DataError('Give a reason for sending the task back');
+    }
+    if (old.state === 'open' && updated.requires_proof
+      && !state.attachments.some(attachment => attachment.task_id === updated.id)) {
+      throw new DataError('Attach a photo before completing this task');
+    }
+  };
+
+  const isActiveMember = (householdId: string, userId: string) =>
+    state.members.some(m => m.household_id === householdId && m.user_id === userId && m.is_active);
+
+  // Same rules as the schema's check_task_assignment trigger: a new assignee, or the assignee of a
+  // moved task, has to be in the task's household, and a moved task only keeps that household's rotation
+  const checkAssignment = (old: Task, updated: Task) => {
+    const moved = updated.household_id !== old.household_id;
+    if (moved) {
+      if (!state.households.some(h => h.id === updated.household_id)) throw new DataError('Household not found');
+      updated.rotation = updated.rotation.filter(userId => isActiveMember(updated.household_id, userId));
+    }
+    if ((moved || updated.assignee !== old.assignee)
+      && updated.assignee && !isActiveMember(updated.household_id, updated.assignee)) {
+      throw new DataError('The assignee isn\'t a member of this household');
+    }
+  };
+
+  // Same as the schema's check_task_tags trigger: a task only keeps tags of its own household
+  const keepHouseholdTags = (task: Task) => task.tag_ids.filter(tagId =>
+    state.tags.some(tag => tag.id === tagId && tag.household_id === task.household_id));
+
+  // Names are unique within a household whatever their case, like idx_task_tags_name
+  const checkTagName = (householdId: string, name: string, id?: string) => {
+    if (state.tags.some(tag =>
+      tag.id !== id && tag.household_id === householdId && tag.name.toLowerCase() === name.toLowerCase()
+    )) {
+      throw new DataError('A tag with that name already exists', UNIQUE_VIOLATION);
+    }
+  };
+
+  // The task's checklist, comments and photos follow it, as the schema's move_task_contents trigger does
+  const moveTaskContents = (task: Task) => {
+    state.checklistItems = state.checklistItems.map(item => item.task_id === task.id
+      ? {
+        ...item,
+        household_id: task.household_id,
+        assignee: item.assignee && isActiveMember(task.household_id, item.assignee) ? item.assignee : null,
+      }
+      : item);
+    state.comments = state.comments.map(comment => comment.task_id === task.id
+      ? { ...comment, household_id: task.household_id }
+      : comment);
+    state.attachments = state.attachments.map(attachment => attachment.task_id === task.id
+      ? { ...attachment, household_id: task.household_id }
+      : attachment);
+  };
+
+  const users: DataRepository['users'] = {
+    async get(id) {
+      return state.users.find(user => user.id === id) || null;
+    },
+
+    async findByEmail(email) {
+      return state.users.find(user => user.email === email) || null;
+    },
+
+    async create(profile) {
+      if (state.users.some(user => user.id === profile.id)) {
+        throw new DataError('User already exists', UNIQUE_VIOLATION);
+      }
+      const user: UserProfile = {
+        id: profile.id,
+        email: profile.email,
+        name: profile.name,
+        avatar_url: profile.avatar_url ?? null,
+        phone: profile.phone ?? null,
+        created_at: now(),
+      };
+      state.users.push(user);
+      return user;
+    },
+
+    async ensure(profile) {
+      return (await users.get(profile.id)) || users.create(profile);
+    },
+
+    async update(id, changes) {
+      state.users = state.users.map(user => user.id === id ? { ...user, ...changes } : user);
+    },
+
+    async uploadAvatar(id, uri) {
+      await users.update(id, { avatar_url: uri });
+      return uri;
+    },
+  };
+
+  const households: DataRepository['households'] = {
+    async get(id) {
+      return state.households.find(household => household.id === id) || null;
+    },
+
+    async listForUser(userId) {
+      return state.members
+        .filter(member => member.user_id === userId && member.is_active)
+        .map(member => {
+          const household = state.households.find(h => h.id === member.household_id);
+          return {
+            id: member.household_id,
+            name: household?.name ?? 'Unnamed',
+            created_by: household?.created_by ?? '',
+            member_count: state.members.filter(m => m.household_id === member.household_id && m.is_active).length,
+            task_count: state.tasks.filter(t => t.household_id === member.household_id).length,
+          };
+        });
+    },
+
+    async create(household) {
+      const timestamp = now();
+      const created: Household = {
+        ...household,
+        id: generateId(),
+        created_at: timestamp,
+        updated_at: timestamp,
+        auto_complete_tasks: false,
+        require_task_review: false,
+      };
+      state.households.push(created);
+      return created;
+    },
+
+    async update(id, changes) {
+      const household = state.households.find(h => h.id === id);
+      if (!household) throw new DataError('Household not found');
+      Object.assign(household, changes, { updated_at: now() });
+      return { ...household };
+    },
+
+    async transferOwnership(id, newOwnerId) {
+      const household = state.households.find(h => h.id === id);
+      if (!household) throw new DataError('Household not found');
+      if (!state.members.some(m => m.household_id === id && m.user_id === newOwnerId && m.is_active)) {
+        throw new DataError('The new owner must be an active member');
+      }
+      household.created_by = newOwnerId;
+      household.updated_at = now();
+      return { ...household };
+    },
+  };
+
+  const members: DataRepository['members'] = {
+    async listActive(householdId) {
+      return state.members
+        .filter(member => member.household_id === householdId && member.is_active)
+        .map(toMember);
+    },
+
+    async listForHouseholds(householdIds) {
+      return state.members
+        .filter(member => householdIds.includes(member.household_id))
+        .map(toMember);
+    },
+
+    async listHouseholdIds(userId) {
+      return state.members
+        .filter(member => member.user_id === userId && member.is_active)
+        .map(member => member.household_id);
+    },
+
+    async findActive(householdId, userId) {
+      const row = state.members.find(member =>
+        member.household_id === householdId && member.user_id === userId && member.is_active
+      );
+      return row ? toMember(row) : null;
+    },
+
+    async add(member) {
+      const existing = state.members.find(m => m.household_id === member.household_id && m.user_id === member.user_id);
+      if (existing) {
+        const old = { ...existing };
+        Object.assign(existing, member, { is_active: true });
+        emit({ table: 'household_members', type: 'UPDATE', record: { ...existing }, old, actor: null });
+        return;
+      }
+      const row: MemberRow = { ...member, joined_at: now(), is_active: true, is_available: true };
+      state.members.push(row);
+      emit({ table: 'household_members', type: 'INSERT', record: { ...row }, old: null, actor: null });
+    },
+
+    async updateRole(householdId, userId, role) {
+      const row = requireMember(householdId, userId);
+      const old = { ...row };
+      row.role = role;
+      emit({ table: 'household_members', type: 'UPDATE', record: { ...row }, old, actor: null });
+    },
+
+    async setAvailability(householdId, userId, available) {
+      const row = requireMember(householdId, userId);
+      const old = { ...row };
+      row.is_available = available;
+      emit({ table: 'household_members', type: 'UPDATE', record: { ...row }, old, actor: null });
+    },
+
+    async deactivate(householdId, userId) {
+      const row = requireMember(householdId, userId);
+      const old = { ...row };
+      row.is_active = false;
+      emit({ table: 'household_members', type: 'UPDATE', record: { ...row }, old, actor: null });
+
+      // The schema's trigger unassigns whatever is still open
+      for (const task of state.tasks) {
+        if (task.household_id === householdId && task.assignee === userId && task.state === 'open') {
+          await tasks.update(task.id, { assignee: null });
+        }
+      }
+    },
+  };
+
+  const tasks: DataRepository['tasks'] = {
+    async get(id) {
+      return state.tasks.find(task => task.id === id) || null;
+    },
+
+    async listForHousehold(householdId) {
+      return state.tasks
+        .filter(task => task.household_id === householdId)
+        .sort(byNewest);
+    },
+
+    async listForHouseholds(householdIds, query = {}) {
+      return state.tasks
+        .filter(task => householdIds.includes(task.household_id) && matchesTaskQuery(task, query))
+        .sort(byNewest)
+        .map(task => ({
+          ...task,
+          household_name: state.households.find(h => h.id === task.household_id)?.name || 'Unknown Household',
+        }));
+    },
+
+    async listPage(householdIds, query, page) {
+      return pageTasks(await tasks.listForHouseholds(householdIds, query), page);
+    },
+
+    async create(task) {
+      // Same guarantee as idx_tasks_unique_series_occurrence
+      if (task.series_id && state.tasks.some(t => t.series_id === task.series_id && t.due_date === task.due_date)) {
+        throw new DataError('Occurrence already exists', UNIQUE_VIOLATION);
+      }
+      const timestamp = now();
+      const created: Task = {
+        ...task,
+        id: task.id ?? generateId(),
+        state: 'open',
+        series_id: task.series_id ?? null,
+        submitted_by: null,
+        submitted_at: null,
+        reviewed_by: null,
+        review_reason: null,
+        completed_by: null,
+        completed_at: null,
+        created_at: timestamp,
+        updated_at: timestamp,
+        checklist_total: 0,
+        checklist_done: 0,
+        comment_count: 0,
+      };
+      created.tag_ids = keepHouseholdTags(created);
+      state.tasks.push(created);
+      logActivity(created, 'created', { assignee: created.assignee });
+      emit({ table: 'tasks', type: 'INSERT', record: created, old: null, actor: null });
+      return created;
+    },
+
+    async update(id, changes, expectedUpdatedAt) {
+      const old = requireTask(id);
+      if (expectedUpdatedAt && old.updated_at !== expectedUpdatedAt) {
+        throw new DataError('Task was changed by someone else', STALE_WRITE);
+      }
+      const updated = { ...old, ...changes, updated_at: now() };
+      checkStateChange(old, updated);
+      checkAssignment(old, updated);
+      if (changes.tag_ids || updated.household_id !== old.household_id) updated.tag_ids = keepHouseholdTags(updated);
+      state.tasks = state.tasks.map(task => task.id === id ? updated : task);
+      if (updated.household_id !== old.household_id) moveTaskContents(updated);
+      logTaskUpdate(old, updated);
+      emit({ table: 'tasks', type: 'UPDATE', record: updated, old, actor: null });
+      return updated;
+    },
+
+    async remove(id) {
+      const old = state.tasks.find(task => task.id === id);
+      state.tasks = state.tasks.filter(task => task.id !== id);
+      state.checklistItems = state.checklistItems.filter(item => item.task_id !== id);
+      state.comments = state.comments.filter(comment => comment.task_id !== id);
+      state.attachments = state.attachments.filter(attachment => attachment.task_id !== id);
+      if (old) {
+        logActivity(old, 'deleted');
+        emit({ table: 'tasks', type: 'DELETE', record: null, old, actor: null });
+      }
+    },
+  };
+
+  // Keeps the task's checklist counts current, as the schema's trigger does
+  const refreshChecklistCounts = (taskId: string) => {
+    const old = state.tasks.find(task => task.id === taskId);
+    if (!old) return;
+    const items = state.checklistItems.filter(item => item.task_id === taskId);
+    const updated = {
+      ...old,
+      checklist_total: items.length,
+      checklist_done: items.filter(item => item.done).length,
+      updated_at: now(),
+    };
+    state.tasks = state.tasks.map(task => task.id === taskId ? updated : task);
+    emit({ table: 'tasks', type: 'UPDATE', record: updated, old, actor: null });
+  };
+
+  const checklist: DataRepository['checklist'] = {
+    async listForTask(taskId) {
+      return state.checklistItems
+        .filter(item => item.task_id === taskId)
+        .sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at));
+    },
+
+    async create(item) {
+      const task = requireTask(item.task_id);
+      const timestamp = now();
+      const created: ChecklistItem = {
+        ...item,
+        household_id: task.household_id,
+        id: generateId(),
+        done: false,
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+      state.checklistItems.push(created);
+      refreshChecklistCounts(created.task_id);
+      return created;
+    },
+
+    async update(id, changes) {
+      const old = state.checklistItems.find(item => item.id === id);
+      if (!old) throw new DataError('Checklist item not found');
+      const updated = { ...old, ...changes, updated_at: now() };
+      state.checklistItems = state.checklistItems.map(item => item.id === id ? updated : item);
+      refreshChecklistCounts(updated.task_id);
+      return updated;
+    },
+
+    async remove(id) {
+      const old = state.checklistItems.find(item => item.id === id);
+      state.checklistItems = state.checklistItems.filter(item => item.id !== id);
+      if (old) refreshChecklistCounts(old.task_id);
+    },
+  };
+
+  // Keeps the task's comment count current, as the schema's trigger does
+  const refreshCommentCount = (taskId: string) => {
+    const old = state.tasks.find(task => task.id === taskId);
+    if (!old) return;
+    const updated = { ...old, comment_count: state.comments.filter(comment => comment.task_id === taskId).length };
+    state.tasks = state.tasks.map(task => task.id === taskId ? updated : task);
+    emit({ table: 'tasks', type: 'UPDATE', record: updated, old, actor: null });
+  };
+
+  const comments: DataRepository['comments'] = {
+    async listForTask(taskId) {
+      return state.comments
+        .filter(comment => comment.task_id === taskId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async create(comment) {
+      const task = requireTask(comment.task_id);
+      const created: TaskComment = {
+        ...comment,
+        household_id: task.household_id,
+        id: generateId(),
+        created_at: now(),
+        edited_at: null,
+      };
+      state.comments.push(created);
+      emit({ table: 'task_comments', type: 'INSERT', record: created, old: null, actor: created.author_id });
+      refreshCommentCount(created.task_id);
+      return created;
+    },
+
+    async update(id, changes) {
+      const old = state.comments.find(comment => comment.id === id);
+      if (!old) throw new DataError('Comment not found');
+      const updated = { ...old, ...changes, edited_at: now() };
+      state.comments = state.comments.map(comment => comment.id === id ? updated : comment);
+      emit({ table: 'task_comments', type: 'UPDATE', record: updated, old, actor: updated.author_id });
+      return updated;
+    },
+
+    async remove(id) {
+      const old = state.comments.find(comment => comment.id === id);
+      state.comments = state.comments.filter(comment => comment.id !== id);
+      if (!old) return;
+      emit({ table: 'task_comments', type: 'DELETE', record: null, old, actor: old.author_id });
+      refreshCommentCount(old.task_id);
+    },
+  };
+
+  const activity: DataRepository['activity'] = {
+    async listForTask(taskId) {
+      return state.activity.filter(entry => entry.task_id === taskId);
+    },
+
+    async listForHousehold(householdId, limit) {
+      return state.activity
+        .filter(entry => entry.household_id === householdId)
+        .reverse()
+        .slice(0, limit);
+    },
+  };
+
+  const shopping: DataRepository['shopping'] = {
+    async listForHousehold(householdId) {
+      return state.shoppingItems
+        .filter(item => item.household_id === householdId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async create(item) {
+      const created: ShoppingItem = {
+        ...item,
+        id: generateId(),
+        claimed_by: null,
+        purchased: false,
+        purchased_by: null,
+        purchased_at: null,
+        expense_id: null,
+        created_at: now(),
+        updated_at: now(),
+      };
+      state.shoppingItems.push(created);
+      emit({ table: 'shopping_items', type: 'INSERT', record: created, old: null, actor: null });
+      return created;
+    },
+
+    async update(id, changes) {
+      const old = state.shoppingItems.find(item => item.id === id);
+      if (!old) throw new DataError('Item not found');
+      const updated: ShoppingItem = { ...old, ...changes, updated_at: now() };
+      // Same bookkeeping as the schema's set_shopping_purchase trigger
+      if (updated.purchased !== old.purchased) {
+        if (!updated.purchased && old.expense_id) throw new DataError('This item is part of a recorded expense');
+        updated.purchased_by = updated.purchased ? updated.purchased_by : null;
+        updated.purchased_at = updated.purchased ? now() : null;
+      }
+      state.shoppingItems = state.shoppingItems.map(item => item.id === id ? updated : item);
+      emit({ table: 'shopping_items', type: 'UPDATE', record: updated, old, actor: null });
+      return updated;
+    },
+
+    async remove(id) {
+      const old = state.shoppingItems.find(item => item.id === id);
+      state.shoppingItems = state.shoppingItems.filter(item => item.id !== id);
+      if (old) emit({ table: 'shopping_items', type: 'DELETE', record: null, old, actor: null });
+    },
+
+    async clearPurchased(householdId) {
+      const purchased = state.shoppingItems.filter(item => item.household_id === householdId && item.purchased);
+      for (const item of purchased) {
+        await shopping.remove(item.id);
+      }
+    },
+
+    async linkExpense(itemIds, expenseId) {
+      const items = state.shoppingItems.filter(item => itemIds.includes(item.id));
+      if (items.length !== itemIds.length || items.some(item => !item.purchased || item.expense_id)) {
+        throw new DataError('Some of the items are already on an expense');
+      }
+      for (const old of items) {
+        const updated: ShoppingItem = { ...old, expense_id: expenseId, updated_at: now() };
+        state.shoppingItems = state.shoppingItems.map(item => item.id === old.id ? updated : item);
+        emit({ table: 'shopping_items', type: 'UPDATE', record: updated, old, actor: null });
+      }
+    },
+  };
+
+  const expenses: DataRepository['expenses'] = {
+    async listForHousehold(householdId) {
+      return state.expenses
+        .filter(expense => expense.household_id === householdId)
+        .sort(byNewest);
+    },
+
+    async create(expense) {
+      if (!(expense.amount > 0)) throw new DataError('The amount must be more than zero');
+      // Same check as the schema's check_expense_splits trigger
+      const splitCents = expense.splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+      if (splitCents !== Math.round(expense.amount * 100)) {
+        throw new DataError('The splits must add up to the amount');
+      }
+      const created: Expense = {
+        ...expense,
+        splits: expense.splits.map(split => ({ ...split })),
+        id: generateId(),
+        created_at: now(),
+        updated_at: now(),
+      };
+      state.expenses.push(created);
+      return created;
+    },
+
+    async remove(id) {
+      state.expenses = state.expenses.filter(expense => expense.id !== id);
+      // Items paid through the expense are unlinked, as the foreign key does
+      state.shoppingItems = state.shoppingItems.map(item =>
+        item.expense_id === id ? { ...item, expense_id: null } : item
+      );
+    },
+  };
+
+  const payments: DataRepository['payments'] = {
+    async listForHousehold(householdId) {
+      return state.payments
+        .filter(payment => payment.household_id === householdId)
+        .sort(byNewest);
+    },
+
+    async create(payment) {
+      if (!(payment.amount > 0)) throw new DataError('The amount must be more than zero');
+      if (payment.from_user === payment.to_user) throw new DataError('A payment needs two different members');
+      const created: ExpensePayment = { ...payment, id: generateId(), created_at: now() };
+      state.payments.push(created);
+      return created;
+    },
+
+    async remove(id) {
+      state.payments = state.payments.filter(payment => payment.id !== id);
+    },
+  };
+
+  const requireBillInstance = (id: string) => {
+    const instance = state.billInstances.find(i => i.id === id);
+    if (!instance) throw new DataError('Bill not found');
+    return instance;
+  };
+
+  // Copies, so callers can't change the stored shares
+  const copyBillInstance = (instance: BillInstance): BillInstance => ({
+    ...instance,
+    shares: instance.shares.map(share => ({ ...share })),
+  });
+
+  // Mirrors the schema's refresh_bill_instance_settled trigger
+  const refreshSettled = (instance: BillInstance) => {
+    instance.settled = instance.shares.every(share => share.paid_at !== null);
+  };
+
+  const bills: DataRepository['bills'] = {
+    async listForHousehold(householdId) {
+      return state.bills
+        .filter(bill => bill.household_id === householdId)
+        .sort((a, b) => a.next_due_date.localeCompare(b.next_due_date));
+    },
+
+    async create(bill) {
+      if (bill.amount !== null && !(bill.amount > 0)) throw new DataError('The amount must be more than zero');
+      if (bill.participants.length === 0) throw new DataError('Choose at least one person to share the bill');
+      const timestamp = now();
+      const created: Bill = {
+        ...bill,
+        participants: [...bill.participants],
+        id: generateId(),
+        is_active: true,
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+      state.bills.push(created);
+      return created;
+    },
+
+    async update(id, changes) {
+      const bill = state.bills.find(b => b.id === id);
+      if (!bill) throw new DataError('Bill not found');
+      Object.assign(bill, changes, { updated_at: now() });
+      return { ...bill };
+    },
+
+    async remove(id) {
+      state.bills = state.bills.filter(bill => bill.id !== id);
+      state.billInstances = state.billInstances.filter(instance => instance.bill_id !== id);
+    },
+
+    async listInstances(householdId) {
+      return state.billInstances
+        .filter(instance => instance.household_id === householdId)
+        .sort((a, b) => b.due_date.localeCompare(a.due_date))
+        .map(copyBillInstance);
+    },
+
+    async listUnsettledForHouseholds(householdIds) {
+      return state.billInstances
+        .filter(instance => householdIds.includes(instance.household_id) && !instance.settled)
+        .sort((a, b) => a.due_date.localeCompare(b.due_date))
+        .map(instance => ({
+          ...copyBillInstance(instance),
+          household_name: state.households.find(h => h.id === instance.household_id)?.name || 'Unknown Household',
+        }));
+    },
+
+    async createInstance(instance) {
+      // Same guarantee as uq_bill_instances_due
+      if (state.billInstances.some(i => i.bill_id === instance.bill_id && i.due_date === instance.due_date)) {
+        throw new DataError('Bill already exists', UNIQUE_VIOLATION);
+      }
+      const created: BillInstance = {
+        ...instance,
+        shares: instance.shares.map(share => ({ ...share })),
+        id: generateId(),
+        settled: false,
+        created_at: now(),
+      };
+      refreshSettled(created);
+      state.billInstances.push(created);
+      return copyBillInstance(created);
+    },
+
+    async setInstanceAmount(id, amount, shares) {
+      if (!(amount > 0)) throw new DataError('The amount must be more than zero');
+      const instance = requireBillInstance(id);
+      instance.amount = amount;
+      shares.forEach(({ user_id, amount: shareAmount }) => {
+        const share = instance.shares.find(s => s.user_id === user_id);
+        if (share) share.amount = shareAmount;
+      });
+      return copyBillInstance(instance);
+    },
+
+    async setSharePaid(instanceId, userId, paid) {
+      const instance = requireBillInstance(instanceId);
+      const share = instance.shares.find(s => s.user_id === userId);
+      if (!share) throw new DataError('This bill isn\'t shared with that member');
+      share.paid_at = paid ? now() : null;
+      refreshSettled(instance);
+      return copyBillInstance(instance);
+    },
+  };
+
+  const attachments: DataRepository['attachments'] = {
+    async listForTask(taskId) {
+      return state.attachments
+        .filter(attachment => attachment.task_id === taskId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async upload({ uri, ...attachment }) {
+      const task = requireTask(attachment.task_id);
+      const id = generateId();
+      const created: TaskAttachment = {
+        ...attachment,
+        household_id: task.household_id,
+        id,
+        storage_path: `${task.household_id}/${task.id}/${id}`,
+        created_at: now(),
+        url: uri,
+      };
+      state.attachments.push(created);
+      return created;
+    },
+
+    async remove(attachment) {
+      state.attachments = state.attachments.filter(existing => existing.id !== attachment.id);
+    },
+  };
+
+  const invitations: DataRepository['invitations'] = {
+    async listForHousehold(householdId) {
+      return state.invitations
+        .filter(invite => invite.household_id === householdId)
+        .sort(byNewest);
+    },
+
+    async listPendingForEmail(email) {
+      return state.invitations
+        .filter(invite => invite.invitee_email === email.toLowerCase() && invite.status === 'pending')
+        .sort(byNewest)
+        .map(invite => {
+          const inviter = state.users.find(user => user.id === invite.inviter_id);
+          return {
+            ...invite,
+            household_name: state.households.find(h => h.id === invite.household_id)?.name || 'Unknown Household',
+            inviter_name: inviter?.name || inviter?.email || 'Someone',
+          };
+        });
+    },
+
+    async countPendingForEmail(email) {
+      return (await invitations.listPendingForEmail(email)).length;
+    },
+
+    async findPending(householdId, email) {
+      return state.invitations.find(invite =>
+        invite.household_id === householdId &&
+        invite.invitee_email === email.toLowerCase() &&
+        invite.status === 'pending'
+      ) || null;
+    },
+
+    async create(invitation) {
+      if (await invitations.findPending(invitation.household_id, invitation.invitee_email)) {
+        throw new DataError('An invitation has already been sent to this email', UNIQUE_VIOLATION);
+      }
+      const created: Invitation = {
+        ...invitation,
+        id: generateId(),
+        invitee_email: invitation.invitee_email.toLowerCase(),
+        status: 'pending',
+        created_at: now(),
+        responded_at: null,
+      };
+      state.invitations.push(created);
+      emit({ table: 'household_invitations', type: 'INSERT', record: created, old: null, actor: null });
+      return created;
+    },
+
+    async accept(id, userId) {
+      const invitation = state.invitations.find(invite => invite.id === id && invite.status === 'pending');
+      if (!invitation) throw new DataError('This invitation is no longer pending');
+      const user = state.users.find(existing => existing.id === userId);
+      await members.add({
+        household_id: invitation.household_id,
+        user_id: userId,
+        name: invitation.member_name || user?.name || invitation.invitee_email.split('@')[0],
+        role: invitation.role,
+      });
+      await invitations.respond(id, 'accepted');
+    },
+
+    async respond(id, status) {
+      const old = state.invitations.find(invite => invite.id === id);
+      if (!old) return;
+      const updated: Invitation = { ...old, status, responded_at: now() };
+      state.invitations = state.invitations.map(invite => invite.id === id ? updated : invite);
+      emit({ table: 'household_invitations', type: 'UPDATE', record: updated, old, actor: null });
+    },
+  };
+
+  const notificationPreferences: DataRepository['notificationPreferences'] = {
+    async get(userId) {
+      return state.notificationPreferences.find(preferences => preferences.user_id === userId) || null;
+    },
+
+    async save(preferences) {
+      state.notificationPreferences = [
+        ...state.notificationPreferences.filter(existing => existing.user_id !== preferences.user_id),
+        { ...preferences },
+      ];
+      return preferences;
+    },
+  };
+
+  const tags: DataRepository['tags'] = {
+    async listForHouseholds(householdIds) {
+      return state.tags
+        .filter(tag => householdIds.includes(tag.household_id))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async create(tag) {
+      checkTagName(tag.household_id, tag.name);
+      const created: TaskTag = { ...tag, id: generateId(), created_at: now() };
+      state.tags.push(created);
+      return created;
+    },
+
+    async update(id, changes) {
+      const existing = state.tags.find(tag => tag.id === id);
+      if (!existing) throw new DataError('Tag not found');
+      if (changes.name !== undefined) checkTagName(existing.household_id, changes.name, id);
+      const updated = { ...existing, ...changes };
+      state.tags = state.tags.map(tag => tag.id === id ? updated : tag);
+      return updated;
+    },
+
+    // Tasks lose the tag too, as the schema's remove_deleted_tag trigger does
+    async remove(id) {
+      state.tags = state.tags.filter(tag => tag.id !== id);
+      for (const old of state.tasks.filter(task => task.tag_ids.includes(id))) {
+        const updated = { ...old, tag_ids: old.tag_ids.filter(tagId => tagId !== id), updated_at: now() };
+        state.tasks = state.tasks.map(task => task.id === old.id ? updated : task);
+        emit({ table: 'tasks', type: 'UPDATE', record: updated, old, actor: null });
+      }
+    },
+  };
+
+  const savedViews: DataRepository['savedViews'] = {
+    async listForUser(userId) {
+      return state.savedViews
+        .filter(view => view.user_id === userId)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async create(view) {
+      // Same guarantee as uq_saved_task_views_name
+      if (state.savedViews.some(existing => existing.user_id === view.user_id && existing.name === view.name)) {
+        throw new DataError('A view with that name already exists', UNIQUE_VIOLATION);
+      }
+      const timestamp = now();
+      const created: SavedTaskView = { ...view, id: generateId(), created_at: timestamp, updated_at: timestamp };
+      state.savedViews.push(created);
+      return created;
+    },
+
+    async update(id, changes) {
+      const existing = state.savedViews.find(view => view.id === id);
+      if (!existing) throw new DataError('View not found');
+      if (changes.name !== undefined && state.savedViews.some(view =>
+        view.id !== id && view.user_id === existing.user_id && view.name === changes.name
+      )) {
+        throw new DataError('A view with that name already exists', UNIQUE_VIOLATION);
+      }
+      const updated = { ...existing, ...changes, updated_at: now() };
+      state.savedViews = state.savedViews.map(view => view.id === id ? updated : view);
+      return updated;
+    },
+
+    async remove(id) {
+      state.savedViews = state.savedViews.filter(view => view.id !== id);
+    },
+  };
+
+  const realtime: DataRepository['realtime'] = {
+    subscribe(householdIds, onChange) {
+      const listener = { householdIds, onChange };
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return {
+    state,
+    users,
+    households,
+    members,
+    tasks,
+    tags,
+    checklist,
+    comments,
+    attachments,
+    activity,
+    shopping,
+    expenses,
+    payments,
+    bills,
+    invitations,
+    notificationPreferences,
+    savedViews,
+    realtime,
+  };
+};
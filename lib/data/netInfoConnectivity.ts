@@ -0,0 +1,15 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { Connectivity } from './offlineRepository';
+
+// isInternetReachable is null until NetInfo has checked, so only a definite false counts as offline
+const toOnline = (state: NetInfoState) => state.isConnected !== false && state.isInternetReachable !== false;
+
+export const netInfoConnectivity: Connectivity = {
+  async isOnline() {
+    return toOnline(await NetInfo.fetch());
+  },
+
+  subscribe(listener) {
+    return NetInfo.addEventListener(state => listener(toOnline(state)));
+  },
+};
@@ -0,0 +1,615 @@
+import { DataError, isNetworkError, isStaleWrite, isUniqueViolation, UNIQUE_VIOLATION } from './errors';
+import { DataRepository } from './repository';
+import { compareTasks, decodeTaskCursor, matchesTaskQuery, pageTasks } from './taskQuery';
+import { Household, HouseholdSummary, Member, NewTask, Task, TaskTag, TaskUpdate, TaskWithHousehold } from './types';
+
+// Minimal key-value store, satisfied by AsyncStorage
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface Connectivity {
+  isOnline(): Promise<boolean>;
+  // Returns a function that stops listening
+  subscribe(listener: (online: boolean) => void): () => void;
+}
+
+// A queued change whose effect was kept or dropped in favour of someone else's edit
+export interface SyncConflict {
+  taskId: string;
+  title: string;
+  reason: 'edited' | 'deleted' | 'rejected';
+  // Fields whose local value was discarded because the task changed on the server
+  fields: (keyof TaskUpdate)[];
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncConflict[];
+}
+
+export interface SyncController {
+  getStatus(): SyncStatus;
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+  // Replays queued changes. Does nothing while offline.
+  flush(): Promise<void>;
+  dismissConflicts(): void;
+  // Drops the cache and any queued changes, e.g. on sign out
+  reset(): Promise<void>;
+}
+
+export interface OfflineRepository extends DataRepository {
+  sync: SyncController;
+}
+
+interface OfflineOptions {
+  storage: KeyValueStorage;
+  connectivity: Connectivity;
+  generateId: () => string;
+}
+
+type OutboxEntry =
+  | { id: string; kind: 'create'; task: NewTask & { id: string } }
+  // `base` is the task as it was before the change, used to detect conflicting edits
+  | { id: string; kind: 'update'; taskId: string; changes: TaskUpdate; base: Task | null }
+  | { id: string; kind: 'remove'; taskId: string; base: Task | null };
+
+interface OfflineCache {
+  households: Record<string, Household>;
+  householdSummaries: Record<string, HouseholdSummary[]>;
+  householdIds: Record<string, string[]>;
+  householdNames: Record<string, string>;
+  members: Record<string, Member[]>;
+  // Current and former members, by household
+  directory: Record<string, Member[]>;
+  tasks: Record<string, Task>;
+  // Tag definitions, by household
+  tags: Record<string, TaskTag[]>;
+}
+
+const CACHE_KEY = 'offline-cache';
+const OUTBOX_KEY = 'offline-outbox';
+const MAX_MERGE_ATTEMPTS = 3;
+
+const emptyCache = (): OfflineCache => ({
+  households: {},
+  householdSummaries: {},
+  householdIds: {},
+  householdNames: {},
+  members: {},
+  directory: {},
+  tasks: {},
+  tags: {},
+});
+
+const byNewest = (a: Task, b: Task) => b.created_at.localeCompare(a.created_at);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Three-way merge of a queued update against the current server row.
+// Fields the server left untouched since `base` keep the local value; the server wins the rest.
+const mergeChanges = (base: Task | null, current: Task, changes: TaskUpdate) => {
+  const merged: TaskUpdate = {};
+  const conflicting: (keyof TaskUpdate)[] = [];
+  for (const field of Object.keys(changes) as (keyof TaskUpdate)[]) {
+    if (sameValue(current[field], changes[field])) continue;
+    if (!base || sameValue(current[field], base[field])) {
+      Object.assign(merged, { [field]: changes[field] });
+    } else {
+      conflicting.push(field);
+    }
+  }
+  return { merged, conflicting };
+};
+
+// Offline-first wrapper around another repository.
+// Households, members, tasks and tags are cached in storage and served from there when the store can't be reached.
+// Task writes apply to the cache straight away and go through a persisted outbox that is replayed in order
+// whenever the device is online. Users, invitations and realtime always go to the wrapped repository.
+export const createOfflineRepository = (
+  inner: DataRepository,
+  { storage, connectivity, generateId }: OfflineOptions
+): OfflineRepository => {
+  let cache = emptyCache();
+  let outbox: OutboxEntry[] = [];
+  let online = true;
+  let syncing = false;
+  let conflicts: SyncConflict[] = [];
+  let flushing: Promise<void> | null = null;
+  const listeners = new Set<(status: SyncStatus) => void>();
+  // Errors for writes whose caller is waiting on the result
+  const awaited = new Set<string>();
+  const rejections = new Map<string, unknown>();
+
+  const getStatus = (): SyncStatus => ({ online, syncing, pending: outbox.length, conflicts });
+  const notify = () => {
+    const status = getStatus();
+    listeners.forEach(listener => listener(status));
+  };
+
+  const persist = async () => {
+    try {
+      await Promise.all([
+        storage.setItem(CACHE_KEY, JSON.stringify(cache)),
+        storage.setItem(OUTBOX_KEY, JSON.stringify(outbox)),
+      ]);
+    } catch (error) {
+      console.error('Error saving offline cache:', error);
+    }
+  };
+
+  const load = async () => {
+    try {
+      const [storedCache, storedOutbox] = await Promise.all([
+        storage.getItem(CACHE_KEY),
+        storage.getItem(OUTBOX_KEY),
+      ]);
+      if (storedCache) cache = { ...emptyCache(), ...JSON.parse(storedCache) };
+      if (storedOutbox) outbox = JSON.parse(storedOutbox);
+    } catch (error) {
+      console.error('Error loading offline cache:', error);
+    }
+    online = await connectivity.isOnline();
+    notify();
+  };
+
+  // Re-apply queued changes on top of the cache so a refresh doesn't hide them before they sync
+  const applyOutbox = () => {
+    for (const entry of outbox) {
+      if (entry.kind === 'create') {
+        const existing = cache.tasks[entry.task.id];
+        cache.tasks[entry.task.id] = existing || toLocalTask(entry.task);
+      } else if (entry.kind === 'update') {
+        const existing = cache.tasks[entry.taskId];
+        if (existing) cache.tasks[entry.taskId] = { ...existing, ...entry.changes };
+      } else {
+        delete cache.tasks[entry.taskId];
+      }
+    }
+  };
+
+  const toLocalTask = (task: NewTask & { id: string }): Task => {
+    const timestamp = new Date().toISOString();
+    return {
+      ...task,
+      state: 'open',
+      series_id: task.series_id ?? null,
+      submitted_by: null,
+      submitted_at: null,
+      reviewed_by: null,
+      review_reason: null,
+      completed_by: null,
+      completed_at: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      checklist_total: 0,
+      checklist_done: 0,
+      comment_count: 0,
+    };
+  };
+
+  const cachedTasks = (householdIds: string[]) =>
+    Object.values(cache.tasks)
+      .filter(task => householdIds.includes(task.household_id))
+      .sort(byNewest);
+
+  const withHouseholdName = (task: Task): TaskWithHousehold => ({
+    ...task,
+    household_name: cache.householdNames[task.household_id] || 'Unknown Household',
+  });
+
+  const replaceTasks = (householdIds: string[], tasks: Task[]) => {
+    for (const task of Object.values(cache.tasks)) {
+      if (householdIds.includes(task.household_id)) delete cache.tasks[task.id];
+    }
+    for (const task of tasks) cache.tasks[task.id] = task;
+  };
+
+  // Read through to the wrapped repository, falling back to the cache when it can't be reached
+  const read = async <T>(fetch: () => Promise<T>, store: (value: T) => void, fromCache: () => T): Promise<T> => {
+    await ready;
+    if (online) {
+      try {
+        store(await fetch());
+        applyOutbox();
+        await persist();
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+    return fromCache();
+  };
+
+  const revert = (entry: OutboxEntry) => {
+    if (entry.kind === 'create') {
+      delete cache.tasks[entry.task.id];
+    } else if (entry.base) {
+      cache.tasks[entry.taskId] = entry.base;
+    }
+  };
+
+  const pushUpdate = async (entry: Extract<OutboxEntry, { kind: 'update' }>) => {
+    let changes = entry.changes;
+    let expectedUpdatedAt = entry.base?.updated_at;
+
+    for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+      try {
+        cache.tasks[entry.taskId] = await inner.tasks.update(entry.taskId, changes, expectedUpdatedAt);
+        return;
+      } catch (error) {
+        if (!isStaleWrite(error)) throw error;
+      }
+
+      // Someone else changed the task since it was edited here
+      const current = await inner.tasks.get(entry.taskId);
+      if (!current) {
+        delete cache.tasks[entry.taskId];
+        conflicts = [...conflicts, { taskId: entry.taskId, title: entry.base?.title || 'Task', reason: 'deleted', fields: [] }];
+        return;
+      }
+      const { merged, conflicting } = mergeChanges(entry.base, current, changes);
+      if (conflicting.length > 0) {
+        conflicts = [...conflicts, { taskId: current.id, title: current.title, reason: 'edited', fields: conflicting }];
+      }
+      cache.tasks[current.id] = current;
+      if (Object.keys(merged).length === 0) return;
+      changes = merged;
+      expectedUpdatedAt = current.updated_at;
+    }
+    throw new DataError('Task keeps changing, try again later');
+  };
+
+  const push = async (entry: OutboxEntry) => {
+    switch (entry.kind) {
+      case 'create':
+        try {
+          const created = await inner.tasks.create(entry.task);
+          cache.tasks[created.id] = created;
+        } catch (error) {
+          // The occurrence was already created elsewhere
+          if (!isUniqueViolation(error)) throw error;
+          delete cache.tasks[entry.task.id];
+        }
+        break;
+      case 'update':
+        await pushUpdate(entry);
+        break;
+      case 'remove':
+        await inner.tasks.remove(entry.taskId);
+        break;
+    }
+  };
+
+  const replay = async () => {
+    await ready;
+    if (!online || outbox.length === 0) return;
+    syncing = true;
+    notify();
+
+    while (online && outbox.length > 0) {
+      const entry = outbox[0];
+      try {
+        await push(entry);
+      } catch (error) {
+        // Leave it queued and try again on the next flush
+        if (isNetworkError(error)) break;
+
+        // The store refused the change, so undo it locally
+        console.error('Error syncing queued change:', error);
+        revert(entry);
+        if (awaited.has(entry.id)) {
+          rejections.set(entry.id, error);
+        } else {
+          const taskId = entry.kind === 'create' ? entry.task.id : entry.taskId;
+          const title = entry.kind === 'create' ? entry.task.title : entry.base?.title || 'Task';
+          conflicts = [...conflicts, { taskId, title, reason: 'rejected', fields: [] }];
+        }
+      }
+      outbox = outbox.slice(1);
+      applyOutbox();
+      await persist();
+      notify();
+    }
+
+    syncing = false;
+    notify();
+  };
+
+  const flush = () => {
+    if (!flushing) {
+      flushing = replay().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  };
+
+  // Queue a write and, when online, push it right away so the caller still sees errors from the store
+  const commit = async <T>(entry: OutboxEntry, result: () => T): Promise<T> => {
+    outbox = [...outbox, entry];
+    await persist();
+    notify();
+    if (!online) return result();
+
+    awaited.add(entry.id);
+    try {
+      await flush();
+      // An earlier flush may still have been running when this entry was queued
+      if (outbox.includes(entry) && online) await flush();
+    } finally {
+      awaited.delete(entry.id);
+    }
+    if (rejections.has(entry.id)) {
+      const error = rejections.get(entry.id);
+      rejections.delete(entry.id);
+      throw error;
+    }
+    return result();
+  };
+
+  const ready = load();
+
+  connectivity.subscribe(isOnline => {
+    const cameOnline = isOnline && !online;
+    online = isOnline;
+    notify();
+    if (cameOnline) flush();
+  });
+
+  const households: DataRepository['households'] = {
+    ...inner.households,
+
+    get(id) {
+      return read(
+        () => inner.households.get(id),
+        household => {
+          if (household) {
+            cache.households[id] = household;
+            cache.householdNames[id] = household.name;
+          } else {
+            delete cache.households[id];
+          }
+        },
+        () => cache.households[id] || null
+      );
+    },
+
+    listForUser(userId) {
+      return read(
+        () => inner.households.listForUser(userId),
+        summaries => {
+          cache.householdSummaries[userId] = summaries;
+          summaries.forEach(summary => { cache.householdNames[summary.id] = summary.name; });
+        },
+        () => cache.householdSummaries[userId] || []
+      );
+    },
+  };
+
+  const members: DataRepository['members'] = {
+    ...inner.members,
+
+    listActive(householdId) {
+      return read(
+        () => inner.members.listActive(householdId),
+        list => { cache.members[householdId] = list; },
+        () => cache.members[householdId] || []
+      );
+    },
+
+    listForHouseholds(householdIds) {
+      return read(
+        () => inner.members.listForHouseholds(householdIds),
+        list => householdIds.forEach(householdId => {
+          cache.directory[householdId] = list.filter(member => member.household_id === householdId);
+        }),
+        () => householdIds.flatMap(householdId => cache.directory[householdId] || cache.members[householdId] || [])
+      );
+    },
+
+    listHouseholdIds(userId) {
+      return read(
+        () => inner.members.listHouseholdIds(userId),
+        ids => { cache.householdIds[userId] = ids; },
+        () => cache.householdIds[userId] || []
+      );
+    },
+
+    async findActive(householdId, userId) {
+      await ready;
+      try {
+        return await inner.members.findActive(householdId, userId);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        return (cache.members[householdId] || []).find(member => member.user_id === userId) || null;
+      }
+    },
+  };
+
+  const tasks: DataRepository['tasks'] = {
+    get(id) {
+      return read(
+        () => inner.tasks.get(id),
+        task => {
+          if (task) {
+            cache.tasks[id] = task;
+          } else {
+            delete cache.tasks[id];
+          }
+        },
+        () => cache.tasks[id] || null
+      );
+    },
+
+    listForHousehold(householdId) {
+      return read(
+        () => inner.tasks.listForHousehold(householdId),
+        list => replaceTasks([householdId], list),
+        () => cachedTasks([householdId])
+      );
+    },
+
+    // A filtered list only refreshes the tasks it covers. Cached tasks that look like matches but didn't
+    // come back have changed since, so they're dropped until the next full load.
+    listForHouseholds(householdIds, query) {
+      const filtered = !!query && Object.keys(query).length > 0;
+      return read(
+        () => inner.tasks.listForHouseholds(householdIds, query),
+        list => {
+          const loaded = list.map(({ household_name, ...task }) => task);
+          if (filtered) {
+            cachedTasks(householdIds)
+              .filter(task => matchesTaskQuery(task, query) && !loaded.some(item => item.id === task.id))
+              .forEach(task => { delete cache.tasks[task.id]; });
+            loaded.forEach(task => { cache.tasks[task.id] = task; });
+          } else {
+            replaceTasks(householdIds, loaded);
+          }
+          list.forEach(task => { cache.householdNames[task.household_id] = task.household_name; });
+        },
+        (): TaskWithHousehold[] => cachedTasks(householdIds)
+          .filter(task => !query || matchesTaskQuery(task, query))
+          .map(withHouseholdName)
+      );
+    },
+
+    // Pages come from the cache, bounded by the page the server sent, so tasks created or deleted
+    // locally but not yet synced are listed correctly. Offline, the cache is paged the same way.
+    async listPage(householdIds, query, page) {
+      await ready;
+      const order = compareTasks(page.sort);
+      const after = page.cursor ? decodeTaskCursor(page.cursor) : null;
+      const matching = () => cachedTasks(householdIds)
+        .filter(task => matchesTaskQuery(task, query) && (!after || order(task, after) > 0));
+
+      if (online) {
+        try {
+          const result = await inner.tasks.listPage(householdIds, query, page);
+          const last = result.nextCursor ? result.tasks[result.tasks.length - 1] : null;
+          const inPage = (task: Task) => !last || order(task, last) <= 0;
+
+          // Cached tasks in the page's range that didn't come back have changed since
+          matching()
+            .filter(task => inPage(task) && !result.tasks.some(item => item.id === task.id))
+            .forEach(task => { delete cache.tasks[task.id]; });
+          result.tasks.forEach(({ household_name, ...task }) => {
+            cache.tasks[task.id] = task;
+            cache.householdNames[task.household_id] = household_name;
+          });
+          applyOutbox();
+          await persist();
+
+          return {
+            tasks: matching().filter(inPage).sort(order).map(withHouseholdName),
+            nextCursor: result.nextCursor,
+          };
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+        }
+      }
+
+      const cached = pageTasks(matching(), page);
+      return { ...cached, tasks: cached.tasks.map(withHouseholdName) };
+    },
+
+    async create(task) {
+      await ready;
+      const newTask = { ...task, id: task.id ?? generateId() };
+      // Same guarantee as idx_tasks_unique_series_occurrence, for occurrences created offline
+      if (newTask.series_id && Object.values(cache.tasks).some(t =>
+        t.series_id === newTask.series_id && t.due_date === newTask.due_date
+      )) {
+        throw new DataError('Occurrence already exists', UNIQUE_VIOLATION);
+      }
+
+      cache.tasks[newTask.id] = toLocalTask(newTask);
+      return commit({ id: generateId(), kind: 'create', task: newTask }, () => cache.tasks[newTask.id]);
+    },
+
+    async update(id, changes, expectedUpdatedAt) {
+      await ready;
+      const base = cache.tasks[id] || null;
+      if (!base && !online) throw new DataError('Task is not available offline');
+
+      if (base) {
+        cache.tasks[id] = { ...base, ...changes, updated_at: new Date().toISOString() };
+      }
+      const entry: OutboxEntry = {
+        id: generateId(),
+        kind: 'update',
+        taskId: id,
+        changes,
+        base: base && expectedUpdatedAt ? { ...base, updated_at: expectedUpdatedAt } : base,
+      };
+      return commit(entry, () => {
+        const task = cache.tasks[id];
+        if (!task) throw new DataError('Task not found');
+        return task;
+      });
+    },
+
+    async remove(id) {
+      await ready;
+      const base = cache.tasks[id] || null;
+      delete cache.tasks[id];
+      await commit({ id: generateId(), kind: 'remove', taskId: id, base }, () => undefined);
+    },
+  };
+
+  const sync: SyncController = {
+    getStatus,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    flush,
+
+    dismissConflicts() {
+      conflicts = [];
+      notify();
+    },
+
+    async reset() {
+      await ready;
+      cache = emptyCache();
+      outbox = [];
+      conflicts = [];
+      await Promise.all([storage.removeItem(CACHE_KEY), storage.removeItem(OUTBOX_KEY)]);
+      notify();
+    },
+  };
+
+  // Tags are read from the cache offline; changing them needs a connection
+  const tags: DataRepository['tags'] = {
+    ...inner.tags,
+
+    listForHouseholds(householdIds) {
+      return read(
+        () => inner.tags.listForHouseholds(householdIds),
+        list => householdIds.forEach(householdId => {
+          cache.tags[householdId] = list.filter(tag => tag.household_id === householdId);
+        }),
+        () => householdIds
+          .flatMap(householdId => cache.tags[householdId] || [])
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    },
+  };
+
+  return {
+    ...inner,
+    households,
+    members,
+    tasks,
+    tags,
+    sync,
+  };
+};
@@ -0,0 +1,243 @@
+import {
+  Bill,
+  BillInstance,
+  BillInstanceWithHousehold,
+  BillShare,
+  BillUpdate,
+  ChecklistItem,
+  ChecklistItemUpdate,
+  Expense,
+  ExpensePayment,
+  Household,
+  HouseholdChange,
+  HouseholdSummary,
+  HouseholdUpdate,
+  Invitation,
+  InvitationStatus,
+  Member,
+  MemberRole,
+  NewBill,
+  NewBillInstance,
+  NewChecklistItem,
+  NewExpense,
+  NewExpensePayment,
+  NewHousehold,
+  NewInvitation,
+  NewTaskAttachment,
+  NewTaskComment,
+  NewMember,
+  NewSavedTaskView,
+  NewShoppingItem,
+  NewTask,
+  NewTaskTag,
+  NewUserProfile,
+  NotificationPreferences,
+  PendingInvitation,
+  SavedTaskView,
+  SavedTaskViewUpdate,
+  ShoppingItem,
+  ShoppingItemUpdate,
+  Task,
+  TaskActivity,
+  TaskAttachment,
+  TaskComment,
+  TaskCommentUpdate,
+  TaskPage,
+  TaskPageRequest,
+  TaskQuery,
+  TaskTag,
+  TaskTagUpdate,
+  TaskUpdate,
+  TaskWithHousehold,
+  UserProfile,
+  UserProfileUpdate
+} from './types';
+
+// Every method throws a DataError when the underlying store fails.
+// Lookups that may legitimately find nothing resolve to null instead.
+
+export interface UserRepository {
+  get(id: string): Promise<UserProfile | null>;
+  findByEmail(email: string): Promise<UserProfile | null>;
+  create(profile: NewUserProfile): Promise<UserProfile>;
+  // Returns the existing profile, creating it first if the user has none yet
+  ensure(profile: NewUserProfile): Promise<UserProfile>;
+  update(id: string, changes: UserProfileUpdate): Promise<void>;
+  // Uploads a local image and stores its public URL as the user's avatar
+  uploadAvatar(id: string, uri: string): Promise<string>;
+}
+
+export interface HouseholdRepository {
+  get(id: string): Promise<Household | null>;
+  // Active households of a user, with member and task counts
+  listForUser(userId: string): Promise<HouseholdSummary[]>;
+  create(household: NewHousehold): Promise<Household>;
+  update(id: string, changes: HouseholdUpdate): Promise<Household>;
+  // Makes another active member the household's creator
+  transferOwnership(id: string, newOwnerId: string): Promise<Household>;
+}
+
+export interface MemberRepository {
+  listActive(householdId: string): Promise<Member[]>;
+  // Current and former members of several households at once, so names still resolve for people who left.
+  // Always two queries, however many households there are.
+  listForHouseholds(householdIds: string[]): Promise<Member[]>;
+  listHouseholdIds(userId: string): Promise<string[]>;
+  findActive(householdId: string, userId: string): Promise<Member | null>;
+  // Adds the member, reactivating a previous membership if there is one
+  add(member: NewMember): Promise<void>;
+  updateRole(householdId: string, userId: string, role: MemberRole): Promise<void>;
+  setAvailability(householdId: string, userId: string, available: boolean): Promise<void>;
+  // Marks the membership inactive rather than deleting it, so the member's history stays intact.
+  // Their open tasks that weren't reassigned beforehand are left unassigned.
+  deactivate(householdId: string, userId: string): Promise<void>;
+}
+
+export interface TaskRepository {
+  get(id: string): Promise<Task | null>;
+  listForHousehold(householdId: string): Promise<Task[]>;
+  // Newest first. With a query, only the matching tasks are loaded.
+  listForHouseholds(householdIds: string[], query?: TaskQuery): Promise<TaskWithHousehold[]>;
+  // The same tasks a page at a time, for lists that load more as they scroll
+  listPage(householdIds: string[], query: TaskQuery, page: TaskPageRequest): Promise<TaskPage>;
+  create(task: NewTask): Promise<Task>;
+  // With `expectedUpdatedAt`, only updates a task nobody changed since then and throws a stale write otherwise
+  update(id: string, changes: TaskUpdate, expectedUpdatedAt?: string): Promise<Task>;
+  remove(id: string): Promise<void>;
+}
+
+export interface TagRepository {
+  // Tags of every given household, by name
+  listForHouseholds(householdIds: string[]): Promise<TaskTag[]>;
+  // Throws a unique violation when the household already has a tag with that name
+  create(tag: NewTaskTag): Promise<TaskTag>;
+  update(id: string, changes: TaskTagUpdate): Promise<TaskTag>;
+  // Also takes the tag off every task that has it
+  remove(id: string): Promise<void>;
+}
+
+export interface ChecklistRepository {
+  // Items of a task in display order
+  listForTask(taskId: string): Promise<ChecklistItem[]>;
+  create(item: NewChecklistItem): Promise<ChecklistItem>;
+  update(id: string, changes: ChecklistItemUpdate): Promise<ChecklistItem>;
+  remove(id: string): Promise<void>;
+}
+
+export interface AttachmentRepository {
+  // Photos on a task, oldest first
+  listForTask(taskId: string): Promise<TaskAttachment[]>;
+  upload(attachment: NewTaskAttachment): Promise<TaskAttachment>;
+  remove(attachment: TaskAttachment): Promise<void>;
+}
+
+export interface ActivityRepository {
+  // A task's history, oldest first
+  listForTask(taskId: string): Promise<TaskActivity[]>;
+  // The household's most recent activity, newest first
+  listForHousehold(householdId: string, limit: number): Promise<TaskActivity[]>;
+}
+
+export interface CommentRepository {
+  // Comments on a task, oldest first
+  listForTask(taskId: string): Promise<TaskComment[]>;
+  create(comment: NewTaskComment): Promise<TaskComment>;
+  update(id: string, changes: TaskCommentUpdate): Promise<TaskComment>;
+  remove(id: string): Promise<void>;
+}
+
+export interface ShoppingRepository {
+  // The household's list, oldest first
+  listForHousehold(householdId: string): Promise<ShoppingItem[]>;
+  create(item: NewShoppingItem): Promise<ShoppingItem>;
+  update(id: string, changes: ShoppingItemUpdate): Promise<ShoppingItem>;
+  remove(id: string): Promise<void>;
+  // Deletes every purchased item on the household's list
+  clearPurchased(householdId: string): Promise<void>;
+  // Puts purchased items on an expense in one statement. Throws when any of them was already on one.
+  linkExpense(itemIds: string[], expenseId: string): Promise<void>;
+}
+
+export interface ExpenseRepository {
+  // The household's expenses with their splits, newest first
+  listForHousehold(householdId: string): Promise<Expense[]>;
+  create(expense: NewExpense): Promise<Expense>;
+  remove(id: string): Promise<void>;
+}
+
+export interface PaymentRepository {
+  // Settle-up payments between members, newest first
+  listForHousehold(householdId: string): Promise<ExpensePayment[]>;
+  create(payment: NewExpensePayment): Promise<ExpensePayment>;
+  remove(id: string): Promise<void>;
+}
+
+export interface BillRepository {
+  listForHousehold(householdId: string): Promise<Bill[]>;
+  create(bill: NewBill): Promise<Bill>;
+  update(id: string, changes: BillUpdate): Promise<Bill>;
+  // Deletes the bill along with every instance of it
+  remove(id: string): Promise<void>;
+  // Instances of the household's bills with their shares, latest due first
+  listInstances(householdId: string): Promise<BillInstance[]>;
+  // Instances across households that still have unpaid shares, soonest due first
+  listUnsettledForHouseholds(householdIds: string[]): Promise<BillInstanceWithHousehold[]>;
+  // Throws a unique violation when the bill already has an instance due then
+  createInstance(instance: NewBillInstance): Promise<BillInstance>;
+  // Fills in a variable bill's amount once it's known, along with each participant's share
+  setInstanceAmount(id: string, amount: number, shares: Pick<BillShare, 'user_id' | 'amount'>[]): Promise<BillInstance>;
+  setSharePaid(instanceId: string, userId: string, paid: boolean): Promise<BillInstance>;
+}
+
+export interface InvitationRepository {
+  listForHousehold(householdId: string): Promise<Invitation[]>;
+  listPendingForEmail(email: string): Promise<PendingInvitation[]>;
+  countPendingForEmail(email: string): Promise<number>;
+  findPending(householdId: string, email: string): Promise<Invitation | null>;
+  create(invitation: NewInvitation): Promise<Invitation>;
+  // Joins the household with the role and name the invitation was sent with and marks it accepted, all at once
+  accept(id: string, userId: string): Promise<void>;
+  respond(id: string, status: Exclude<InvitationStatus, 'pending'>): Promise<void>;
+}
+
+export interface NotificationPreferencesRepository {
+  // Resolves to null when the user never changed the defaults
+  get(userId: string): Promise<NotificationPreferences | null>;
+  save(preferences: NotificationPreferences): Promise<NotificationPreferences>;
+}
+
+export interface SavedViewRepository {
+  // The user's saved views, by name
+  listForUser(userId: string): Promise<SavedTaskView[]>;
+  // Throws a unique violation when the user already has a view with that name
+  create(view: NewSavedTaskView): Promise<SavedTaskView>;
+  update(id: string, changes: SavedTaskViewUpdate): Promise<SavedTaskView>;
+  remove(id: string): Promise<void>;
+}
+
+export interface RealtimeRepository {
+  // Streams inserts, updates and deletes on the tasks, members, invitations, comments and shopping items
+  // of the given households.
+  // Returns a function that stops the subscription.
+  subscribe(householdIds: string[], onChange: (change: HouseholdChange) => void): () => void;
+}
+
+export interface DataRepository {
+  users: UserRepository;
+  households: HouseholdRepository;
+  members: MemberRepository;
+  tasks: TaskRepository;
+  tags: TagRepository;
+  checklist: ChecklistRepository;
+  comments: CommentRepository;
+  attachments: AttachmentRepository;
+  activity: ActivityRepository;
+  shopping: ShoppingRepository;
+  expenses: ExpenseRepository;
+  payments: PaymentRepository;
+  bills: BillRepository;
+  invitations: InvitationRepository;
+  notificationPreferences: NotificationPreferencesRepository;
+  savedViews: SavedViewRepository;
+  realtime: RealtimeRepository;
+}
@@ -0,0 +1,1291 @@
+import { PostgrestError, RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+import { DataError, NETWORK_ERROR, PERMISSION_DENIED, STALE_WRITE } from './errors';
+import { DataRepository } from './repository';
+import { decodeTaskCursor, encodeTaskCursor, TaskCursor, toTsQuery } from './taskQuery';
+import {
+  Bill,
+  BillInstance,
+  Expense,
+  ExpensePayment,
+  HouseholdChange,
+  Invitation,
+  Member,
+  MemberRole,
+  MemberRow,
+  Task,
+  TaskAttachment,
+  TaskQuery,
+  TaskSort,
+  TaskWithHousehold
+} from './types';
+
+const TASK_COLUMNS = `
+  id,
+  household_id,
+  title,
+  details,
+  state,
+  assignee,
+  created_by,
+  created_at,
+  updated_at,
+  due_date,
+  due_all_day,
+  priority,
+  tag_ids,
+  points,
+  recurrence_rule,
+  rotation,
+  series_id,
+  checklist_total,
+  checklist_done,
+  comment_count,
+  requires_proof,
+  requires_review,
+  submitted_by,
+  submitted_at,
+  reviewed_by,
+  review_reason,
+  completed_by,
+  completed_at
+`;
+
+const TAG_COLUMNS = 'id, household_id, name, color, created_by, created_at';
+
+const MEMBER_COLUMNS = 'household_id, user_id, name, role, joined_at, is_active, is_available';
+
+const CHECKLIST_COLUMNS = 'id, task_id, household_id, title, done, assignee, position, created_at, updated_at';
+
+const COMMENT_COLUMNS = 'id, task_id, household_id, author_id, body, mentions, created_at, edited_at';
+
+const ACTIVITY_COLUMNS = 'id, household_id, task_id, task_title, actor_id, action, details, created_at';
+
+const SHOPPING_COLUMNS = `
+  id,
+  household_id,
+  name,
+  quantity,
+  category,
+  added_by,
+  claimed_by,
+  purchased,
+  purchased_by,
+  purchased_at,
+  expense_id,
+  created_at,
+  updated_at
+`;
+
+const EXPENSE_COLUMNS = `
+  id,
+  household_id,
+  description,
+  amount,
+  currency,
+  paid_by,
+  split_mode,
+  created_by,
+  created_at,
+  updated_at,
+  splits:expense_splits(user_id, share, amount)
+`;
+
+const PAYMENT_COLUMNS = 'id, household_id, from_user, to_user, amount, currency, note, created_by, created_at';
+
+const BILL_COLUMNS = `
+  id,
+  household_id,
+  name,
+  amount,
+  currency,
+  recurrence_rule,
+  next_due_date,
+  participants,
+  is_active,
+  created_by,
+  created_at,
+  updated_at
+`;
+
+const BILL_INSTANCE_COLUMNS = `
+  id,
+  bill_id,
+  household_id,
+  name,
+  due_date,
+  amount,
+  currency,
+  settled,
+  created_at,
+  shares:bill_shares(user_id, amount, paid_at)
+`;
+
+const INVITATION_COLUMNS =
+  'id, household_id, inviter_id, invitee_email, member_name, role, status, created_at, responded_at';
+
+const NOTIFICATION_PREFERENCE_COLUMNS =
+  'user_id, reminders_enabled, reminder_lead_minutes, assignment_alerts, mention_alerts, digest_enabled, digest_hour';
+
+const SAVED_VIEW_COLUMNS = 'id, user_id, name, filter, created_at, updated_at';
+
+const AVATARS_BUCKET = 'avatars';
+
+// Private bucket; photos are shown through signed URLs
+const ATTACHMENTS_BUCKET = 'task-attachments';
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+const ATTACHMENT_COLUMNS = 'id, task_id, household_id, uploaded_by, storage_path, created_at';
+
+const REALTIME_TABLES: HouseholdChange['table'][] = [
+  'tasks',
+  'household_members',
+  'household_invitations',
+  'task_comments',
+  'shopping_items'
+];
+
+// Failed fetches come back from supabase-js as errors with an empty code
+const toDataError = (error: PostgrestError | Error, fallback: string) => {
+  const code = 'code' in error && typeof error.code === 'string' ? error.code || NETWORK_ERROR : null;
+  return new DataError(error.message || fallback, code);
+};
+
+// Fill in defaults for columns that older rows may not have
+const normalizeTask = (row: any): Task => ({
+  ...row,
+  details: row.details || '',
+  state: row.state || 'open',
+  created_by: row.created_by || '',
+  updated_at: row.updated_at || row.created_at,
+  due_date: row.due_date || null,
+  due_all_day: row.due_all_day ?? true,
+  priority: row.priority || 'medium',
+  tag_ids: row.tag_ids || [],
+  points: row.points ?? 1,
+  recurrence_rule: row.recurrence_rule || null,
+  rotation: row.rotation || [],
+  series_id: row.series_id || null,
+  checklist_total: row.checklist_total ?? 0,
+  checklist_done: row.checklist_done ?? 0,
+  comment_count: row.comment_count ?? 0,
+  requires_proof: row.requires_proof ?? false,
+  requires_review: row.requires_review ?? false,
+  submitted_by: row.submitted_by || null,
+  submitted_at: row.submitted_at || null,
+  reviewed_by: row.reviewed_by || null,
+  review_reason: row.review_reason || null,
+  completed_by: row.completed_by || null,
+  completed_at: row.completed_at || null,
+});
+
+// numeric columns come back from PostgREST as strings
+const normalizeExpense = (row: any): Expense => ({
+  ...row,
+  amount: Number(row.amount),
+  currency: row.currency || 'USD',
+  split_mode: row.split_mode || 'equal',
+  splits: (row.splits || []).map((split: any) => ({
+    user_id: split.user_id,
+    share: Number(split.share),
+    amount: Number(split.amount),
+  })),
+});
+
+const normalizePayment = (row: any): ExpensePayment => ({
+  ...row,
+  amount: Number(row.amount),
+});
+
+const normalizeBill = (row: any): Bill => ({
+  ...row,
+  amount: row.amount === null ? null : Number(row.amount),
+  participants: row.participants || [],
+});
+
+const normalizeBillInstance = (row: any): BillInstance => ({
+  ...row,
+  amount: row.amount === null ? null : Number(row.amount),
+  shares: (row.shares || []).map((share: any) => ({
+    user_id: share.user_id,
+    amount: share.amount === null ? null : Number(share.amount),
+    paid_at: share.paid_at || null,
+  })),
+});
+
+// Convert a postgres_changes payload into a HouseholdChange.
+// Inserts carry an empty `old` and deletes an empty `new`, which become null here.
+const toHouseholdChange = (
+  table: HouseholdChange['table'],
+  payload: RealtimePostgresChangesPayload<Record<string, any>>
+): HouseholdChange => {
+  const hasRecord = payload.eventType !== 'DELETE';
+  const hasOld = payload.eventType !== 'INSERT' && Object.keys(payload.old).length > 0;
+  const raw = hasRecord ? payload.new : null;
+  const old = hasOld ? payload.old : null;
+  // updated_by is maintained by a trigger. For deletes it names whoever last touched the row.
+  const actor = (raw ?? old)?.updated_by ?? null;
+
+  if (table === 'tasks') {
+    return {
+      table,
+      type: payload.eventType,
+      record: raw ? normalizeTask(raw) : null,
+      old: old as Partial<Task> | null,
+      actor,
+    };
+  }
+  return { table, type: payload.eventType, record: raw as any, old: old as any, actor };
+};
+
+// Tasks listed with the name of their household
+const withHouseholdName = ({ households: household, ...row }: any): TaskWithHousehold => ({
+  ...normalizeTask(row),
+  household_name: household?.name || 'Unknown Household',
+});
+
+// PostgREST condition for the tasks that come after the cursor in page order
+const afterTaskCursor = (sort: TaskSort, { id, due_date, created_at }: TaskCursor) => {
+  const older = [`created_at.lt."${created_at}"`, `and(created_at.eq."${created_at}",id.lt.${id})`];
+  if (sort === 'newest') return older.join(',');
+  if (!due_date) return older.map(condition => `and(due_date.is.null,${condition})`).join(',');
+  return [
+    `due_date.gt."${due_date}"`,
+    'due_date.is.null',
+    ...older.map(condition => `and(due_date.eq."${due_date}",${condition})`),
+  ].join(',');
+};
+
+let channelCount = 0;
+
+export const createSupabaseRepository = (client: SupabaseClient): DataRepository => {
+  const countRows = async (table: string, filters: Record<string, unknown>) => {
+    let query = client.from(table).select('*', { count: 'exact', head: true });
+    for (const [column, value] of Object.entries(filters)) {
+      query = query.eq(column, value);
+    }
+    const { count, error } = await query;
+    if (error) throw toDataError(error, `Failed to count ${table}`);
+    return count || 0;
+  };
+
+  // Tasks of the households that meet the query, not yet ordered
+  const selectTasks = (householdIds: string[], query: TaskQuery) => {
+    let request = client
+      .from('tasks')
+      .select(`${TASK_COLUMNS}, households(name)`)
+      .in('household_id', householdIds);
+    if (query.states?.length) request = request.in('state', query.states);
+    if (query.creators?.length) request = request.in('created_by', query.creators);
+    if (query.priorities?.length) request = request.in('priority', query.priorities);
+    if (query.tags?.length) request = request.overlaps('tag_ids', query.tags);
+    if (query.assignees?.length) {
+      // `in` never matches null, so unassigned tasks need their own condition
+      const ids = query.assignees.filter((assignee): assignee is string => assignee !== null);
+      const conditions = [
+        ...(query.assignees.includes(null) ? ['assignee.is.null'] : []),
+        ...(ids.length > 0 ? [`assignee.in.(${ids.join(',')})`] : []),
+      ];
+      request = request.or(conditions.join(','));
+    }
+    if (query.hasDueDate !== undefined) {
+      request = query.hasDueDate ? request.not('due_date', 'is', null) : request.is('due_date', null);
+    }
+    if (query.dueFrom) request = request.gte('due_date', query.dueFrom);
+    if (query.dueBefore) request = request.lt('due_date', query.dueBefore);
+    if (query.overdue) {
+      request = request
+        .eq('state', 'open')
+        .or(`and(due_all_day.is.true,due_date.lt."${query.overdue.allDayBefore}"),`
+          + `and(due_all_day.is.false,due_date.lt."${query.overdue.timedBefore}")`);
+    }
+    const tsquery = query.search ? toTsQuery(query.search) : '';
+    if (tsquery) {
+      // search_vector is generated from title and details, see task_search_schema.sql
+      const people = query.searchMembers?.length ? query.searchMembers.join(',') : null;
+      const tags = query.searchTags?.length ? query.searchTags.join(',') : null;
+      request = request.or([
+        `search_vector.fts(english)."${tsquery}"`,
+        ...(people ? [`assignee.in.(${people})`, `created_by.in.(${people})`] : []),
+        ...(tags ? [`tag_ids.ov.{${tags}}`] : []),
+      ].join(','));
+    }
+    return request;
+  };
+
+  // Row level security silently skips rows the user may not change, so no row back means no permission
+  const updateMember = async (
+    householdId: string,
+    userId: string,
+    changes: { role?: MemberRole; is_active?: boolean },
+    fallback: string
+  ) => {
+    const { data, error } = await client
+      .from('household_members')
+      .update(changes)
+      .eq('household_id', householdId)
+      .eq('user_id', userId)
+      .select('user_id')
+      .maybeSingle();
+    if (error) throw toDataError(error, fallback);
+    if (!data) throw new DataError('You are not allowed to change this member', PERMISSION_DENIED);
+  };
+
+  const users: DataRepository['users'] = {
+    async get(id) {
+      const { data, error } = await client
+        .from('users')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw toDataError(error, 'Failed to load user');
+      return data;
+    },
+
+    async findByEmail(email) {
+      const { data, error } = await client
+        .from('users')
+        .select('*')
+        .eq('email', email)
+        .maybeSingle();
+      if (error) throw toDataError(error, 'Failed to look up user');
+      return data;
+    },
+
+    async create(profile) {
+      const { data, error } = await client
+        .from('users')
+        .insert({
+          id: profile.id,
+          email: profile.email,
+          name: profile.name,
+          avatar_url: profile.avatar_url ?? null,
+          phone: profile.phone ?? null,
+        })
+        .select()
+        .single();
+      if (error) throw toDataError(error, 'Failed to create user profile');
+      return data;
+    },
+
+    async ensure(profile) {
+      return (await users.get(profile.id)) || users.create(profile);
+    },
+
+    async update(id, changes) {
+      const { error } = await client
+        .from('users')
+        .update(changes)
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to update user profile');
+    },
+
+    async uploadAvatar(id, uri) {
+      const response = await fetch(uri);
+      const blob = await response.blob();
+
+      const fileExt = uri.split('.').pop()?.toLowerCase() || 'jpg';
+      const filePath = `avatars/${id}.${fileExt}`;
+
+      const { error: uploadError } = await client.storage
+        .from(AVATARS_BUCKET)
+        .upload(filePath, blob, { upsert: true });
+      if (uploadError) throw toDataError(uploadError, 'Failed to upload avatar');
+
+      const { data: { publicUrl } } = client.storage
+        .from(AVATARS_BUCKET)
+        .getPublicUrl(filePath);
+
+      await users.update(id, { avatar_url: publicUrl });
+      return publicUrl;
+    },
+  };
+
+  const households: DataRepository['households'] = {
+    async get(id) {
+      const { data, error } = await client
+        .from('households')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw toDataError(error, 'Failed to load household');
+      return data;
+    },
+
+    async listForUser(userId) {
+      // Counted in the database (household_summaries_schema.sql) rather than two queries per household
+      const { data, error } = await client.rpc('list_household_summaries', { p_user_id: userId });
+      if (error) throw toDataError(error, 'Failed to load households');
+      return data || [];
+    },
+
+    async create(household) {
+      const { data, error } = await client
+        .from('households')
+        .insert(household)
+        .select()
+        .single();
+      if (error) throw toDataError(error, 'Failed to create household');
+      return data;
+    },
+
+    async update(id, changes) {
+      const { data, error } = await client
+        .from('households')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      if (error) throw toDataError(error, 'Failed to update household');
+      if (!data) throw new DataError('Only admins can change household settings', PERMISSION_DENIED);
+      return data;
+    },
+
+    async transferOwnership(id, newOwnerId) {
+      const { data, error } = await client
+        .from('households')
+        .update({ created_by: newOwnerId })
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      if (error) throw toDataError(error, 'Failed to transfer ownership');
+      if (!data) throw new DataError('Only admins can transfer ownership', PERMISSION_DENIED);
+      return data;
+    },
+  };
+
+  // Joins membership rows with the users' profiles in one query
+  const withUserDetails = async (membersData: MemberRow[] | null) => {
+    if (!membersData || membersData.length === 0) return [];
+
+    const { data: usersData, error: usersError } = await client
+      .from('users')
+      .select('id, email, avatar_url')
+      .in('id', [...new Set(membersData.map(member => member.user_id))]);
+    if (usersError) throw toDataError(usersError, 'Failed to load member details');
+
+    return membersData.map((member): Member => {
+      const user = usersData?.find(u => u.id === member.user_id);
+      return {
+        household_id: member.household_id,
+        user_id: member.user_id,
+        email: user?.email || 'Unknown',
+        name: member.name || user?.email || null,
+        avatar_url: user?.avatar_url || null,
+        role: member.role as MemberRole,
+        joined_at: member.joined_at,
+        is_active: member.is_active,
+        is_available: member.is_available ?? true,
+      };
+    });
+  };
+
+  const members: DataRepository['members'] = {
+    async listActive(householdId) {
+      const { data, error } = await client
+        .from('household_members')
+        .select(MEMBER_COLUMNS)
+        .eq('household_id', householdId)
+        .eq('is_active', true);
+      if (error) throw toDataError(error, 'Failed to load members');
+      return withUserDetails(data);
+    },
+
+    async listForHouseholds(householdIds) {
+      if (householdIds.length === 0) return [];
+      const { data, error } = await client
+        .from('household_members')
+        .select(MEMBER_COLUMNS)
+        .in('household_id', householdIds);
+      if (error) throw toDataError(error, 'Failed to load members');
+      return withUserDetails(data);
+    },
+
+    async listHouseholdIds(userId) {
+      const { data, error } = await client
+        .from('household_members')
+        .select('household_id')
+        .eq('user_id', userId)
+        .eq('is_active', true);
+      if (error) throw toDataError(error, 'Failed to load memberships');
+      return (data || []).map(row => row.household_id);
+    },
+
+    async findActive(householdId, userId) {
+      const active = await members.listActive(householdId);
+      return active.find(member => member.user_id === userId) || null;
+    },
+
+    async add(member) {
+      const { error } = await client
+        .from('household_members')
+        .upsert({ ...member, is_active: true }, { onConflict: 'user_id,household_id' });
+      if (error) throw toDataError(error, 'Failed to add member');
+    },
+
+    async updateRole(householdId, userId, role) {
+      await updateMember(householdId, userId, { role }, 'Failed to change role');
+    },
+
+    // Goes through a function so members can't change anything else on their own row
+    async setAvailability(householdId, userId, available) {
+      const { data, error } = await client.rpc('set_member_availability', {
+        p_household_id: householdId,
+        p_user_id: userId,
+        p_available: available,
+      });
+      if (error) throw toDataError(error, 'Failed to update availability');
+      if (!data) throw new DataError('You are not allowed to change this member', PERMISSION_DENIED);
+    },
+
+    async deactivate(householdId, userId) {
+      await updateMember(householdId, userId, { is_active: false }, 'Failed to remove member');
+    },
+  };
+
+  const tasks: DataRepository['tasks'] = {
+    async get(id) {
+      const { data, error } = await client
+        .from('tasks')
+        .select(TASK_COLUMNS)
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw toDataError(error, 'Failed to load task');
+      return data ? normalizeTask(data) : null;
+    },
+
+    async listForHousehold(householdId) {
+      const { data, error } = await client
+        .from('tasks')
+        .select(TASK_COLUMNS)
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: false });
+      if (error) throw toDataError(error, 'Failed to load tasks');
+      return (data || []).map(normalizeTask);
+    },
+
+    async listForHouseholds(householdIds, query = {}) {
+      if (householdIds.length === 0) return [];
+
+      const { data, error } = await selectTasks(householdIds, query).order('created_at', { ascending: false });
+      if (error) throw toDataError(error, 'Failed to load tasks');
+      return (data || []).map(withHouseholdName);
+    },
+
+    async listPage(householdIds, query, { sort, cursor, limit }) {
+      if (householdIds.length === 0) return { tasks: [], nextCursor: null };
+
+      let request = selectTasks(householdIds, query);
+      if (cursor) request = request.or(afterTaskCursor(sort, decodeTaskCursor(cursor)));
+      if (sort === 'due-date') request = request.order('due_date', { ascending: true, nullsFirst: false });
+      request = request.order('created_at', { ascending: false }).order('id', { ascending: false });
+
+      // One extra row tells whether there's another page
+      const { data, error } = await request.limit(limit + 1);
+      if (error) throw toDataError(error, 'Failed to load tasks');
+
+      const page = (data || []).slice(0, limit).map(withHouseholdName);
+      return {
+        tasks: page,
+        nextCursor: (data || []).length > limit ? encodeTaskCursor(page[page.length - 1]) : null,
+      };
+    },
+
+    async create(task) {
+      const { data, error } = await client
+        .from('tasks')
+        .insert({ ...task, state: 'open' })
+        .select(TASK_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to create task');
+      return normalizeTask(data);
+    },
+
+    async update(id, changes, expectedUpdatedAt) {
+      let query = client
+        .from('tasks')
+        .update(changes)
+        .eq('id', id);
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt);
+      }
+      const { data, error } = await query.select(TASK_COLUMNS).maybeSingle();
+      if (error) throw toDataError(error, 'Failed to update task');
+      if (!data) {
+        throw expectedUpdatedAt
+          ? new DataError('Task was changed by someone else', STALE_WRITE)
+          : new DataError('Task not found');
+      }
+      return normalizeTask(data);
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('tasks')
+        .delete()
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to delete task');
+    },
+  };
+
+  const invitations: DataRepository['invitations'] = {
+    async listForHousehold(householdId) {
+      const { data, error } = await client
+        .from('household_invitations')
+        .select(INVITATION_COLUMNS)
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: false });
+      if (error) throw toDataError(error, 'Failed to load invitations');
+      return (data || []) as Invitation[];
+    },
+
+    async listPendingForEmail(email) {
+      const { data, error } = await client
+        .from('household_invitations')
+        .select(INVITATION_COLUMNS)
+        .eq('invitee_email', email.toLowerCase())
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+      if (error) throw toDataError(error, 'Failed to load invitations');
+      if (!data || data.length === 0) return [];
+
+      // Resolve household and inviter names
+      const householdIds = [...new Set(data.map(invite => invite.household_id))];
+      const inviterIds = [...new Set(data.map(invite => invite.inviter_id))];
+      const [{ data: householdsData }, { data: invitersData }] = await Promise.all([
+        client.from('households').select('id, name').in('id', householdIds),
+        client.from('users').select('id, name, email').in('id', inviterIds),
+      ]);
+
+      return (data as Invitation[]).map(invite => {
+        const inviter = invitersData?.find(user => user.id === invite.inviter_id);
+        return {
+          ...invite,
+          household_name: householdsData?.find(h => h.id === invite.household_id)?.name || 'Unknown Household',
+          inviter_name: inviter?.name || inviter?.email || 'Someone',
+        };
+      });
+    },
+
+    countPendingForEmail(email) {
+      return countRows('household_invitations', { invitee_email: email.toLowerCase(), status: 'pending' });
+    },
+
+    async findPending(householdId, email) {
+      const { data, error } = await client
+        .from('household_invitations')
+        .select(INVITATION_COLUMNS)
+        .eq('household_id', householdId)
+        .eq('invitee_email', email.toLowerCase())
+        .eq('status', 'pending')
+        .maybeSingle();
+      if (error) throw toDataError(error, 'Failed to look up invitation');
+      return data as Invitation | null;
+    },
+
+    async create(invitation) {
+      const { data, error } = await client
+        .from('household_invitations')
+        .insert({ ...invitation, invitee_email: invitation.invitee_email.toLowerCase(), status: 'pending' })
+        .select(INVITATION_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to send invitation');
+      return data as Invitation;
+    },
+
+    // The database takes the user from the session
+    async accept(id) {
+      const { error } = await client.rpc('accept_invitation', { p_invitation_id: id });
+      if (error) throw toDataError(error, 'Failed to accept invitation');
+    },
+
+    async respond(id, status) {
+      const { error } = await client
+        .from('household_invitations')
+        .update({ status, responded_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to update invitation');
+    },
+  };
+
+  const checklist: DataRepository['checklist'] = {
+    async listForTask(taskId) {
+      const { data, error } = await client
+        .from('task_checklist_items')
+        .select(CHECKLIST_COLUMNS)
+        .eq('task_id', taskId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+      if (error) throw toDataError(error, 'Failed to load checklist');
+      return data || [];
+    },
+
+    async create(item) {
+      const { data, error } = await client
+        .from('task_checklist_items')
+        .insert(item)
+        .select(CHECKLIST_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to add checklist item');
+      return data;
+    },
+
+    async update(id, changes) {
+      const { data, error } = await client
+        .from('task_checklist_items')
+        .update(changes)
+        .eq('id', id)
+        .select(CHECKLIST_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to update checklist item');
+      return data;
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('task_checklist_items')
+        .delete()
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to remove checklist item');
+    },
+  };
+
+  const comments: DataRepository['comments'] = {
+    async listForTask(taskId) {
+      const { data, error } = await client
+        .from('task_comments')
+        .select(COMMENT_COLUMNS)
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+      if (error) throw toDataError(error, 'Failed to load comments');
+      return data || [];
+    },
+
+    async create(comment) {
+      const { data, error } = await client
+        .from('task_comments')
+        .insert(comment)
+        .select(COMMENT_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to post comment');
+      return data;
+    },
+
+    async update(id, changes) {
+      const { data, error } = await client
+        .from('task_comments')
+        .update(changes)
+        .eq('id', id)
+        .select(COMMENT_COLUMNS)
+        .maybeSingle();
+      if (error) throw toDataError(error, 'Failed to edit comment');
+      if (!data) throw new DataError('You can only edit your own comments', PERMISSION_DENIED);
+      return data;
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('task_comments')
+        .delete()
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to delete comment');
+    },
+  };
+
+  const signAttachmentUrls = async (rows: Omit<TaskAttachment, 'url'>[]): Promise<TaskAttachment[]> => {
+    if (rows.length === 0) return [];
+    const { data, error } = await client.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrls(rows.map(row => row.storage_path), ATTACHMENT_URL_TTL_SECONDS);
+    if (error) throw toDataError(error, 'Failed to load photos');
+    return rows.map((row, index) => ({ ...row, url: data[index]?.signedUrl || '' }));
+  };
+
+  const attachments: DataRepository['attachments'] = {
+    async listForTask(taskId) {
+      const { data, error } = await client
+        .from('task_attachments')
+        .select(ATTACHMENT_COLUMNS)
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+      if (error) throw toDataError(error, 'Failed to load photos');
+      return signAttachmentUrls(data || []);
+    },
+
+    async upload({ uri, ...attachment }) {
+      const response = await fetch(uri);
+      const blob = await response.blob();
+
+      // Files live under their household's folder, which the storage policies check
+      const fileExt = uri.split('.').pop()?.toLowerCase() || 'jpg';
+      const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}.${fileExt}`;
+      const storagePath = `${attachment.household_id}/${attachment.task_id}/${fileName}`;
+
+      const { error: uploadError } = await client.storage
+        .from(ATTACHMENTS_BUCKET)
+        .upload(storagePath, blob);
+      if (uploadError) throw toDataError(uploadError, 'Failed to upload photo');
+
+      const { data, error } = await client
+        .from('task_attachments')
+        .insert({ ...attachment, storage_path: storagePath })
+        .select(ATTACHMENT_COLUMNS)
+        .single();
+      if (error) {
+        await client.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+        throw toDataError(error, 'Failed to save photo');
+      }
+
+      const [signed] = await signAttachmentUrls([data]);
+      return signed;
+    },
+
+    async remove(attachment) {
+      const { error } = await client
+        .from('task_attachments')
+        .delete()
+        .eq('id', attachment.id);
+      if (error) throw toDataError(error, 'Failed to remove photo');
+
+      const { error: storageError } = await client.storage
+        .from(ATTACHMENTS_BUCKET)
+        .remove([attachment.storage_path]);
+      if (storageError) console.error('Error removing photo file:', storageError);
+    },
+  };
+
+  const activity: DataRepository['activity'] = {
+    async listForTask(taskId) {
+      const { data, error } = await client
+        .from('task_activity')
+        .select(ACTIVITY_COLUMNS)
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+      if (error) throw toDataError(error, 'Failed to load task history');
+      return data || [];
+    },
+
+    async listForHousehold(householdId, limit) {
+      const { data, error } = await client
+        .from('task_activity')
+        .select(ACTIVITY_COLUMNS)
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (error) throw toDataError(error, 'Failed to load household activity');
+      return data || [];
+    },
+  };
+
+  const shopping: DataRepository['shopping'] = {
+    async listForHousehold(householdId) {
+      const { data, error } = await client
+        .from('shopping_items')
+        .select(SHOPPING_COLUMNS)
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: true });
+      if (error) throw toDataError(error, 'Failed to load shopping list');
+      return data || [];
+    },
+
+    async create(item) {
+      const { data, error } = await client
+        .from('shopping_items')
+        .insert(item)
+        .select(SHOPPING_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to add item');
+      return data;
+    },
+
+    async update(id, changes) {
+      const { data, error } = await client
+        .from('shopping_items')
+        .update(changes)
+        .eq('id', id)
+        .select(SHOPPING_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to update item');
+      return data;
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('shopping_items')
+        .delete()
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to remove item');
+    },
+
+    async clearPurchased(householdId) {
+      const { error } = await client
+        .from('shopping_items')
+        .delete()
+        .eq('household_id', householdId)
+        .eq('purchased', true);
+      if (error) throw toDataError(error, 'Failed to clear purchased items');
+    },
+
+    async linkExpense(itemIds, expenseId) {
+      // Items someone else put on an expense meanwhile don't match, so they aren't charged twice
+      const { data, error } = await client
+        .from('shopping_items')
+        .update({ expense_id: expenseId })
+        .in('id', itemIds)
+        .eq('purchased', true)
+        .is('expense_id', null)
+        .select('id');
+      if (error) throw toDataError(error, 'Failed to add the items to the expense');
+      if ((data || []).length !== itemIds.length) {
+        throw new DataError('Some of the items are already on an expense');
+      }
+    },
+  };
+
+  const expenses: DataRepository['expenses'] = {
+    async listForHousehold(householdId) {
+      const { data, error } = await client
+        .from('expenses')
+        .select(EXPENSE_COLUMNS)
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: false });
+      if (error) throw toDataError(error, 'Failed to load expenses');
+      return (data || []).map(normalizeExpense);
+    },
+
+    async create({ splits, ...expense }) {
+      const { data, error } = await client
+        .from('expenses')
+        .insert(expense)
+        .select('id')
+        .single();
+      if (error) throw toDataError(error, 'Failed to record expense');
+
+      const { error: splitsError } = await client
+        .from('expense_splits')
+        .insert(splits.map(split => ({ ...split, expense_id: data.id, household_id: expense.household_id })));
+      if (splitsError) {
+        await client.from('expenses').delete().eq('id', data.id);
+        throw toDataError(splitsError, 'Failed to record expense');
+      }
+
+      const { data: created, error: loadError } = await client
+        .from('expenses')
+        .select(EXPENSE_COLUMNS)
+        .eq('id', data.id)
+        .single();
+      if (loadError) throw toDataError(loadError, 'Failed to load expense');
+      return normalizeExpense(created);
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('expenses')
+        .delete()
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to delete expense');
+    },
+  };
+
+  const payments: DataRepository['payments'] = {
+    async listForHousehold(householdId) {
+      const { data, error } = await client
+        .from('expense_payments')
+        .select(PAYMENT_COLUMNS)
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: false });
+      if (error) throw toDataError(error, 'Failed to load payments');
+      return (data || []).map(normalizePayment);
+    },
+
+    async create(payment) {
+      const { data, error } = await client
+        .from('expense_payments')
+        .insert(payment)
+        .select(PAYMENT_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to record payment');
+      return normalizePayment(data);
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('expense_payments')
+        .delete()
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to delete payment');
+    },
+  };
+
+  const loadBillInstance = async (id: string) => {
+    const { data, error } = await client
+      .from('bill_instances')
+      .select(BILL_INSTANCE_COLUMNS)
+      .eq('id', id)
+      .single();
+    if (error) throw toDataError(error, 'Failed to load bill');
+    return normalizeBillInstance(data);
+  };
+
+  const bills: DataRepository['bills'] = {
+    async listForHousehold(householdId) {
+      const { data, error } = await client
+        .from('bills')
+        .select(BILL_COLUMNS)
+        .eq('household_id', householdId)
+        .order('next_due_date', { ascending: true });
+      if (error) throw toDataError(error, 'Failed to load bills');
+      return (data || []).map(normalizeBill);
+    },
+
+    async create(bill) {
+      const { data, error } = await client
+        .from('bills')
+        .insert(bill)
+        .select(BILL_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to add bill');
+      return normalizeBill(data);
+    },
+
+    async update(id, changes) {
+      const { data, error } = await client
+        .from('bills')
+        .update(changes)
+        .eq('id', id)
+        .select(BILL_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to update bill');
+      return normalizeBill(data);
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('bills')
+        .delete()
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to delete bill');
+    },
+
+    async listInstances(householdId) {
+      const { data, error } = await client
+        .from('bill_instances')
+        .select(BILL_INSTANCE_COLUMNS)
+        .eq('household_id', householdId)
+        .order('due_date', { ascending: false });
+      if (error) throw toDataError(error, 'Failed to load bills');
+      return (data || []).map(normalizeBillInstance);
+    },
+
+    async listUnsettledForHouseholds(householdIds) {
+      if (householdIds.length === 0) return [];
+
+      const { data, error } = await client
+        .from('bill_instances')
+        .select(`${BILL_INSTANCE_COLUMNS}, households(name)`)
+        .in('household_id', householdIds)
+        .eq('settled', false)
+        .order('due_date', { ascending: true });
+      if (error) throw toDataError(error, 'Failed to load bills');
+
+      return (data || []).map(({ households: household, ...row }: any) => ({
+        ...normalizeBillInstance(row),
+        household_name: household?.name || 'Unknown Household',
+      }));
+    },
+
+    async createInstance({ shares, ...instance }) {
+      const { data, error } = await client
+        .from('bill_instances')
+        .insert(instance)
+        .select('id')
+        .single();
+      if (error) throw toDataError(error, 'Failed to add bill');
+
+      const { error: sharesError } = await client
+        .from('bill_shares')
+        .insert(shares.map(share => ({ ...share, instance_id: data.id, household_id: instance.household_id })));
+      if (sharesError) {
+        await client.from('bill_instances').delete().eq('id', data.id);
+        throw toDataError(sharesError, 'Failed to add bill');
+      }
+      return loadBillInstance(data.id);
+    },
+
+    async setInstanceAmount(id, amount, shares) {
+      const { error } = await client
+        .from('bill_instances')
+        .update({ amount })
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to update bill');
+
+      for (const share of shares) {
+        const { error: shareError } = await client
+          .from('bill_shares')
+          .update({ amount: share.amount })
+          .eq('instance_id', id)
+          .eq('user_id', share.user_id);
+        if (shareError) throw toDataError(shareError, 'Failed to update bill');
+      }
+      return loadBillInstance(id);
+    },
+
+    async setSharePaid(instanceId, userId, paid) {
+      const { error } = await client
+        .from('bill_shares')
+        .update({ paid_at: paid ? new Date().toISOString() : null })
+        .eq('instance_id', instanceId)
+        .eq('user_id', userId);
+      if (error) throw toDataError(error, 'Failed to update bill');
+      return loadBillInstance(instanceId);
+    },
+  };
+
+  const notificationPreferences: DataRepository['notificationPreferences'] = {
+    async get(userId) {
+      const { data, error } = await client
+        .from('notification_preferences')
+        .select(NOTIFICATION_PREFERENCE_COLUMNS)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw toDataError(error, 'Failed to load notification settings');
+      return data;
+    },
+
+    async save(preferences) {
+      const { data, error } = await client
+        .from('notification_preferences')
+        .upsert({ ...preferences, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+        .select(NOTIFICATION_PREFERENCE_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to save notification settings');
+      return data;
+    },
+  };
+
+  const tags: DataRepository['tags'] = {
+    async listForHouseholds(householdIds) {
+      if (householdIds.length === 0) return [];
+
+      const { data, error } = await client
+        .from('task_tags')
+        .select(TAG_COLUMNS)
+        .in('household_id', householdIds)
+        .order('name', { ascending: true });
+      if (error) throw toDataError(error, 'Failed to load tags');
+      return data || [];
+    },
+
+    async create(tag) {
+      const { data, error } = await client
+        .from('task_tags')
+        .insert(tag)
+        .select(TAG_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to create tag');
+      return data;
+    },
+
+    async update(id, changes) {
+      const { data, error } = await client
+        .from('task_tags')
+        .update(changes)
+        .eq('id', id)
+        .select(TAG_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to update tag');
+      return data;
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('task_tags')
+        .delete()
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to delete tag');
+    },
+  };
+
+  const savedViews: DataRepository['savedViews'] = {
+    async listForUser(userId) {
+      const { data, error } = await client
+        .from('saved_task_views')
+        .select(SAVED_VIEW_COLUMNS)
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+      if (error) throw toDataError(error, 'Failed to load saved views');
+      return data || [];
+    },
+
+    async create(view) {
+      const { data, error } = await client
+        .from('saved_task_views')
+        .insert(view)
+        .select(SAVED_VIEW_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to save view');
+      return data;
+    },
+
+    async update(id, changes) {
+      const { data, error } = await client
+        .from('saved_task_views')
+        .update(changes)
+        .eq('id', id)
+        .select(SAVED_VIEW_COLUMNS)
+        .single();
+      if (error) throw toDataError(error, 'Failed to update view');
+      return data;
+    },
+
+    async remove(id) {
+      const { error } = await client
+        .from('saved_task_views')
+        .delete()
+        .eq('id', id);
+      if (error) throw toDataError(error, 'Failed to delete view');
+    },
+  };
+
+  const realtime: DataRepository['realtime'] = {
+    subscribe(householdIds, onChange) {
+      if (householdIds.length === 0) return () => {};
+
+      const filter = `household_id=in.(${householdIds.join(',')})`;
+      const channel = client.channel(`households-${++channelCount}`);
+      for (const table of REALTIME_TABLES) {
+        channel.on('postgres_changes', { event: '*', schema: 'public', table, filter }, payload => {
+          const change = toHouseholdChange(table, payload);
+          // Delete events can't be filtered server-side
+          const householdId = change.record?.household_id ?? change.old?.household_id;
+          if (householdId && !householdIds.includes(householdId)) return;
+          onChange(change);
+        });
+      }
+      channel.subscribe();
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+
+  return {
+    users,
+    households,
+    members,
+    tasks,
+    tags,
+    checklist,
+    comments,
+    attachments,
+    activity,
+    shopping,
+    expenses,
+    payments,
+    bills,
+    invitations,
+    notificationPreferences,
+    savedViews,
+    realtime,
+  };
+};
@@ -0,0 +1,88 @@
+import { Task, TaskPage, TaskPageRequest, TaskQuery, TaskSort } from './types';
+
+// The fields pages are ordered by, which is all a cursor records
+export type TaskCursor = Pick<Task, 'id' | 'due_date' | 'created_at'>;
+
+const includes = <T>(values: T[] | undefined, value: T) => !values || values.length === 0 || values.includes(value);
+
+// Tags match when the task has any of them
+const hasAnyTag = (task: Task, tagIds: string[] | undefined) =>
+  !tagIds || tagIds.length === 0 || tagIds.some(tagId => task.tag_ids.includes(tagId));
+
+const time = (value: string) => new Date(value).getTime();
+
+// Lowercased words of a search, without punctuation
+export const getSearchTerms = (search: string | undefined) => search?.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// A Postgres tsquery matching tasks that have every word of the search, each as a prefix
+export const toTsQuery = (search: string) => getSearchTerms(search).map(term => `${term}:*`).join(' & ');
+
+// Like the tsquery, without Postgres' stemming
+const matchesSearch = (task: Task, query: TaskQuery) => {
+  const terms = getSearchTerms(query.search);
+  if (terms.length === 0) return true;
+  if (query.searchMembers?.some(userId => userId === task.assignee || userId === task.created_by)) return true;
+  if (query.searchTags?.some(tagId => task.tag_ids.includes(tagId))) return true;
+
+  const words = getSearchTerms(`${task.title} ${task.details}`);
+  return terms.every(term => words.some(word => word.startsWith(term)));
+};
+
+// Whether a task meets the query, the same way the store filters: used on cached tasks while
+// offline and on live changes to tasks that are already listed
+export const matchesTaskQuery = (task: Task, query: TaskQuery) => {
+  if (!includes(query.states, task.state)
+    || !includes(query.assignees, task.assignee)
+    || !includes(query.creators, task.created_by)
+    || !includes(query.priorities, task.priority)
+    || !hasAnyTag(task, query.tags)
+    || !matchesSearch(task, query)) {
+    return false;
+  }
+
+  if (query.hasDueDate !== undefined && (task.due_date !== null) !== query.hasDueDate) return false;
+  if ((query.dueFrom || query.dueBefore || query.overdue) && !task.due_date) return false;
+
+  const due = task.due_date ? new Date(task.due_date).getTime() : 0;
+  if (query.dueFrom && due < new Date(query.dueFrom).getTime()) return false;
+  if (query.dueBefore && due >= new Date(query.dueBefore).getTime()) return false;
+  if (query.overdue) {
+    const deadline = task.due_all_day ? query.overdue.allDayBefore : query.overdue.timedBefore;
+    if (task.state !== 'open' || due >= new Date(deadline).getTime()) return false;
+  }
+  return true;
+};
+
+// Page order, with the id as tie-breaker so every task has exactly one place
+export const compareTasks = (sort: TaskSort) => (a: TaskCursor, b: TaskCursor) => {
+  if (sort === 'due-date' && a.due_date !== b.due_date) {
+    if (!a.due_date) return 1;
+    if (!b.due_date) return -1;
+    const byDueDate = time(a.due_date) - time(b.due_date);
+    if (byDueDate !== 0) return byDueDate;
+  }
+  const byCreated = time(b.created_at) - time(a.created_at);
+  if (byCreated !== 0) return byCreated;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+};
+
+export const encodeTaskCursor = ({ id, due_date, created_at }: TaskCursor) =>
+  JSON.stringify({ id, due_date, created_at });
+
+export const decodeTaskCursor = (cursor: string): TaskCursor => JSON.parse(cursor);
+
+// The page of `tasks` the request asks for, for stores that have every task at hand
+export const pageTasks = <T extends Task>(
+  tasks: T[],
+  { sort, cursor, limit }: TaskPageRequest
+): { tasks: T[]; nextCursor: TaskPage['nextCursor'] } => {
+  const order = compareTasks(sort);
+  const after = cursor ? decodeTaskCursor(cursor) : null;
+  const remaining = tasks.filter(task => !after || order(task, after) > 0).sort(order);
+  const page = remaining.slice(0, limit);
+
+  return {
+    tasks: page,
+    nextCursor: remaining.length > limit ? encodeTaskCursor(page[page.length - 1]) : null,
+  };
+};
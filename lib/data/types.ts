@@ -0,0 +1,609 @@
+// Canonical domain types shared by every screen.
+// Column names mirror the Supabase tables so rows can be passed through unchanged.
+
+export type MemberRole = 'admin' | 'member' | 'viewer';
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined';
+
+// open -> completed, or open -> pending_review -> completed/open when completion needs approval.
+// lib/taskState.ts has the transitions.
+export type TaskState = 'open' | 'pending_review' | 'completed';
+
+// Aisles the shopping list is grouped by
+export type ShoppingCategory =
+  | 'produce'
+  | 'dairy'
+  | 'meat'
+  | 'bakery'
+  | 'pantry'
+  | 'frozen'
+  | 'drinks'
+  | 'household'
+  | 'other';
+
+// How an expense is divided between its participants
+export type SplitMode = 'equal' | 'shares' | 'exact';
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  name: string | null;
+  avatar_url: string | null;
+  phone: string | null;
+  created_at: string;
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  description: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  // Complete a task once every item on its checklist is done
+  auto_complete_tasks: boolean;
+  // Every task needs another member's approval before it counts as done
+  require_task_review: boolean;
+}
+
+export interface HouseholdSummary {
+  id: string;
+  name: string;
+  // The owner, who counts as an admin whatever their role
+  created_by: string;
+  member_count: number;
+  task_count: number;
+}
+
+export interface Member {
+  household_id: string;
+  user_id: string;
+  email: string;
+  name: string | null;
+  avatar_url: string | null;
+  role: MemberRole;
+  joined_at: string;
+  is_active: boolean;
+  // Members who are away are skipped when tasks are assigned automatically
+  is_available: boolean;
+}
+
+// Raw household_members row, before joining with users
+export interface MemberRow {
+  household_id: string;
+  user_id: string;
+  name: string | null;
+  role: MemberRole;
+  joined_at: string;
+  is_active: boolean;
+  // Members who are away are skipped when tasks are assigned automatically
+  is_available: boolean;
+}
+
+export interface Task {
+  id: string;
+  household_id: string;
+  title: string;
+  details: string;
+  state: TaskState;
+  assignee: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  due_date: string | null;
+  // All-day tasks are due by the end of due_date's day; otherwise at its exact time
+  due_all_day: boolean;
+  priority: TaskPriority;
+  // The household's tags on the task, see TaskTag
+  tag_ids: string[];
+  // Effort weight credited to whoever completes the task
+  points: number;
+  recurrence_rule: string | null;
+  rotation: string[];
+  series_id: string | null;
+  // Completing the task needs at least one photo attached
+  requires_proof: boolean;
+  // Completing the task needs another member's approval, as does every task when the household asks for it
+  requires_review: boolean;
+  // Who last marked the task done for review, and who approved or sent it back
+  submitted_by: string | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  // Why the last submission was sent back
+  review_reason: string | null;
+  // Who the points went to and when, set when the task is completed
+  completed_by: string | null;
+  completed_at: string | null;
+  // Maintained by the database from the task's checklist items
+  checklist_total: number;
+  checklist_done: number;
+  comment_count: number;
+}
+
+// A label a household defines for its tasks, e.g. kitchen or pets. Names are unique within the
+// household, ignoring case.
+export interface TaskTag {
+  id: string;
+  household_id: string;
+  name: string;
+  // Hex color, e.g. #34C759
+  color: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface ChecklistItem {
+  id: string;
+  task_id: string;
+  household_id: string;
+  title: string;
+  done: boolean;
+  assignee: string | null;
+  // Items are shown in ascending position
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  household_id: string;
+  author_id: string;
+  body: string;
+  // Members mentioned in the body with @name
+  mentions: string[];
+  created_at: string;
+  // Set when the author edits the comment
+  edited_at: string | null;
+}
+
+export type ActivityAction =
+  | 'created'
+  | 'edited'
+  | 'assigned'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'completed'
+  | 'reopened'
+  | 'deleted';
+
+// One entry in the append-only task history, written by the database as tasks change
+export interface TaskActivity {
+  id: string;
+  household_id: string;
+  // Kept after the task is deleted, so the id may no longer resolve
+  task_id: string;
+  task_title: string;
+  actor_id: string | null;
+  action: ActivityAction;
+  // Edited fields, the new assignee, or the reason a task was sent back, depending on the action
+  details: {
+    fields?: string[];
+    assignee?: string | null;
+    reason?: string;
+  };
+  created_at: string;
+}
+
+export interface TaskAttachment {
+  id: string;
+  task_id: string;
+  household_id: string;
+  uploaded_by: string;
+  storage_path: string;
+  created_at: string;
+  // Short-lived link for showing the photo; not stored
+  url: string;
+}
+
+// An entry on the household's shared shopping list
+export interface ShoppingItem {
+  id: string;
+  household_id: string;
+  name: string;
+  // Free text, e.g. "2" or "500 g"
+  quantity: string | null;
+  category: ShoppingCategory;
+  added_by: string;
+  // The member who said they're buying it
+  claimed_by: string | null;
+  purchased: boolean;
+  // Set when the item is marked purchased
+  purchased_by: string | null;
+  purchased_at: string | null;
+  // The expense the item was paid through, once recorded
+  expense_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What one participant owes towards an expense
+export interface ExpenseSplit {
+  user_id: string;
+  // The participant's weight when split by shares, the amount they entered when split exactly, otherwise 1
+  share: number;
+  amount: number;
+}
+
+// Money one member spent on behalf of the household
+export interface Expense {
+  id: string;
+  household_id: string;
+  description: string;
+  amount: number;
+  // ISO 4217 code, e.g. "USD"
+  currency: string;
+  paid_by: string;
+  split_mode: SplitMode;
+  // Always adds up to `amount`
+  splits: ExpenseSplit[];
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Money one member handed another to settle up
+export interface ExpensePayment {
+  id: string;
+  household_id: string;
+  from_user: string;
+  to_user: string;
+  amount: number;
+  currency: string;
+  note: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+// A bill the household pays on a schedule, e.g. rent or electricity, shared equally by its participants
+export interface Bill {
+  id: string;
+  household_id: string;
+  name: string;
+  // Null when the amount changes every time; it's entered as each bill arrives
+  amount: number | null;
+  currency: string;
+  // Null for a one-off bill
+  recurrence_rule: string | null;
+  // Due date of the next instance still to be generated
+  next_due_date: string;
+  participants: string[];
+  // Stopped bills, or ones whose rule has ended, don't generate instances
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// What one participant owes towards a bill instance
+export interface BillShare {
+  user_id: string;
+  // Null until a variable bill's amount is known
+  amount: number | null;
+  paid_at: string | null;
+}
+
+// One occurrence of a bill, e.g. March's rent
+export interface BillInstance {
+  id: string;
+  bill_id: string;
+  household_id: string;
+  name: string;
+  due_date: string;
+  amount: number | null;
+  currency: string;
+  shares: BillShare[];
+  // Maintained by the database: every share has been paid
+  settled: boolean;
+  created_at: string;
+}
+
+export interface BillInstanceWithHousehold extends BillInstance {
+  household_name: string;
+}
+
+export interface TaskWithHousehold extends Task {
+  household_name: string;
+}
+
+// Due windows relative to when the filter is applied
+export type TaskDueRange = 'overdue' | 'today' | 'week' | 'none';
+
+// Conditions a task has to meet to be listed. A task matches a field when it has any of the listed
+// values, and has to match every field that is set; empty or missing fields match everything.
+export interface TaskFilter {
+  states?: TaskState[];
+  // null stands for unassigned tasks
+  assignees?: (string | null)[];
+  creators?: string[];
+  priorities?: TaskPriority[];
+  householdIds?: string[];
+  due?: TaskDueRange | null;
+  // Tasks with any of these tags
+  tags?: string[];
+}
+
+// A filter as the store runs it, with the due window resolved to absolute times
+export interface TaskQuery {
+  states?: TaskState[];
+  assignees?: (string | null)[];
+  creators?: string[];
+  priorities?: TaskPriority[];
+  tags?: string[];
+  // Due from `dueFrom` (inclusive) until `dueBefore` (exclusive)
+  dueFrom?: string;
+  dueBefore?: string;
+  // Open tasks past their deadline: all-day tasks due before the start of today, timed ones due before now
+  overdue?: { allDayBefore: string; timedBefore: string };
+  hasDueDate?: boolean;
+  // Full-text search over title and details. Every word has to match the start of a word in the task,
+  // so results narrow while the user types.
+  search?: string;
+  // Tasks assigned to or created by these users, or tagged with these tags, also match the search,
+  // so tasks can be found by the names of people and tags
+  searchMembers?: string[];
+  searchTags?: string[];
+}
+
+// Due date: soonest first and undated last. Newest: most recently created first.
+export type TaskSort = 'due-date' | 'newest';
+
+export interface TaskPageRequest {
+  sort: TaskSort;
+  // The previous page's nextCursor, or nothing for the first page
+  cursor?: string | null;
+  limit: number;
+}
+
+export interface TaskPage {
+  tasks: TaskWithHousehold[];
+  // Where the next page starts, or null when this was the last one
+  nextCursor: string | null;
+}
+
+export interface Invitation {
+  id: string;
+  household_id: string;
+  inviter_id: string;
+  invitee_email: string;
+  member_name: string | null;
+  role: MemberRole;
+  status: InvitationStatus;
+  created_at: string;
+  responded_at: string | null;
+}
+
+export interface PendingInvitation extends Invitation {
+  household_name: string;
+  inviter_name: string;
+}
+
+export interface NewHousehold {
+  name: string;
+  description: string | null;
+  created_by: string;
+}
+
+export type HouseholdUpdate = Partial<Pick<Household, 'name' | 'description' | 'auto_complete_tasks' | 'require_task_review'>>;
+
+export interface NewMember {
+  household_id: string;
+  user_id: string;
+  name: string | null;
+  role: MemberRole;
+}
+
+export interface NewTask {
+  // Generated by the client when the task is created offline
+  id?: string;
+  household_id: string;
+  title: string;
+  details: string;
+  assignee: string | null;
+  created_by: string;
+  priority: TaskPriority;
+  tag_ids: string[];
+  points: number;
+  due_date: string | null;
+  due_all_day: boolean;
+  recurrence_rule: string | null;
+  rotation: string[];
+  series_id?: string | null;
+  requires_proof: boolean;
+  requires_review: boolean;
+}
+
+// Changing household_id moves the task, with its checklist, comments and photos, to another household
+export type TaskUpdate = Partial<Pick<
+  Task,
+  | 'household_id'
+  | 'title'
+  | 'details'
+  | 'state'
+  | 'assignee'
+  | 'priority'
+  | 'tag_ids'
+  | 'points'
+  | 'due_date'
+  | 'due_all_day'
+  | 'series_id'
+  | 'requires_proof'
+  | 'requires_review'
+  | 'submitted_by'
+  | 'submitted_at'
+  | 'reviewed_by'
+  | 'review_reason'
+  | 'completed_by'
+  | 'completed_at'
+>>;
+
+export type NewTaskTag = Pick<TaskTag, 'household_id' | 'name' | 'color' | 'created_by'>;
+
+export type TaskTagUpdate = Partial<Pick<TaskTag, 'name' | 'color'>>;
+
+export interface NewChecklistItem {
+  task_id: string;
+  household_id: string;
+  title: string;
+  assignee: string | null;
+  position: number;
+}
+
+export type ChecklistItemUpdate = Partial<Pick<ChecklistItem, 'title' | 'done' | 'assignee' | 'position'>>;
+
+export interface NewTaskAttachment {
+  task_id: string;
+  household_id: string;
+  uploaded_by: string;
+  // Local file to upload
+  uri: string;
+}
+
+export interface NewTaskComment {
+  task_id: string;
+  household_id: string;
+  author_id: string;
+  body: string;
+  mentions: string[];
+}
+
+export type TaskCommentUpdate = Pick<TaskComment, 'body' | 'mentions'>;
+
+export interface NewShoppingItem {
+  household_id: string;
+  name: string;
+  quantity: string | null;
+  category: ShoppingCategory;
+  added_by: string;
+}
+
+export type ShoppingItemUpdate = Partial<Pick<
+  ShoppingItem,
+  | 'name'
+  | 'quantity'
+  | 'category'
+  | 'claimed_by'
+  | 'purchased'
+  | 'purchased_by'
+  | 'purchased_at'
+  | 'expense_id'
+>>;
+
+export interface NewExpense {
+  household_id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  paid_by: string;
+  split_mode: SplitMode;
+  splits: ExpenseSplit[];
+  created_by: string;
+}
+
+export interface NewExpensePayment {
+  household_id: string;
+  from_user: string;
+  to_user: string;
+  amount: number;
+  currency: string;
+  note: string | null;
+  created_by: string;
+}
+
+export interface NewBill {
+  household_id: string;
+  name: string;
+  amount: number | null;
+  currency: string;
+  recurrence_rule: string | null;
+  next_due_date: string;
+  participants: string[];
+  created_by: string;
+}
+
+export type BillUpdate = Partial<Pick<
+  Bill,
+  | 'name'
+  | 'amount'
+  | 'currency'
+  | 'recurrence_rule'
+  | 'next_due_date'
+  | 'participants'
+  | 'is_active'
+>>;
+
+export interface NewBillInstance {
+  bill_id: string;
+  household_id: string;
+  name: string;
+  due_date: string;
+  amount: number | null;
+  currency: string;
+  shares: BillShare[];
+}
+
+export interface NewInvitation {
+  household_id: string;
+  inviter_id: string;
+  invitee_email: string;
+  member_name: string | null;
+  role: MemberRole;
+}
+
+export interface NewUserProfile {
+  id: string;
+  email: string;
+  name: string | null;
+  avatar_url?: string | null;
+  phone?: string | null;
+}
+
+export type UserProfileUpdate = Partial<Pick<UserProfile, 'name' | 'phone' | 'avatar_url'>>;
+
+export interface NotificationPreferences {
+  user_id: string;
+  reminders_enabled: boolean;
+  // How long before a task is due to remind its assignee
+  reminder_lead_minutes: number;
+  assignment_alerts: boolean;
+  mention_alerts: boolean;
+  digest_enabled: boolean;
+  // Local hour (0-23) the daily digest is delivered at
+  digest_hour: number;
+}
+
+// A named filter for My Tasks, kept per user so it's there on every device
+export interface SavedTaskView {
+  id: string;
+  user_id: string;
+  name: string;
+  filter: TaskFilter;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewSavedTaskView = Pick<SavedTaskView, 'user_id' | 'name' | 'filter'>;
+
+export type SavedTaskViewUpdate = Partial<Pick<SavedTaskView, 'name' | 'filter'>>;
+
+export type ChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// A row change pushed by the store. `record` is null for deletes; `old` is null for inserts.
+// `actor` is the user who made the change, when the store knows it.
+interface RowChange<T> {
+  type: ChangeType;
+  record: T | null;
+  old: Partial<T> | null;
+  actor: string | null;
+}
+
+export type HouseholdChange =
+  | ({ table: 'tasks' } & RowChange<Task>)
+  | ({ table: 'household_members' } & RowChange<MemberRow>)
+  | ({ table: 'household_invitations' } & RowChange<Invitation>)
+  | ({ table: 'task_comments' } & RowChange<TaskComment>)
+  | ({ table: 'shopping_items' } & RowChange<ShoppingItem>);
@@ -0,0 +1,103 @@
+import { TaskState } from '@/lib/data';
+
+// Due date helpers shared by the task list, task detail and My Tasks screens.
+// All-day tasks store local midnight of their due day and stay on time until that day ends;
+// timed tasks are overdue as soon as their due time passes.
+
+export type DueState = 'overdue' | 'due-today' | 'due-soon' | 'upcoming' | 'none';
+
+// How far ahead an open task counts as "due soon"
+export const DUE_SOON_DAYS = 3;
+
+interface DueFields {
+  due_date: string | null;
+  due_all_day: boolean;
+  state: TaskState;
+}
+
+export const startOfDay = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// The moment a task stops being on time
+export const getDueDeadline = (dueDate: string, allDay: boolean) => {
+  const due = new Date(dueDate);
+  return allDay ? addDays(startOfDay(due), 1) : due;
+};
+
+export const getDueState = (task: DueFields, now: Date = new Date()): DueState => {
+  // Tasks waiting for review are done as far as the assignee is concerned
+  if (!task.due_date || task.state !== 'open') return 'none';
+
+  const due = new Date(task.due_date);
+  if (now.getTime() >= getDueDeadline(task.due_date, task.due_all_day).getTime()) return 'overdue';
+
+  const today = startOfDay(now);
+  if (due.getTime() < addDays(today, 1).getTime()) return 'due-today';
+  if (due.getTime() < addDays(today, DUE_SOON_DAYS + 1).getTime()) return 'due-soon';
+  return 'upcoming';
+};
+
+export const getDueStateLabel = (state: DueState) => {
+  switch (state) {
+    case 'overdue': return 'Overdue';
+    case 'due-today': return 'Due today';
+    case 'due-soon': return 'Due soon';
+    default: return null;
+  }
+};
+
+export const getDueStateColor = (state: DueState, isDark = false) => {
+  switch (state) {
+    case 'overdue': return isDark ? '#FF453A' : '#FF3B30';
+    case 'due-today': return '#FF9500';
+    case 'due-soon': return isDark ? '#5AC8FA' : '#4A90E2';
+    default: return '#8E8E93';
+  }
+};
+
+// "Today", "Tomorrow" or a short date, followed by the time for timed tasks
+export const formatDueDate = (dueDate: string, allDay: boolean, now: Date = new Date()) => {
+  const due = new Date(dueDate);
+  const dayDiff = Math.round((startOfDay(due).getTime() - startOfDay(now).getTime()) / (24 * 60 * 60 * 1000));
+
+  let day: string;
+  if (dayDiff === 0) {
+    day = 'Today';
+  } else if (dayDiff === 1) {
+    day = 'Tomorrow';
+  } else if (dayDiff === -1) {
+    day = 'Yesterday';
+  } else {
+    day = due.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      ...(due.getFullYear() !== now.getFullYear() ? { year: 'numeric' } : {}),
+    });
+  }
+
+  if (allDay) return day;
+  return `${day}, ${due.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+// Soonest deadline first; tasks without a due date go last, newest first among themselves
+export const compareByDueDate = (
+  a: { due_date: string | null; due_all_day: boolean; created_at: string },
+  b: { due_date: string | null; due_all_day: boolean; created_at: string }
+) => {
+  if (a.due_date && b.due_date) {
+    return getDueDeadline(a.due_date, a.due_all_day).getTime() - getDueDeadline(b.due_date, b.due_all_day).getTime();
+  }
+  if (a.due_date) return -1;
+  if (b.due_date) return 1;
+  return b.created_at.localeCompare(a.created_at);
+};
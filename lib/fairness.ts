@@ -0,0 +1,92 @@
+import { Member, Task } from '@/lib/data';
+import { startOfDay } from '@/lib/dueDates';
+
+// Chore points and how evenly they're spread across a household.
+// A completed task's points go to whoever did it (completed_by), in the week it was completed.
+// Only active members count towards the even split; points earned by people who have left are ignored.
+
+// The effort weights offered when creating or editing a task
+export const EFFORT_POINTS = [1, 2, 3, 5, 8];
+
+export const DEFAULT_POINTS = 1;
+
+// Shares within this distance of the even split count as fair
+export const FAIR_SHARE_TOLERANCE = 0.05;
+
+export interface MemberShare {
+  userId: string;
+  points: number;
+  // Fraction of the period's points, 0 to 1
+  share: number;
+  evenShare: number;
+}
+
+export interface WeekPoints {
+  start: Date;
+  total: number;
+  byMember: Record<string, number>;
+}
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date) => {
+  const start = startOfDay(date);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const addWeeks = (date: Date, weeks: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + weeks * 7);
+  return next;
+};
+
+const sumPoints = (tasks: Task[], memberIds: string[], from: Date, to: Date) => {
+  const byMember: Record<string, number> = Object.fromEntries(memberIds.map(id => [id, 0]));
+  for (const task of tasks) {
+    if (task.state !== 'completed' || !task.completed_by || !task.completed_at) continue;
+    if (!(task.completed_by in byMember)) continue;
+    const completedAt = new Date(task.completed_at).getTime();
+    if (completedAt < from.getTime() || completedAt >= to.getTime()) continue;
+    byMember[task.completed_by] += task.points;
+  }
+  return byMember;
+};
+
+// Each active member's share of the points earned over the last `weeks` weeks, this week included
+export const getMemberShares = (
+  tasks: Task[],
+  members: Member[],
+  weeks: number,
+  now: Date = new Date()
+): MemberShare[] => {
+  const memberIds = members.map(member => member.user_id);
+  const thisWeek = startOfWeek(now);
+  const byMember = sumPoints(tasks, memberIds, addWeeks(thisWeek, 1 - weeks), addWeeks(thisWeek, 1));
+  const total = Object.values(byMember).reduce((sum, points) => sum + points, 0);
+  const evenShare = memberIds.length > 0 ? 1 / memberIds.length : 0;
+
+  return memberIds.map(userId => ({
+    userId,
+    points: byMember[userId],
+    share: total > 0 ? byMember[userId] / total : 0,
+    evenShare,
+  }));
+};
+
+// Points per member for each of the last `weeks` weeks, oldest first
+export const getWeeklyHistory = (
+  tasks: Task[],
+  members: Member[],
+  weeks: number,
+  now: Date = new Date()
+): WeekPoints[] => {
+  const memberIds = members.map(member => member.user_id);
+  const thisWeek = startOfWeek(now);
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const start = addWeeks(thisWeek, index + 1 - weeks);
+    const byMember = sumPoints(tasks, memberIds, start, addWeeks(start, 1));
+    const total = Object.values(byMember).reduce((sum, points) => sum + points, 0);
+    return { start, total, byMember };
+  });
+};
@@ -0,0 +1,68 @@
+import { DataError, getRepository, Household, MemberRole, Task } from '@/lib/data';
+
+// Open tasks still assigned to a member, which need a new home when they leave
+export const getOpenTasksFor = (tasks: Task[], userId: string) =>
+  tasks.filter(task => task.assignee === userId && task.state === 'open');
+
+export const changeMemberRole = async (household: Household, userId: string, role: MemberRole) => {
+  if (household.created_by === userId && role !== 'admin') {
+    throw new DataError('Transfer ownership before changing the owner\'s role');
+  }
+  await getRepository().members.updateRole(household.id, userId, role);
+};
+
+// Hand the household to another active member. They're promoted to admin as well,
+// so they keep admin rights if they pass the household on again later.
+export const transferOwnership = async (household: Household, newOwnerId: string) => {
+  const repository = getRepository();
+  const newOwner = await repository.members.findActive(household.id, newOwnerId);
+  if (!newOwner) throw new DataError('The new owner must be an active member');
+
+  if (newOwner.role !== 'admin') {
+    await repository.members.updateRole(household.id, newOwnerId, 'admin');
+  }
+  return repository.households.transferOwnership(household.id, newOwnerId);
+};
+
+// Move the member's open tasks to `reassignTo` (or leave them to be unassigned), then deactivate them
+const deactivateMember = async (household: Household, userId: string, reassignTo: string | null) => {
+  const repository = getRepository();
+
+  if (reassignTo) {
+    const tasks = await repository.tasks.listForHousehold(household.id);
+    for (const task of getOpenTasksFor(tasks, userId)) {
+      await repository.tasks.update(task.id, { assignee: reassignTo });
+    }
+  }
+  await repository.members.deactivate(household.id, userId);
+};
+
+export const removeMember = async (household: Household, userId: string, reassignTo: string | null) => {
+  if (household.created_by === userId) {
+    throw new DataError('Transfer ownership before removing the owner');
+  }
+  await deactivateMember(household, userId, reassignTo);
+};
+
+// The owner has to name a new owner first, unless nobody else is left in the household
+export const leaveHousehold = async (
+  household: Household,
+  userId: string,
+  options: { newOwnerId: string | null; reassignTo: string | null }
+) => {
+  let current = household;
+
+  if (household.created_by === userId) {
+    if (options.newOwnerId) {
+      current = await transferOwnership(household, options.newOwnerId);
+    } else {
+      const others = (await getRepository().members.listActive(household.id))
+        .filter(member => member.user_id !== userId);
+      if (others.length > 0) {
+        throw new DataError('Choose a new owner before leaving');
+      }
+    }
+  }
+
+  await deactivateMember(current, userId, options.reassignTo);
+};
@@ -0,0 +1,63 @@
+import { getRepository, Member } from '@/lib/data';
+
+// Who's who in the user's households, so screens show names and avatars instead of user IDs.
+// Members are cached per household; households that aren't cached yet are fetched together in one request,
+// and a household is fetched again once it's invalidated, e.g. when someone joins or leaves.
+
+const directory = new Map<string, Member[]>();
+const loading = new Map<string, Promise<void>>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToMemberDirectory = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Cached members of the households, current and former
+export const getDirectoryMembers = (householdIds: string[]) =>
+  householdIds.flatMap(householdId => directory.get(householdId) || []);
+
+export const loadMemberDirectory = async (householdIds: string[]) => {
+  const missing = [...new Set(householdIds)].filter(id => !directory.has(id) && !loading.has(id));
+  if (missing.length > 0) {
+    const request = getRepository().members.listForHouseholds(missing)
+      .then(members => {
+        missing.forEach(id => directory.set(id, members.filter(member => member.household_id === id)));
+        notify();
+      })
+      .finally(() => missing.forEach(id => loading.delete(id)));
+    missing.forEach(id => loading.set(id, request));
+  }
+  await Promise.all(householdIds.map(id => loading.get(id)));
+};
+
+export const invalidateMemberDirectory = (householdId: string) => {
+  if (!directory.delete(householdId)) return;
+  notify();
+};
+
+// After the user's own profile changes, or they sign out
+export const clearMemberDirectory = () => {
+  directory.clear();
+  notify();
+};
+
+// A user's membership, preferring the one in `householdId`, then any current one.
+// Names can differ between households since each membership has its own.
+export const findMember = (members: Member[], userId: string | null, householdId?: string) => {
+  if (!userId) return undefined;
+  const matches = members.filter(member => member.user_id === userId);
+  return matches.find(member => member.household_id === householdId)
+    || matches.find(member => member.is_active)
+    || matches[0];
+};
+
+export const getDisplayName = (member: Member | undefined) =>
+  member ? member.name || member.email : 'A former member';
+
+export const getInitial = (member: Member | undefined) =>
+  (member?.name || member?.email || '?').charAt(0).toUpperCase();
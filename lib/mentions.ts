@@ -0,0 +1,74 @@
+import { Member } from '@/lib/data';
+
+// Mentions are written as "@" followed by a member's display name, e.g. "@Sam Lee".
+// Names can contain spaces, so they're matched against the household's members rather than parsed as words.
+
+export interface MentionSegment {
+  text: string;
+  // The mentioned member, or null for plain text
+  userId: string | null;
+}
+
+export const getMentionName = (member: Member) => member.name || member.email;
+
+// Longest names first, so "@Sam Lee" isn't read as a mention of "Sam"
+const byNameLength = (members: Member[]) =>
+  [...members].sort((a, b) => getMentionName(b).length - getMentionName(a).length);
+
+const isBoundary = (char: string | undefined) => char === undefined || !/[\p{L}\p{N}_]/u.test(char);
+
+const matchMentionAt = (body: string, index: number, members: Member[]) => {
+  if (body[index] !== '@' || !isBoundary(body[index - 1])) return null;
+
+  const rest = body.slice(index + 1).toLowerCase();
+  for (const member of members) {
+    const name = getMentionName(member);
+    if (rest.startsWith(name.toLowerCase()) && isBoundary(rest[name.length])) {
+      return { member, length: name.length + 1 };
+    }
+  }
+  return null;
+};
+
+// Split a comment body into plain text and mentions for display
+export const splitMentions = (body: string, members: Member[]): MentionSegment[] => {
+  const candidates = byNameLength(members);
+  const segments: MentionSegment[] = [];
+  let plain = '';
+
+  for (let index = 0; index < body.length; index++) {
+    const match = matchMentionAt(body, index, candidates);
+    if (!match) {
+      plain += body[index];
+      continue;
+    }
+    if (plain) segments.push({ text: plain, userId: null });
+    plain = '';
+    segments.push({ text: body.slice(index, index + match.length), userId: match.member.user_id });
+    index += match.length - 1;
+  }
+  if (plain) segments.push({ text: plain, userId: null });
+  return segments;
+};
+
+// Ids of the members mentioned in a comment body, each once
+export const extractMentions = (body: string, members: Member[]): string[] => [
+  ...new Set(
+    splitMentions(body, members)
+      .map(segment => segment.userId)
+      .filter((userId): userId is string => userId !== null)
+  ),
+];
+
+// The partial "@name" being typed at the end of the draft, or null when the user isn't mentioning anyone
+export const getMentionQuery = (draft: string): string | null => {
+  const match = /(?:^|\s)@([^@\n]{0,30})$/.exec(draft);
+  return match ? match[1] : null;
+};
+
+// Replace the partial mention at the end of the draft with the chosen member's full name
+export const completeMention = (draft: string, member: Member): string => {
+  const query = getMentionQuery(draft);
+  if (query === null) return draft;
+  return `${draft.slice(0, draft.length - query.length)}${getMentionName(member)} `;
+};
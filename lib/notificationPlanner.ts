@@ -0,0 +1,208 @@
+import { formatShareAmount, getShare, hasUnpaidShare } from '@/lib/bills';
+import { BillInstance, HouseholdChange, NotificationPreferences, Task } from '@/lib/data';
+import { formatDueDate, getDueDeadline, getDueState, startOfDay } from '@/lib/dueDates';
+
+// Decides which notifications a user should get and when. Nothing here talks to the OS,
+// so schedules can be checked against a fake clock.
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface PlannedNotification {
+  // Stable per task/digest, so re-planning replaces rather than duplicates
+  id: string;
+  kind: 'reminder' | 'digest' | 'bill';
+  title: string;
+  body: string;
+  fireAt: Date;
+  taskId: string | null;
+  // Household whose bills a bill reminder opens
+  householdId: string | null;
+}
+
+export interface NotificationMessage {
+  title: string;
+  body: string;
+  taskId: string;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'user_id'> = {
+  reminders_enabled: true,
+  reminder_lead_minutes: 60,
+  assignment_alerts: true,
+  mention_alerts: true,
+  digest_enabled: true,
+  digest_hour: 8,
+};
+
+// All-day tasks are reminded relative to this hour on their due day
+export const ALL_DAY_REMINDER_HOUR = 9;
+
+// iOS keeps at most 64 pending local notifications per app
+export const MAX_SCHEDULED_NOTIFICATIONS = 60;
+
+const MINUTE_MS = 60 * 1000;
+
+export const getReminderTime = (task: Pick<Task, 'due_date' | 'due_all_day'>, leadMinutes: number): Date | null => {
+  if (!task.due_date) return null;
+  const reference = getDueDeadline(task.due_date, false);
+  if (task.due_all_day) {
+    reference.setHours(ALL_DAY_REMINDER_HOUR, 0, 0, 0);
+  }
+  return new Date(reference.getTime() - leadMinutes * MINUTE_MS);
+};
+
+// The next time the digest hour comes round, later today or tomorrow
+export const getNextDigestTime = (digestHour: number, now: Date): Date => {
+  const next = startOfDay(now);
+  next.setHours(digestHour);
+  if (next.getTime() <= now.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+};
+
+const planDigest = (openTasks: Task[], fireAt: Date): PlannedNotification | null => {
+  if (openTasks.length === 0) return null;
+
+  const overdue = openTasks.filter(task => getDueState(task, fireAt) === 'overdue').length;
+  const dueToday = openTasks.filter(task => getDueState(task, fireAt) === 'due-today').length;
+  const details = [
+    overdue > 0 ? `${overdue} overdue` : null,
+    dueToday > 0 ? `${dueToday} due today` : null,
+  ].filter(Boolean);
+
+  return {
+    id: 'digest',
+    kind: 'digest',
+    title: 'Your chores for today',
+    body: `You have ${openTasks.length} open chore${openTasks.length === 1 ? '' : 's'}`
+      + (details.length > 0 ? `: ${details.join(', ')}.` : '.'),
+    fireAt,
+    taskId: null,
+    householdId: null,
+  };
+};
+
+// Everything that should be scheduled for `userId` right now, soonest first, including reminders for
+// their unpaid bill shares. Reminders whose time has already passed are dropped.
+export const planNotifications = (
+  tasks: Task[],
+  userId: string,
+  preferences: Omit<NotificationPreferences, 'user_id'>,
+  clock: Clock = systemClock,
+  bills: BillInstance[] = []
+): PlannedNotification[] => {
+  const now = clock.now();
+  const openTasks = tasks.filter(task => task.assignee === userId && task.state === 'open');
+  const planned: PlannedNotification[] = [];
+
+  if (preferences.reminders_enabled) {
+    for (const task of openTasks) {
+      const fireAt = getReminderTime(task, preferences.reminder_lead_minutes);
+      if (!fireAt || fireAt.getTime() <= now.getTime()) continue;
+      planned.push({
+        id: `reminder-${task.id}`,
+        kind: 'reminder',
+        title: task.title,
+        // Worded as seen when the reminder fires, e.g. "Due: Tomorrow"
+        body: `Due: ${formatDueDate(task.due_date!, task.due_all_day, fireAt)}`,
+        fireAt,
+        taskId: task.id,
+        householdId: null,
+      });
+    }
+
+    // Bills are due on a day, so they're reminded like all-day chores
+    for (const instance of bills.filter(bill => hasUnpaidShare(bill, userId))) {
+      const fireAt = getReminderTime({ due_date: instance.due_date, due_all_day: true }, preferences.reminder_lead_minutes);
+      if (!fireAt || fireAt.getTime() <= now.getTime()) continue;
+      planned.push({
+        id: `bill-${instance.id}`,
+        kind: 'bill',
+        title: `${instance.name} bill`,
+        body: `Your share: ${formatShareAmount(getShare(instance, userId)!, instance.currency)}. `
+          + `Due: ${formatDueDate(instance.due_date, true, fireAt)}`,
+        fireAt,
+        taskId: null,
+        householdId: instance.household_id,
+      });
+    }
+  }
+
+  planned.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+
+  if (preferences.digest_enabled) {
+    const digest = planDigest(openTasks, getNextDigestTime(preferences.digest_hour, now));
+    if (digest) {
+      return [digest, ...planned.slice(0, MAX_SCHEDULED_NOTIFICATIONS - 1)]
+        .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+    }
+  }
+  return planned.slice(0, MAX_SCHEDULED_NOTIFICATIONS);
+};
+
+// Alert for a task being assigned to or taken away from `userId` by someone else
+export const getAssignmentAlert = (
+  change: HouseholdChange,
+  userId: string,
+  preferences: Omit<NotificationPreferences, 'user_id'>
+): NotificationMessage | null => {
+  if (!preferences.assignment_alerts || change.table !== 'tasks') return null;
+  if (change.actor === userId) return null;
+
+  const task = change.record;
+  if (!task) return null;
+
+  const previousAssignee = change.type === 'INSERT' ? null : change.old?.assignee;
+  // Without the old row an update can't be told apart from any other edit
+  if (change.type === 'UPDATE' && previousAssignee === undefined) return null;
+  if (previousAssignee === task.assignee) return null;
+
+  if (task.assignee === userId && task.state === 'open') {
+    return {
+      title: 'New chore for you',
+      body: `"${task.title}" was assigned to you`,
+      taskId: task.id,
+    };
+  }
+  if (previousAssignee === userId) {
+    return {
+      title: 'Chore reassigned',
+      body: `"${task.title}" is no longer assigned to you`,
+      taskId: task.id,
+    };
+  }
+  return null;
+};
+
+// Longest comment excerpt shown in a mention alert
+const MENTION_EXCERPT_LENGTH = 120;
+
+// Alert for someone else mentioning `userId` in a comment, including edits that add the mention
+export const getMentionAlert = (
+  change: HouseholdChange,
+  userId: string,
+  preferences: Omit<NotificationPreferences, 'user_id'>
+): NotificationMessage | null => {
+  if (!preferences.mention_alerts || change.table !== 'task_comments') return null;
+
+  const comment = change.record;
+  if (!comment || change.type === 'DELETE' || comment.author_id === userId) return null;
+  if (!comment.mentions.includes(userId)) return null;
+  if (change.type === 'UPDATE' && change.old?.mentions?.includes(userId)) return null;
+
+  const excerpt = comment.body.length > MENTION_EXCERPT_LENGTH
+    ? `${comment.body.slice(0, MENTION_EXCERPT_LENGTH - 1)}…`
+    : comment.body;
+  return {
+    title: 'You were mentioned',
+    body: excerpt,
+    taskId: comment.task_id,
+  };
+};
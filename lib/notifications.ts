@@ -0,0 +1,119 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { getRepository, HouseholdChange, NotificationPreferences } from '@/lib/data';
+import {
+  Clock,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getAssignmentAlert,
+  getMentionAlert,
+  NotificationMessage,
+  planNotifications,
+  systemClock
+} from '@/lib/notificationPlanner';
+
+const CHANNEL_ID = 'chores';
+
+// Prefix for the identifiers of notifications scheduled here, so rescheduling leaves others alone
+const ID_PREFIX = 'chores-';
+
+// Local notifications aren't supported on web
+const isSupported = Platform.OS !== 'web';
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+export const loadNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const stored = await getRepository().notificationPreferences.get(userId);
+  return stored || { user_id: userId, ...DEFAULT_NOTIFICATION_PREFERENCES };
+};
+
+// Returns whether notifications may be shown, asking the user if they haven't decided yet
+export const requestNotificationPermission = async () => {
+  if (!isSupported) return false;
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Chores',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+};
+
+export const cancelTaskNotifications = async () => {
+  if (!isSupported) return;
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(notification => notification.identifier.startsWith(ID_PREFIX))
+      .map(notification => Notifications.cancelScheduledNotificationAsync(notification.identifier))
+  );
+};
+
+// Replace the scheduled reminders and digest with a fresh plan for the user's current tasks and bills
+export const scheduleTaskNotifications = async (userId: string, clock: Clock = systemClock) => {
+  if (!isSupported) return;
+
+  const repository = getRepository();
+  const preferences = await loadNotificationPreferences(userId);
+  const householdIds = await repository.members.listHouseholdIds(userId);
+  // Only the user's own open tasks get reminders or count towards the digest, so the rest stay in the store
+  const tasks = await repository.tasks.listForHouseholds(householdIds, { assignees: [userId], states: ['open'] });
+  const bills = await repository.bills.listUnsettledForHouseholds(householdIds);
+  const plan = planNotifications(tasks, userId, preferences, clock, bills);
+
+  await cancelTaskNotifications();
+  for (const notification of plan) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${ID_PREFIX}${notification.id}`,
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: { taskId: notification.taskId, householdId: notification.householdId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: notification.fireAt,
+        channelId: CHANNEL_ID,
+      },
+    });
+  }
+};
+
+const showNow = (alert: NotificationMessage) =>
+  Notifications.scheduleNotificationAsync({
+    content: {
+      title: alert.title,
+      body: alert.body,
+      data: { taskId: alert.taskId },
+    },
+    trigger: null,
+  });
+
+// Show an alert straight away when someone else assigns a task to the user or takes it away
+export const notifyAssignmentChange = async (change: HouseholdChange, userId: string) => {
+  if (!isSupported || change.table !== 'tasks') return;
+
+  const preferences = await loadNotificationPreferences(userId);
+  const alert = getAssignmentAlert(change, userId, preferences);
+  if (alert) await showNow(alert);
+};
+
+// Show an alert straight away when someone else mentions the user in a comment
+export const notifyMention = async (change: HouseholdChange, userId: string) => {
+  if (!isSupported || change.table !== 'task_comments') return;
+
+  const preferences = await loadNotificationPreferences(userId);
+  const alert = getMentionAlert(change, userId, preferences);
+  if (alert) await showNow(alert);
+};
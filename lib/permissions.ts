@@ -0,0 +1,78 @@
+import { Household, Member, MemberRole } from '@/lib/data';
+
+// Who may do what in a household. permissions_schema.sql (and the migrations that add actions after it)
+// seed household_role_permissions with this same matrix, and the row level security policies check it
+// through household_can(), so a change here needs the matching change there.
+
+export type HouseholdAction =
+  | 'invite_members'
+  | 'remove_members'
+  | 'change_roles'
+  | 'create_tasks'
+  // Includes marking tasks done
+  | 'edit_tasks'
+  | 'delete_tasks'
+  // Approving or sending back someone else's completed task
+  | 'review_tasks'
+  | 'comment_on_tasks'
+  // Adding, claiming and ticking off shopping list items
+  | 'edit_shopping_list'
+  | 'record_expenses'
+  // Deleting expenses and payments other members recorded
+  | 'manage_expenses'
+  // Setting up recurring bills; anyone sharing a bill can mark their own part paid
+  | 'manage_bills'
+  // Adding, renaming and deleting the household's task tags
+  | 'manage_tags'
+  | 'edit_household';
+
+export const ROLE_PERMISSIONS: Record<MemberRole, HouseholdAction[]> = {
+  admin: [
+    'invite_members',
+    'remove_members',
+    'change_roles',
+    'create_tasks',
+    'edit_tasks',
+    'delete_tasks',
+    'review_tasks',
+    'comment_on_tasks',
+    'edit_shopping_list',
+    'record_expenses',
+    'manage_expenses',
+    'manage_bills',
+    'manage_tags',
+    'edit_household'
+  ],
+  member: [
+    'create_tasks',
+    'edit_tasks',
+    'delete_tasks',
+    'review_tasks',
+    'comment_on_tasks',
+    'edit_shopping_list',
+    'record_expenses',
+    'manage_bills',
+    'manage_tags'
+  ],
+  viewer: ['comment_on_tasks'],
+};
+
+// The household's creator is always treated as an admin, whatever their membership row says
+export const getEffectiveRole = (
+  member: Pick<Member, 'user_id' | 'role'> | null,
+  household: Pick<Household, 'created_by'> | null
+): MemberRole | null => {
+  if (!member) return null;
+  if (household && household.created_by === member.user_id) return 'admin';
+  return member.role;
+};
+
+// Whether `member` may perform `action` in `household`. Non-members can't do anything.
+export const can = (
+  member: Pick<Member, 'user_id' | 'role'> | null,
+  action: HouseholdAction,
+  household: Pick<Household, 'created_by'> | null
+): boolean => {
+  const role = getEffectiveRole(member, household);
+  return role !== null && ROLE_PERMISSIONS[role].includes(action);
+};
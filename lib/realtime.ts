@@ -0,0 +1,83 @@
+import { HouseholdChange } from '@/lib/data';
+
+type KeyedChange<T> = {
+  type: HouseholdChange['type'];
+  record: T | null;
+  old: Partial<T> | null;
+};
+
+// Apply a realtime change to a list without refetching it.
+// Inserts and rows that move into view go to the front, matching the newest-first ordering of the lists.
+// Rows rejected by `include` (e.g. deactivated members) are dropped from the list.
+export const applyChange = <T>(
+  list: T[],
+  change: KeyedChange<T>,
+  getKey: (item: Partial<T>) => string | undefined,
+  include: (item: T) => boolean = () => true
+): T[] => {
+  const key = getKey(change.record ?? change.old ?? {});
+  if (!key) return list;
+
+  const index = list.findIndex(item => getKey(item) === key);
+
+  if (change.type === 'DELETE' || !change.record || !include(change.record)) {
+    return index === -1 ? list : list.filter((_, i) => i !== index);
+  }
+
+  if (index === -1) {
+    return [change.record, ...list];
+  }
+  const next = [...list];
+  next[index] = change.record;
+  return next;
+};
+
+// For a household's own lists: a row moved to another household arrives as an update there, and leaves the list
+export const inHousehold = (householdId: string | undefined) =>
+  (item: { household_id: string }) => item.household_id === householdId;
+
+// Short description of a change made by someone else, for the live update banner
+export const describeChange = (change: HouseholdChange): string => {
+  switch (change.table) {
+    case 'tasks': {
+      const title = change.record?.title ?? change.old?.title;
+      const name = title ? `"${title}"` : 'a task';
+      if (change.type === 'INSERT') return `Someone added ${name}`;
+      if (change.type === 'DELETE') return `Someone removed ${name}`;
+      if (change.record && change.old?.state !== undefined && change.old.state !== change.record.state) {
+        switch (change.record.state) {
+          case 'pending_review': return `Someone asked for ${name} to be reviewed`;
+          case 'completed': return `Someone completed ${name}`;
+          default: return change.old.state === 'pending_review'
+            ? `Someone sent ${name} back`
+            : `Someone reopened ${name}`;
+        }
+      }
+      return `Someone updated ${name}`;
+    }
+    case 'household_members':
+      if (change.type === 'DELETE' || change.record?.is_active === false) return 'A member left the household';
+      if (change.type === 'INSERT' || change.old?.is_active === false) return 'A new member joined';
+      return 'Someone updated a member';
+    case 'household_invitations':
+      if (change.type === 'INSERT') return 'Someone sent an invitation';
+      if (change.record?.status === 'accepted') return 'An invitation was accepted';
+      if (change.record?.status === 'declined') return 'An invitation was declined';
+      return 'Someone updated an invitation';
+    case 'task_comments':
+      if (change.type === 'INSERT') return 'Someone commented on a task';
+      if (change.type === 'DELETE') return 'Someone deleted a comment';
+      return 'Someone edited a comment';
+    case 'shopping_items': {
+      const name = change.record?.name ?? change.old?.name;
+      const item = name ? `"${name}"` : 'an item';
+      if (change.type === 'INSERT') return `Someone added ${item} to the shopping list`;
+      if (change.type === 'DELETE') return `Someone removed ${item} from the shopping list`;
+      if (change.record?.purchased && !change.old?.purchased) return `Someone bought ${item}`;
+      if (change.record?.claimed_by && change.old?.claimed_by !== change.record.claimed_by) {
+        return `Someone is buying ${item}`;
+      }
+      return `Someone updated ${item}`;
+    }
+  }
+};
@@ -0,0 +1,231 @@
+// Recurrence rules for repeating tasks.
+// Rules are stored as RRULE-style strings, e.g. 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'.
+// Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, UNTIL.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: Weekday[];
+  byMonthDay: number | null;
+  until: Date | null;
+}
+
+export type RecurrencePreset = 'none' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+// Ordered Monday first, matching the RRULE default week start
+const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const weekdayOf = (date: Date): Weekday => WEEKDAYS[(date.getDay() + 6) % 7];
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+const parseUntil = (value: string): Date | null => {
+  // Accept both RRULE basic format (20250131 / 20250131T000000Z) and ISO dates
+  const basic = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (basic) {
+    const [, year, month, day] = basic;
+    return new Date(Number(year), Number(month) - 1, Number(day), 23, 59, 59);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const formatUntil = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+};
+
+// Parse an RRULE-style string. Returns null when the rule is invalid or unsupported.
+export const parseRecurrenceRule = (value: string | null | undefined): RecurrenceRule | null => {
+  if (!value || !value.trim()) return null;
+
+  const rule: RecurrenceRule = {
+    freq: 'DAILY',
+    interval: 1,
+    byDay: [],
+    byMonthDay: null,
+    until: null,
+  };
+  let hasFreq = false;
+
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  for (const part of parts) {
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    const partValue = rawValue?.trim().toUpperCase();
+    if (!key || !partValue) return null;
+
+    switch (key) {
+      case 'FREQ':
+        if (partValue !== 'DAILY' && partValue !== 'WEEKLY' && partValue !== 'MONTHLY') return null;
+        rule.freq = partValue;
+        hasFreq = true;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(partValue);
+        if (!Number.isInteger(interval) || interval < 1) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        const days = partValue.split(',');
+        if (days.some(day => !WEEKDAYS.includes(day as Weekday))) return null;
+        rule.byDay = WEEKDAYS.filter(day => days.includes(day));
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const day = Number(partValue);
+        if (!Number.isInteger(day) || day < 1 || day > 31) return null;
+        rule.byMonthDay = day;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(partValue);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  return hasFreq ? rule : null;
+};
+
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(';');
+};
+
+// Build the rule string for one of the quick presets, anchored on the given start date
+export const ruleForPreset = (preset: RecurrencePreset, start: Date): string | null => {
+  switch (preset) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly':
+      return `FREQ=WEEKLY;BYDAY=${weekdayOf(start)}`;
+    case 'monthly':
+      return `FREQ=MONTHLY;BYMONTHDAY=${start.getDate()}`;
+    default:
+      return null;
+  }
+};
+
+// Monthly rules without BYMONTHDAY get the start date's day written in, for series that keep no
+// record of where they started (bills only store their next due date)
+export const pinMonthDay = (value: string, start: Date): string => {
+  const rule = parseRecurrenceRule(value);
+  if (!rule || rule.freq !== 'MONTHLY' || rule.byMonthDay) return value;
+  return formatRecurrenceRule({ ...rule, byMonthDay: start.getDate() });
+};
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Thu"
+export const describeRecurrenceRule = (value: string | null | undefined): string | null => {
+  const rule = parseRecurrenceRule(value);
+  if (!rule) return null;
+
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  let description = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) {
+    description += ` on ${rule.byDay.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay) {
+    description += ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.until) {
+    description += ` until ${rule.until.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+  return description;
+};
+
+// Next occurrence strictly after `after`, ignoring UNTIL. Monthly rules without BYMONTHDAY repeat on
+// `anchorDay`, so a series that started on the 31st comes back to the 31st after a shorter month.
+const stepOccurrence = (rule: RecurrenceRule, after: Date, anchorDay: number): Date => {
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(after, rule.interval);
+
+    case 'WEEKLY': {
+      if (rule.byDay.length === 0) return addDays(after, 7 * rule.interval);
+
+      // Later day in the same week
+      const currentIndex = WEEKDAYS.indexOf(weekdayOf(after));
+      const laterDay = rule.byDay.find(day => WEEKDAYS.indexOf(day) > currentIndex);
+      if (laterDay) return addDays(after, WEEKDAYS.indexOf(laterDay) - currentIndex);
+
+      // Otherwise the first listed day of the next active week
+      const weekStart = addDays(after, -currentIndex);
+      return addDays(weekStart, 7 * rule.interval + WEEKDAYS.indexOf(rule.byDay[0]));
+    }
+
+    case 'MONTHLY': {
+      const day = rule.byMonthDay ?? anchorDay;
+      const target = new Date(after);
+      target.setDate(1);
+      target.setMonth(target.getMonth() + rule.interval);
+      target.setDate(Math.min(day, daysInMonth(target.getFullYear(), target.getMonth())));
+      return target;
+    }
+  }
+};
+
+// Compute the occurrence following `current`. When `notBefore` is given, occurrences
+// that already lie in the past are skipped so a late completion doesn't create a backlog.
+// `seriesStart` is the first occurrence of the series (the RRULE DTSTART); it defaults to `current`.
+export const getNextOccurrence = (
+  value: string | null | undefined,
+  current: Date,
+  notBefore?: Date,
+  seriesStart?: Date
+): Date | null => {
+  const rule = parseRecurrenceRule(value);
+  if (!rule) return null;
+
+  const anchorDay = (seriesStart ?? current).getDate();
+  let next = stepOccurrence(rule, current, anchorDay);
+  if (notBefore) {
+    const floor = new Date(notBefore);
+    floor.setHours(0, 0, 0, 0);
+    // Guard against runaway loops on very old anchors
+    for (let i = 0; i < 3650 && next.getTime() < floor.getTime(); i++) {
+      next = stepOccurrence(rule, next, anchorDay);
+    }
+  }
+
+  if (rule.until && next.getTime() > rule.until.getTime()) return null;
+  return next;
+};
+
+// Next member in the rotation after `current`. Falls back to the first member
+// when the current assignee is not part of the rotation (e.g. they left).
+export const getNextAssignee = (rotation: string[], current: string | null): string | null => {
+  if (rotation.length === 0) return current;
+  const index = current ? rotation.indexOf(current) : -1;
+  return rotation[(index + 1) % rotation.length];
+};
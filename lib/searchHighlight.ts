@@ -0,0 +1,46 @@
+// Search results highlight where each search word matched. Like the full-text search, a word
+// matches the start of a word in the text, e.g. "dish" in "Dishwasher".
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Where each matched prefix starts and ends, in order
+const findMatches = (text: string, terms: string[]) => {
+  const matches: { start: number; end: number }[] = [];
+  if (terms.length === 0) return matches;
+
+  for (const word of text.matchAll(WORD)) {
+    const lower = word[0].toLowerCase();
+    // Longest term first, so "dishes" wins over "dish"
+    const length = Math.max(0, ...terms.filter(term => lower.startsWith(term)).map(term => term.length));
+    if (length > 0) matches.push({ start: word.index, end: word.index + length });
+  }
+  return matches;
+};
+
+// Split text into plain and matching parts for display
+export const splitHighlights = (text: string, terms: string[]): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  for (const { start, end } of findMatches(text, terms)) {
+    if (start > position) segments.push({ text: text.slice(position, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    position = end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), match: false });
+  return segments;
+};
+
+// Long text cut to start shortly before its first match, so the match shows in a preview of a few lines
+export const getMatchExcerpt = (text: string, terms: string[], context = 40) => {
+  const [first] = findMatches(text, terms);
+  if (!first || first.start <= context) return text;
+
+  const from = text.lastIndexOf(' ', first.start - context);
+  return `…${text.slice(from === -1 ? first.start - context : from + 1)}`;
+};
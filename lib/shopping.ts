@@ -0,0 +1,64 @@
+import { ShoppingCategory, ShoppingItem } from '@/lib/data';
+
+// Grouping and wording for the household shopping list
+
+export const SHOPPING_CATEGORIES: { value: ShoppingCategory; label: string }[] = [
+  { value: 'produce', label: 'Produce' },
+  { value: 'dairy', label: 'Dairy' },
+  { value: 'meat', label: 'Meat & Fish' },
+  { value: 'bakery', label: 'Bakery' },
+  { value: 'pantry', label: 'Pantry' },
+  { value: 'frozen', label: 'Frozen' },
+  { value: 'drinks', label: 'Drinks' },
+  { value: 'household', label: 'Household' },
+  { value: 'other', label: 'Other' },
+];
+
+export const DEFAULT_SHOPPING_CATEGORY: ShoppingCategory = 'other';
+
+// How many item names an expense description lists before summarising the rest
+const DESCRIPTION_ITEM_LIMIT = 3;
+
+export const getCategoryLabel = (category: ShoppingCategory) =>
+  SHOPPING_CATEGORIES.find(option => option.value === category)?.label || 'Other';
+
+export const getCategoryIcon = (category: ShoppingCategory) => {
+  switch (category) {
+    case 'produce': return 'nutrition';
+    case 'dairy': return 'egg';
+    case 'meat': return 'fish';
+    case 'bakery': return 'pizza';
+    case 'pantry': return 'basket';
+    case 'frozen': return 'snow';
+    case 'drinks': return 'wine';
+    case 'household': return 'home';
+    case 'other': return 'pricetag';
+  }
+};
+
+// Items still to buy, grouped in aisle order. Empty categories are left out.
+export const groupByCategory = (items: ShoppingItem[]) =>
+  SHOPPING_CATEGORIES
+    .map(option => ({
+      category: option.value,
+      items: items.filter(item => !item.purchased && item.category === option.value),
+    }))
+    .filter(group => group.items.length > 0);
+
+// What a member bought that hasn't been recorded as an expense yet
+export const getUnrecordedPurchases = (items: ShoppingItem[], userId: string) =>
+  items.filter(item => item.purchased && item.purchased_by === userId && !item.expense_id);
+
+// e.g. "Shopping: milk, eggs, bread and 2 more"
+export const describeShoppingExpense = (items: Pick<ShoppingItem, 'name'>[]) => {
+  const names = items.map(item => item.name);
+  if (names.length === 0) return 'Shopping';
+  if (names.length <= DESCRIPTION_ITEM_LIMIT) {
+    const listed = names.length === 1
+      ? names[0]
+      : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+    return `Shopping: ${listed}`;
+  }
+  const more = names.length - DESCRIPTION_ITEM_LIMIT;
+  return `Shopping: ${names.slice(0, DESCRIPTION_ITEM_LIMIT).join(', ')} and ${more} more`;
+};
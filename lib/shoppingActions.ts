@@ -0,0 +1,39 @@
+import { DataError, getRepository, ShoppingItem } from '@/lib/data';
+import { splitExpense } from '@/lib/balances';
+import { describeShoppingExpense } from '@/lib/shopping';
+
+// Record what `userId` paid for a batch of purchased items as one household expense, split equally
+// between `participantIds`, and link the items to it so they aren't counted twice.
+export const recordShoppingExpense = async (
+  items: ShoppingItem[],
+  amount: number,
+  currency: string,
+  participantIds: string[],
+  userId: string
+) => {
+  if (items.length === 0) throw new DataError('Choose at least one item');
+  if (items.some(item => !item.purchased || item.expense_id)) {
+    throw new DataError('Only purchased items that are not on an expense yet can be added');
+  }
+
+  const repository = getRepository();
+  const expense = await repository.expenses.create({
+    household_id: items[0].household_id,
+    description: describeShoppingExpense(items),
+    amount: Math.round(amount * 100) / 100,
+    currency,
+    paid_by: userId,
+    split_mode: 'equal',
+    splits: splitExpense(amount, 'equal', participantIds.map(id => ({ userId: id, value: 1 }))),
+    created_by: userId,
+  });
+
+  try {
+    await repository.shopping.linkExpense(items.map(item => item.id), expense.id);
+  } catch (error) {
+    // Without its items the expense could be recorded again, so it goes too
+    await repository.expenses.remove(expense.id);
+    throw error;
+  }
+  return expense;
+};
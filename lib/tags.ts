@@ -0,0 +1,56 @@
+import { TaskTag } from '@/lib/data';
+
+// Household task tags: the colors to pick from, a few to start with, and a way for screens to hear
+// that a household's tags changed elsewhere in the app.
+
+export const TAG_COLORS = [
+  '#4A90E2',
+  '#34C759',
+  '#FF9500',
+  '#FF3B30',
+  '#AF52DE',
+  '#5AC8FA',
+  '#FFCC00',
+  '#8E8E93',
+];
+
+// Offered while a household has no tags yet
+export const SUGGESTED_TAGS: { name: string; color: string }[] = [
+  { name: 'Kitchen', color: '#FF9500' },
+  { name: 'Bathroom', color: '#5AC8FA' },
+  { name: 'Outdoor', color: '#34C759' },
+  { name: 'Pets', color: '#AF52DE' },
+];
+
+export const MAX_TAG_NAME_LENGTH = 30;
+
+const listeners = new Set<() => void>();
+
+export const subscribeToTagChanges = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Call after creating, renaming or deleting a tag
+export const notifyTagsChanged = () => listeners.forEach(listener => listener());
+
+// The task's tags in the order they were picked, skipping any that were deleted
+export const findTags = (tags: TaskTag[], tagIds: string[]) =>
+  tagIds.flatMap(tagId => tags.filter(tag => tag.id === tagId));
+
+// Tags of several households grouped by name, so "Kitchen" in two households is one filter choice
+export const groupTagsByName = (tags: TaskTag[]) => {
+  const groups = new Map<string, { name: string; color: string; ids: string[] }>();
+  for (const tag of tags) {
+    const key = tag.name.toLowerCase();
+    const group = groups.get(key);
+    if (group) {
+      group.ids.push(tag.id);
+    } else {
+      groups.set(key, { name: tag.name, color: tag.color, ids: [tag.id] });
+    }
+  }
+  return [...groups.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
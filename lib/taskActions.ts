@@ -0,0 +1,198 @@
+import {
+  ChecklistItem,
+  DataError,
+  getRepository,
+  getSyncController,
+  Household,
+  isNetworkError,
+  isUniqueViolation,
+  Task,
+  TaskUpdate
+} from '@/lib/data';
+import { can } from '@/lib/permissions';
+import { getNextAssignee, getNextOccurrence } from '@/lib/recurrence';
+import { getTransitionChanges, isTaskOpen, needsReview, TaskTransition } from '@/lib/taskState';
+
+export interface NextOccurrence {
+  task: Task;
+  // Checklists aren't kept offline, so without a connection the next occurrence starts without one
+  checklistSkipped: boolean;
+}
+
+// Copy a checklist to another task, unchecked. Resolves to false when the store couldn't be reached.
+const copyChecklist = async (from: Task, to: Task) => {
+  if (getSyncController()?.getStatus().online === false) return false;
+
+  const repository = getRepository();
+  try {
+    const items = await repository.checklist.listForTask(from.id);
+    for (const item of items) {
+      await repository.checklist.create({
+        task_id: to.id,
+        household_id: to.household_id,
+        title: item.title,
+        assignee: item.assignee,
+        position: item.position,
+      });
+    }
+    return true;
+  } catch (error) {
+    if (isNetworkError(error)) return false;
+    throw error;
+  }
+};
+
+// Due dates of the first task of each series the recurring tasks belong to, by series id. Monthly rules
+// keep to that day, which a later occurrence may have been moved off (see getNextOccurrence).
+export const loadSeriesStarts = async (tasks: Task[]): Promise<Record<string, string>> => {
+  const seriesIds = [...new Set(tasks.flatMap(task => task.recurrence_rule && task.series_id ? [task.series_id] : []))];
+  const starts: Record<string, string> = {};
+  await Promise.all(seriesIds.map(async seriesId => {
+    const first = tasks.find(task => task.id === seriesId) || await getRepository().tasks.get(seriesId);
+    if (first?.due_date) starts[seriesId] = first.due_date;
+  }));
+  return starts;
+};
+
+// Create the following occurrence of a recurring task, assigned to the next member in the rotation.
+// Returns null when the task doesn't recur, the rule has ended, or the occurrence already exists.
+export const createNextOccurrence = async (completedTask: Task): Promise<NextOccurrence | null> => {
+  if (!completedTask.recurrence_rule) return null;
+
+  const repository = getRepository();
+  const anchor = completedTask.due_date ? new Date(completedTask.due_date) : new Date();
+  const first = completedTask.series_id ? (await loadSeriesStarts([completedTask]))[completedTask.series_id] : null;
+  const seriesStart = first ? new Date(first) : anchor;
+  const nextDueDate = getNextOccurrence(completedTask.recurrence_rule, anchor, new Date(), seriesStart);
+  if (!nextDueDate) return null;
+
+  // Only rotate through members who are still active in the household
+  const activeMembers = await repository.members.listActive(completedTask.household_id);
+  const activeIds = activeMembers.map(member => member.user_id);
+  const rotation = completedTask.rotation.filter(memberId => activeIds.includes(memberId));
+  const nextAssignee = rotation.length > 0
+    ? getNextAssignee(rotation, completedTask.assignee)
+    : completedTask.assignee;
+
+  let nextTask: Task;
+  try {
+    nextTask = await repository.tasks.create({
+      title: completedTask.title,
+      details: completedTask.details,
+      household_id: completedTask.household_id,
+      assignee: nextAssignee,
+      created_by: completedTask.created_by,
+      priority: completedTask.priority,
+      tag_ids: completedTask.tag_ids,
+      points: completedTask.points,
+      due_date: nextDueDate.toISOString(),
+      due_all_day: completedTask.due_all_day,
+      recurrence_rule: completedTask.recurrence_rule,
+      rotation: completedTask.rotation,
+      series_id: completedTask.series_id || completedTask.id,
+      requires_proof: completedTask.requires_proof,
+      requires_review: completedTask.requires_review,
+    });
+  } catch (error) {
+    // The task was reopened and completed again
+    if (isUniqueViolation(error)) return null;
+    throw error;
+  }
+
+  // The next occurrence gets the same checklist, unchecked
+  if (completedTask.checklist_total === 0) return { task: nextTask, checklistSkipped: false };
+  if (!(await copyChecklist(completedTask, nextTask))) return { task: nextTask, checklistSkipped: true };
+  return { task: (await repository.tasks.get(nextTask.id)) || nextTask, checklistSkipped: false };
+};
+
+// Save edits from the task screen. Moving the task needs permission to add tasks to the household it
+// goes to, and the assignee has to be an active member there.
+export const saveTaskEdits = async (task: Task, changes: TaskUpdate, userId: string) => {
+  const householdId = changes.household_id ?? task.household_id;
+  const assignee = changes.assignee !== undefined ? changes.assignee : task.assignee;
+  const moved = householdId !== task.household_id;
+
+  const repository = getRepository();
+  if (moved || assignee !== task.assignee) {
+    const [household, members] = await Promise.all([
+      repository.households.get(householdId),
+      repository.members.listActive(householdId),
+    ]);
+    if (!household) throw new DataError('Household not found');
+
+    const member = members.find(m => m.user_id === userId) || null;
+    if (moved && !can(member, 'create_tasks', household)) {
+      throw new DataError(`You can't add tasks to ${household.name}`);
+    }
+    if (assignee && !members.some(m => m.user_id === assignee)) {
+      throw new DataError(`The assignee isn't a member of ${household.name}`);
+    }
+  }
+  return repository.tasks.update(task.id, changes);
+};
+
+// Whether the task can be completed: tasks that require proof need a photo attached first
+export const hasRequiredProof = async (task: Task) => {
+  if (!task.requires_proof) return true;
+  return (await getRepository().attachments.listForTask(task.id)).length > 0;
+};
+
+// Move a task through its workflow. Once a recurring task is completed, its next occurrence is scheduled.
+export const transitionTask = async (task: Task, transition: TaskTransition, userId: string, reason?: string) => {
+  const changes = getTransitionChanges(task, transition, userId, reason);
+  const updated = await getRepository().tasks.update(task.id, changes);
+  const next = updated.state === 'completed' ? await createNextOccurrence(updated) : null;
+  return { task: updated, nextOccurrence: next?.task ?? null, checklistSkipped: next?.checklistSkipped ?? false };
+};
+
+// Mark a task done: completed straight away, or submitted for review when the task or household asks for it
+export const finishTask = (task: Task, household: Household | null, userId: string) =>
+  transitionTask(task, needsReview(task, household) ? 'submit' : 'complete', userId);
+
+// Check a checklist item on or off. Finishing the checklist finishes the task too
+// when the household has auto-complete turned on.
+export const setChecklistItemDone = async (
+  task: Task,
+  item: ChecklistItem,
+  done: boolean,
+  household: Household | null,
+  userId: string
+) => {
+  const repository = getRepository();
+  const updatedItem = await repository.checklist.update(item.id, { done });
+  // Re-read the task for the counts the database just updated
+  const latest = (await repository.tasks.get(task.id)) || task;
+
+  const finished = latest.checklist_total > 0 && latest.checklist_done === latest.checklist_total;
+  // Tasks that still need a photo wait for it to be attached
+  if (done && finished && isTaskOpen(latest) && household?.auto_complete_tasks && await hasRequiredProof(latest)) {
+    const { task: finishedTask, nextOccurrence, checklistSkipped } = await finishTask(latest, household, userId);
+    return { item: updatedItem, task: finishedTask, nextOccurrence, checklistSkipped, autoCompleted: true };
+  }
+  return { item: updatedItem, task: latest, nextOccurrence: null, checklistSkipped: false, autoCompleted: false };
+};
+
+// Attach photos taken as proof, then mark the task done
+export const finishTaskWithPhotos = async (
+  task: Task,
+  household: Household | null,
+  photoUris: string[],
+  userId: string
+) => {
+  const repository = getRepository();
+  const uploaded = [];
+  for (const uri of photoUris) {
+    uploaded.push(await repository.attachments.upload({
+      task_id: task.id,
+      household_id: task.household_id,
+      uploaded_by: userId,
+      uri,
+    }));
+  }
+
+  if (uploaded.length === 0 && !(await hasRequiredProof(task))) {
+    throw new DataError('Attach a photo before completing this task');
+  }
+  const result = await finishTask(task, household, userId);
+  return { ...result, attachments: uploaded };
+};
@@ -0,0 +1,118 @@
+import { BillInstance, TaskDueRange, TaskFilter, TaskPriority, TaskQuery, TaskState } from '@/lib/data';
+import { startOfDay } from '@/lib/dueDates';
+import { getShareDueState } from '@/lib/bills';
+
+// Composable My Tasks filters: the choices offered, the built-in views and how a filter
+// becomes the query the store runs
+
+export const STATE_OPTIONS: { value: TaskState; label: string }[] = [
+  { value: 'open', label: 'Pending' },
+  { value: 'pending_review', label: 'In Review' },
+  { value: 'completed', label: 'Completed' },
+];
+
+export const PRIORITY_OPTIONS: { value: TaskPriority; label: string }[] = [
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+export const DUE_RANGE_OPTIONS: { value: TaskDueRange; label: string }[] = [
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Due today' },
+  { value: 'week', label: 'Next 7 days' },
+  { value: 'none', label: 'No due date' },
+];
+
+export interface TaskView {
+  id: string;
+  name: string;
+  filter: TaskFilter;
+}
+
+// Views every user has, before any they save themselves
+export const getPresetViews = (userId: string): TaskView[] => [
+  { id: 'all', name: 'All Tasks', filter: {} },
+  { id: 'assigned-to-me', name: 'Assigned to Me', filter: { assignees: [userId] } },
+  { id: 'my-created', name: 'Created by Me', filter: { creators: [userId] } },
+  { id: 'pending', name: 'Pending', filter: { states: ['open'] } },
+  { id: 'in-review', name: 'In Review', filter: { states: ['pending_review'] } },
+  { id: 'overdue', name: 'Overdue', filter: { due: 'overdue' } },
+  { id: 'completed', name: 'Completed', filter: { states: ['completed'] } },
+  { id: 'high-priority', name: 'High Priority', filter: { priorities: ['high'] } },
+];
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Drops empty fields, so filters that match the same tasks compare equal
+export const normalizeFilter = (filter: TaskFilter): TaskFilter => {
+  const normalized: TaskFilter = {};
+  if (filter.states?.length) normalized.states = [...filter.states].sort();
+  if (filter.assignees?.length) {
+    normalized.assignees = [...filter.assignees].sort((a, b) => (a ?? '').localeCompare(b ?? ''));
+  }
+  if (filter.creators?.length) normalized.creators = [...filter.creators].sort();
+  if (filter.priorities?.length) normalized.priorities = [...filter.priorities].sort();
+  if (filter.tags?.length) normalized.tags = [...filter.tags].sort();
+  if (filter.householdIds?.length) normalized.householdIds = [...filter.householdIds].sort();
+  if (filter.due) normalized.due = filter.due;
+  return normalized;
+};
+
+export const isSameFilter = (a: TaskFilter, b: TaskFilter) =>
+  JSON.stringify(normalizeFilter(a)) === JSON.stringify(normalizeFilter(b));
+
+// How many fields the filter sets, for the badge on the filter button
+export const countFilterFields = (filter: TaskFilter) => Object.keys(normalizeFilter(filter)).length;
+
+// Adds the value when it's missing and removes it when it's there
+export const toggleValue = <T>(values: T[] | undefined, value: T) =>
+  values?.includes(value) ? values.filter(existing => existing !== value) : [...(values || []), value];
+
+// The households to load, narrowed by the filter
+export const getFilterHouseholds = (filter: TaskFilter, householdIds: string[]) =>
+  filter.householdIds?.length ? householdIds.filter(id => filter.householdIds?.includes(id)) : householdIds;
+
+// The filter with its due window resolved against `now`
+export const toTaskQuery = (filter: TaskFilter, now: Date = new Date()): TaskQuery => {
+  const { householdIds, due, ...rest } = normalizeFilter(filter);
+  const today = startOfDay(now);
+
+  switch (due) {
+    case 'overdue':
+      return { ...rest, overdue: { allDayBefore: today.toISOString(), timedBefore: now.toISOString() } };
+    case 'today':
+      return { ...rest, dueFrom: today.toISOString(), dueBefore: addDays(today, 1).toISOString() };
+    case 'week':
+      return { ...rest, dueFrom: today.toISOString(), dueBefore: addDays(today, 7).toISOString() };
+    case 'none':
+      return { ...rest, hasDueDate: false };
+    default:
+      return rest;
+  }
+};
+
+// Bills are listed next to tasks when the filter could match open work of the user's:
+// it doesn't ask for finished tasks, someone else's tasks, or a creator, priority or tag bills don't have
+export const filterBills = <T extends BillInstance>(bills: T[], filter: TaskFilter, userId: string, now: Date = new Date()) => {
+  const { states, assignees, creators, priorities, tags, householdIds, due } = normalizeFilter(filter);
+  if (creators || priorities || tags || due === 'none') return [];
+  if (states && !states.includes('open')) return [];
+  if (assignees && !assignees.includes(userId)) return [];
+
+  const today = startOfDay(now);
+  return bills.filter(bill => {
+    if (householdIds && !householdIds.includes(bill.household_id)) return false;
+    const dueDate = new Date(bill.due_date).getTime();
+    switch (due) {
+      case 'overdue': return getShareDueState(bill, userId, now) === 'overdue';
+      case 'today': return dueDate >= today.getTime() && dueDate < addDays(today, 1).getTime();
+      case 'week': return dueDate >= today.getTime() && dueDate < addDays(today, 7).getTime();
+      default: return true;
+    }
+  });
+};
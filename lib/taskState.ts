@@ -0,0 +1,119 @@
+import { DataError, Household, Member, Task, TaskState, TaskUpdate } from '@/lib/data';
+import { can } from '@/lib/permissions';
+
+// The task workflow. Tasks that don't need approval go straight from open to completed; the rest are
+// submitted for review and then approved or sent back with a reason by someone other than the submitter.
+// task_review_schema.sql enforces the same transitions in the database.
+
+export type TaskTransition = 'complete' | 'submit' | 'approve' | 'reject' | 'reopen';
+
+const TRANSITIONS: Record<TaskTransition, { from: TaskState; to: TaskState }> = {
+  complete: { from: 'open', to: 'completed' },
+  submit: { from: 'open', to: 'pending_review' },
+  approve: { from: 'pending_review', to: 'completed' },
+  reject: { from: 'pending_review', to: 'open' },
+  reopen: { from: 'completed', to: 'open' },
+};
+
+export const isTaskOpen = (task: Pick<Task, 'state'>) => task.state === 'open';
+
+export const isTaskCompleted = (task: Pick<Task, 'state'>) => task.state === 'completed';
+
+// Whether finishing the task submits it for approval instead of completing it
+export const needsReview = (
+  task: Pick<Task, 'requires_review'>,
+  household: Pick<Household, 'require_task_review'> | null
+) => task.requires_review || !!household?.require_task_review;
+
+export const canTransition = (task: Pick<Task, 'state'>, transition: TaskTransition) =>
+  TRANSITIONS[transition].from === task.state;
+
+// Whether `member` may approve or send back the task. Nobody reviews their own submission.
+export const canReview = (
+  task: Pick<Task, 'state' | 'submitted_by'>,
+  member: Pick<Member, 'user_id' | 'role'> | null,
+  household: Pick<Household, 'created_by'> | null
+) =>
+  task.state === 'pending_review'
+  && member !== null
+  && member.user_id !== task.submitted_by
+  && can(member, 'review_tasks', household);
+
+const getTransitionVerb = (transition: TaskTransition) => {
+  switch (transition) {
+    case 'complete': return 'completed';
+    case 'submit': return 'submitted for review';
+    case 'approve': return 'approved';
+    case 'reject': return 'sent back';
+    case 'reopen': return 'reopened';
+  }
+};
+
+// The update that moves `task` along `transition` on behalf of `userId`
+export const getTransitionChanges = (
+  task: Pick<Task, 'state' | 'submitted_by'>,
+  transition: TaskTransition,
+  userId: string,
+  reason?: string
+): TaskUpdate => {
+  if (!canTransition(task, transition)) {
+    throw new DataError(`This task can't be ${getTransitionVerb(transition)} right now`);
+  }
+  const state = TRANSITIONS[transition].to;
+  const timestamp = new Date().toISOString();
+
+  switch (transition) {
+    case 'complete':
+      return {
+        state,
+        submitted_by: userId,
+        submitted_at: timestamp,
+        reviewed_by: null,
+        review_reason: null,
+        completed_by: userId,
+        completed_at: timestamp,
+      };
+    case 'submit':
+      return { state, submitted_by: userId, submitted_at: timestamp, reviewed_by: null, review_reason: null };
+    case 'approve':
+      // The points go to whoever did the task, not the reviewer
+      return { state, reviewed_by: userId, review_reason: null, completed_by: task.submitted_by, completed_at: timestamp };
+    case 'reject':
+      if (!reason?.trim()) throw new DataError('Give a reason for sending the task back');
+      return { state, reviewed_by: userId, review_reason: reason.trim() };
+    case 'reopen':
+      return {
+        state,
+        submitted_by: null,
+        submitted_at: null,
+        reviewed_by: null,
+        review_reason: null,
+        completed_by: null,
+        completed_at: null,
+      };
+  }
+};
+
+export const getTaskStateLabel = (state: TaskState) => {
+  switch (state) {
+    case 'pending_review': return 'In Review';
+    case 'completed': return 'Completed';
+    default: return 'Pending';
+  }
+};
+
+export const getTaskStateIcon = (state: TaskState) => {
+  switch (state) {
+    case 'pending_review': return 'hourglass';
+    case 'completed': return 'checkmark-circle';
+    default: return 'time';
+  }
+};
+
+export const getTaskStateColor = (state: TaskState, isDark = false) => {
+  switch (state) {
+    case 'pending_review': return isDark ? '#5E5CE6' : '#5856D6';
+    case 'completed': return '#34C759';
+    default: return '#FF9500';
+  }
+};
@@ -0,0 +1,71 @@
+-- Member Availability Setup
+-- Members can mark themselves away so automatic assignment skips them.
+-- Run after member_management_schema.sql.
+
+-- 1. Availability flag on the membership
+ALTER TABLE household_members ADD COLUMN IF NOT EXISTS is_available boolean NOT NULL DEFAULT true;
+
+-- 2. Members set their own availability, and admins anyone's, through this function. It only touches
+-- is_available: a row-level UPDATE policy would also let members rewrite their role or household.
+DROP POLICY IF EXISTS "Members can update their own availability" ON household_members;
+
+CREATE OR REPLACE FUNCTION set_member_availability(p_household_id uuid, p_user_id uuid, p_available boolean)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id <> auth.uid() AND NOT household_can(p_household_id, 'change_roles') THEN
+    RETURN false;
+  END IF;
+
+  UPDATE household_members
+  SET is_available = p_available
+  WHERE household_id = p_household_id AND user_id = p_user_id AND is_active = true;
+  RETURN FOUND;
+END;
+$$;
+
+-- 3. A membership never moves to another household or user; leaving and rejoining reuse the row
+CREATE OR REPLACE FUNCTION check_member_identity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.household_id IS DISTINCT FROM OLD.household_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Memberships cannot be moved' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_member_identity ON household_members;
+CREATE TRIGGER check_member_identity
+  BEFORE UPDATE OF household_id, user_id ON household_members
+  FOR EACH ROW
+  EXECUTE FUNCTION check_member_identity();
+
+-- 4. Members may update their own row to leave, so keep roles in the hands of whoever may change them.
+-- Rejoining through an invitation (an inactive row) takes the invited role, and the service role is exempt.
+CREATE OR REPLACE FUNCTION check_member_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND OLD.is_active
+    AND auth.uid() IS NOT NULL
+    AND NOT household_can(NEW.household_id, 'change_roles')
+  THEN
+    RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_member_role_change ON household_members;
+CREATE TRIGGER check_member_role_change
+  BEFORE UPDATE OF role ON household_members
+  FOR EACH ROW
+  EXECUTE FUNCTION check_member_role_change();
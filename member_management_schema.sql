@@ -0,0 +1,82 @@
+-- Member Management Setup
+-- Changing roles, removing members, leaving households and transferring ownership.
+-- Run after permissions_schema.sql. Memberships are deactivated, never deleted, so history is kept.
+
+-- 1. Any member can leave a household by deactivating their own membership
+DROP POLICY IF EXISTS "Members can leave households" ON household_members;
+CREATE POLICY "Members can leave households"
+  ON household_members FOR UPDATE
+  USING (user_id = auth.uid() AND is_active = true)
+  WITH CHECK (user_id = auth.uid() AND is_active = false);
+
+-- 2. The owner has to hand the household on before leaving, unless nobody else is left
+CREATE OR REPLACE FUNCTION check_member_departure()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_active AND NOT NEW.is_active
+    AND EXISTS (SELECT 1 FROM households WHERE id = NEW.household_id AND created_by = NEW.user_id)
+    AND EXISTS (
+      SELECT 1 FROM household_members
+      WHERE household_id = NEW.household_id AND user_id <> NEW.user_id AND is_active = true
+    )
+  THEN
+    RAISE EXCEPTION 'Transfer ownership before the owner leaves' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_member_departure ON household_members;
+CREATE TRIGGER check_member_departure
+  BEFORE UPDATE OF is_active ON household_members
+  FOR EACH ROW
+  EXECUTE FUNCTION check_member_departure();
+
+-- 3. Open tasks a departing member still holds become unassigned.
+-- Runs as definer so it works for viewers, who can't edit tasks themselves.
+CREATE OR REPLACE FUNCTION unassign_departed_member_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_active AND NOT NEW.is_active THEN
+    UPDATE tasks SET assignee = NULL
+    WHERE household_id = NEW.household_id AND assignee = NEW.user_id AND status = false;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS unassign_departed_member_tasks ON household_members;
+CREATE TRIGGER unassign_departed_member_tasks
+  AFTER UPDATE OF is_active ON household_members
+  FOR EACH ROW
+  EXECUTE FUNCTION unassign_departed_member_tasks();
+
+-- 4. Ownership can only go to an active member
+CREATE OR REPLACE FUNCTION check_household_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.created_by IS DISTINCT FROM OLD.created_by AND NOT EXISTS (
+    SELECT 1 FROM household_members
+    WHERE household_id = NEW.id AND user_id = NEW.created_by AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'The new owner must be an active member' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_household_owner ON households;
+CREATE TRIGGER check_household_owner
+  BEFORE UPDATE OF created_by ON households
+  FOR EACH ROW
+  EXECUTE FUNCTION check_household_owner();
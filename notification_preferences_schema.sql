@@ -0,0 +1,35 @@
+-- Notification Preferences Setup
+-- Per-user timing for due date reminders, assignment alerts and the daily digest
+
+-- 1. One row per user; users without a row get the app defaults
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminders_enabled boolean NOT NULL DEFAULT true,
+  reminder_lead_minutes integer NOT NULL DEFAULT 60,
+  assignment_alerts boolean NOT NULL DEFAULT true,
+  digest_enabled boolean NOT NULL DEFAULT true,
+  digest_hour integer NOT NULL DEFAULT 8,
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  CONSTRAINT chk_notification_preferences_lead CHECK (reminder_lead_minutes BETWEEN 0 AND 10080),
+  CONSTRAINT chk_notification_preferences_digest_hour CHECK (digest_hour BETWEEN 0 AND 23)
+);
+
+-- 2. Users can only read and change their own preferences
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their notification preferences" ON notification_preferences;
+CREATE POLICY "Users can view their notification preferences"
+  ON notification_preferences FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their notification preferences" ON notification_preferences;
+CREATE POLICY "Users can create their notification preferences"
+  ON notification_preferences FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their notification preferences" ON notification_preferences;
+CREATE POLICY "Users can update their notification preferences"
+  ON notification_preferences FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
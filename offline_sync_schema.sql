@@ -0,0 +1,22 @@
+-- Offline Sync Setup
+-- Queued offline edits are replayed as conditional updates on tasks.updated_at,
+-- so every write to a task must move updated_at forward
+
+-- 1. Keep updated_at current on every task update
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_tasks_updated_at ON tasks;
+CREATE TRIGGER update_tasks_updated_at
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Tasks created offline arrive with a client generated id
+-- The default still applies to tasks created without one
+ALTER TABLE tasks ALTER COLUMN id SET DEFAULT gen_random_uuid();
@@ -0,0 +1,136 @@
+-- Household Role Permissions Setup
+-- Enforces the admin/member/viewer roles on household actions.
+-- The matrix below mirrors ROLE_PERMISSIONS in lib/permissions.ts; keep the two in sync.
+
+-- 1. Which role may perform which action
+CREATE TABLE IF NOT EXISTS household_role_permissions (
+  role text NOT NULL,
+  action text NOT NULL,
+  PRIMARY KEY (role, action),
+  CONSTRAINT chk_household_role_permissions_role CHECK (role IN ('admin', 'member', 'viewer'))
+);
+
+INSERT INTO household_role_permissions (role, action) VALUES
+  ('admin', 'invite_members'),
+  ('admin', 'remove_members'),
+  ('admin', 'change_roles'),
+  ('admin', 'create_tasks'),
+  ('admin', 'edit_tasks'),
+  ('admin', 'delete_tasks'),
+  ('admin', 'edit_household'),
+  ('member', 'create_tasks'),
+  ('member', 'edit_tasks'),
+  ('member', 'delete_tasks')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE household_role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read role permissions" ON household_role_permissions;
+CREATE POLICY "Anyone can read role permissions"
+  ON household_role_permissions FOR SELECT
+  USING (true);
+
+-- 2. Whether the signed-in user may perform an action in a household.
+-- The household's creator is always treated as an admin.
+CREATE OR REPLACE FUNCTION household_can(p_household_id uuid, p_action text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM household_members m
+    JOIN households h ON h.id = m.household_id
+    JOIN household_role_permissions p
+      ON p.role = CASE WHEN h.created_by = m.user_id THEN 'admin' ELSE m.role END
+    WHERE m.household_id = p_household_id
+      AND m.user_id = auth.uid()
+      AND m.is_active = true
+      AND p.action = p_action
+  );
+$$;
+
+-- 3. Tasks: every member can read, writes depend on the role
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view household tasks" ON tasks;
+CREATE POLICY "Members can view household tasks"
+  ON tasks FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can create tasks" ON tasks;
+CREATE POLICY "Members can create tasks"
+  ON tasks FOR INSERT
+  WITH CHECK (household_can(household_id, 'create_tasks'));
+
+DROP POLICY IF EXISTS "Members can edit tasks" ON tasks;
+CREATE POLICY "Members can edit tasks"
+  ON tasks FOR UPDATE
+  USING (household_can(household_id, 'edit_tasks'))
+  WITH CHECK (household_can(household_id, 'edit_tasks'));
+
+DROP POLICY IF EXISTS "Members can delete tasks" ON tasks;
+CREATE POLICY "Members can delete tasks"
+  ON tasks FOR DELETE
+  USING (household_can(household_id, 'delete_tasks'));
+
+-- 4. Only admins can invite (replaces the any-member policy from household_invitations_inbox.sql)
+DROP POLICY IF EXISTS "Members can create household invitations" ON household_invitations;
+DROP POLICY IF EXISTS "Admins can create household invitations" ON household_invitations;
+CREATE POLICY "Admins can create household invitations"
+  ON household_invitations FOR INSERT
+  WITH CHECK (
+    inviter_id = auth.uid()
+    AND household_can(household_id, 'invite_members')
+  );
+
+-- 5. Only admins can change or remove memberships
+DROP POLICY IF EXISTS "Admins can update household members" ON household_members;
+CREATE POLICY "Admins can update household members"
+  ON household_members FOR UPDATE
+  USING (
+    household_can(household_id, 'remove_members')
+    OR household_can(household_id, 'change_roles')
+  );
+
+DROP POLICY IF EXISTS "Admins can remove household members" ON household_members;
+CREATE POLICY "Admins can remove household members"
+  ON household_members FOR DELETE
+  USING (household_can(household_id, 'remove_members'));
+
+-- Invitees reactivate a previous membership when they accept again, only with the role they were invited as.
+-- The app accepts through accept_invitation() (household_invitations_inbox.sql), which does the same.
+DROP POLICY IF EXISTS "Invitees can rejoin invited households" ON household_members;
+CREATE POLICY "Invitees can rejoin invited households"
+  ON household_members FOR UPDATE
+  USING (
+    user_id = auth.uid()
+    AND household_id IN (
+      SELECT household_id FROM household_invitations
+      WHERE invitee_email = lower(auth.jwt() ->> 'email') AND status = 'pending'
+    )
+  )
+  WITH CHECK (
+    user_id = auth.uid()
+    AND is_active = true
+    AND EXISTS (
+      SELECT 1 FROM household_invitations i
+      WHERE i.household_id = household_members.household_id
+        AND i.invitee_email = lower(auth.jwt() ->> 'email')
+        AND i.status = 'pending'
+        AND i.role = household_members.role
+    )
+  );
+
+-- 6. Only admins can change household settings
+DROP POLICY IF EXISTS "Admins can edit households" ON households;
+CREATE POLICY "Admins can edit households"
+  ON households FOR UPDATE
+  USING (household_can(id, 'edit_household'))
+  WITH CHECK (household_can(id, 'edit_household'));
@@ -0,0 +1,57 @@
+-- Realtime Setup
+-- Streams task, member and invitation changes to household members as they happen
+
+-- 1. Record who last changed each row so clients can tell their own changes from others'
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS updated_by uuid;
+ALTER TABLE household_members ADD COLUMN IF NOT EXISTS updated_by uuid;
+ALTER TABLE household_invitations ADD COLUMN IF NOT EXISTS updated_by uuid;
+
+CREATE OR REPLACE FUNCTION set_updated_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Keep the client supplied value for changes made without a user session (e.g. service role)
+  NEW.updated_by = COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_tasks_updated_by ON tasks;
+CREATE TRIGGER set_tasks_updated_by
+  BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_by();
+
+DROP TRIGGER IF EXISTS set_household_members_updated_by ON household_members;
+CREATE TRIGGER set_household_members_updated_by
+  BEFORE INSERT OR UPDATE ON household_members
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_by();
+
+DROP TRIGGER IF EXISTS set_household_invitations_updated_by ON household_invitations;
+CREATE TRIGGER set_household_invitations_updated_by
+  BEFORE INSERT OR UPDATE ON household_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_by();
+
+-- 2. Include the full previous row in update and delete events
+-- Needed to know which household a deleted row belonged to and what an update changed
+ALTER TABLE tasks REPLICA IDENTITY FULL;
+ALTER TABLE household_members REPLICA IDENTITY FULL;
+ALTER TABLE household_invitations REPLICA IDENTITY FULL;
+
+-- 3. Publish the tables to Supabase realtime
+-- Events are filtered by each table's row level security, so members only receive their households' rows
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['tasks', 'household_members', 'household_invitations'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Recurring Tasks Schema Setup
+-- Adds recurrence rules and member rotation to tasks
+
+-- 1. Add recurrence columns to tasks
+-- recurrence_rule uses an RRULE-style string, e.g. 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO'
+-- rotation holds the ordered list of household member user_ids the chore rotates through
+-- series_id groups every occurrence generated from the same recurring task
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_rule text;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS rotation uuid[] NOT NULL DEFAULT '{}';
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS series_id uuid;
+
+-- 2. Create indexes for looking up occurrences of a series
+CREATE INDEX IF NOT EXISTS idx_tasks_series_id
+  ON tasks(series_id);
+
+-- 3. Prevent the same occurrence from being generated twice
+-- (e.g. when a task is completed, reopened and completed again)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_unique_series_occurrence
+  ON tasks(series_id, due_date)
+  WHERE series_id IS NOT NULL;
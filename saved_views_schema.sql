@@ -0,0 +1,52 @@
+-- Saved Views Setup
+-- Named My Tasks filters, kept per user so they follow them to every device.
+-- Run after task_review_schema.sql and due_dates_schema.sql.
+
+-- 1. One row per view. The filter is the app's TaskFilter: states, assignees, creators, priorities,
+-- tags (see tags_schema.sql), households and a due window, each optional.
+CREATE TABLE IF NOT EXISTS saved_task_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  filter jsonb NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  CONSTRAINT uq_saved_task_views_name UNIQUE (user_id, name),
+  CONSTRAINT chk_saved_task_views_name CHECK (length(trim(name)) > 0),
+  CONSTRAINT chk_saved_task_views_filter CHECK (jsonb_typeof(filter) = 'object')
+);
+
+DROP TRIGGER IF EXISTS update_saved_task_views_updated_at ON saved_task_views;
+CREATE TRIGGER update_saved_task_views_updated_at
+  BEFORE UPDATE ON saved_task_views
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Indexes for the filters My Tasks sends with every load. State and due date are already covered
+-- by idx_tasks_household_state and idx_tasks_due_date.
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee ON tasks(assignee, household_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_created_by ON tasks(created_by, household_id);
+
+-- 3. Users only see and change their own views
+ALTER TABLE saved_task_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their saved views" ON saved_task_views;
+CREATE POLICY "Users can view their saved views"
+  ON saved_task_views FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create saved views" ON saved_task_views;
+CREATE POLICY "Users can create saved views"
+  ON saved_task_views FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their saved views" ON saved_task_views;
+CREATE POLICY "Users can update their saved views"
+  ON saved_task_views FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their saved views" ON saved_task_views;
+CREATE POLICY "Users can delete their saved views"
+  ON saved_task_views FOR DELETE
+  USING (user_id = auth.uid());
@@ -0,0 +1,166 @@
+-- Shopping List Setup
+-- A shared shopping list per household, with claims, purchases and the expenses they were paid through.
+-- Run after activity_schema.sql.
+
+-- 1. Expenses. One member paid for something on behalf of the household.
+CREATE TABLE IF NOT EXISTS expenses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  amount numeric(12, 2) NOT NULL,
+  paid_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  CONSTRAINT chk_expenses_amount CHECK (amount > 0),
+  CONSTRAINT chk_expenses_description CHECK (length(trim(description)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expenses_household ON expenses(household_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_expenses_updated_at ON expenses;
+CREATE TRIGGER update_expenses_updated_at
+  BEFORE UPDATE ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Shopping list items
+CREATE TABLE IF NOT EXISTS shopping_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  quantity text,
+  category text NOT NULL DEFAULT 'other',
+  added_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  claimed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  purchased boolean NOT NULL DEFAULT false,
+  purchased_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  purchased_at timestamp with time zone,
+  expense_id uuid REFERENCES expenses(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  updated_by uuid,
+  CONSTRAINT chk_shopping_items_name CHECK (length(trim(name)) > 0),
+  CONSTRAINT chk_shopping_items_category CHECK (category IN (
+    'produce', 'dairy', 'meat', 'bakery', 'pantry', 'frozen', 'drinks', 'household', 'other'
+  ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_shopping_items_household ON shopping_items(household_id, created_at);
+
+DROP TRIGGER IF EXISTS update_shopping_items_updated_at ON shopping_items;
+CREATE TRIGGER update_shopping_items_updated_at
+  BEFORE UPDATE ON shopping_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS set_shopping_items_updated_by ON shopping_items;
+CREATE TRIGGER set_shopping_items_updated_by
+  BEFORE INSERT OR UPDATE ON shopping_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_by();
+
+-- 3. Record who bought an item and when, whatever the client sent.
+-- Items on an expense stay purchased so the expense keeps matching what was bought.
+CREATE OR REPLACE FUNCTION set_shopping_purchase()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.purchased IS NOT DISTINCT FROM OLD.purchased THEN
+    NEW.purchased_by = OLD.purchased_by;
+    NEW.purchased_at = OLD.purchased_at;
+    RETURN NEW;
+  END IF;
+
+  IF NOT NEW.purchased AND OLD.expense_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This item is part of a recorded expense' USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.purchased THEN
+    NEW.purchased_by = COALESCE(auth.uid(), NEW.purchased_by);
+    NEW.purchased_at = NOW();
+  ELSE
+    NEW.purchased_by = NULL;
+    NEW.purchased_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_shopping_purchase ON shopping_items;
+CREATE TRIGGER set_shopping_purchase
+  BEFORE UPDATE ON shopping_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_shopping_purchase();
+
+-- 4. Admins and members keep the list and record what they paid; viewers can only look
+INSERT INTO household_role_permissions (role, action) VALUES
+  ('admin', 'edit_shopping_list'),
+  ('member', 'edit_shopping_list'),
+  ('admin', 'record_expenses'),
+  ('member', 'record_expenses')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE shopping_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view the shopping list" ON shopping_items;
+CREATE POLICY "Members can view the shopping list"
+  ON shopping_items FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can add shopping items" ON shopping_items;
+CREATE POLICY "Members can add shopping items"
+  ON shopping_items FOR INSERT
+  WITH CHECK (added_by = auth.uid() AND household_can(household_id, 'edit_shopping_list'));
+
+DROP POLICY IF EXISTS "Members can update shopping items" ON shopping_items;
+CREATE POLICY "Members can update shopping items"
+  ON shopping_items FOR UPDATE
+  USING (household_can(household_id, 'edit_shopping_list'))
+  WITH CHECK (household_can(household_id, 'edit_shopping_list'));
+
+DROP POLICY IF EXISTS "Members can remove shopping items" ON shopping_items;
+CREATE POLICY "Members can remove shopping items"
+  ON shopping_items FOR DELETE
+  USING (household_can(household_id, 'edit_shopping_list'));
+
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view expenses" ON expenses;
+CREATE POLICY "Members can view expenses"
+  ON expenses FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can record their own expenses" ON expenses;
+CREATE POLICY "Members can record their own expenses"
+  ON expenses FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND paid_by = auth.uid()
+    AND household_can(household_id, 'record_expenses')
+  );
+
+-- 5. Stream the list to everyone who has it open
+ALTER TABLE shopping_items REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'shopping_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.shopping_items;
+  END IF;
+END;
+$$;
@@ -0,0 +1,105 @@
+-- Task Tags Setup
+-- Labels each household defines for its tasks, such as kitchen, bathroom, outdoor or pets, with a color.
+-- Run after task_search_schema.sql.
+
+-- 1. The household's tags. Names are unique within a household whatever their case.
+CREATE TABLE IF NOT EXISTS task_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#4A90E2',
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT NOW(),
+  CONSTRAINT chk_task_tags_name CHECK (length(trim(name)) BETWEEN 1 AND 30),
+  CONSTRAINT chk_task_tags_color CHECK (color ~ '^#[0-9A-Fa-f]{6}$')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_tags_name ON task_tags(household_id, lower(name));
+
+-- 2. Tags on a task, kept on the task row so filters, live updates and the offline cache get them
+-- with the rest of the task
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS tag_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_tag_ids ON tasks USING gin(tag_ids);
+
+-- A task only keeps tags of its own household, so moving it to another household drops them
+CREATE OR REPLACE FUNCTION check_task_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Keeps the order the tags were picked in, each tag once
+  NEW.tag_ids := ARRAY(
+    SELECT tag_id
+    FROM unnest(NEW.tag_ids) WITH ORDINALITY AS picked(tag_id, position)
+    WHERE EXISTS (
+      SELECT 1 FROM task_tags WHERE id = picked.tag_id AND household_id = NEW.household_id
+    )
+    GROUP BY tag_id
+    ORDER BY min(position)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_task_tags ON tasks;
+CREATE TRIGGER check_task_tags
+  BEFORE INSERT OR UPDATE OF tag_ids, household_id ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION check_task_tags();
+
+-- Deleting a tag takes it off every task. Runs as the owner because managing tags doesn't need
+-- permission to edit tasks.
+CREATE OR REPLACE FUNCTION remove_deleted_tag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE tasks
+  SET tag_ids = array_remove(tag_ids, OLD.id)
+  WHERE household_id = OLD.household_id AND tag_ids @> ARRAY[OLD.id];
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS remove_deleted_tag ON task_tags;
+CREATE TRIGGER remove_deleted_tag
+  AFTER DELETE ON task_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_deleted_tag();
+
+-- 3. Admins and members manage the household's tags; everyone in it can see them
+INSERT INTO household_role_permissions (role, action) VALUES
+  ('admin', 'manage_tags'),
+  ('member', 'manage_tags')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE task_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view tags" ON task_tags;
+CREATE POLICY "Members can view tags"
+  ON task_tags FOR SELECT
+  USING (
+    household_id IN (
+      SELECT household_id FROM household_members
+      WHERE user_id = auth.uid() AND is_active = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can add tags" ON task_tags;
+CREATE POLICY "Members can add tags"
+  ON task_tags FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND household_can(household_id, 'manage_tags'));
+
+DROP POLICY IF EXISTS "Members can update tags" ON task_tags;
+CREATE POLICY "Members can update tags"
+  ON task_tags FOR UPDATE
+  USING (household_can(household_id, 'manage_tags'))
+  WITH CHECK (household_can(household_id, 'manage_tags'));
+
+DROP POLICY IF EXISTS "Members can delete tags" ON task_tags;
+CREATE POLICY "Members can delete tags"
+  ON task_tags FOR DELETE
+  USING (household_can(household_id, 'manage_tags'));
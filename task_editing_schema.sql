@@ -0,0 +1,96 @@
+-- Task Editing Setup
+-- Checks reassignments against the task's household and lets tasks move between households.
+-- Run after activity_schema.sql, checklist_schema.sql and comments_schema.sql.
+
+-- 1. A new assignee, or the assignee of a moved task, has to be an active member of the task's
+-- household. Moving a task also needs permission to add tasks to the household it moves to.
+CREATE OR REPLACE FUNCTION check_task_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  moved boolean := NEW.household_id IS DISTINCT FROM OLD.household_id;
+BEGIN
+  IF moved THEN
+    IF auth.uid() IS NOT NULL AND NOT household_can(NEW.household_id, 'create_tasks') THEN
+      RAISE EXCEPTION 'You can''t add tasks to that household' USING ERRCODE = '42501';
+    END IF;
+    -- The rotation only keeps members of the new household
+    NEW.rotation := ARRAY(
+      SELECT rotation_member FROM unnest(NEW.rotation) WITH ORDINALITY AS r(rotation_member, position)
+      WHERE EXISTS (
+        SELECT 1 FROM household_members
+        WHERE household_id = NEW.household_id AND user_id = rotation_member AND is_active = true
+      )
+      ORDER BY position
+    );
+  END IF;
+
+  IF (moved OR NEW.assignee IS DISTINCT FROM OLD.assignee)
+    AND NEW.assignee IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM household_members
+      WHERE household_id = NEW.household_id AND user_id = NEW.assignee AND is_active = true
+    ) THEN
+    RAISE EXCEPTION 'The assignee isn''t a member of this household' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_task_assignment ON tasks;
+CREATE TRIGGER check_task_assignment
+  BEFORE UPDATE OF household_id, assignee ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION check_task_assignment();
+
+-- 2. The checklist, comments and photos follow a moved task. Checklist items lose assignees who
+-- aren't in the new household. Runs as definer because the mover may not be able to edit them all.
+CREATE OR REPLACE FUNCTION move_task_contents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE task_checklist_items
+  SET
+    household_id = NEW.household_id,
+    assignee = CASE
+      WHEN EXISTS (
+        SELECT 1 FROM household_members
+        WHERE household_id = NEW.household_id AND user_id = task_checklist_items.assignee AND is_active = true
+      ) THEN assignee
+      ELSE NULL
+    END
+  WHERE task_id = NEW.id;
+
+  UPDATE task_comments SET household_id = NEW.household_id WHERE task_id = NEW.id;
+  UPDATE task_attachments SET household_id = NEW.household_id WHERE task_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS move_task_contents ON tasks;
+CREATE TRIGGER move_task_contents
+  AFTER UPDATE OF household_id ON tasks
+  FOR EACH ROW
+  WHEN (NEW.household_id IS DISTINCT FROM OLD.household_id)
+  EXECUTE FUNCTION move_task_contents();
+
+-- 3. Photo files stay in the folder of the household they were uploaded to, so members of the
+-- household a task moved to are let in through the attachment row
+DROP POLICY IF EXISTS "Members can view moved task photos" ON storage.objects;
+CREATE POLICY "Members can view moved task photos"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'task-attachments'
+    AND EXISTS (
+      SELECT 1 FROM task_attachments
+      WHERE storage_path = storage.objects.name
+        AND household_id IN (
+          SELECT household_id FROM household_members
+          WHERE user_id = auth.uid() AND is_active = true
+        )
+    )
+  );
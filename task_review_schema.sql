@@ -0,0 +1,140 @@
+-- Task Review Setup
+-- Replaces the boolean tasks.status with a workflow state, so completion can wait for another member's approval:
+--   open -> completed, or open -> pending_review -> completed (approved) / open (sent back with a reason)
+-- The transitions mirror lib/taskState.ts. Run after attachments_schema.sql and member_management_schema.sql.
+
+-- 1. Workflow state and review details
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS state text NOT NULL DEFAULT 'open';
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS requires_review boolean NOT NULL DEFAULT false;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS submitted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS submitted_at timestamp with time zone;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS review_reason text;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS chk_tasks_state;
+ALTER TABLE tasks ADD CONSTRAINT chk_tasks_state CHECK (state IN ('open', 'pending_review', 'completed'));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_household_state ON tasks(household_id, state);
+
+-- Households can require approval for every task
+ALTER TABLE households ADD COLUMN IF NOT EXISTS require_task_review boolean NOT NULL DEFAULT false;
+
+-- 2. Carry over completed tasks, then retire the old flag.
+-- The triggers that read it are replaced below, so drop them first.
+DROP TRIGGER IF EXISTS check_task_proof ON tasks;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'tasks' AND column_name = 'status'
+  ) THEN
+    UPDATE tasks SET state = 'completed' WHERE status = true AND state = 'open';
+    ALTER TABLE tasks DROP COLUMN status;
+  END IF;
+END;
+$$;
+
+-- 3. Review permission: members and admins can review, viewers can't
+INSERT INTO household_role_permissions (role, action) VALUES
+  ('admin', 'review_tasks'),
+  ('member', 'review_tasks')
+ON CONFLICT DO NOTHING;
+
+-- 4. Only the transitions above are allowed. The submitter and reviewer are always the signed-in user,
+-- and nobody reviews their own submission.
+CREATE OR REPLACE FUNCTION check_task_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.state = OLD.state THEN
+    RETURN NEW;
+  END IF;
+
+  IF (OLD.state, NEW.state) NOT IN (
+    ('open', 'completed'),
+    ('open', 'pending_review'),
+    ('pending_review', 'completed'),
+    ('pending_review', 'open'),
+    ('completed', 'open')
+  ) THEN
+    RAISE EXCEPTION 'A task can''t go from % to %', OLD.state, NEW.state USING ERRCODE = '23514';
+  END IF;
+
+  IF OLD.state = 'open' THEN
+    IF NEW.state = 'completed' AND (
+      NEW.requires_review
+      OR (SELECT require_task_review FROM households WHERE id = NEW.household_id)
+    ) THEN
+      RAISE EXCEPTION 'This task needs to be approved before it counts as done' USING ERRCODE = '23514';
+    END IF;
+    NEW.submitted_by = COALESCE(auth.uid(), NEW.submitted_by);
+    NEW.submitted_at = NOW();
+    NEW.reviewed_by = NULL;
+    NEW.review_reason = NULL;
+  ELSIF OLD.state = 'pending_review' THEN
+    NEW.reviewed_by = COALESCE(auth.uid(), NEW.reviewed_by);
+    IF NEW.reviewed_by IS NULL OR NEW.reviewed_by = OLD.submitted_by THEN
+      RAISE EXCEPTION 'Someone else has to review this task' USING ERRCODE = '42501';
+    END IF;
+    IF NOT household_can(NEW.household_id, 'review_tasks') THEN
+      RAISE EXCEPTION 'You can''t review tasks in this household' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.state = 'open' AND length(trim(COALESCE(NEW.review_reason, ''))) = 0 THEN
+      RAISE EXCEPTION 'Give a reason for sending the task back' USING ERRCODE = '23514';
+    END IF;
+    IF NEW.state = 'completed' THEN
+      NEW.review_reason = NULL;
+    END IF;
+  ELSE
+    -- Reopening a completed task starts over
+    NEW.submitted_by = NULL;
+    NEW.submitted_at = NULL;
+    NEW.reviewed_by = NULL;
+    NEW.review_reason = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_task_state ON tasks;
+CREATE TRIGGER check_task_state
+  BEFORE UPDATE OF state ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION check_task_state();
+
+-- 5. Photo proof is needed before a task is submitted or completed
+CREATE OR REPLACE FUNCTION check_task_proof()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.state = 'open' AND NEW.state <> 'open' AND NEW.requires_proof
+    AND NOT EXISTS (SELECT 1 FROM task_attachments WHERE task_id = NEW.id)
+  THEN
+    RAISE EXCEPTION 'Attach a photo before completing this task' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_task_proof
+  BEFORE UPDATE OF state ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION check_task_proof();
+
+-- 6. Departing members keep tasks they've already handed in; only open ones are unassigned
+CREATE OR REPLACE FUNCTION unassign_departed_member_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_active AND NOT NEW.is_active THEN
+    UPDATE tasks SET assignee = NULL
+    WHERE household_id = NEW.household_id AND assignee = NEW.user_id AND state = 'open';
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Task Search Setup
+-- Full-text search over task titles and details, and indexes for paging through long task lists.
+-- Run after saved_views_schema.sql.
+
+-- 1. Search document kept up to date by Postgres. Title words rank above words in the details.
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(details, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search_vector ON tasks USING gin(search_vector);
+
+-- 2. Indexes matching the page order My Tasks scrolls through: soonest due first, or newest first.
+-- The id breaks ties so every task has exactly one place between pages.
+CREATE INDEX IF NOT EXISTS idx_tasks_household_due_page
+  ON tasks(household_id, due_date ASC NULLS LAST, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_household_created_page
+  ON tasks(household_id, created_at DESC, id DESC);